@@ -0,0 +1,324 @@
+/**
+ * Auth0 Provider Adapter unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { Auth0ProviderAdapter } from './auth0-adapter.js';
+import type { Auth0ProviderConfig } from './types.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse, stubProviderFetch } from '../../testUtils/fetch.js';
+import { createTestSigningKey, signTestJwt } from '../../testUtils/jwt.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('Auth0ProviderAdapter', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const signingKey = createTestSigningKey('RS256');
+  const redirectUrl = 'https://app.example.com/callback';
+  const clientId = 'auth0-client-id';
+  const audience = 'https://api.example.com';
+
+  const auth0Metadata = {
+    issuer: 'https://my-tenant.us.auth0.com/',
+    authorization_endpoint: 'https://my-tenant.us.auth0.com/authorize',
+    token_endpoint: 'https://my-tenant.us.auth0.com/oauth/token',
+    userinfo_endpoint: 'https://my-tenant.us.auth0.com/userinfo',
+    jwks_uri: 'https://my-tenant.us.auth0.com/.well-known/jwks.json',
+    grant_types_supported: [
+      'authorization_code',
+      'refresh_token',
+      'client_credentials',
+    ],
+  };
+
+  const stubAuth0 = (tokenResponse: () => Response = () => accessToken()) =>
+    stubProviderFetch(fetchStub, {
+      discovery: {
+        'https://my-tenant.us.auth0.com/.well-known/openid-configuration':
+          auth0Metadata,
+      },
+      keys: [signingKey.jwk],
+      routes: { [auth0Metadata.token_endpoint]: tokenResponse },
+    });
+
+  const accessToken = (body: Record<string, unknown> = {}) =>
+    jsonResponse({
+      access_token: 'auth0-access-token',
+      expires_in: 86400,
+      token_type: 'Bearer',
+      ...body,
+    });
+
+  const signToken = (claims: Record<string, unknown> = {}) => {
+    const now = Math.floor(Date.now() / 1000);
+    return signTestJwt(
+      {
+        iss: auth0Metadata.issuer,
+        sub: 'auth0|user-123',
+        aud: clientId,
+        exp: now + 300,
+        iat: now,
+        ...claims,
+      },
+      signingKey
+    );
+  };
+
+  const createAdapter = async (config: Partial<Auth0ProviderConfig> = {}) => {
+    const adapter = new Auth0ProviderAdapter({
+      clientId,
+      clientSecret: 'client-secret',
+      domain: 'my-tenant.us.auth0.com',
+      ...config,
+    });
+    await adapter.initialize();
+    return adapter;
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('generateAuthUrl', function () {
+    it('should send the configured audience and organization', async function () {
+      stubAuth0();
+      const adapter = await createAdapter({
+        audience,
+        organization: 'org_abc123',
+      });
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(adapter.providerName).to.equal('auth0');
+      expect(adapter.getProviderMetadata()?.issuer).to.equal(
+        auth0Metadata.issuer
+      );
+      expect(url.searchParams.get('audience')).to.equal(audience);
+      expect(url.searchParams.get('organization')).to.equal('org_abc123');
+    });
+  });
+
+  describe('createAuthorizationRequest', function () {
+    it('should accept organization invitations', async function () {
+      stubAuth0();
+      const adapter = await createAdapter({ audience });
+
+      const { url } = await adapter.createAuthorizationRequest({
+        state: 'state-123',
+        redirectUrl,
+        audience: 'https://other-api.example.com',
+        organization: 'org_abc123',
+        invitation: 'inv_xyz789',
+      });
+
+      const params = new URL(url).searchParams;
+      expect(params.get('audience')).to.equal('https://other-api.example.com');
+      expect(params.get('organization')).to.equal('org_abc123');
+      expect(params.get('invitation')).to.equal('inv_xyz789');
+    });
+
+    it('should require an audience for per-request API scopes', async function () {
+      stubAuth0();
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () =>
+          adapter.createAuthorizationRequest({
+            state: 'state-123',
+            redirectUrl,
+            scopes: ['openid', 'read:orders'],
+          }),
+        'invalid_request',
+        'audience is required to request API scopes'
+      );
+
+      const { url } = await adapter.createAuthorizationRequest({
+        state: 'state-123',
+        redirectUrl,
+        scopes: ['openid', 'read:orders'],
+        audience,
+      });
+      expect(new URL(url).searchParams.get('audience')).to.equal(audience);
+    });
+
+    it('should require an organization for invitations', async function () {
+      stubAuth0();
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () =>
+          adapter.createAuthorizationRequest({
+            state: 'state-123',
+            redirectUrl,
+            invitation: 'inv_xyz789',
+          }),
+        'invalid_request',
+        'organization is required'
+      );
+    });
+  });
+
+  describe('exchangeCode', function () {
+    it('should accept ID tokens for the configured organization', async function () {
+      stubAuth0(() =>
+        accessToken({ id_token: signToken({ org_id: 'org_abc123' }) })
+      );
+      const adapter = await createAdapter({ organization: 'org_abc123' });
+
+      const tokens = await adapter.exchangeCode(
+        'code-123',
+        'verifier-123',
+        redirectUrl
+      );
+
+      expect(tokens.idTokenClaims?.org_id).to.equal('org_abc123');
+    });
+
+    it('should reject ID tokens for another organization', async function () {
+      stubAuth0(() =>
+        accessToken({ id_token: signToken({ org_id: 'org_other' }) })
+      );
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () =>
+          adapter.exchangeCode('code-123', 'verifier-123', redirectUrl, {
+            organization: 'org_abc123',
+          }),
+        'invalid_token',
+        'organization does not match'
+      );
+    });
+
+    it('should require a validated ID token for an expected organization', async function () {
+      stubAuth0(() => accessToken({ id_token: 'opaque-id-token' }));
+      const adapter = await createAdapter({
+        organization: 'org_abc123',
+        idTokenValidation: { enabled: false },
+      });
+
+      await expectOAuthError(
+        () => adapter.exchangeCode('code-123', 'verifier-123', redirectUrl),
+        'invalid_token',
+        'validated ID token is required'
+      );
+    });
+  });
+
+  describe('clientCredentials', function () {
+    it('should request the configured audience', async function () {
+      stubAuth0();
+      const adapter = await createAdapter({ audience });
+
+      await adapter.clientCredentials();
+
+      const tokenCall = fetchStub
+        .getCalls()
+        .find(({ args }) => args[0] === auth0Metadata.token_endpoint);
+      const body = new URLSearchParams(tokenCall?.args[1].body);
+      expect(body.get('grant_type')).to.equal('client_credentials');
+      expect(body.get('audience')).to.equal(audience);
+    });
+
+    it('should require an audience', async function () {
+      stubAuth0();
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () => adapter.clientCredentials(),
+        'invalid_request',
+        'require an audience'
+      );
+    });
+
+    it('should map unknown audiences to invalid_target', async function () {
+      stubAuth0(() =>
+        jsonResponse(
+          {
+            error: 'access_denied',
+            error_description: `Service not found: ${audience}`,
+          },
+          403
+        )
+      );
+      const adapter = await createAdapter({ audience });
+
+      await expectOAuthError(
+        () => adapter.clientCredentials(),
+        'invalid_target',
+        'Service not found'
+      );
+    });
+  });
+
+  describe('createAccessTokenVerifier', function () {
+    it('should verify tokens for the configured audience', async function () {
+      stubAuth0();
+      const adapter = await createAdapter({ audience });
+
+      const claims = await adapter
+        .createAccessTokenVerifier()
+        .verify(
+          signToken({ aud: [audience, auth0Metadata.userinfo_endpoint] })
+        );
+
+      expect(claims.aud).to.include(audience);
+    });
+
+    it('should require an audience', async function () {
+      stubAuth0();
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        async () => adapter.createAccessTokenVerifier(),
+        'invalid_request',
+        'audience is required'
+      );
+    });
+  });
+
+  describe('error mapping', function () {
+    it('should map Auth0 error codes', async function () {
+      stubAuth0(() =>
+        jsonResponse(
+          {
+            error: 'mfa_required',
+            error_description: 'Multifactor authentication required',
+            mfa_token: 'mfa-token',
+          },
+          403
+        )
+      );
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () => adapter.refreshToken('refresh-token'),
+        'interaction_required',
+        'Multifactor authentication required'
+      );
+    });
+  });
+
+  describe('Provider Quirks', function () {
+    it('should not support resource indicators', async function () {
+      stubAuth0();
+      const adapter = await createAdapter();
+
+      expect(adapter.getProviderQuirks().supportsResourceIndicators).to.be
+        .false;
+    });
+  });
+});
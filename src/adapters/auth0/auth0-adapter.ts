@@ -0,0 +1,229 @@
+/**
+ * Auth0 Provider Adapter
+ * Extends the OIDC Provider Adapter with Auth0 audiences, organizations and
+ * error mapping
+ */
+
+import type { OAuthError, ProviderQuirks, TokenResponse } from '../../types.js';
+import { OIDCProviderAdapter } from '../oidc-provider/oidc-adapter.js';
+import type { AccessTokenVerifier } from '../oidc-provider/access-token.js';
+import type {
+  AccessTokenVerifierOptions,
+  ClientCredentialsOptions,
+  OIDCAuthUrlResult,
+  OIDCProviderConfig,
+} from '../oidc-provider/types.js';
+import type {
+  Auth0AuthUrlOptions,
+  Auth0ExchangeCodeOptions,
+  Auth0ProviderConfig,
+} from './types.js';
+import { validate as validateConfig } from './config.js';
+import {
+  buildAuth0AuthParameters,
+  buildAuth0Issuer,
+  matchesOrganization,
+  normalizeAuth0Error,
+  requestsApiScopes,
+} from './utils.js';
+
+/**
+ * Auth0 Provider Adapter
+ *
+ * Auth0 selects the API an access token is issued for with the `audience`
+ * parameter; without it, access tokens are only good for `/userinfo`. The
+ * adapter sends the configured audience and organization with authorization
+ * requests, requires an audience wherever API tokens are requested, and
+ * checks the organization claim of ID tokens.
+ */
+export class Auth0ProviderAdapter extends OIDCProviderAdapter {
+  /** Provider name identifier */
+  public readonly providerName: string = 'auth0';
+
+  /** API identifier access tokens are requested for */
+  private readonly audience?: string;
+
+  /** Organization ID or name users log in to */
+  private readonly organization?: string;
+
+  /**
+   * Creates a new Auth0 Provider Adapter instance
+   * @param config - Auth0 provider configuration
+   */
+  public constructor(config: Auth0ProviderConfig) {
+    // Validate the Auth0 settings; OIDC settings are validated by the base class
+    const { domain, audience, organization, customParameters, ...oidcConfig } =
+      validateConfig(config);
+
+    // Configured customParameters take precedence over the derived ones
+    super({
+      ...oidcConfig,
+      issuer: buildAuth0Issuer(domain),
+      customParameters: {
+        ...buildAuth0AuthParameters({ audience, organization }),
+        ...(customParameters as Record<string, string> | undefined),
+      },
+    } as OIDCProviderConfig);
+
+    if (audience !== undefined) {
+      this.audience = audience;
+    }
+    if (organization !== undefined) {
+      this.organization = organization;
+    }
+  }
+
+  /**
+   * Create an authorization request with a per-request audience,
+   * organization or organization invitation
+   * @param options - Per-request state, scopes, OIDC and Auth0 parameters
+   * @returns Authorization URL with the PKCE and nonce values it was built from
+   * @throws {OAuthError} If API scopes are requested without an audience, or
+   * an invitation is given without an organization
+   */
+  public async createAuthorizationRequest(
+    options: Auth0AuthUrlOptions
+  ): Promise<OIDCAuthUrlResult> {
+    const { audience, organization, invitation, ...rest } = options;
+
+    if (
+      !(audience ?? this.audience) &&
+      requestsApiScopes(rest.scopes ?? this.config.scopes)
+    ) {
+      throw this.createStandardError(
+        'invalid_request',
+        'An audience is required to request API scopes; without one Auth0 issues tokens for /userinfo only',
+        { stage: 'createAuthorizationRequest' }
+      );
+    }
+
+    if (invitation && !(organization ?? this.organization)) {
+      throw this.createStandardError(
+        'invalid_request',
+        'An organization is required to accept an invitation',
+        { stage: 'createAuthorizationRequest' }
+      );
+    }
+
+    return super.createAuthorizationRequest({
+      ...rest,
+      additionalParams: {
+        ...buildAuth0AuthParameters({ audience, organization, invitation }),
+        ...rest.additionalParams,
+      },
+    });
+  }
+
+  /**
+   * Exchange authorization code for tokens and check that the ID token was
+   * issued for the expected organization
+   * @param code - Authorization code from callback
+   * @param verifier - PKCE code verifier
+   * @param redirectUrl - Redirect URL used in authorization
+   * @param options - ID token expectations (nonce, max_age, organization)
+   * @returns Token response
+   * @throws {OAuthError} If an organization is expected and there is no
+   * validated ID token, or its organization does not match
+   */
+  public async exchangeCode(
+    code: string,
+    verifier: string,
+    redirectUrl: string,
+    options: Auth0ExchangeCodeOptions = {}
+  ): Promise<TokenResponse> {
+    const { organization = this.organization, ...rest } = options;
+    const tokens = await super.exchangeCode(code, verifier, redirectUrl, rest);
+
+    if (organization === undefined) {
+      return tokens;
+    }
+    if (!tokens.idTokenClaims) {
+      throw this.createStandardError(
+        'invalid_token',
+        `A validated ID token is required to check the organization ${organization}`,
+        { stage: 'exchangeCode' }
+      );
+    }
+    if (!matchesOrganization(tokens.idTokenClaims, organization)) {
+      throw this.createStandardError(
+        'invalid_token',
+        `ID token organization does not match ${organization}`,
+        { stage: 'exchangeCode' }
+      );
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Obtain an access token for the client itself. Auth0 requires an
+   * audience, taken from `audience` or the configured audience.
+   * @param options - Audience and scopes to request
+   * @returns Token response
+   * @throws {OAuthError} If no audience is available
+   */
+  public async clientCredentials(
+    options: ClientCredentialsOptions = {}
+  ): Promise<TokenResponse> {
+    const audience = options.audience ?? this.audience;
+    if (!audience) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Client credentials requests to Auth0 require an audience',
+        { stage: 'clientCredentials' }
+      );
+    }
+
+    return super.clientCredentials({ ...options, audience });
+  }
+
+  /**
+   * Create a verifier for Auth0 access tokens. Only tokens requested with an
+   * audience are JWTs that can be verified, so an audience is required; the
+   * `at+jwt` typ header is only used by the RFC 9068 token profile and is not
+   * required unless requested.
+   * @param options - Expected audience, required scopes and verification settings
+   * @returns Verifier bound to the tenant issuer and JWKS
+   * @throws {OAuthError} If no audience is given or configured
+   */
+  public createAccessTokenVerifier(
+    options: AccessTokenVerifierOptions = {}
+  ): AccessTokenVerifier {
+    const audience = options.audience ?? this.audience;
+    if (!audience) {
+      throw this.createStandardError(
+        'invalid_request',
+        'An audience is required to verify Auth0 access tokens',
+        { stage: 'createAccessTokenVerifier' }
+      );
+    }
+
+    return super.createAccessTokenVerifier({
+      requireTyp: false,
+      ...options,
+      audience,
+    });
+  }
+
+  /**
+   * Normalize errors and map Auth0-specific error codes to OAuth error codes
+   */
+  protected normalizeError(
+    e: unknown,
+    context: { endpoint?: string; issuer?: string }
+  ): OAuthError {
+    return normalizeAuth0Error(super.normalizeError(e, context));
+  }
+
+  /**
+   * Compute provider-specific capabilities and requirements
+   * @returns Provider quirks
+   */
+  protected computeProviderQuirks(): ProviderQuirks {
+    return {
+      ...super.computeProviderQuirks(),
+      // APIs are selected with the audience parameter, not RFC 8707 resources
+      supportsResourceIndicators: false,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Auth0 config validation unit tests
+ */
+
+import { expect } from 'chai';
+import { validate, safeValidate } from './config.js';
+
+describe('Auth0ProviderConfig Validation', function () {
+  it('should apply defaults', function () {
+    const result = validate({
+      clientId: 'client-id',
+      domain: 'my-tenant.us.auth0.com',
+    });
+
+    expect(result.scopes).to.deep.equal(['openid', 'profile', 'email']);
+    expect(result.audience).to.be.undefined;
+  });
+
+  it('should require an audience for API scopes', function () {
+    const result = safeValidate({
+      clientId: 'client-id',
+      domain: 'my-tenant.us.auth0.com',
+      scopes: ['openid', 'read:messages'],
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('audience is required');
+    expect(
+      safeValidate({
+        clientId: 'client-id',
+        domain: 'my-tenant.us.auth0.com',
+        scopes: ['openid', 'read:messages'],
+        audience: 'https://api.example.com',
+      }).success
+    ).to.be.true;
+  });
+
+  it('should reject URLs as domain', function () {
+    expect(
+      safeValidate({
+        clientId: 'client-id',
+        domain: 'https://my-tenant.us.auth0.com/',
+      }).success
+    ).to.be.false;
+  });
+
+  it('should reject issuer and metadata', function () {
+    const result = safeValidate({
+      clientId: 'client-id',
+      domain: 'my-tenant.us.auth0.com',
+      issuer: 'https://my-tenant.us.auth0.com/',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('derived from domain');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Auth0 Provider Configuration Schema and Validation
+ * Validates the Auth0-specific settings; the remaining OIDC settings are
+ * passed through and validated by the OIDC provider schema
+ */
+
+import { z } from 'zod';
+import { AUTH0_CONSTANTS, requestsApiScopes } from './utils.js';
+
+/**
+ * Auth0 Provider Configuration Schema
+ */
+export const Auth0ProviderConfigSchema = z
+  .object({
+    clientId: z.string().min(1, 'clientId is required'),
+    domain: z
+      .string()
+      .regex(
+        AUTH0_CONSTANTS.DOMAIN_PATTERN,
+        'domain must be a host name, e.g. my-tenant.us.auth0.com'
+      ),
+    audience: z.string().min(1, 'audience must not be empty').optional(),
+    organization: z
+      .string()
+      .min(1, 'organization must not be empty')
+      .optional(),
+    scopes: z.array(z.string()).default(['openid', 'profile', 'email']),
+  })
+  .passthrough()
+  .refine((v) => !('issuer' in v) && !('metadata' in v), {
+    message: 'issuer and metadata are derived from domain and cannot be set',
+    path: ['issuer', 'metadata'],
+  })
+  .refine((v) => v.audience !== undefined || !requestsApiScopes(v.scopes), {
+    message:
+      'audience is required to request API scopes; without one Auth0 issues tokens for /userinfo only',
+    path: ['audience'],
+  });
+
+export type Auth0ProviderConfig = z.infer<typeof Auth0ProviderConfigSchema>;
+
+/**
+ * Validate Auth0 provider configuration
+ * @param config - Configuration object to validate
+ * @returns Validated configuration
+ * @throws ZodError with detailed validation messages
+ */
+export function validate(config: unknown): Auth0ProviderConfig {
+  return Auth0ProviderConfigSchema.parse(config);
+}
+
+/**
+ * Safe validation that returns validation result instead of throwing
+ * @param config - Configuration object to validate
+ * @returns Validation result with success/error information
+ */
+export function safeValidate(config: unknown): {
+  success: boolean;
+  data?: Auth0ProviderConfig;
+  error?: z.ZodError;
+} {
+  const result = Auth0ProviderConfigSchema.safeParse(config);
+  if (result.success) {
+    return {
+      success: true,
+      data: result.data,
+    };
+  } else {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Auth0 Provider Adapter exports
+ */
+
+export { Auth0ProviderAdapter } from './auth0-adapter.js';
+export {
+  validate as validateAuth0Config,
+  safeValidate as safeValidateAuth0Config,
+  Auth0ProviderConfigSchema,
+} from './config.js';
+export type {
+  Auth0AuthUrlOptions,
+  Auth0ExchangeCodeOptions,
+  Auth0ProviderConfig,
+} from './types.js';
@@ -0,0 +1,56 @@
+/**
+ * Auth0 Provider Adapter types
+ */
+
+import type {
+  OIDCAuthUrlOptions,
+  OIDCExchangeCodeOptions,
+  OIDCProviderConfig,
+} from '../oidc-provider/types.js';
+
+/**
+ * Auth0 Provider Adapter configuration
+ *
+ * The issuer is derived from `domain`, so `issuer` and `metadata` cannot be
+ * set directly.
+ */
+export interface Auth0ProviderConfig extends Omit<
+  OIDCProviderConfig,
+  'issuer' | 'metadata' | 'scopes'
+> {
+  /** Auth0 tenant or custom domain, e.g. `my-tenant.us.auth0.com` */
+  domain: string;
+  /**
+   * API identifier to request access tokens for, e.g. `https://api.example.com`.
+   * Without an audience Auth0 issues access tokens for `/userinfo` only.
+   * Required when requesting API scopes.
+   */
+  audience?: string;
+  /**
+   * Organization ID (`org_...`) or name users log in to. ID tokens must then
+   * carry the matching `org_id` or `org_name` claim.
+   */
+  organization?: string;
+  /** Scopes to request (default: openid, profile and email) */
+  scopes?: string[];
+}
+
+/**
+ * Per-request options for an Auth0 authorization request
+ */
+export interface Auth0AuthUrlOptions extends OIDCAuthUrlOptions {
+  /** API identifier for this request (overrides config audience) */
+  audience?: string;
+  /** Organization ID or name for this request (overrides config organization) */
+  organization?: string;
+  /** Invitation ID from an organization invitation link; requires an organization */
+  invitation?: string;
+}
+
+/**
+ * Per-request options for an Auth0 authorization code exchange
+ */
+export interface Auth0ExchangeCodeOptions extends OIDCExchangeCodeOptions {
+  /** Organization sent in the authorization request (default: config organization) */
+  organization?: string;
+}
@@ -0,0 +1,95 @@
+/**
+ * Auth0 utilities unit tests
+ */
+
+import { expect } from 'chai';
+import {
+  buildAuth0AuthParameters,
+  buildAuth0Issuer,
+  matchesOrganization,
+  normalizeAuth0Error,
+  requestsApiScopes,
+} from './utils.js';
+
+describe('Auth0 utils', function () {
+  describe('buildAuth0Issuer', function () {
+    it('should build the issuer with a trailing slash', function () {
+      expect(buildAuth0Issuer('my-tenant.us.auth0.com')).to.equal(
+        'https://my-tenant.us.auth0.com/'
+      );
+    });
+  });
+
+  describe('requestsApiScopes', function () {
+    it('should detect scopes beyond the OIDC scopes', function () {
+      expect(requestsApiScopes(['openid', 'profile', 'offline_access'])).to.be
+        .false;
+      expect(requestsApiScopes(['openid', 'read:messages'])).to.be.true;
+    });
+  });
+
+  describe('buildAuth0AuthParameters', function () {
+    it('should include only the given parameters', function () {
+      expect(
+        buildAuth0AuthParameters({
+          audience: 'https://api.example.com',
+          organization: 'org_abc123',
+          invitation: undefined,
+        })
+      ).to.deep.equal({
+        audience: 'https://api.example.com',
+        organization: 'org_abc123',
+      });
+      expect(buildAuth0AuthParameters({})).to.deep.equal({});
+    });
+  });
+
+  describe('matchesOrganization', function () {
+    it('should compare organization IDs with org_id', function () {
+      expect(matchesOrganization({ org_id: 'org_abc123' }, 'org_abc123')).to.be
+        .true;
+      expect(matchesOrganization({ org_id: 'org_other' }, 'org_abc123')).to.be
+        .false;
+    });
+
+    it('should compare organization names with org_name', function () {
+      expect(matchesOrganization({ org_name: 'acme' }, 'Acme')).to.be.true;
+      expect(matchesOrganization({ org_id: 'org_abc123' }, 'acme')).to.be.false;
+    });
+  });
+
+  describe('normalizeAuth0Error', function () {
+    it('should map Auth0 error codes', function () {
+      expect(
+        normalizeAuth0Error({
+          statusCode: 400,
+          error: 'mfa_required',
+          error_description: 'Multifactor authentication required',
+        }).error
+      ).to.equal('interaction_required');
+      expect(
+        normalizeAuth0Error({ statusCode: 400, error: 'too_many_attempts' })
+          .error
+      ).to.equal('access_denied');
+    });
+
+    it('should map unknown audiences to invalid_target', function () {
+      expect(
+        normalizeAuth0Error({
+          statusCode: 400,
+          error: 'access_denied',
+          error_description: 'Service not found: https://api.example.com',
+        }).error
+      ).to.equal('invalid_target');
+    });
+
+    it('should leave standard OAuth errors unchanged', function () {
+      const error = { statusCode: 400, error: 'access_denied' };
+
+      expect(normalizeAuth0Error(error)).to.equal(error);
+      expect(
+        normalizeAuth0Error({ statusCode: 400, error: 'toString' }).error
+      ).to.equal('toString');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Shared utilities for Auth0 Provider Adapter
+ */
+
+import type { OAuthError } from '../../types.js';
+
+/**
+ * Constants for Auth0 domains, scopes and organizations
+ */
+export const AUTH0_CONSTANTS = {
+  DOMAIN_PATTERN: /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/,
+  ORGANIZATION_ID_PREFIX: 'org_',
+  // Scopes Auth0 grants without an audience; any other scope is an API scope
+  OIDC_SCOPES: [
+    'openid',
+    'profile',
+    'email',
+    'address',
+    'phone',
+    'offline_access',
+  ],
+} as const;
+
+/**
+ * Auth0 error codes mapped to OAuth 2.0 / OpenID Connect error codes
+ * (https://auth0.com/docs/api/authentication#standard-error-responses)
+ */
+const AUTH0_ERROR_CODES: Record<string, string> = {
+  invalid_user_password: 'invalid_grant', // wrong username or password
+  mfa_required: 'interaction_required', // multi-factor authentication required
+  mfa_registration_required: 'interaction_required', // MFA enrollment required
+  unauthorized: 'access_denied', // user blocked or rule denied access
+  too_many_attempts: 'access_denied', // account blocked after failed logins
+  password_leaked: 'access_denied', // login blocked by breached password detection
+};
+
+/**
+ * Build the issuer (and discovery base) of an Auth0 tenant. Auth0 issuers
+ * end with a slash.
+ * @param domain - Auth0 tenant or custom domain
+ */
+export function buildAuth0Issuer(domain: string): string {
+  return `https://${domain}/`;
+}
+
+/**
+ * Whether any scope needs an API audience
+ */
+export function requestsApiScopes(scopes: string[]): boolean {
+  const oidcScopes: readonly string[] = AUTH0_CONSTANTS.OIDC_SCOPES;
+  return scopes.some((scope) => !oidcScopes.includes(scope));
+}
+
+/**
+ * Build the Auth0 authorization parameters for an audience, organization and
+ * invitation
+ */
+export function buildAuth0AuthParameters(options: {
+  audience?: string | undefined;
+  organization?: string | undefined;
+  invitation?: string | undefined;
+}): Record<string, string> {
+  return {
+    ...(options.audience && { audience: options.audience }),
+    ...(options.organization && { organization: options.organization }),
+    ...(options.invitation && { invitation: options.invitation }),
+  };
+}
+
+/**
+ * Check the organization claim of an ID token. Organization IDs are compared
+ * with `org_id`; names are compared with `org_name`, which Auth0 lowercases.
+ * @param claims - Validated ID token claims
+ * @param organization - Organization ID or name sent in the authorization request
+ */
+export function matchesOrganization(
+  claims: Record<string, unknown>,
+  organization: string
+): boolean {
+  return organization.startsWith(AUTH0_CONSTANTS.ORGANIZATION_ID_PREFIX)
+    ? claims.org_id === organization
+    : claims.org_name === organization.toLowerCase();
+}
+
+/**
+ * Map Auth0-specific error codes to OAuth error codes. Unknown audiences are
+ * reported by Auth0 as `access_denied` with a "Service not found" description
+ * and are mapped to `invalid_target`.
+ * @param error - Normalized error from an Auth0 response
+ * @returns Error with mapped code; standard OAuth errors are unchanged
+ */
+export function normalizeAuth0Error(error: OAuthError): OAuthError {
+  if (
+    error.error === 'access_denied' &&
+    error.error_description?.startsWith('Service not found')
+  ) {
+    return { ...error, error: 'invalid_target' };
+  }
+
+  const mapped = Object.hasOwn(AUTH0_ERROR_CODES, error.error)
+    ? AUTH0_ERROR_CODES[error.error]
+    : undefined;
+  return mapped ? { ...error, error: mapped } : error;
+}
@@ -0,0 +1,49 @@
+/**
+ * Microsoft Entra ID config validation unit tests
+ */
+
+import { expect } from 'chai';
+import { validate, safeValidate } from './config.js';
+
+describe('EntraProviderConfig Validation', function () {
+  it('should apply the default tenant and scopes', function () {
+    const result = validate({ clientId: 'client-id' });
+
+    expect(result.tenant).to.equal('common');
+    expect(result.scopes).to.deep.equal([
+      'openid',
+      'profile',
+      'email',
+      'offline_access',
+    ]);
+  });
+
+  it('should pass OIDC settings through', function () {
+    const result = validate({
+      clientId: 'client-id',
+      tenant: 'contoso.onmicrosoft.com',
+      pushedAuthorizationRequests: 'disabled',
+    });
+
+    expect(result.pushedAuthorizationRequests).to.equal('disabled');
+  });
+
+  it('should reject issuer and metadata', function () {
+    const result = safeValidate({
+      clientId: 'client-id',
+      issuer: 'https://login.microsoftonline.com/common/v2.0',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('derived from tenant');
+  });
+
+  it('should reject invalid tenants and allowed tenants', function () {
+    expect(safeValidate({ clientId: 'client-id', tenant: 'a/b' }).success).to.be
+      .false;
+    expect(
+      safeValidate({ clientId: 'client-id', allowedTenants: ['contoso.com'] })
+        .success
+    ).to.be.false;
+  });
+});
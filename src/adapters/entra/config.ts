@@ -0,0 +1,88 @@
+/**
+ * Microsoft Entra ID Provider Configuration Schema and Validation
+ * Validates the Entra-specific settings; the remaining OIDC settings are
+ * passed through and validated by the OIDC provider schema
+ */
+
+import { z } from 'zod';
+import { ENTRA_CONSTANTS } from './utils.js';
+
+/**
+ * Microsoft Entra ID Provider Configuration Schema
+ */
+export const EntraProviderConfigSchema = z
+  .object({
+    clientId: z.string().min(1, 'clientId is required'),
+    tenant: z
+      .string()
+      .regex(
+        /^[A-Za-z0-9][A-Za-z0-9.-]*$/,
+        'tenant must be a tenant ID, a domain name, or common, organizations or consumers'
+      )
+      .default(ENTRA_CONSTANTS.DEFAULT_TENANT),
+    authority: z.string().url('Invalid authority URL').optional(),
+    allowedTenants: z
+      .array(
+        z
+          .string()
+          .regex(
+            ENTRA_CONSTANTS.TENANT_ID_PATTERN,
+            'allowedTenants must contain directory (tenant) IDs'
+          )
+      )
+      .min(1, 'At least one allowed tenant is required')
+      .optional(),
+    scopes: z
+      .array(z.string())
+      .default(['openid', 'profile', 'email', 'offline_access']),
+    resource: z
+      .union([
+        z.string().min(1, 'resource must not be empty'),
+        z
+          .array(z.string().min(1, 'resource must not be empty'))
+          .min(1, 'At least one resource is required'),
+      ])
+      .optional(),
+  })
+  .passthrough()
+  .refine((v) => !('issuer' in v) && !('metadata' in v), {
+    message:
+      'issuer and metadata are derived from tenant and authority and cannot be set',
+    path: ['issuer', 'metadata'],
+  });
+
+export type EntraProviderConfig = z.infer<typeof EntraProviderConfigSchema>;
+
+/**
+ * Validate Microsoft Entra ID provider configuration
+ * @param config - Configuration object to validate
+ * @returns Validated configuration
+ * @throws ZodError with detailed validation messages
+ */
+export function validate(config: unknown): EntraProviderConfig {
+  return EntraProviderConfigSchema.parse(config);
+}
+
+/**
+ * Safe validation that returns validation result instead of throwing
+ * @param config - Configuration object to validate
+ * @returns Validation result with success/error information
+ */
+export function safeValidate(config: unknown): {
+  success: boolean;
+  data?: EntraProviderConfig;
+  error?: z.ZodError;
+} {
+  const result = EntraProviderConfigSchema.safeParse(config);
+  if (result.success) {
+    return {
+      success: true,
+      data: result.data,
+    };
+  } else {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+}
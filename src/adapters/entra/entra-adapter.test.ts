@@ -0,0 +1,430 @@
+/**
+ * Microsoft Entra ID Provider Adapter unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { EntraProviderAdapter } from './entra-adapter.js';
+import type { EntraProviderConfig } from './types.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse, stubProviderFetch } from '../../testUtils/fetch.js';
+import { createTestSigningKey, signTestJwt } from '../../testUtils/jwt.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('EntraProviderAdapter', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const signingKey = createTestSigningKey('RS256');
+  const authority = 'https://login.microsoftonline.com';
+  const tenantId = '72f988bf-86f1-41af-91ab-2d7cd011db47';
+  const otherTenantId = '9188040d-6c67-4c5b-b112-36a304b66dad';
+  const redirectUrl = 'https://app.example.com/callback';
+
+  const commonMetadata = {
+    issuer: `${authority}/{tenantid}/v2.0`,
+    authorization_endpoint: `${authority}/common/oauth2/v2.0/authorize`,
+    token_endpoint: `${authority}/common/oauth2/v2.0/token`,
+    jwks_uri: `${authority}/common/discovery/v2.0/keys`,
+    end_session_endpoint: `${authority}/common/oauth2/v2.0/logout`,
+    response_types_supported: ['code', 'id_token', 'code id_token'],
+    id_token_signing_alg_values_supported: ['RS256'],
+  };
+
+  const stubEntra = (
+    options: {
+      metadata?: Record<string, unknown>;
+      token?: Record<string, unknown>;
+      tokenStatus?: number;
+    } = {}
+  ) => {
+    stubProviderFetch(fetchStub, {
+      discovery: Object.fromEntries(
+        ['common', 'contoso.onmicrosoft.com', tenantId].map((tenant) => [
+          `${authority}/${tenant}/v2.0/.well-known/openid-configuration`,
+          { ...commonMetadata, ...options.metadata },
+        ])
+      ),
+      keys: [signingKey.jwk],
+      routes: {
+        [commonMetadata.token_endpoint]: () =>
+          jsonResponse(
+            options.token ?? { access_token: 'entra-access-token' },
+            options.tokenStatus
+          ),
+      },
+    });
+  };
+
+  const createAdapter = (config: Partial<EntraProviderConfig> = {}) =>
+    new EntraProviderAdapter({
+      clientId: 'entra-client-id',
+      clientSecret: 'entra-client-secret',
+      ...config,
+    });
+
+  const signToken = (claims: Record<string, unknown> = {}) => {
+    const now = Math.floor(Date.now() / 1000);
+    return signTestJwt(
+      {
+        iss: `${authority}/${tenantId}/v2.0`,
+        sub: 'user-123',
+        aud: 'entra-client-id',
+        tid: tenantId,
+        ver: '2.0',
+        exp: now + 300,
+        iat: now,
+        ...claims,
+      },
+      signingKey
+    );
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('initialize', function () {
+    it('should accept the tenant-templated issuer of the common metadata', async function () {
+      stubEntra();
+      const adapter = createAdapter();
+
+      await adapter.initialize();
+
+      expect(adapter.providerName).to.equal('entra');
+      expect(adapter.getProviderMetadata()?.issuer).to.equal(
+        `${authority}/{tenantid}/v2.0`
+      );
+      expect(
+        fetchStub.calledWith(
+          `${authority}/common/v2.0/.well-known/openid-configuration`
+        )
+      ).to.be.true;
+    });
+
+    it('should accept the tenant ID issuer of a domain tenant', async function () {
+      stubEntra({ metadata: { issuer: `${authority}/${tenantId}/v2.0` } });
+      const adapter = createAdapter({ tenant: 'contoso.onmicrosoft.com' });
+
+      await adapter.initialize();
+
+      expect(adapter.getProviderMetadata()?.issuer).to.equal(
+        `${authority}/${tenantId}/v2.0`
+      );
+    });
+
+    it('should reject the multi-tenant issuer template for a domain tenant', async function () {
+      stubEntra();
+
+      await expectOAuthError(
+        () => createAdapter({ tenant: 'contoso.onmicrosoft.com' }).initialize(),
+        'invalid_request',
+        'Discovery document issuer mismatch'
+      );
+    });
+
+    it('should require an exact issuer for a tenant ID', async function () {
+      stubEntra({ metadata: { issuer: `${authority}/${otherTenantId}/v2.0` } });
+
+      await expectOAuthError(
+        () => createAdapter({ tenant: tenantId }).initialize(),
+        'invalid_request',
+        'Discovery document issuer mismatch'
+      );
+    });
+
+    it('should reject issuers of another authority', async function () {
+      stubEntra({
+        metadata: { issuer: 'https://login.example.com/{tenantid}/v2.0' },
+      });
+
+      await expectOAuthError(
+        () => createAdapter().initialize(),
+        'invalid_request',
+        'Discovery document issuer mismatch'
+      );
+    });
+  });
+
+  describe('ID token issuer validation', function () {
+    const exchange = (adapter: EntraProviderAdapter) =>
+      adapter.exchangeCode('code-123', 'verifier-123', redirectUrl);
+
+    it('should substitute the token tenant into the templated issuer', async function () {
+      stubEntra({
+        token: { access_token: 'entra-access-token', id_token: signToken() },
+      });
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      const tokens = await exchange(adapter);
+
+      expect(tokens.idTokenClaims?.iss).to.equal(
+        `${authority}/${tenantId}/v2.0`
+      );
+    });
+
+    it('should reject issuers that do not match the tenant', async function () {
+      stubEntra({
+        token: {
+          access_token: 'entra-access-token',
+          id_token: signToken({ tid: otherTenantId }),
+        },
+      });
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => exchange(adapter),
+        'invalid_token',
+        'ID token issuer mismatch'
+      );
+    });
+
+    it('should reject tenants outside allowedTenants', async function () {
+      stubEntra({
+        token: { access_token: 'entra-access-token', id_token: signToken() },
+      });
+      const adapter = createAdapter({ allowedTenants: [otherTenantId] });
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => exchange(adapter),
+        'invalid_token',
+        'ID token issuer mismatch'
+      );
+    });
+
+    it('should accept logout tokens issued for the token tenant', async function () {
+      stubEntra();
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      const claims = await adapter.validateLogoutToken(
+        signToken({
+          jti: 'logout-1',
+          sid: 'session-1',
+          events: { 'http://schemas.openid.net/event/backchannel-logout': {} },
+        })
+      );
+
+      expect(claims.iss).to.equal(`${authority}/${tenantId}/v2.0`);
+    });
+
+    it('should reject resource indicators on code exchange', async function () {
+      stubEntra();
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () =>
+          adapter.exchangeCode('code-123', 'verifier-123', redirectUrl, {
+            resource: 'https://graph.microsoft.com',
+          }),
+        'invalid_target',
+        'selects resources through scopes'
+      );
+    });
+  });
+
+  describe('resources', function () {
+    it('should request configured resources as .default scopes', async function () {
+      stubEntra();
+      const adapter = createAdapter({
+        resource: 'https://graph.microsoft.com',
+      });
+      await adapter.initialize();
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(url.searchParams.get('scope')).to.equal(
+        'openid profile email offline_access https://graph.microsoft.com/.default'
+      );
+      expect(url.searchParams.has('resource')).to.be.false;
+      expect(adapter.getProviderQuirks().supportsResourceIndicators).to.be
+        .false;
+    });
+
+    it('should map per-request resources to scopes', async function () {
+      stubEntra();
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      const { url } = await adapter.createAuthorizationRequest({
+        state: 'state-123',
+        redirectUrl,
+        scopes: ['openid'],
+        resource: 'api://mcp-server',
+      });
+
+      const params = new URL(url).searchParams;
+      expect(params.get('scope')).to.equal('openid api://mcp-server/.default');
+      expect(params.has('resource')).to.be.false;
+    });
+
+    it('should refresh for another resource with its .default scope', async function () {
+      stubEntra();
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      await adapter.refreshToken('refresh-token', {
+        resource: 'api://mcp-server',
+      });
+
+      const body = new URLSearchParams(fetchStub.lastCall.args[1].body);
+      expect(body.get('scope')).to.equal('api://mcp-server/.default');
+      expect(body.has('resource')).to.be.false;
+    });
+
+    it('should request client credentials for the configured resource', async function () {
+      stubEntra({
+        token: { access_token: 'app-token', expires_in: 3600 },
+      });
+      const adapter = createAdapter({
+        resource: 'https://graph.microsoft.com',
+      });
+      await adapter.initialize();
+
+      await adapter.clientCredentials();
+
+      const body = new URLSearchParams(fetchStub.lastCall.args[1].body);
+      expect(body.get('scope')).to.equal(
+        'https://graph.microsoft.com/.default'
+      );
+      expect(body.has('resource')).to.be.false;
+    });
+
+    it('should require a resource for client credentials', async function () {
+      stubEntra();
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => adapter.clientCredentials(),
+        'invalid_scope',
+        'require a resource'
+      );
+    });
+  });
+
+  describe('createAccessTokenVerifier', function () {
+    it('should accept v1.0 access tokens from the security token service', async function () {
+      stubEntra();
+      const adapter = createAdapter({ resource: 'api://mcp-server' });
+      await adapter.initialize();
+      const verifier = adapter.createAccessTokenVerifier();
+
+      const claims = await verifier.verify(
+        signToken({
+          iss: `https://sts.windows.net/${tenantId}/`,
+          aud: 'api://mcp-server',
+          ver: '1.0',
+          scp: 'files.read',
+        })
+      );
+
+      expect(claims.scopes).to.deep.equal(['files.read']);
+      await expectOAuthError(
+        () =>
+          verifier.verify(
+            signToken({
+              iss: `https://sts.windows.net/${tenantId}/`,
+              aud: 'api://mcp-server',
+            })
+          ),
+        'invalid_token',
+        'Access token issuer mismatch'
+      );
+    });
+
+    for (const tenant of [tenantId, 'contoso.onmicrosoft.com']) {
+      it(`should reject v1.0 and v2.0 access tokens from another tenant (${tenant})`, async function () {
+        stubEntra({ metadata: { issuer: `${authority}/${tenantId}/v2.0` } });
+        const adapter = createAdapter({ tenant, resource: 'api://mcp-server' });
+        await adapter.initialize();
+        const verifier = adapter.createAccessTokenVerifier();
+
+        for (const claims of [
+          { iss: `https://sts.windows.net/${otherTenantId}/`, ver: '1.0' },
+          { iss: `${authority}/${otherTenantId}/v2.0` },
+        ]) {
+          await expectOAuthError(
+            () =>
+              verifier.verify(
+                signToken({
+                  ...claims,
+                  tid: otherTenantId,
+                  aud: 'api://mcp-server',
+                })
+              ),
+            'invalid_token',
+            'Access token issuer mismatch'
+          );
+        }
+
+        const verified = await verifier.verify(
+          signToken({
+            iss: `https://sts.windows.net/${tenantId}/`,
+            ver: '1.0',
+            aud: 'api://mcp-server',
+          })
+        );
+        expect(verified.iss).to.equal(`https://sts.windows.net/${tenantId}/`);
+      });
+    }
+  });
+
+  describe('AADSTS error mapping', function () {
+    it('should map token endpoint errors to OAuth error codes', async function () {
+      stubEntra({
+        tokenStatus: 400,
+        token: {
+          error: 'invalid_grant',
+          error_description:
+            'AADSTS70008: The provided authorization code or refresh token has expired due to inactivity.\r\nTrace ID: 0d2b2f0e\r\nCorrelation ID: 5b3c2f1e',
+          error_codes: [70008],
+        },
+      });
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => adapter.refreshToken('refresh-token'),
+        'invalid_grant',
+        'AADSTS70008'
+      );
+    });
+
+    it('should map callback errors that need user interaction', async function () {
+      stubEntra();
+      const adapter = createAdapter({ redirectUri: redirectUrl });
+      await adapter.initialize();
+
+      try {
+        await adapter.handleCallback({
+          error: 'invalid_request',
+          error_description:
+            'AADSTS65001: The user or administrator has not consented to use the application.\r\nTrace ID: 0d2b2f0e',
+          state: 'state-123',
+        });
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.error).to.equal('consent_required');
+        expect(error.error_description).to.equal(
+          'AADSTS65001: The user or administrator has not consented to use the application.'
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Microsoft Entra ID Provider Adapter
+ * Extends the OIDC Provider Adapter with Entra ID tenant handling, `.default`
+ * scopes and AADSTS error mapping
+ */
+
+import type { OAuthError, ProviderQuirks, TokenResponse } from '../../types.js';
+import { OIDCProviderAdapter } from '../oidc-provider/oidc-adapter.js';
+import type { AccessTokenVerifier } from '../oidc-provider/access-token.js';
+import type {
+  AccessTokenVerifierOptions,
+  ClientCredentialsOptions,
+  OIDCAuthUrlOptions,
+  OIDCAuthUrlResult,
+  OIDCExchangeCodeOptions,
+  OIDCProviderConfig,
+  OIDCRefreshTokenOptions,
+} from '../oidc-provider/types.js';
+import type { EntraProviderConfig } from './types.js';
+import { validate as validateConfig } from './config.js';
+import {
+  ENTRA_CONSTANTS,
+  buildEntraIssuer,
+  buildV1Issuer,
+  isMultiTenantAlias,
+  isTenantId,
+  normalizeEntraError,
+  parseEntraIssuerTenant,
+  resolveTenantIssuer,
+  withResourceScopes,
+} from './utils.js';
+
+/**
+ * Microsoft Entra ID Provider Adapter
+ *
+ * Entra ID publishes `https://login.microsoftonline.com/{tenantid}/v2.0` as
+ * the issuer of the `common` and `organizations` metadata; token issuers are
+ * checked against it with the token's `tid` claim substituted. The v2.0
+ * endpoints select resources through scopes rather than the `resource`
+ * parameter, so resources are requested as `<resource>/.default` scopes.
+ */
+export class EntraProviderAdapter extends OIDCProviderAdapter {
+  /** Provider name identifier */
+  public readonly providerName: string = 'entra';
+
+  /** Tenant ID, domain, or common/organizations/consumers */
+  private readonly tenant: string;
+
+  /** Cloud instance */
+  private readonly authority: string;
+
+  /** Tenant IDs allowed to sign in (unset when any tenant is allowed) */
+  private readonly allowedTenants?: ReadonlySet<string>;
+
+  /** Configured resources, requested as `.default` scopes */
+  private readonly resources: string[];
+
+  /**
+   * Creates a new Microsoft Entra ID Provider Adapter instance
+   * @param config - Entra ID provider configuration
+   */
+  public constructor(config: EntraProviderConfig) {
+    // Validate the Entra settings; OIDC settings are validated by the base class
+    const {
+      tenant,
+      authority = ENTRA_CONSTANTS.DEFAULT_AUTHORITY,
+      allowedTenants,
+      resource,
+      scopes,
+      ...oidcConfig
+    } = validateConfig(config);
+
+    super({
+      ...oidcConfig,
+      issuer: buildEntraIssuer(authority, tenant),
+      scopes: withResourceScopes(scopes, resource),
+    } as OIDCProviderConfig);
+
+    this.tenant = tenant;
+    this.authority = authority;
+    this.resources = resource === undefined ? [] : [resource].flat();
+    if (allowedTenants) {
+      this.allowedTenants = new Set(
+        allowedTenants.map((tenantId) => tenantId.toLowerCase())
+      );
+    }
+  }
+
+  /**
+   * Create an authorization request; `resource` options are requested as
+   * `.default` scopes
+   * @param options - Per-request state, scopes, OIDC parameters and PKCE verifier
+   * @returns Authorization URL with the PKCE and nonce values it was built from
+   */
+  public async createAuthorizationRequest(
+    options: OIDCAuthUrlOptions
+  ): Promise<OIDCAuthUrlResult> {
+    const { resource, ...rest } = options;
+    if (resource === undefined) {
+      return super.createAuthorizationRequest(rest);
+    }
+
+    return super.createAuthorizationRequest({
+      ...rest,
+      scopes: withResourceScopes(rest.scopes ?? this.config.scopes, resource),
+    });
+  }
+
+  /**
+   * Exchange authorization code for tokens. The resource is fixed by the
+   * scopes of the authorization request, so `resource` is not accepted.
+   * @param code - Authorization code from callback
+   * @param verifier - PKCE code verifier
+   * @param redirectUrl - Redirect URL used in authorization
+   * @param options - ID token expectations (nonce, max_age)
+   * @returns Token response
+   */
+  public async exchangeCode(
+    code: string,
+    verifier: string,
+    redirectUrl: string,
+    options: OIDCExchangeCodeOptions = {}
+  ): Promise<TokenResponse> {
+    if (options.resource !== undefined) {
+      throw this.createStandardError(
+        'invalid_target',
+        'Entra ID selects resources through scopes; pass resource when creating the authorization request',
+        { stage: 'exchangeCode' }
+      );
+    }
+
+    return super.exchangeCode(code, verifier, redirectUrl, options);
+  }
+
+  /**
+   * Refresh access token; `resource` options are requested as `.default`
+   * scopes, e.g. to obtain a token for another API
+   * @param refreshToken - Refresh token
+   * @param options - Resources and scopes for the refreshed token
+   * @returns New token response
+   */
+  public async refreshToken(
+    refreshToken: string,
+    options: OIDCRefreshTokenOptions = {}
+  ): Promise<TokenResponse> {
+    const scopes = withResourceScopes(options.scopes ?? [], options.resource);
+
+    return super.refreshToken(
+      refreshToken,
+      scopes.length > 0 ? { scopes } : {}
+    );
+  }
+
+  /**
+   * Obtain an access token for the client itself. Entra ID requires a
+   * `.default` scope, derived from `resource`, `audience` or the configured
+   * resources when no scopes are given.
+   * @param options - Scopes or resource to request
+   * @returns Token response
+   */
+  public async clientCredentials(
+    options: ClientCredentialsOptions = {}
+  ): Promise<TokenResponse> {
+    const { resource, audience, scopes, ...rest } = options;
+    const requested = withResourceScopes(
+      scopes ?? [],
+      resource ?? audience ?? (scopes ? undefined : this.resources)
+    );
+
+    if (requested.length === 0) {
+      throw this.createStandardError(
+        'invalid_scope',
+        'Client credentials requests to Entra ID require a resource or a .default scope',
+        { stage: 'clientCredentials' }
+      );
+    }
+
+    return super.clientCredentials({ ...rest, scopes: requested });
+  }
+
+  /**
+   * Create a verifier for Entra ID access tokens. Entra ID does not use the
+   * `at+jwt` typ header, so it is not required unless requested, and the
+   * audience defaults to the configured resources.
+   * @param options - Expected audience, required scopes and verification settings
+   * @returns Verifier bound to the provider issuer and JWKS
+   */
+  public createAccessTokenVerifier(
+    options: AccessTokenVerifierOptions = {}
+  ): AccessTokenVerifier {
+    const audience =
+      options.audience ??
+      (this.resources.length > 0 ? this.resources : undefined);
+
+    return super.createAccessTokenVerifier({
+      requireTyp: false,
+      ...options,
+      ...(audience && { audience }),
+    });
+  }
+
+  /**
+   * Accept the issuer Entra ID publishes for the configured tenant: the
+   * `{tenantid}` template (or, for `consumers`, the fixed personal account
+   * tenant) for multi-tenant aliases, and the resolved tenant ID for a domain
+   * tenant. The tenant ID in the discovered issuer then pins token checks.
+   */
+  protected matchesDiscoveredIssuer(
+    discovered: string,
+    configured: string
+  ): boolean {
+    if (discovered === configured) {
+      return true;
+    }
+    const tenant = parseEntraIssuerTenant(discovered, this.authority);
+    if (isMultiTenantAlias(this.tenant)) {
+      return tenant !== undefined;
+    }
+    return !isTenantId(this.tenant) && isTenantId(tenant);
+  }
+
+  /**
+   * Check a token issuer against the metadata issuer with the token's `tid`
+   * substituted, and the tenant against `allowedTenants`. Unless the metadata
+   * issuer is the multi-tenant `{tenantid}` template, `tid` must be its
+   * tenant. v1.0 access tokens (`ver` 1.0) are issued by the v1.0 security
+   * token service instead.
+   */
+  protected matchesTokenIssuer(
+    issuer: string,
+    claims: Record<string, unknown>
+  ): boolean {
+    const tenantId = claims.tid;
+    if (!isTenantId(tenantId)) {
+      return false;
+    }
+
+    if (
+      this.allowedTenants &&
+      !this.allowedTenants.has(tenantId.toLowerCase())
+    ) {
+      this.logger.warn('Token issued by a tenant that is not allowed', {
+        stage: 'validateIssuer',
+        tenantId,
+      });
+      return false;
+    }
+
+    const metadataIssuer = this.getProviderMetadata()?.issuer;
+    const issuerTenant =
+      metadataIssuer && parseEntraIssuerTenant(metadataIssuer, this.authority);
+    if (!metadataIssuer || !issuerTenant) {
+      return false;
+    }
+    if (
+      issuerTenant !== ENTRA_CONSTANTS.TENANT_ID_PLACEHOLDER &&
+      issuerTenant.toLowerCase() !== tenantId.toLowerCase()
+    ) {
+      this.logger.warn('Token issued by another tenant', {
+        stage: 'validateIssuer',
+        tenantId,
+        expectedTenantId: issuerTenant,
+      });
+      return false;
+    }
+
+    if (issuer === resolveTenantIssuer(metadataIssuer, tenantId)) {
+      return true;
+    }
+    return (
+      claims.ver === '1.0' && issuer === buildV1Issuer(this.authority, tenantId)
+    );
+  }
+
+  /**
+   * Normalize errors and map AADSTS codes in Entra ID error descriptions to
+   * OAuth error codes
+   */
+  protected normalizeError(
+    e: unknown,
+    context: { endpoint?: string; issuer?: string }
+  ): OAuthError {
+    return normalizeEntraError(super.normalizeError(e, context));
+  }
+
+  /**
+   * Compute provider-specific capabilities and requirements
+   * @returns Provider quirks
+   */
+  protected computeProviderQuirks(): ProviderQuirks {
+    return {
+      ...super.computeProviderQuirks(),
+      // Resources are requested as .default scopes, not RFC 8707 parameters
+      supportsResourceIndicators: false,
+    };
+  }
+}
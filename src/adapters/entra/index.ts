@@ -0,0 +1,11 @@
+/**
+ * Microsoft Entra ID Provider Adapter exports
+ */
+
+export { EntraProviderAdapter } from './entra-adapter.js';
+export {
+  validate as validateEntraConfig,
+  safeValidate as safeValidateEntraConfig,
+  EntraProviderConfigSchema,
+} from './config.js';
+export type { EntraProviderConfig } from './types.js';
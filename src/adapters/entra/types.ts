@@ -0,0 +1,40 @@
+/**
+ * Microsoft Entra ID Provider Adapter types
+ */
+
+import type { OIDCProviderConfig } from '../oidc-provider/types.js';
+
+/**
+ * Microsoft Entra ID Provider Adapter configuration
+ *
+ * The issuer is derived from `authority` and `tenant`, so `issuer` and
+ * `metadata` cannot be set directly.
+ */
+export interface EntraProviderConfig extends Omit<
+  OIDCProviderConfig,
+  'issuer' | 'metadata' | 'resource' | 'scopes'
+> {
+  /** Scopes to request (default: openid, profile, email and offline_access) */
+  scopes?: string[];
+  /**
+   * Tenant the application signs users in from (default: `common`):
+   * - a directory (tenant) ID or verified domain for single-tenant applications
+   * - `organizations` for work and school accounts from any tenant
+   * - `consumers` for personal Microsoft accounts only
+   * - `common` for both work and school and personal accounts
+   */
+  tenant?: string;
+  /** Cloud instance (default: https://login.microsoftonline.com) */
+  authority?: string;
+  /**
+   * Directory (tenant) IDs allowed to sign in; tokens from other tenants are
+   * rejected. Intended for multi-tenant applications.
+   */
+  allowedTenants?: string[];
+  /**
+   * Resource(s) to request access for, e.g. `https://graph.microsoft.com` or
+   * `api://<application-id>`. The v2.0 endpoints do not accept the `resource`
+   * parameter, so each resource is requested as its `/.default` scope.
+   */
+  resource?: string | string[];
+}
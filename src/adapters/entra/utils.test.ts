@@ -0,0 +1,127 @@
+/**
+ * Microsoft Entra ID utilities unit tests
+ */
+
+import { expect } from 'chai';
+import {
+  buildEntraIssuer,
+  buildV1Issuer,
+  normalizeEntraError,
+  parseAadstsCode,
+  parseEntraIssuerTenant,
+  resolveTenantIssuer,
+  withResourceScopes,
+} from './utils.js';
+
+describe('Entra utils', function () {
+  const authority = 'https://login.microsoftonline.com';
+  const tenantId = '72f988bf-86f1-41af-91ab-2d7cd011db47';
+
+  describe('issuers', function () {
+    it('should build v2.0 issuers for tenants', function () {
+      expect(buildEntraIssuer(`${authority}/`, 'organizations')).to.equal(
+        'https://login.microsoftonline.com/organizations/v2.0'
+      );
+    });
+
+    it('should parse templated and tenant ID issuers of the authority', function () {
+      expect(
+        parseEntraIssuerTenant(`${authority}/{tenantid}/v2.0`, authority)
+      ).to.equal('{tenantid}');
+      expect(
+        parseEntraIssuerTenant(`${authority}/${tenantId}/v2.0`, authority)
+      ).to.equal(tenantId);
+      expect(parseEntraIssuerTenant(`${authority}/common/v2.0`, authority)).to
+        .be.undefined;
+      expect(
+        parseEntraIssuerTenant(
+          `https://login.example.com/${tenantId}/v2.0`,
+          authority
+        )
+      ).to.be.undefined;
+    });
+
+    it('should substitute the tenant ID into templated issuers', function () {
+      expect(
+        resolveTenantIssuer(`${authority}/{tenantid}/v2.0`, tenantId)
+      ).to.equal(`${authority}/${tenantId}/v2.0`);
+    });
+
+    it('should derive v1.0 issuers for known clouds only', function () {
+      expect(buildV1Issuer(authority, tenantId)).to.equal(
+        `https://sts.windows.net/${tenantId}/`
+      );
+      expect(buildV1Issuer('https://login.example.com', tenantId)).to.be
+        .undefined;
+    });
+  });
+
+  describe('withResourceScopes', function () {
+    it('should append .default scopes without duplicates', function () {
+      expect(
+        withResourceScopes(
+          ['openid', 'https://graph.microsoft.com/.default'],
+          ['https://graph.microsoft.com', 'https://management.azure.com/']
+        )
+      ).to.deep.equal([
+        'openid',
+        'https://graph.microsoft.com/.default',
+        'https://management.azure.com//.default',
+      ]);
+      expect(withResourceScopes(['openid'], undefined)).to.deep.equal([
+        'openid',
+      ]);
+    });
+  });
+
+  describe('AADSTS errors', function () {
+    const description =
+      'AADSTS50076: Due to a configuration change made by your administrator, you must use multi-factor authentication.\r\n' +
+      'Trace ID: 0d2b2f0e-1b1c-4a4b-9e6e-2f6a0b5a3300\r\n' +
+      'Correlation ID: 5b3c2f1e-7d8a-4c9b-a1e2-3f4d5c6b7a80\r\n' +
+      'Timestamp: 2024-05-01 10:00:00Z';
+
+    it('should read AADSTS codes', function () {
+      expect(parseAadstsCode(description)).to.equal('50076');
+      expect(parseAadstsCode('Invalid request')).to.be.undefined;
+      expect(parseAadstsCode(undefined)).to.be.undefined;
+    });
+
+    it('should map known codes and trim trace details', function () {
+      expect(
+        normalizeEntraError({
+          statusCode: 400,
+          error: 'invalid_grant',
+          error_description: description,
+          endpoint: 'token_endpoint',
+        })
+      ).to.deep.equal({
+        statusCode: 400,
+        error: 'interaction_required',
+        error_description:
+          'AADSTS50076: Due to a configuration change made by your administrator, you must use multi-factor authentication.',
+        endpoint: 'token_endpoint',
+      });
+    });
+
+    it('should keep the error code for unknown AADSTS codes', function () {
+      expect(
+        normalizeEntraError({
+          statusCode: 400,
+          error: 'invalid_request',
+          error_description: 'AADSTS123456: Something new.',
+        }).error
+      ).to.equal('invalid_request');
+    });
+
+    it('should leave errors without AADSTS codes unchanged', function () {
+      const error = {
+        statusCode: 400,
+        error: 'invalid_request',
+        error_description: 'Adapter must be initialized',
+      };
+
+      expect(normalizeEntraError(error)).to.equal(error);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Shared utilities for Microsoft Entra ID Provider Adapter
+ */
+
+import type { OAuthError } from '../../types.js';
+
+/**
+ * Constants for Entra ID authorities, tenants and issuers
+ */
+export const ENTRA_CONSTANTS = {
+  DEFAULT_AUTHORITY: 'https://login.microsoftonline.com',
+  DEFAULT_TENANT: 'common',
+  TENANT_ID_PLACEHOLDER: '{tenantid}', // issuer of the common/organizations metadata
+  MULTI_TENANT_ALIASES: ['common', 'organizations', 'consumers'],
+  TENANT_ID_PATTERN:
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+} as const;
+
+/**
+ * Issuer hosts of v1.0 tokens by authority host. v1.0 access tokens are issued
+ * by the security token service even when requested from the v2.0 endpoints.
+ */
+const V1_ISSUER_ORIGINS: Record<string, string> = {
+  'login.microsoftonline.com': 'https://sts.windows.net',
+  'login.chinacloudapi.cn': 'https://sts.chinacloudapi.cn',
+};
+
+/**
+ * AADSTS error codes mapped to OAuth 2.0 / OpenID Connect error codes
+ * (https://learn.microsoft.com/en-us/entra/identity-platform/reference-error-codes)
+ */
+const AADSTS_ERROR_CODES: Record<string, string> = {
+  // Expired, redeemed or revoked grants
+  '50089': 'invalid_grant', // flow token expired
+  '50126': 'invalid_grant', // invalid username or password
+  '50173': 'invalid_grant', // grant revoked, e.g. by a password reset
+  '54005': 'invalid_grant', // authorization code already redeemed
+  '70008': 'invalid_grant', // authorization code or refresh token expired
+  '70043': 'invalid_grant', // refresh token expired by sign-in frequency policy
+  '700082': 'invalid_grant', // refresh token expired due to inactivity
+  // Client authentication
+  '700016': 'unauthorized_client', // application not found in the tenant
+  '700027': 'invalid_client', // client assertion signature invalid
+  '7000215': 'invalid_client', // invalid client secret
+  '7000222': 'invalid_client', // client secret expired
+  // User interaction required
+  '50058': 'login_required', // silent sign-in without a signed-in user
+  '50076': 'interaction_required', // multi-factor authentication required
+  '50079': 'interaction_required', // multi-factor registration required
+  '50158': 'interaction_required', // external security challenge
+  '65001': 'consent_required', // consent not granted
+  // Access policies
+  '50020': 'access_denied', // user account not in the tenant
+  '50105': 'access_denied', // user not assigned to the application
+  '53003': 'access_denied', // blocked by Conditional Access
+  '65004': 'access_denied', // user declined consent
+  // Scopes, resources and tenants
+  '70011': 'invalid_scope', // invalid scope
+  '500011': 'invalid_target', // resource not found in the tenant
+  '90002': 'invalid_request', // tenant not found
+};
+
+/**
+ * Build the v2.0 issuer (and discovery base) for a tenant
+ * @param authority - Cloud instance, e.g. https://login.microsoftonline.com
+ * @param tenant - Tenant ID, domain, or common/organizations/consumers
+ */
+export function buildEntraIssuer(authority: string, tenant: string): string {
+  return `${trimTrailingSlashes(authority)}/${tenant}/v2.0`;
+}
+
+/**
+ * Whether a value is a directory (tenant) ID
+ */
+export function isTenantId(value: unknown): value is string {
+  return (
+    typeof value === 'string' && ENTRA_CONSTANTS.TENANT_ID_PATTERN.test(value)
+  );
+}
+
+/**
+ * Whether a configured tenant signs in users from more than one tenant
+ * (`common`, `organizations` or `consumers`)
+ */
+export function isMultiTenantAlias(tenant: string): boolean {
+  return (ENTRA_CONSTANTS.MULTI_TENANT_ALIASES as readonly string[]).includes(
+    tenant.toLowerCase()
+  );
+}
+
+/**
+ * Read the tenant of a v2.0 issuer published for an authority
+ * @returns The tenant ID or `{tenantid}` placeholder, or undefined when the
+ * issuer does not belong to the authority
+ */
+export function parseEntraIssuerTenant(
+  issuer: string,
+  authority: string
+): string | undefined {
+  const prefix = `${trimTrailingSlashes(authority)}/`;
+  const suffix = '/v2.0';
+  if (!issuer.startsWith(prefix) || !issuer.endsWith(suffix)) {
+    return undefined;
+  }
+  const tenant = issuer.slice(prefix.length, -suffix.length);
+  return tenant === ENTRA_CONSTANTS.TENANT_ID_PLACEHOLDER || isTenantId(tenant)
+    ? tenant
+    : undefined;
+}
+
+/**
+ * Substitute a token's tenant ID into a templated issuer
+ * @param issuer - Issuer from provider metadata, possibly containing `{tenantid}`
+ * @param tenantId - `tid` claim of the token
+ */
+export function resolveTenantIssuer(issuer: string, tenantId: string): string {
+  return issuer.replace(ENTRA_CONSTANTS.TENANT_ID_PLACEHOLDER, tenantId);
+}
+
+/**
+ * Issuer of v1.0 tokens for a tenant, e.g. `https://sts.windows.net/<tid>/`
+ * @returns The issuer, or undefined for authorities without a known v1.0 issuer
+ */
+export function buildV1Issuer(
+  authority: string,
+  tenantId: string
+): string | undefined {
+  const origin = V1_ISSUER_ORIGINS[new URL(authority).host];
+  return origin && `${origin}/${tenantId}/`;
+}
+
+/**
+ * Scope that requests all statically configured permissions of a resource.
+ * The suffix is appended as-is, so `https://management.azure.com/` becomes
+ * `https://management.azure.com//.default` as Entra ID expects.
+ */
+export function toDefaultScope(resource: string): string {
+  return `${resource}/.default`;
+}
+
+/**
+ * Add the `/.default` scope of each resource to a scope list
+ * @param scopes - Requested scopes
+ * @param resource - Resource(s) to request access for
+ * @returns Scopes without duplicates
+ */
+export function withResourceScopes(
+  scopes: string[],
+  resource: string | string[] | undefined
+): string[] {
+  const resources =
+    resource === undefined
+      ? []
+      : Array.isArray(resource)
+        ? resource
+        : [resource];
+  return [...new Set([...scopes, ...resources.map(toDefaultScope)])];
+}
+
+/**
+ * Read the AADSTS code from an Entra ID error description
+ * (`AADSTS70008: The provided authorization code ...`)
+ * @returns Numeric code as a string, or undefined when absent
+ */
+export function parseAadstsCode(
+  description: string | undefined
+): string | undefined {
+  return description?.match(/\bAADSTS(\d+)\b/)?.[1];
+}
+
+/**
+ * Map an Entra ID error to the OAuth error code matching its AADSTS code and
+ * drop the trace and correlation IDs Entra ID appends to descriptions
+ * @param error - Normalized error from an Entra ID response
+ * @returns Error with mapped code; errors without an AADSTS code are unchanged
+ */
+export function normalizeEntraError(error: OAuthError): OAuthError {
+  const code = parseAadstsCode(error.error_description);
+  if (!code) {
+    return error;
+  }
+
+  return {
+    ...error,
+    error: AADSTS_ERROR_CODES[code] ?? error.error,
+    error_description: error.error_description!.split(/\r?\n/)[0]!.trim(),
+  };
+}
+
+/**
+ * Remove trailing slashes from a URL
+ */
+function trimTrailingSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
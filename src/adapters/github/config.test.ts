@@ -0,0 +1,50 @@
+/**
+ * GitHub config validation unit tests
+ */
+
+import { expect } from 'chai';
+import { validate, safeValidate } from './config.js';
+
+describe('GitHubProviderConfig Validation', function () {
+  it('should apply default scopes', function () {
+    const result = validate({ clientId: 'Iv1.abc', clientSecret: 'secret' });
+
+    expect(result.scopes).to.deep.equal(['read:user', 'user:email']);
+  });
+
+  it('should accept Enterprise Server and GitHub App settings', function () {
+    const config = {
+      clientId: 'Iv1.abc',
+      clientSecret: 'secret',
+      baseUrl: 'https://github.example.com',
+      appType: 'github-app' as const,
+      scopes: [],
+    };
+
+    expect(validate(config)).to.deep.equal(config);
+  });
+
+  it('should require clientSecret', function () {
+    const result = safeValidate({ clientId: 'Iv1.abc' });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.path).to.deep.equal(['clientSecret']);
+  });
+
+  it('should reject invalid URLs and app types', function () {
+    expect(
+      safeValidate({
+        clientId: 'Iv1.abc',
+        clientSecret: 'secret',
+        baseUrl: 'not-a-url',
+      }).success
+    ).to.be.false;
+    expect(
+      safeValidate({
+        clientId: 'Iv1.abc',
+        clientSecret: 'secret',
+        appType: 'saml-app',
+      }).success
+    ).to.be.false;
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * GitHub Provider Configuration Schema and Validation
+ * Provides Zod-based validation for GitHub OAuth App and GitHub App configurations
+ */
+
+import { z } from 'zod';
+
+/**
+ * GitHub Provider Configuration Schema
+ */
+export const GitHubProviderConfigSchema = z.object({
+  clientId: z.string().min(1, 'clientId is required'),
+  clientSecret: z.string().min(1, 'clientSecret is required'),
+  baseUrl: z.string().url('Invalid GitHub base URL').optional(),
+  apiUrl: z.string().url('Invalid GitHub API URL').optional(),
+  appType: z.enum(['oauth-app', 'github-app']).optional(),
+  scopes: z.array(z.string()).default(['read:user', 'user:email']),
+  customParameters: z.record(z.string(), z.string()).optional(),
+  redirectUri: z.string().url('Invalid redirect URI').optional(),
+  storageHook: z.any().optional(), // PKCEStorageHook interface - using any for simplicity
+  pkceStateExpirationSeconds: z
+    .number()
+    .int()
+    .positive('PKCE state expiration must be a positive integer')
+    .optional(),
+});
+
+export type GitHubProviderConfig = z.infer<typeof GitHubProviderConfigSchema>;
+
+/**
+ * Validate GitHub provider configuration
+ * @param config - Configuration object to validate
+ * @returns Validated configuration
+ * @throws ZodError with detailed validation messages
+ */
+export function validate(config: unknown): GitHubProviderConfig {
+  return GitHubProviderConfigSchema.parse(config);
+}
+
+/**
+ * Safe validation that returns validation result instead of throwing
+ * @param config - Configuration object to validate
+ * @returns Validation result with success/error information
+ */
+export function safeValidate(config: unknown): {
+  success: boolean;
+  data?: GitHubProviderConfig;
+  error?: z.ZodError;
+} {
+  const result = GitHubProviderConfigSchema.safeParse(config);
+  if (result.success) {
+    return {
+      success: true,
+      data: result.data,
+    };
+  } else {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+}
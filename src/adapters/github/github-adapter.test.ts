@@ -0,0 +1,258 @@
+/**
+ * GitHub Provider Adapter unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { GitHubProviderAdapter } from './github-adapter.js';
+import type { GitHubProviderConfig } from './types.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('GitHubProviderAdapter', function () {
+  let restoreStubs: () => void;
+
+  const redirectUrl = 'https://app.example.com/callback';
+
+  const createAdapter = (config: Partial<GitHubProviderConfig> = {}) =>
+    new GitHubProviderAdapter({
+      clientId: 'Iv1.client',
+      clientSecret: 'client-secret',
+      scopes: ['read:user', 'user:email'],
+      ...config,
+    });
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('generateAuthUrl', function () {
+    it('should build a github.com authorization URL with PKCE S256', async function () {
+      const adapter = createAdapter({
+        customParameters: { allow_signup: 'false' },
+      });
+      await adapter.initialize();
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(`${url.origin}${url.pathname}`).to.equal(
+        'https://github.com/login/oauth/authorize'
+      );
+      expect(url.searchParams.get('client_id')).to.equal('Iv1.client');
+      expect(url.searchParams.get('scope')).to.equal('read:user user:email');
+      expect(url.searchParams.get('state')).to.equal('state-123');
+      expect(url.searchParams.get('code_challenge_method')).to.equal('S256');
+      expect(url.searchParams.get('code_challenge')).to.match(
+        /^[A-Za-z0-9_-]{43}$/
+      );
+      expect(url.searchParams.get('allow_signup')).to.equal('false');
+    });
+
+    it('should use the Enterprise Server base URL', async function () {
+      const adapter = createAdapter({ baseUrl: 'https://github.example.com' });
+      await adapter.initialize();
+
+      const url = await adapter.generateAuthUrl('state-123', redirectUrl);
+
+      expect(url).to.match(
+        /^https:\/\/github\.example\.com\/login\/oauth\/authorize\?/
+      );
+      expect(adapter.getEndpoints().api).to.equal(
+        'https://github.example.com/api/v3'
+      );
+    });
+
+    it('should require initialization', async function () {
+      await expectOAuthError(
+        () => createAdapter().generateAuthUrl('state-123', redirectUrl),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('handleCallback', function () {
+    it('should exchange the code with the stored verifier once', async function () {
+      const fetchStub = sinon
+        .stub(global, 'fetch')
+        .callsFake(async () => jsonResponse({ access_token: 'gho_token' }));
+      const adapter = createAdapter({ redirectUri: redirectUrl });
+      await adapter.initialize();
+      await adapter.generateAuthUrl('state-123', redirectUrl);
+
+      const tokens = await adapter.handleCallback({
+        code: 'code-123',
+        state: 'state-123',
+      });
+
+      expect(tokens.accessToken).to.equal('gho_token');
+      const body = new URLSearchParams(
+        fetchStub.firstCall.args[1]!.body as string
+      );
+      expect(body.get('code_verifier')).to.match(/^[A-Za-z0-9_-]{43,128}$/);
+
+      await expectOAuthError(
+        () => adapter.handleCallback({ code: 'code-123', state: 'state-123' }),
+        'invalid_request',
+        'Unknown or expired authorization state'
+      );
+    });
+
+    it('should surface callback errors', async function () {
+      const adapter = createAdapter({ redirectUri: redirectUrl });
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () =>
+          adapter.handleCallback({
+            error: 'access_denied',
+            error_description: 'The user has denied your application access.',
+            state: 'state-123',
+          }),
+        'access_denied',
+        'denied your application access'
+      );
+      await expectOAuthError(
+        () => adapter.handleCallback({ state: 'state-123' }),
+        'invalid_request',
+        'Missing code parameter'
+      );
+    });
+  });
+
+  describe('refreshToken', function () {
+    it('should reject refresh for OAuth Apps', async function () {
+      const fetchStub = sinon.stub(global, 'fetch');
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => adapter.refreshToken('ghr_token'),
+        'unsupported_grant_type',
+        'cannot be refreshed'
+      );
+      expect(fetchStub.called).to.be.false;
+    });
+
+    it('should refresh GitHub App user tokens', async function () {
+      sinon.stub(global, 'fetch').resolves(
+        jsonResponse({
+          access_token: 'ghu_new',
+          refresh_token: 'ghr_new',
+          expires_in: 28800,
+          refresh_token_expires_in: 15811200,
+        })
+      );
+      const adapter = createAdapter({ appType: 'github-app' });
+      await adapter.initialize();
+
+      const tokens = await adapter.refreshToken('ghr_old');
+
+      expect(tokens).to.include({
+        accessToken: 'ghu_new',
+        refreshToken: 'ghr_new',
+        refreshTokenExpiresIn: 15811200,
+      });
+    });
+  });
+
+  describe('revokeToken', function () {
+    it('should reject refresh token revocation', async function () {
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => adapter.revokeToken('ghr_token', 'refresh_token'),
+        'unsupported_token_type',
+        'only revoke access tokens'
+      );
+    });
+  });
+
+  describe('fetchUserProfile', function () {
+    it('should fetch the profile from the REST API', async function () {
+      const fetchStub = sinon.stub(global, 'fetch');
+      fetchStub
+        .withArgs('https://api.github.com/user')
+        .resolves(jsonResponse({ id: 1, login: 'octocat' }));
+      fetchStub
+        .withArgs('https://api.github.com/user/emails')
+        .resolves(
+          new Response(
+            JSON.stringify([
+              { email: 'octocat@example.com', primary: true, verified: true },
+            ])
+          )
+        );
+      const adapter = createAdapter();
+      await adapter.initialize();
+
+      const profile = await adapter.fetchUserProfile('gho_token');
+
+      expect(profile).to.deep.include({
+        id: '1',
+        email: 'octocat@example.com',
+        emailVerified: true,
+        name: 'octocat',
+      });
+    });
+
+    it('should require initialization', async function () {
+      await expectOAuthError(
+        () => createAdapter().fetchUserProfile('gho_token'),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('Provider Quirks', function () {
+    it('should describe OAuth Apps', function () {
+      expect(createAdapter().getProviderQuirks()).to.deep.equal({
+        supportsOIDCDiscovery: false,
+        requiresPKCE: false,
+        supportsRefreshTokens: false,
+        customParameters: ['login', 'allow_signup', 'prompt'],
+        supportsResourceIndicators: false,
+        supportsRevocation: true,
+        supportsPushedAuthorization: false,
+        supportsDeviceAuthorization: false,
+        supportsLogout: false,
+      });
+    });
+
+    it('should report refresh support for GitHub Apps', function () {
+      expect(
+        createAdapter({ appType: 'github-app' }).getProviderQuirks()
+          .supportsRefreshTokens
+      ).to.be.true;
+    });
+  });
+
+  describe('initialize', function () {
+    it('should reject an invalid storage hook', async function () {
+      const adapter = createAdapter({ storageHook: {} as any });
+
+      await expectOAuthError(
+        () => adapter.initialize(),
+        'invalid_request',
+        'storageHook must implement'
+      );
+    });
+
+    it('should reject invalid configuration', function () {
+      expect(() => createAdapter({ clientSecret: '' })).to.throw();
+    });
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * GitHub Provider Adapter
+ * OAuth 2.0 adapter for GitHub OAuth Apps and GitHub Apps on github.com,
+ * GHE.com and GitHub Enterprise Server
+ */
+
+import { BaseOAuthAdapter } from '../../base-adapter.js';
+import type {
+  PKCEStorageHook,
+  ProviderConfig,
+  ProviderQuirks,
+  TokenTypeHint,
+  UserProfile,
+} from '../../types.js';
+import type {
+  GitHubCallbackParams,
+  GitHubEndpoints,
+  GitHubProviderConfig,
+  GitHubTokenResponse,
+} from './types.js';
+import { validate as validateConfig } from './config.js';
+import * as openidClient from 'openid-client';
+import { MockPKCEStorageHook } from '../oidc-provider/pkce-storage.js';
+import { GitHubTokenService } from './token-exchange.js';
+import { GitHubUserService } from './user.js';
+import { resolveGitHubEndpoints } from './utils.js';
+const { randomPKCECodeVerifier, calculatePKCECodeChallenge } = openidClient;
+
+/**
+ * GitHub Provider Adapter
+ * Implements the GitHub web application flow with PKCE S256, refresh of
+ * expiring GitHub App user tokens, token revocation and user profile lookup
+ */
+export class GitHubProviderAdapter extends BaseOAuthAdapter {
+  /** Provider name identifier */
+  public readonly providerName = 'github';
+
+  /** GitHub-specific configuration */
+  private readonly githubConfig: GitHubProviderConfig;
+
+  /** Resolved GitHub endpoints */
+  private readonly endpoints: GitHubEndpoints;
+
+  /** PKCE storage hook */
+  private storageHook: PKCEStorageHook;
+
+  /** PKCE state expiration time in seconds */
+  private readonly pkceStateExpirationSeconds: number;
+
+  /** Token service */
+  private tokenService?: GitHubTokenService;
+
+  /** User profile service */
+  private userService?: GitHubUserService;
+
+  /**
+   * Creates a new GitHub Provider Adapter instance
+   * @param config - GitHub provider configuration
+   */
+  public constructor(config: GitHubProviderConfig) {
+    // Validate configuration using Zod schema
+    const validatedConfig = validateConfig(config);
+    const endpoints = resolveGitHubEndpoints(validatedConfig);
+
+    // Convert to base ProviderConfig format for compatibility
+    const baseConfig = {
+      clientId: validatedConfig.clientId,
+      clientSecret: validatedConfig.clientSecret,
+      issuer: endpoints.baseUrl,
+      scopes: validatedConfig.scopes,
+      customParameters: validatedConfig.customParameters,
+      redirectUri: validatedConfig.redirectUri,
+    } as ProviderConfig;
+
+    // Pass logger to base class if provided
+    super(baseConfig, config.logger);
+    this.githubConfig = validatedConfig as GitHubProviderConfig;
+    this.endpoints = endpoints;
+    this.storageHook = this.enforceProductionStorage(
+      validatedConfig.storageHook,
+      'storageHook',
+      () => new MockPKCEStorageHook()
+    );
+    this.pkceStateExpirationSeconds =
+      validatedConfig.pkceStateExpirationSeconds || 600; // 10 minutes default
+  }
+
+  /**
+   * Initialize the adapter. GitHub has no discovery document, so this only
+   * validates the storage hook and sets up the services.
+   * @throws {OAuthError} If the storage hook is invalid
+   */
+  public async initialize(): Promise<void> {
+    await this.validateStorageHook(this.storageHook);
+
+    this.tokenService = new GitHubTokenService(
+      this.githubConfig,
+      this.endpoints,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this),
+      this.executeWithResilience.bind(this)
+    );
+    this.userService = new GitHubUserService(
+      this.endpoints,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this),
+      this.executeWithResilience.bind(this)
+    );
+
+    this.initialized = true;
+
+    this.logger.info('GitHub provider initialization completed successfully', {
+      stage: 'initialize',
+      issuer: this.endpoints.baseUrl,
+      apiUrl: this.endpoints.api,
+      appType: this.appType,
+    });
+  }
+
+  /**
+   * Generate authorization URL with PKCE S256 and store the code verifier
+   * @param interactionId - OAuth state parameter for CSRF protection
+   * @param redirectUrl - Redirect URL for OAuth callback
+   * @returns Authorization URL
+   * @throws {OAuthError} If the adapter is not initialized or storing state fails
+   */
+  public async generateAuthUrl(
+    interactionId: string,
+    redirectUrl: string
+  ): Promise<string> {
+    if (!this.initialized) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before generating auth URL',
+        {
+          stage: 'generateAuthUrl',
+        }
+      );
+    }
+
+    const codeVerifier = randomPKCECodeVerifier();
+    const codeChallenge = await calculatePKCECodeChallenge(codeVerifier);
+
+    const expiresAt = Date.now() + this.pkceStateExpirationSeconds * 1000;
+    try {
+      await this.storageHook.storePKCEState(
+        interactionId,
+        interactionId,
+        codeVerifier,
+        expiresAt
+      );
+    } catch (error) {
+      throw this.normalizeError(error, {
+        endpoint: 'storageHook.storePKCEState',
+      });
+    }
+
+    this.logger.info('Authorization URL generated successfully', {
+      stage: 'generateAuthUrl',
+      state: interactionId,
+      scopes: this.githubConfig.scopes,
+    });
+
+    return this.buildAuthorizeUrl(this.endpoints.authorization, {
+      ...this.buildBaseAuthParams(interactionId, redirectUrl),
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      ...this.githubConfig.customParameters,
+    });
+  }
+
+  /**
+   * Handle the authorization callback: consume the stored PKCE verifier
+   * (single-use) and exchange the code for tokens
+   * @param params - Query parameters received on the redirect URI
+   * @param redirectUrl - Redirect URL used in authorization (defaults to config.redirectUri)
+   * @returns Token response
+   * @throws {OAuthError} If the callback carries an error, the state is unknown or
+   * expired, or the token exchange fails
+   */
+  public async handleCallback(
+    params: GitHubCallbackParams,
+    redirectUrl: string | undefined = this.githubConfig.redirectUri
+  ): Promise<GitHubTokenResponse> {
+    if (!this.initialized) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before handling callbacks',
+        {
+          stage: 'handleCallback',
+        }
+      );
+    }
+
+    if (params.error) {
+      this.logger.warn('Authorization callback returned an error', {
+        stage: 'handleCallback',
+        state: params.state,
+        error: params.error,
+      });
+      throw this.createStandardError(
+        params.error,
+        params.error_description || 'Authorization request failed',
+        { stage: 'handleCallback' }
+      );
+    }
+
+    if (!params.state || !params.code) {
+      throw this.createStandardError(
+        'invalid_request',
+        `Missing ${params.state ? 'code' : 'state'} parameter in authorization callback`,
+        { stage: 'handleCallback' }
+      );
+    }
+
+    if (!redirectUrl) {
+      throw this.createStandardError(
+        'invalid_request',
+        'redirectUrl is required when no redirectUri is configured',
+        { stage: 'handleCallback' }
+      );
+    }
+
+    const codeVerifier = await this.consumePKCEState(
+      this.storageHook,
+      params.state
+    );
+    return this.exchangeCode(params.code, codeVerifier, redirectUrl);
+  }
+
+  /**
+   * Exchange authorization code for tokens
+   * @param code - Authorization code
+   * @param verifier - PKCE code verifier
+   * @param redirectUrl - Redirect URL used in authorization
+   * @returns Token response; GitHub App user tokens include `expiresIn`,
+   * `refreshToken` and `refreshTokenExpiresIn` when token expiration is enabled
+   */
+  public async exchangeCode(
+    code: string,
+    verifier: string,
+    redirectUrl: string
+  ): Promise<GitHubTokenResponse> {
+    if (!this.initialized || !this.tokenService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before exchanging code',
+        {
+          stage: 'exchangeCode',
+        }
+      );
+    }
+
+    return this.tokenService.exchangeCode(code, verifier, redirectUrl);
+  }
+
+  /**
+   * Refresh an expiring GitHub App user access token. GitHub rotates the
+   * refresh token on every refresh; store the one in the response.
+   * @param refreshToken - Refresh token
+   * @returns New token response
+   * @throws {OAuthError} unsupported_grant_type for OAuth Apps, whose tokens
+   * never expire
+   */
+  public async refreshToken(
+    refreshToken: string
+  ): Promise<GitHubTokenResponse> {
+    if (!this.initialized || !this.tokenService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before refreshing token',
+        {
+          stage: 'refreshToken',
+        }
+      );
+    }
+
+    if (this.appType === 'oauth-app') {
+      throw this.createStandardError(
+        'unsupported_grant_type',
+        'GitHub OAuth App tokens do not expire and cannot be refreshed',
+        { stage: 'refreshToken', endpoint: 'token_endpoint' }
+      );
+    }
+
+    return this.tokenService.refreshToken(refreshToken);
+  }
+
+  /**
+   * Revoke an access token through the OAuth application API. Revoking a
+   * token also revokes the user's other tokens for this application.
+   * @param token - Access token to revoke
+   * @param tokenTypeHint - Must not be `refresh_token`; GitHub can only revoke
+   * access tokens
+   */
+  public async revokeToken(
+    token: string,
+    tokenTypeHint?: TokenTypeHint
+  ): Promise<void> {
+    if (!this.initialized || !this.tokenService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before revoking token',
+        {
+          stage: 'revokeToken',
+        }
+      );
+    }
+
+    if (tokenTypeHint === 'refresh_token') {
+      throw this.createStandardError(
+        'unsupported_token_type',
+        'GitHub can only revoke access tokens',
+        { stage: 'revokeToken', endpoint: 'revocation_endpoint' }
+      );
+    }
+
+    return this.tokenService.revokeToken(token);
+  }
+
+  /**
+   * Fetch the authenticated user's profile, including the primary verified
+   * email address when the token can read the user's emails
+   * @param accessToken - User access token
+   * @returns Normalized profile; `id` is the numeric GitHub user ID
+   * @throws {OAuthError} invalid_token if GitHub rejects the token
+   */
+  public async fetchUserProfile(accessToken: string): Promise<UserProfile> {
+    if (!this.initialized || !this.userService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before fetching user profile',
+        {
+          stage: 'fetchUserProfile',
+        }
+      );
+    }
+
+    return this.userService.fetchProfile(accessToken);
+  }
+
+  /**
+   * Get the resolved GitHub endpoints
+   */
+  public getEndpoints(): GitHubEndpoints {
+    return { ...this.endpoints };
+  }
+
+  // === Protected Methods ===
+
+  /**
+   * Get the GitHub authorization endpoint
+   */
+  protected getAuthorizationEndpoint(): string {
+    return this.endpoints.authorization;
+  }
+
+  /**
+   * Compute GitHub capabilities. GitHub accepts PKCE but does not require it,
+   * and only GitHub App user tokens can be refreshed.
+   */
+  protected computeProviderQuirks(): ProviderQuirks {
+    return {
+      supportsOIDCDiscovery: false,
+      requiresPKCE: false,
+      supportsRefreshTokens: this.appType === 'github-app',
+      customParameters: ['login', 'allow_signup', 'prompt'],
+      supportsResourceIndicators: false,
+      supportsRevocation: true,
+      supportsPushedAuthorization: false,
+      // GitHub offers a device flow, but this adapter does not implement it
+      supportsDeviceAuthorization: false,
+      supportsLogout: false,
+    };
+  }
+
+  // === Private Methods ===
+
+  /**
+   * Configured application type
+   */
+  private get appType() {
+    return this.githubConfig.appType ?? 'oauth-app';
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * GitHub Provider Adapter exports
+ */
+
+export { GitHubProviderAdapter } from './github-adapter.js';
+export {
+  validate as validateGitHubConfig,
+  safeValidate as safeValidateGitHubConfig,
+  GitHubProviderConfigSchema,
+} from './config.js';
+export type {
+  GitHubProviderConfig,
+  GitHubAppType,
+  GitHubEndpoints,
+  GitHubTokenResponse,
+  GitHubCallbackParams,
+} from './types.js';
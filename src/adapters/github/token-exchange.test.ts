@@ -0,0 +1,241 @@
+/**
+ * GitHub token service unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { GitHubTokenService } from './token-exchange.js';
+import { resolveGitHubEndpoints } from './utils.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+
+describe('GitHubTokenService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const endpoints = resolveGitHubEndpoints({});
+  const config = {
+    clientId: 'Iv1.client',
+    clientSecret: 'client-secret',
+    scopes: ['read:user'],
+  };
+
+  const createService = () => {
+    const {
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+    } = createServiceDependencies(endpoints.baseUrl);
+
+    return new GitHubTokenService(
+      config,
+      endpoints,
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience
+    );
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('exchangeCode', function () {
+    it('should exchange the code with the client secret and verifier', async function () {
+      fetchStub.resolves(
+        jsonResponse({
+          access_token: 'gho_token',
+          token_type: 'bearer',
+          scope: 'read:user,user:email',
+        })
+      );
+
+      const tokens = await createService().exchangeCode(
+        'code-123',
+        'verifier-123',
+        'https://app.example.com/callback'
+      );
+
+      expect(tokens).to.deep.equal({
+        accessToken: 'gho_token',
+        tokenType: 'bearer',
+        scope: 'read:user user:email',
+      });
+      const [url, options] = fetchStub.firstCall.args;
+      expect(url).to.equal('https://github.com/login/oauth/access_token');
+      expect(options.headers.Accept).to.equal('application/json');
+      const body = new URLSearchParams(options.body);
+      expect(body.get('client_id')).to.equal('Iv1.client');
+      expect(body.get('client_secret')).to.equal('client-secret');
+      expect(body.get('code')).to.equal('code-123');
+      expect(body.get('code_verifier')).to.equal('verifier-123');
+      expect(body.get('redirect_uri')).to.equal(
+        'https://app.example.com/callback'
+      );
+    });
+
+    it('should map expiring GitHub App user tokens', async function () {
+      fetchStub.resolves(
+        jsonResponse({
+          access_token: 'ghu_token',
+          expires_in: 28800,
+          refresh_token: 'ghr_token',
+          refresh_token_expires_in: 15811200,
+          token_type: 'bearer',
+          scope: '',
+        })
+      );
+
+      const tokens = await createService().exchangeCode(
+        'code-123',
+        'verifier-123',
+        'https://app.example.com/callback'
+      );
+
+      expect(tokens).to.deep.equal({
+        accessToken: 'ghu_token',
+        refreshToken: 'ghr_token',
+        expiresIn: 28800,
+        tokenType: 'bearer',
+        refreshTokenExpiresIn: 15811200,
+      });
+    });
+
+    it('should treat 200 responses with an error as failures', async function () {
+      fetchStub.resolves(
+        jsonResponse({
+          error: 'bad_verification_code',
+          error_description: 'The code passed is incorrect or expired.',
+          error_uri: 'https://docs.github.com/apps/troubleshooting',
+        })
+      );
+
+      await expectOAuthError(
+        () =>
+          createService().exchangeCode(
+            'code-123',
+            'verifier-123',
+            'https://app.example.com/callback'
+          ),
+        'invalid_grant',
+        'The code passed is incorrect or expired.'
+      );
+    });
+
+    it('should reject responses without an access token', async function () {
+      fetchStub.resolves(jsonResponse({ token_type: 'bearer' }));
+
+      await expectOAuthError(
+        () =>
+          createService().exchangeCode(
+            'code-123',
+            'verifier-123',
+            'https://app.example.com/callback'
+          ),
+        'server_error',
+        'missing access_token'
+      );
+    });
+
+    it('should retry 5xx responses', async function () {
+      fetchStub.callsFake(
+        async () => new Response(null, { status: 502, statusText: 'Bad' })
+      );
+
+      await expectOAuthError(
+        () =>
+          createService().exchangeCode(
+            'code-123',
+            'verifier-123',
+            'https://app.example.com/callback'
+          ),
+        'server_error'
+      );
+      expect(fetchStub.callCount).to.equal(3);
+    });
+  });
+
+  describe('refreshToken', function () {
+    it('should send a refresh_token grant', async function () {
+      fetchStub.resolves(
+        jsonResponse({
+          access_token: 'ghu_new',
+          refresh_token: 'ghr_new',
+          expires_in: 28800,
+        })
+      );
+
+      const tokens = await createService().refreshToken('ghr_old');
+
+      expect(tokens.refreshToken).to.equal('ghr_new');
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.get('grant_type')).to.equal('refresh_token');
+      expect(body.get('refresh_token')).to.equal('ghr_old');
+    });
+
+    it('should map bad_refresh_token to invalid_grant', async function () {
+      fetchStub.resolves(
+        jsonResponse({
+          error: 'bad_refresh_token',
+          error_description:
+            'The refresh token passed is incorrect or expired.',
+        })
+      );
+
+      await expectOAuthError(
+        () => createService().refreshToken('ghr_old'),
+        'invalid_grant',
+        'incorrect or expired'
+      );
+    });
+  });
+
+  describe('revokeToken', function () {
+    it('should delete the token through the application API', async function () {
+      fetchStub.resolves(new Response(null, { status: 204 }));
+
+      await createService().revokeToken('gho_token');
+
+      const [url, options] = fetchStub.firstCall.args;
+      expect(url).to.equal(
+        'https://api.github.com/applications/Iv1.client/token'
+      );
+      expect(options.method).to.equal('DELETE');
+      expect(options.headers.Authorization).to.equal(
+        `Basic ${Buffer.from('Iv1.client:client-secret').toString('base64')}`
+      );
+      expect(JSON.parse(options.body)).to.deep.equal({
+        access_token: 'gho_token',
+      });
+    });
+
+    it('should treat unknown tokens as revoked', async function () {
+      fetchStub.resolves(jsonResponse({ message: 'Not Found' }, 404));
+
+      await createService().revokeToken('gho_token');
+    });
+
+    it('should surface rejected client credentials', async function () {
+      fetchStub.resolves(jsonResponse({ message: 'Bad credentials' }, 401));
+
+      await expectOAuthError(
+        () => createService().revokeToken('gho_token'),
+        'invalid_client',
+        'Bad credentials'
+      );
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Token exchange for GitHub Provider Adapter
+ * Handles code exchange, refresh of expiring GitHub App user tokens and
+ * revocation through the OAuth application API
+ */
+
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { ResilienceContext } from '../../utils/resilience-manager.js';
+import {
+  readJsonObjectResponse,
+  readNumber,
+  readString,
+  type JsonResponse,
+} from '../../utils/json-response.js';
+import type {
+  GitHubEndpoints,
+  GitHubProviderConfig,
+  GitHubTokenResponse,
+} from './types.js';
+import { isNormalizedOAuthError } from '../oidc-provider/utils.js';
+import {
+  GITHUB_CONSTANTS,
+  normalizeGitHubScope,
+  toOAuthErrorCode,
+} from './utils.js';
+
+/**
+ * GitHub token service
+ *
+ * GitHub's token endpoint answers most errors with HTTP 200 and an `error`
+ * field, so the body is checked for errors regardless of the status code.
+ */
+export class GitHubTokenService {
+  constructor(
+    private readonly config: GitHubProviderConfig,
+    private readonly endpoints: GitHubEndpoints,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context?: any
+    ) => OAuthError,
+    private readonly executeWithResilience: <T>(
+      operation: () => Promise<T>,
+      context: ResilienceContext
+    ) => Promise<T>
+  ) {}
+
+  /**
+   * Exchange an authorization code for tokens
+   * @param code - Authorization code from the callback
+   * @param codeVerifier - PKCE code verifier
+   * @param redirectUrl - Redirect URL used in the authorization request
+   * @returns Token response
+   */
+  async exchangeCode(
+    code: string,
+    codeVerifier: string,
+    redirectUrl: string
+  ): Promise<GitHubTokenResponse> {
+    this.logger.info('Exchanging authorization code', {
+      stage: 'exchangeCode',
+      issuer: this.endpoints.baseUrl,
+      endpoint: this.endpoints.token,
+    });
+
+    return this.requestToken(
+      {
+        code,
+        redirect_uri: redirectUrl,
+        ...(codeVerifier && { code_verifier: codeVerifier }),
+      },
+      'exchangeCode'
+    );
+  }
+
+  /**
+   * Refresh an expiring GitHub App user access token
+   * @param refreshToken - Refresh token from a previous token response
+   * @returns Token response with a new (rotated) refresh token
+   */
+  async refreshToken(refreshToken: string): Promise<GitHubTokenResponse> {
+    this.logger.info('Refreshing access token', {
+      stage: 'refreshToken',
+      issuer: this.endpoints.baseUrl,
+      endpoint: this.endpoints.token,
+    });
+
+    return this.requestToken(
+      { grant_type: 'refresh_token', refresh_token: refreshToken },
+      'refreshToken'
+    );
+  }
+
+  /**
+   * Revoke an access token through `DELETE /applications/{client_id}/token`.
+   * Tokens GitHub no longer knows are treated as revoked (RFC 7009 §2.2).
+   * @param token - Access token to revoke
+   */
+  async revokeToken(token: string): Promise<void> {
+    const endpoint = `${this.endpoints.api}/applications/${encodeURIComponent(this.config.clientId)}/token`;
+
+    try {
+      this.logger.info('Revoking token', {
+        stage: 'revokeToken',
+        issuer: this.endpoints.baseUrl,
+        endpoint,
+      });
+
+      const response = await this.executeWithResilience(
+        () =>
+          this.send(endpoint, {
+            method: 'DELETE',
+            headers: {
+              Accept: 'application/vnd.github+json',
+              'Content-Type': 'application/json',
+              'X-GitHub-Api-Version': GITHUB_CONSTANTS.API_VERSION,
+              Authorization: `Basic ${Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64')}`,
+            },
+            body: JSON.stringify({ access_token: token }),
+          }),
+        { endpoint: 'revocation_endpoint', circuitKey: endpoint }
+      );
+
+      if (!response.ok && response.status !== 404) {
+        throw this.createStandardError(
+          response.status === 401 ? 'invalid_client' : 'invalid_request',
+          readString(response.body, 'message') ||
+            `Token revocation failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'revokeToken',
+            issuer: this.endpoints.baseUrl,
+            endpoint: 'revocation_endpoint',
+          }
+        );
+      }
+
+      this.logger.info('Token revoked successfully', {
+        stage: 'revokeToken',
+        issuer: this.endpoints.baseUrl,
+        endpoint,
+        alreadyInvalid: response.status === 404,
+      });
+    } catch (error) {
+      this.logger.error('Token revocation failed', {
+        stage: 'revokeToken',
+        issuer: this.endpoints.baseUrl,
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'revocation_endpoint',
+      });
+    }
+  }
+
+  /**
+   * POST a token request and map the response
+   */
+  private async requestToken(
+    params: Record<string, string>,
+    stage: 'exchangeCode' | 'refreshToken'
+  ): Promise<GitHubTokenResponse> {
+    const endpoint = this.endpoints.token;
+    const body = new URLSearchParams({
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret,
+      ...params,
+    });
+
+    try {
+      const response = await this.executeWithResilience(
+        () =>
+          this.send(endpoint, {
+            method: 'POST',
+            headers: {
+              Accept: 'application/json',
+              'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: body.toString(),
+          }),
+        { endpoint: 'token_endpoint', circuitKey: endpoint }
+      );
+
+      // GitHub reports most token errors with HTTP 200
+      const error = readString(response.body, 'error');
+      if (error || !response.ok) {
+        throw this.createStandardError(
+          error ? toOAuthErrorCode(error) : 'server_error',
+          readString(response.body, 'error_description') ||
+            `Token request failed: ${response.status} ${response.statusText}`,
+          {
+            stage,
+            issuer: this.endpoints.baseUrl,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      const accessToken = readString(response.body, 'access_token');
+      if (!accessToken) {
+        throw this.createStandardError(
+          'server_error',
+          'Invalid token response: missing access_token',
+          {
+            stage,
+            issuer: this.endpoints.baseUrl,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      const tokens = toTokenResponse(accessToken, response.body!);
+
+      this.logger.info('Token request completed successfully', {
+        stage,
+        issuer: this.endpoints.baseUrl,
+        endpoint,
+        hasRefreshToken: Boolean(tokens.refreshToken),
+        expiresIn: tokens.expiresIn,
+        scope: tokens.scope,
+      });
+
+      return tokens;
+    } catch (error) {
+      this.logger.error('Token request failed', {
+        stage,
+        issuer: this.endpoints.baseUrl,
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'token_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON body
+   * @throws Error on 5xx responses so the request is retried
+   */
+  private async send(
+    endpoint: string,
+    init: RequestInit
+  ): Promise<JsonResponse<Record<string, unknown>>> {
+    return readJsonObjectResponse(
+      await fetch(endpoint, init),
+      'GitHub request'
+    );
+  }
+}
+
+/**
+ * Map a successful token response body
+ */
+function toTokenResponse(
+  accessToken: string,
+  body: Record<string, unknown>
+): GitHubTokenResponse {
+  const refreshToken = readString(body, 'refresh_token');
+  const tokenType = readString(body, 'token_type');
+  const scope = normalizeGitHubScope(body.scope);
+  const expiresIn = readNumber(body, 'expires_in');
+  const refreshTokenExpiresIn = readNumber(body, 'refresh_token_expires_in');
+
+  return {
+    accessToken,
+    ...(refreshToken && { refreshToken }),
+    ...(expiresIn !== undefined && { expiresIn }),
+    ...(tokenType && { tokenType }),
+    ...(scope && { scope }),
+    ...(refreshTokenExpiresIn !== undefined && { refreshTokenExpiresIn }),
+  };
+}
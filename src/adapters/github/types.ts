@@ -0,0 +1,76 @@
+/**
+ * GitHub Provider Adapter types
+ */
+
+import type {
+  PKCEStorageHook,
+  ProviderConfig,
+  TokenResponse,
+} from '../../types.js';
+
+/**
+ * Kind of GitHub application the client belongs to
+ *
+ * - `oauth-app`: classic OAuth App; tokens do not expire and cannot be refreshed
+ * - `github-app`: GitHub App user-to-server tokens; expire after 8 hours and are
+ *   refreshed with a refresh token when token expiration is enabled for the app
+ */
+export type GitHubAppType = 'oauth-app' | 'github-app';
+
+/**
+ * GitHub Provider Adapter configuration extending base ProviderConfig
+ */
+export interface GitHubProviderConfig extends ProviderConfig {
+  /** OAuth client secret (required by GitHub's web application flow) */
+  clientSecret: string;
+  /** GitHub web URL (default: https://github.com); set for GitHub Enterprise Server or GHE.com */
+  baseUrl?: string;
+  /** REST API URL (default: derived from baseUrl) */
+  apiUrl?: string;
+  /** Kind of GitHub application (default: oauth-app) */
+  appType?: GitHubAppType;
+  /** PKCE storage hook for state persistence (optional - uses mock fallback if not provided) */
+  storageHook?: PKCEStorageHook;
+  /** PKCE state expiration time in seconds (default: 600 = 10 minutes) */
+  pkceStateExpirationSeconds?: number;
+  /** Optional logger instance to use for logging */
+  logger?: import('../../logging/types.js').Logger;
+}
+
+/**
+ * Resolved GitHub endpoints
+ */
+export interface GitHubEndpoints {
+  /** Web URL of the GitHub instance */
+  baseUrl: string;
+  /** Authorization endpoint */
+  authorization: string;
+  /** Token endpoint (code exchange and refresh) */
+  token: string;
+  /** REST API base URL */
+  api: string;
+}
+
+/**
+ * Token response from GitHub
+ */
+export interface GitHubTokenResponse extends TokenResponse {
+  /** Refresh token lifetime in seconds (expiring GitHub App user tokens) */
+  refreshTokenExpiresIn?: number;
+}
+
+/**
+ * Query parameters GitHub sends to the redirect URI
+ */
+export interface GitHubCallbackParams {
+  /** Authorization code */
+  code?: string;
+  /** State parameter echoed from the authorization request */
+  state?: string;
+  /** Error code when the user denied access or the request failed */
+  error?: string;
+  /** Human-readable error description */
+  error_description?: string;
+  /** Documentation URL for the error */
+  error_uri?: string;
+}
@@ -0,0 +1,130 @@
+/**
+ * GitHub user service unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { GitHubUserService } from './user.js';
+import { resolveGitHubEndpoints } from './utils.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+
+describe('GitHubUserService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const endpoints = resolveGitHubEndpoints({
+    baseUrl: 'https://github.example.com',
+  });
+  const user = {
+    id: 583231,
+    login: 'octocat',
+    name: 'The Octocat',
+    email: 'octocat@public.example.com',
+    avatar_url: 'https://github.example.com/avatars/u/583231',
+    html_url: 'https://github.example.com/octocat',
+  };
+
+  const createService = () => {
+    const {
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+    } = createServiceDependencies(endpoints.baseUrl);
+
+    return new GitHubUserService(
+      endpoints,
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience
+    );
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  it('should use the primary verified email', async function () {
+    fetchStub
+      .withArgs('https://github.example.com/api/v3/user')
+      .resolves(jsonResponse(user));
+    fetchStub
+      .withArgs('https://github.example.com/api/v3/user/emails')
+      .resolves(
+        jsonResponse([
+          { email: 'old@example.com', primary: false, verified: true },
+          { email: 'octocat@example.com', primary: true, verified: true },
+        ])
+      );
+
+    const profile = await createService().fetchProfile('gho_token');
+
+    expect(profile).to.deep.include({
+      id: '583231',
+      email: 'octocat@example.com',
+      emailVerified: true,
+      name: 'The Octocat',
+      picture: 'https://github.example.com/avatars/u/583231',
+      groups: [],
+    });
+    expect(profile.claims.preferred_username).to.equal('octocat');
+    const { headers } = fetchStub.firstCall.args[1];
+    expect(headers.Authorization).to.equal('Bearer gho_token');
+    expect(headers['X-GitHub-Api-Version']).to.equal('2022-11-28');
+  });
+
+  it('should fall back to the public email without access to emails', async function () {
+    fetchStub
+      .withArgs('https://github.example.com/api/v3/user')
+      .resolves(jsonResponse({ ...user, name: null }));
+    fetchStub
+      .withArgs('https://github.example.com/api/v3/user/emails')
+      .resolves(jsonResponse({ message: 'Resource not accessible' }, 403));
+
+    const profile = await createService().fetchProfile('gho_token');
+
+    expect(profile.email).to.equal('octocat@public.example.com');
+    expect(profile).to.not.have.property('emailVerified');
+    expect(profile.name).to.equal('octocat');
+  });
+
+  it('should ignore an unverified primary email', async function () {
+    fetchStub
+      .withArgs('https://github.example.com/api/v3/user')
+      .resolves(jsonResponse({ ...user, email: null }));
+    fetchStub
+      .withArgs('https://github.example.com/api/v3/user/emails')
+      .resolves(
+        jsonResponse([
+          { email: 'octocat@example.com', primary: true, verified: false },
+        ])
+      );
+
+    const profile = await createService().fetchProfile('gho_token');
+
+    expect(profile).to.not.have.property('email');
+  });
+
+  it('should map rejected tokens to invalid_token', async function () {
+    fetchStub.resolves(jsonResponse({ message: 'Bad credentials' }, 401));
+
+    await expectOAuthError(
+      () => createService().fetchProfile('gho_token'),
+      'invalid_token',
+      'Bad credentials'
+    );
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * User profile lookup for GitHub Provider Adapter
+ * Reads `GET /user` and `GET /user/emails` from the REST API
+ */
+
+import type { OAuthError, UserProfile } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { ResilienceContext } from '../../utils/resilience-manager.js';
+import { normalizeUserProfile } from '../../utils/user-profile.js';
+import {
+  asObject,
+  readJsonResponse,
+  type JsonResponse,
+} from '../../utils/json-response.js';
+import type { GitHubEndpoints } from './types.js';
+import { isNormalizedOAuthError } from '../oidc-provider/utils.js';
+import { GITHUB_CONSTANTS } from './utils.js';
+
+/**
+ * GitHub user service
+ *
+ * Builds a {@link UserProfile} from the authenticated user. `id` is GitHub's
+ * numeric user ID, which unlike the login never changes. The email is the
+ * primary verified address from `/user/emails` (requires the `user:email`
+ * scope or the GitHub App "Email addresses" permission), falling back to the
+ * public profile email.
+ */
+export class GitHubUserService {
+  constructor(
+    private readonly endpoints: GitHubEndpoints,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context?: any
+    ) => OAuthError,
+    private readonly executeWithResilience: <T>(
+      operation: () => Promise<T>,
+      context: ResilienceContext
+    ) => Promise<T>
+  ) {}
+
+  /**
+   * Fetch the profile of the user an access token belongs to
+   * @param accessToken - User access token
+   * @returns Normalized user profile
+   * @throws {OAuthError} `invalid_token` if GitHub rejects the token
+   */
+  async fetchProfile(accessToken: string): Promise<UserProfile> {
+    const endpoint = `${this.endpoints.api}/user`;
+
+    try {
+      const response = await this.get(endpoint, accessToken);
+      if (!response.ok) {
+        throw this.apiError(response);
+      }
+
+      const user = asObject(response.body);
+      if (!user || user.id === undefined || user.id === null) {
+        throw this.createStandardError(
+          'server_error',
+          'Invalid GitHub user response: missing id',
+          {
+            stage: 'fetchUserProfile',
+            issuer: this.endpoints.baseUrl,
+            endpoint: 'user_endpoint',
+          }
+        );
+      }
+
+      const primaryEmail = await this.fetchPrimaryEmail(accessToken);
+      const publicEmail = typeof user.email === 'string' ? user.email : null;
+
+      const profile = normalizeUserProfile({
+        sub: String(user.id),
+        preferred_username: user.login,
+        name: user.name,
+        picture: user.avatar_url,
+        profile: user.html_url,
+        ...(primaryEmail
+          ? { email: primaryEmail, email_verified: true }
+          : publicEmail && { email: publicEmail }),
+      });
+
+      this.logger.debug('GitHub user profile fetched', {
+        stage: 'fetchUserProfile',
+        issuer: this.endpoints.baseUrl,
+        endpoint,
+        hasVerifiedEmail: Boolean(primaryEmail),
+      });
+
+      return profile;
+    } catch (error) {
+      this.logger.error('GitHub user profile request failed', {
+        stage: 'fetchUserProfile',
+        issuer: this.endpoints.baseUrl,
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'user_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Read the primary verified email address
+   * @returns The address, or undefined when it is unverified or the token
+   * lacks access to the user's emails
+   */
+  private async fetchPrimaryEmail(
+    accessToken: string
+  ): Promise<string | undefined> {
+    const endpoint = `${this.endpoints.api}/user/emails`;
+    const response = await this.get(endpoint, accessToken);
+
+    if (!response.ok) {
+      if (response.status === 403 || response.status === 404) {
+        this.logger.debug('GitHub user emails not accessible', {
+          stage: 'fetchUserProfile',
+          issuer: this.endpoints.baseUrl,
+          endpoint,
+          status: response.status,
+        });
+        return undefined;
+      }
+      throw this.apiError(response);
+    }
+
+    const emails = Array.isArray(response.body) ? response.body : [];
+    const primary = emails
+      .map(asObject)
+      .find((email) => email?.primary === true && email.verified === true);
+    return typeof primary?.email === 'string' ? primary.email : undefined;
+  }
+
+  /**
+   * GET a REST API resource with the user's token
+   * @throws Error on 5xx responses so the request is retried
+   */
+  private get(endpoint: string, accessToken: string) {
+    return this.executeWithResilience(
+      async () => {
+        const response = await fetch(endpoint, {
+          method: 'GET',
+          headers: {
+            Accept: 'application/vnd.github+json',
+            Authorization: `Bearer ${accessToken}`,
+            'X-GitHub-Api-Version': GITHUB_CONSTANTS.API_VERSION,
+          },
+        });
+        return readJsonResponse(response, 'GitHub API request');
+      },
+      { endpoint: 'user_endpoint', circuitKey: endpoint }
+    );
+  }
+
+  /**
+   * Build an OAuthError for a failed API response
+   */
+  private apiError(response: JsonResponse): OAuthError {
+    const message = asObject(response.body)?.message;
+    const error =
+      response.status === 401
+        ? 'invalid_token'
+        : response.status === 403
+          ? 'insufficient_scope'
+          : 'invalid_request';
+    return this.createStandardError(
+      error,
+      typeof message === 'string' && message
+        ? message
+        : `GitHub API request failed: ${response.status} ${response.statusText}`,
+      {
+        stage: 'fetchUserProfile',
+        issuer: this.endpoints.baseUrl,
+        endpoint: 'user_endpoint',
+      }
+    );
+  }
+}
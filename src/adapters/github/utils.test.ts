@@ -0,0 +1,71 @@
+/**
+ * GitHub utilities unit tests
+ */
+
+import { expect } from 'chai';
+import {
+  normalizeGitHubScope,
+  resolveGitHubEndpoints,
+  toOAuthErrorCode,
+} from './utils.js';
+
+describe('GitHub utils', function () {
+  describe('resolveGitHubEndpoints', function () {
+    it('should default to github.com', function () {
+      expect(resolveGitHubEndpoints({})).to.deep.equal({
+        baseUrl: 'https://github.com',
+        authorization: 'https://github.com/login/oauth/authorize',
+        token: 'https://github.com/login/oauth/access_token',
+        api: 'https://api.github.com',
+      });
+    });
+
+    it('should derive GitHub Enterprise Server endpoints', function () {
+      const endpoints = resolveGitHubEndpoints({
+        baseUrl: 'https://github.example.com/',
+      });
+
+      expect(endpoints.authorization).to.equal(
+        'https://github.example.com/login/oauth/authorize'
+      );
+      expect(endpoints.api).to.equal('https://github.example.com/api/v3');
+    });
+
+    it('should derive GHE.com API endpoints and honour apiUrl', function () {
+      expect(
+        resolveGitHubEndpoints({ baseUrl: 'https://octocorp.ghe.com' }).api
+      ).to.equal('https://api.octocorp.ghe.com');
+      expect(
+        resolveGitHubEndpoints({
+          baseUrl: 'https://github.example.com',
+          apiUrl: 'https://api.github.example.com/',
+        }).api
+      ).to.equal('https://api.github.example.com');
+    });
+  });
+
+  describe('normalizeGitHubScope', function () {
+    it('should convert comma-delimited scopes', function () {
+      expect(normalizeGitHubScope('repo,user:email')).to.equal(
+        'repo user:email'
+      );
+    });
+
+    it('should return undefined for empty or missing scopes', function () {
+      expect(normalizeGitHubScope('')).to.be.undefined;
+      expect(normalizeGitHubScope(undefined)).to.be.undefined;
+    });
+  });
+
+  describe('toOAuthErrorCode', function () {
+    it('should map GitHub error codes and pass others through', function () {
+      expect(toOAuthErrorCode('bad_verification_code')).to.equal(
+        'invalid_grant'
+      );
+      expect(toOAuthErrorCode('incorrect_client_credentials')).to.equal(
+        'invalid_client'
+      );
+      expect(toOAuthErrorCode('access_denied')).to.equal('access_denied');
+    });
+  });
+});
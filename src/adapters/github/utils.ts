@@ -0,0 +1,95 @@
+/**
+ * Shared utilities for GitHub Provider Adapter
+ */
+
+import type { GitHubEndpoints } from './types.js';
+
+/**
+ * Constants for GitHub endpoints and API requests
+ */
+export const GITHUB_CONSTANTS = {
+  DEFAULT_BASE_URL: 'https://github.com',
+  DEFAULT_API_URL: 'https://api.github.com',
+  API_VERSION: '2022-11-28', // X-GitHub-Api-Version header
+} as const;
+
+/**
+ * GitHub token endpoint error codes mapped to RFC 6749 §5.2 error codes
+ * (https://docs.github.com/en/apps/oauth-apps/maintaining-oauth-apps/troubleshooting-oauth-app-access-token-request-errors)
+ */
+const GITHUB_ERROR_CODES: Record<string, string> = {
+  bad_verification_code: 'invalid_grant',
+  bad_refresh_token: 'invalid_grant',
+  redirect_uri_mismatch: 'invalid_grant',
+  incorrect_client_credentials: 'invalid_client',
+  unverified_user_email: 'access_denied',
+  application_suspended: 'unauthorized_client',
+};
+
+/**
+ * Resolve authorization, token and REST API endpoints
+ *
+ * - github.com uses https://api.github.com
+ * - GHE.com (`<subdomain>.ghe.com`) uses `https://api.<subdomain>.ghe.com`
+ * - GitHub Enterprise Server uses `<baseUrl>/api/v3`
+ */
+export function resolveGitHubEndpoints(config: {
+  baseUrl?: string | undefined;
+  apiUrl?: string | undefined;
+}): GitHubEndpoints {
+  const baseUrl = trimTrailingSlashes(
+    config.baseUrl ?? GITHUB_CONSTANTS.DEFAULT_BASE_URL
+  );
+
+  let api: string;
+  if (config.apiUrl) {
+    api = trimTrailingSlashes(config.apiUrl);
+  } else {
+    const { protocol, host } = new URL(baseUrl);
+    if (baseUrl === GITHUB_CONSTANTS.DEFAULT_BASE_URL) {
+      api = GITHUB_CONSTANTS.DEFAULT_API_URL;
+    } else if (host.endsWith('.ghe.com')) {
+      api = `${protocol}//api.${host}`;
+    } else {
+      api = `${baseUrl}/api/v3`;
+    }
+  }
+
+  return {
+    baseUrl,
+    authorization: `${baseUrl}/login/oauth/authorize`,
+    token: `${baseUrl}/login/oauth/access_token`,
+    api,
+  };
+}
+
+/**
+ * Map a GitHub token endpoint error code to the matching OAuth error code;
+ * codes without a mapping are passed through
+ */
+export function toOAuthErrorCode(githubError: string): string {
+  return GITHUB_ERROR_CODES[githubError] ?? githubError;
+}
+
+/**
+ * Normalize GitHub's comma-delimited `scope` to a space-delimited string
+ * @returns Space-delimited scopes, or undefined when none were granted
+ * (GitHub Apps use permissions instead of scopes)
+ */
+export function normalizeGitHubScope(scope: unknown): string | undefined {
+  if (typeof scope !== 'string') {
+    return undefined;
+  }
+  const scopes = scope
+    .split(/[,\s]+/)
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  return scopes.length > 0 ? scopes.join(' ') : undefined;
+}
+
+/**
+ * Remove trailing slashes from a URL
+ */
+function trimTrailingSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
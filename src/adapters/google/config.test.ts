@@ -0,0 +1,37 @@
+/**
+ * Google config validation unit tests
+ */
+
+import { expect } from 'chai';
+import { validate, safeValidate } from './config.js';
+
+describe('GoogleProviderConfig Validation', function () {
+  it('should apply defaults', function () {
+    const result = validate({ clientId: 'client.apps.googleusercontent.com' });
+
+    expect(result).to.include({
+      offlineAccess: true,
+      includeGrantedScopes: true,
+    });
+    expect(result.scopes).to.deep.equal(['openid', 'email', 'profile']);
+  });
+
+  it('should reject issuer and metadata', function () {
+    const result = safeValidate({
+      clientId: 'client.apps.googleusercontent.com',
+      issuer: 'https://accounts.google.com',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('fixed for Google');
+  });
+
+  it('should reject non-boolean flags', function () {
+    expect(
+      safeValidate({
+        clientId: 'client.apps.googleusercontent.com',
+        offlineAccess: 'yes',
+      }).success
+    ).to.be.false;
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Google Provider Configuration Schema and Validation
+ * Validates the Google-specific settings; the remaining OIDC settings are
+ * passed through and validated by the OIDC provider schema
+ */
+
+import { z } from 'zod';
+
+/**
+ * Google Provider Configuration Schema
+ */
+export const GoogleProviderConfigSchema = z
+  .object({
+    clientId: z.string().min(1, 'clientId is required'),
+    scopes: z.array(z.string()).default(['openid', 'email', 'profile']),
+    offlineAccess: z.boolean().default(true),
+    includeGrantedScopes: z.boolean().default(true),
+  })
+  .passthrough()
+  .refine((v) => !('issuer' in v) && !('metadata' in v), {
+    message: 'issuer and metadata are fixed for Google and cannot be set',
+    path: ['issuer', 'metadata'],
+  });
+
+export type GoogleProviderConfig = z.infer<typeof GoogleProviderConfigSchema>;
+
+/**
+ * Validate Google provider configuration
+ * @param config - Configuration object to validate
+ * @returns Validated configuration
+ * @throws ZodError with detailed validation messages
+ */
+export function validate(config: unknown): GoogleProviderConfig {
+  return GoogleProviderConfigSchema.parse(config);
+}
+
+/**
+ * Safe validation that returns validation result instead of throwing
+ * @param config - Configuration object to validate
+ * @returns Validation result with success/error information
+ */
+export function safeValidate(config: unknown): {
+  success: boolean;
+  data?: GoogleProviderConfig;
+  error?: z.ZodError;
+} {
+  const result = GoogleProviderConfigSchema.safeParse(config);
+  if (result.success) {
+    return {
+      success: true,
+      data: result.data,
+    };
+  } else {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Google Provider Adapter unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { GoogleProviderAdapter } from './google-adapter.js';
+import type { GoogleProviderConfig } from './types.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse, stubProviderFetch } from '../../testUtils/fetch.js';
+import { createTestSigningKey, signTestJwt } from '../../testUtils/jwt.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('GoogleProviderAdapter', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const signingKey = createTestSigningKey('RS256');
+  const redirectUrl = 'https://app.example.com/callback';
+  const clientId = 'client.apps.googleusercontent.com';
+
+  const googleMetadata = {
+    issuer: 'https://accounts.google.com',
+    authorization_endpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+    device_authorization_endpoint: 'https://oauth2.googleapis.com/device/code',
+    token_endpoint: 'https://oauth2.googleapis.com/token',
+    userinfo_endpoint: 'https://openidconnect.googleapis.com/v1/userinfo',
+    revocation_endpoint: 'https://oauth2.googleapis.com/revoke',
+    jwks_uri: 'https://www.googleapis.com/oauth2/v3/certs',
+    grant_types_supported: [
+      'authorization_code',
+      'refresh_token',
+      'urn:ietf:params:oauth:grant-type:device_code',
+    ],
+  };
+
+  const stubGoogle = (token: Record<string, unknown> = {}) =>
+    stubProviderFetch(fetchStub, {
+      discovery: {
+        'https://accounts.google.com/.well-known/openid-configuration':
+          googleMetadata,
+      },
+      keys: [signingKey.jwk],
+      routes: {
+        [googleMetadata.token_endpoint]: () =>
+          jsonResponse({
+            access_token: 'ya29.access',
+            expires_in: 3599,
+            token_type: 'Bearer',
+            ...token,
+          }),
+      },
+    });
+
+  const createAdapter = async (config: Partial<GoogleProviderConfig> = {}) => {
+    const adapter = new GoogleProviderAdapter({
+      clientId,
+      clientSecret: 'client-secret',
+      ...config,
+    });
+    await adapter.initialize();
+    return adapter;
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('generateAuthUrl', function () {
+    it('should request offline access and include granted scopes', async function () {
+      stubGoogle();
+      const adapter = await createAdapter();
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(adapter.providerName).to.equal('google');
+      expect(`${url.origin}${url.pathname}`).to.equal(
+        googleMetadata.authorization_endpoint
+      );
+      expect(url.searchParams.get('access_type')).to.equal('offline');
+      expect(url.searchParams.get('prompt')).to.equal('consent');
+      expect(url.searchParams.get('include_granted_scopes')).to.equal('true');
+    });
+
+    it('should let customParameters override the derived parameters', async function () {
+      stubGoogle();
+      const adapter = await createAdapter({
+        customParameters: { prompt: 'select_account consent' },
+      });
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(url.searchParams.get('prompt')).to.equal('select_account consent');
+    });
+
+    it('should omit offline access when disabled', async function () {
+      stubGoogle();
+      const adapter = await createAdapter({
+        offlineAccess: false,
+        includeGrantedScopes: false,
+      });
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(url.searchParams.has('access_type')).to.be.false;
+      expect(url.searchParams.has('prompt')).to.be.false;
+      expect(url.searchParams.has('include_granted_scopes')).to.be.false;
+      expect(adapter.getProviderQuirks().supportsRefreshTokens).to.be.false;
+    });
+  });
+
+  describe('createIncrementalAuthorizationRequest', function () {
+    it('should request only the new scopes with include_granted_scopes', async function () {
+      stubGoogle();
+      const adapter = await createAdapter({ includeGrantedScopes: false });
+
+      const { url, codeVerifier } =
+        await adapter.createIncrementalAuthorizationRequest({
+          state: 'state-123',
+          redirectUrl,
+          scopes: ['https://www.googleapis.com/auth/drive.readonly'],
+          loginHint: 'user@example.com',
+        });
+
+      const params = new URL(url).searchParams;
+      expect(params.get('scope')).to.equal(
+        'https://www.googleapis.com/auth/drive.readonly'
+      );
+      expect(params.get('include_granted_scopes')).to.equal('true');
+      expect(params.get('login_hint')).to.equal('user@example.com');
+      expect(params.get('access_type')).to.equal('offline');
+      expect(codeVerifier).to.be.a('string');
+    });
+
+    it('should require scopes to add', async function () {
+      stubGoogle();
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () =>
+          adapter.createIncrementalAuthorizationRequest({
+            state: 'state-123',
+            redirectUrl,
+            scopes: [],
+          }),
+        'invalid_scope',
+        'At least one scope'
+      );
+    });
+  });
+
+  describe('refreshToken', function () {
+    it('should keep the original refresh token when none is returned', async function () {
+      stubGoogle();
+      const adapter = await createAdapter();
+
+      const tokens = await adapter.refreshToken('1//refresh-token');
+
+      expect(tokens).to.include({
+        accessToken: 'ya29.access',
+        refreshToken: '1//refresh-token',
+      });
+    });
+
+    it('should use a refresh token returned by the provider', async function () {
+      stubGoogle({ refresh_token: '1//new-refresh-token' });
+      const adapter = await createAdapter();
+
+      const tokens = await adapter.refreshToken('1//refresh-token');
+
+      expect(tokens.refreshToken).to.equal('1//new-refresh-token');
+    });
+  });
+
+  describe('ID token validation', function () {
+    it('should accept the issuer without a scheme', async function () {
+      const now = Math.floor(Date.now() / 1000);
+      stubGoogle({
+        id_token: signTestJwt(
+          {
+            iss: 'accounts.google.com',
+            sub: '110169484474386276334',
+            aud: clientId,
+            exp: now + 300,
+            iat: now,
+          },
+          signingKey
+        ),
+      });
+      const adapter = await createAdapter();
+
+      const tokens = await adapter.exchangeCode(
+        'code-123',
+        'verifier-123',
+        redirectUrl
+      );
+
+      expect(tokens.idTokenClaims?.sub).to.equal('110169484474386276334');
+    });
+  });
+
+  describe('Provider Quirks', function () {
+    it('should describe offline access and incremental authorization', async function () {
+      stubGoogle();
+      const adapter = await createAdapter();
+
+      expect(adapter.getProviderQuirks()).to.deep.include({
+        supportsOIDCDiscovery: true,
+        supportsRefreshTokens: true,
+        supportsResourceIndicators: false,
+        supportsRevocation: true,
+        supportsDeviceAuthorization: true,
+        refreshTokenParameters: { access_type: 'offline', prompt: 'consent' },
+        supportsIncrementalAuthorization: true,
+        rotatesRefreshTokens: false,
+      });
+    });
+  });
+});
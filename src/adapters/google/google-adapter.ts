@@ -0,0 +1,133 @@
+/**
+ * Google Provider Adapter
+ * Extends the OIDC Provider Adapter with Google offline access, incremental
+ * authorization and refresh token handling
+ */
+
+import type { ProviderQuirks, TokenResponse } from '../../types.js';
+import { OIDCProviderAdapter } from '../oidc-provider/oidc-adapter.js';
+import type {
+  OIDCAuthUrlResult,
+  OIDCProviderConfig,
+  OIDCRefreshTokenOptions,
+} from '../oidc-provider/types.js';
+import type {
+  GoogleIncrementalAuthOptions,
+  GoogleProviderConfig,
+} from './types.js';
+import { validate as validateConfig } from './config.js';
+import { GOOGLE_CONSTANTS, buildGoogleAuthParameters } from './utils.js';
+
+/**
+ * Google Provider Adapter
+ *
+ * Google only issues refresh tokens for `access_type=offline` requests that
+ * show the consent screen, and refresh responses do not include a new refresh
+ * token. The adapter sends the offline access parameters by default and keeps
+ * the original refresh token on refresh.
+ */
+export class GoogleProviderAdapter extends OIDCProviderAdapter {
+  /** Provider name identifier */
+  public readonly providerName: string = 'google';
+
+  /** Whether refresh tokens are requested */
+  private readonly offlineAccess: boolean;
+
+  /**
+   * Creates a new Google Provider Adapter instance
+   * @param config - Google provider configuration
+   */
+  public constructor(config: GoogleProviderConfig) {
+    // Validate the Google settings; OIDC settings are validated by the base class
+    const {
+      offlineAccess,
+      includeGrantedScopes,
+      customParameters,
+      ...oidcConfig
+    } = validateConfig(config);
+
+    // Configured customParameters take precedence over the derived ones
+    super({
+      ...oidcConfig,
+      issuer: GOOGLE_CONSTANTS.ISSUER,
+      customParameters: {
+        ...buildGoogleAuthParameters({ offlineAccess, includeGrantedScopes }),
+        ...(customParameters as Record<string, string> | undefined),
+      },
+    } as OIDCProviderConfig);
+
+    this.offlineAccess = offlineAccess;
+  }
+
+  /**
+   * Create an authorization request that adds scopes to the user's existing
+   * grant. Only the new scopes are requested; with `include_granted_scopes`
+   * the resulting tokens also cover the scopes granted earlier. Pass the
+   * user's email as `loginHint` to skip the account chooser.
+   * @param options - State, scopes to add and per-request parameters
+   * @returns Authorization URL with the PKCE and nonce values it was built from
+   * @throws {OAuthError} If no scopes are given or the request cannot be built
+   */
+  public async createIncrementalAuthorizationRequest(
+    options: GoogleIncrementalAuthOptions
+  ): Promise<OIDCAuthUrlResult> {
+    if (options.scopes.length === 0) {
+      throw this.createStandardError(
+        'invalid_scope',
+        'At least one scope to add is required',
+        { stage: 'createIncrementalAuthorizationRequest' }
+      );
+    }
+
+    return this.createAuthorizationRequest({
+      ...options,
+      additionalParams: {
+        ...options.additionalParams,
+        include_granted_scopes: 'true',
+      },
+    });
+  }
+
+  /**
+   * Refresh access token. Google does not return a new refresh token, so the
+   * original one is carried over into the response.
+   * @param refreshToken - Refresh token
+   * @param options - Resource indicators and narrowed scopes for the refreshed token
+   * @returns New token response, including the refresh token to use next time
+   */
+  public async refreshToken(
+    refreshToken: string,
+    options: OIDCRefreshTokenOptions = {}
+  ): Promise<TokenResponse> {
+    const tokens = await super.refreshToken(refreshToken, options);
+    return tokens.refreshToken ? tokens : { ...tokens, refreshToken };
+  }
+
+  /**
+   * Accept both issuer forms Google uses in ID tokens
+   */
+  protected matchesTokenIssuer(
+    issuer: string,
+    claims: Record<string, unknown>
+  ): boolean {
+    return (
+      issuer === GOOGLE_CONSTANTS.LEGACY_ISSUER ||
+      super.matchesTokenIssuer(issuer, claims)
+    );
+  }
+
+  /**
+   * Compute provider-specific capabilities and requirements
+   * @returns Provider quirks
+   */
+  protected computeProviderQuirks(): ProviderQuirks {
+    return {
+      ...super.computeProviderQuirks(),
+      supportsRefreshTokens: this.offlineAccess,
+      supportsResourceIndicators: false,
+      refreshTokenParameters: { ...GOOGLE_CONSTANTS.OFFLINE_ACCESS_PARAMETERS },
+      supportsIncrementalAuthorization: true,
+      rotatesRefreshTokens: false,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Google Provider Adapter exports
+ */
+
+export { GoogleProviderAdapter } from './google-adapter.js';
+export {
+  validate as validateGoogleConfig,
+  safeValidate as safeValidateGoogleConfig,
+  GoogleProviderConfigSchema,
+} from './config.js';
+export type {
+  GoogleProviderConfig,
+  GoogleIncrementalAuthOptions,
+} from './types.js';
@@ -0,0 +1,44 @@
+/**
+ * Google Provider Adapter types
+ */
+
+import type {
+  OIDCAuthUrlOptions,
+  OIDCProviderConfig,
+} from '../oidc-provider/types.js';
+
+/**
+ * Google Provider Adapter configuration
+ *
+ * The issuer is always https://accounts.google.com, so `issuer` and `metadata`
+ * cannot be set.
+ */
+export interface GoogleProviderConfig extends Omit<
+  OIDCProviderConfig,
+  'issuer' | 'metadata' | 'scopes'
+> {
+  /** Scopes to request (default: openid, email and profile) */
+  scopes?: string[];
+  /**
+   * Request refresh tokens (default: true). Sends `access_type=offline` and
+   * `prompt=consent`; Google only returns a refresh token when the user is
+   * shown the consent screen.
+   */
+  offlineAccess?: boolean;
+  /**
+   * Send `include_granted_scopes=true` so new tokens also cover scopes the
+   * user granted earlier (default: true)
+   */
+  includeGrantedScopes?: boolean;
+}
+
+/**
+ * Options for an incremental authorization request
+ */
+export interface GoogleIncrementalAuthOptions extends Omit<
+  OIDCAuthUrlOptions,
+  'scopes'
+> {
+  /** Scopes to add to the existing grant */
+  scopes: string[];
+}
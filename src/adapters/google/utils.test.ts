@@ -0,0 +1,32 @@
+/**
+ * Google utilities unit tests
+ */
+
+import { expect } from 'chai';
+import { buildGoogleAuthParameters } from './utils.js';
+
+describe('Google utils', function () {
+  describe('buildGoogleAuthParameters', function () {
+    it('should request offline access with consent', function () {
+      expect(
+        buildGoogleAuthParameters({
+          offlineAccess: true,
+          includeGrantedScopes: true,
+        })
+      ).to.deep.equal({
+        access_type: 'offline',
+        prompt: 'consent',
+        include_granted_scopes: 'true',
+      });
+    });
+
+    it('should omit disabled parameters', function () {
+      expect(
+        buildGoogleAuthParameters({
+          offlineAccess: false,
+          includeGrantedScopes: false,
+        })
+      ).to.deep.equal({});
+    });
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Shared utilities for Google Provider Adapter
+ */
+
+/**
+ * Constants for Google issuers and authorization parameters
+ */
+export const GOOGLE_CONSTANTS = {
+  ISSUER: 'https://accounts.google.com',
+  LEGACY_ISSUER: 'accounts.google.com', // `iss` of some ID tokens
+  /** Parameters Google requires before it returns a refresh token */
+  OFFLINE_ACCESS_PARAMETERS: { access_type: 'offline', prompt: 'consent' },
+} as const;
+
+/**
+ * Build the authorization parameters for offline access and incremental
+ * authorization
+ * @param options - Whether to request refresh tokens and include earlier grants
+ */
+export function buildGoogleAuthParameters(options: {
+  offlineAccess: boolean;
+  includeGrantedScopes: boolean;
+}): Record<string, string> {
+  return {
+    ...(options.offlineAccess && GOOGLE_CONSTANTS.OFFLINE_ACCESS_PARAMETERS),
+    ...(options.includeGrantedScopes && { include_granted_scopes: 'true' }),
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Heroku config validation unit tests
+ */
+
+import { expect } from 'chai';
+import { validate, safeValidate } from './config.js';
+
+describe('HerokuProviderConfig Validation', function () {
+  it('should apply defaults', function () {
+    const result = validate({
+      clientId: 'heroku-client-id',
+      clientSecret: 'heroku-client-secret',
+    });
+
+    expect(result.scopes).to.deep.equal(['global']);
+  });
+
+  it('should require a client secret', function () {
+    expect(safeValidate({ clientId: 'heroku-client-id' }).success).to.be.false;
+  });
+
+  it('should reject scopes that are not Heroku scopes', function () {
+    const result = safeValidate({
+      clientId: 'heroku-client-id',
+      clientSecret: 'heroku-client-secret',
+      scopes: ['openid', 'read'],
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.path).to.deep.equal(['scopes', 0]);
+  });
+
+  it('should reject issuer and metadata', function () {
+    const result = safeValidate({
+      clientId: 'heroku-client-id',
+      clientSecret: 'heroku-client-secret',
+      issuer: 'https://id.heroku.com',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('fixed for Heroku');
+  });
+});
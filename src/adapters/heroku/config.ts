@@ -0,0 +1,62 @@
+/**
+ * Heroku Provider Configuration Schema and Validation
+ * Validates the Heroku-specific settings; the remaining OIDC settings are
+ * passed through and validated by the OIDC provider schema
+ */
+
+import { z } from 'zod';
+import { HEROKU_CONSTANTS, HEROKU_SCOPES } from './utils.js';
+
+/**
+ * Heroku Provider Configuration Schema
+ */
+export const HerokuProviderConfigSchema = z
+  .object({
+    clientId: z.string().min(1, 'clientId is required'),
+    clientSecret: z.string().min(1, 'clientSecret is required'),
+    scopes: z
+      .array(z.enum(HEROKU_SCOPES))
+      .min(1, 'At least one scope is required')
+      .default(HEROKU_CONSTANTS.DEFAULT_SCOPES),
+  })
+  .passthrough()
+  .refine((v) => !('issuer' in v) && !('metadata' in v), {
+    message: 'issuer and metadata are fixed for Heroku and cannot be set',
+    path: ['issuer', 'metadata'],
+  });
+
+export type HerokuProviderConfig = z.infer<typeof HerokuProviderConfigSchema>;
+
+/**
+ * Validate Heroku provider configuration
+ * @param config - Configuration object to validate
+ * @returns Validated configuration
+ * @throws ZodError with detailed validation messages
+ */
+export function validate(config: unknown): HerokuProviderConfig {
+  return HerokuProviderConfigSchema.parse(config);
+}
+
+/**
+ * Safe validation that returns validation result instead of throwing
+ * @param config - Configuration object to validate
+ * @returns Validation result with success/error information
+ */
+export function safeValidate(config: unknown): {
+  success: boolean;
+  data?: HerokuProviderConfig;
+  error?: z.ZodError;
+} {
+  const result = HerokuProviderConfigSchema.safeParse(config);
+  if (result.success) {
+    return {
+      success: true,
+      data: result.data,
+    };
+  } else {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+}
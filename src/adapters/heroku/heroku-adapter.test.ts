@@ -0,0 +1,122 @@
+/**
+ * Heroku Provider Adapter unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { HerokuProviderAdapter } from './heroku-adapter.js';
+import type { HerokuProviderConfig } from './types.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('HerokuProviderAdapter', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const redirectUrl = 'https://app.example.com/callback';
+
+  const createAdapter = async (config: Partial<HerokuProviderConfig> = {}) => {
+    const adapter = new HerokuProviderAdapter({
+      clientId: 'heroku-client-id',
+      clientSecret: 'heroku-client-secret',
+      ...config,
+    });
+    await adapter.initialize();
+    return adapter;
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('generateAuthUrl', function () {
+    it('should use the Heroku Identity endpoints without discovery', async function () {
+      const adapter = await createAdapter({ scopes: ['identity', 'read'] });
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(adapter.providerName).to.equal('heroku');
+      expect(`${url.origin}${url.pathname}`).to.equal(
+        'https://id.heroku.com/oauth/authorize'
+      );
+      expect(url.searchParams.get('scope')).to.equal('identity read');
+      expect(url.searchParams.has('nonce')).to.be.false;
+      expect(fetchStub.called).to.be.false;
+    });
+  });
+
+  describe('createAuthorizationRequest', function () {
+    it('should reject scopes that are not Heroku scopes', async function () {
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () =>
+          adapter.createAuthorizationRequest({
+            state: 'state-123',
+            redirectUrl,
+            scopes: ['openid', 'write'],
+          }),
+        'invalid_scope',
+        'Unknown Heroku scopes: openid'
+      );
+    });
+  });
+
+  describe('exchangeCode', function () {
+    it('should send the client secret in the request body', async function () {
+      fetchStub.resolves(
+        new Response(
+          JSON.stringify({
+            access_token: 'heroku-access-token',
+            expires_in: 28799,
+            refresh_token: 'heroku-refresh-token',
+            token_type: 'Bearer',
+            user_id: '01234567-89ab-cdef-0123-456789abcdef',
+          }),
+          { status: 200, headers: { 'Content-Type': 'application/json' } }
+        )
+      );
+      const adapter = await createAdapter();
+
+      const tokens = await adapter.exchangeCode(
+        'code-123',
+        'verifier-123',
+        redirectUrl
+      );
+
+      const [url, options] = fetchStub.firstCall.args;
+      const body = new URLSearchParams(options.body);
+      expect(url).to.equal('https://id.heroku.com/oauth/token');
+      expect(body.get('client_secret')).to.equal('heroku-client-secret');
+      expect(tokens).to.include({
+        accessToken: 'heroku-access-token',
+        refreshToken: 'heroku-refresh-token',
+        scope: 'global',
+      });
+    });
+  });
+
+  describe('Provider Quirks', function () {
+    it('should describe Heroku Identity', async function () {
+      const adapter = await createAdapter();
+
+      expect(adapter.getProviderQuirks()).to.deep.include({
+        supportsOIDCDiscovery: false,
+        supportsRefreshTokens: true,
+        supportsResourceIndicators: false,
+        supportsRevocation: false,
+      });
+    });
+  });
+});
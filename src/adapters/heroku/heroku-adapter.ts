@@ -0,0 +1,77 @@
+/**
+ * Heroku Provider Adapter
+ * Extends the OIDC Provider Adapter with the Heroku Identity endpoints and
+ * Heroku OAuth scopes
+ */
+
+import type { ProviderQuirks } from '../../types.js';
+import { OIDCProviderAdapter } from '../oidc-provider/oidc-adapter.js';
+import type {
+  OIDCAuthUrlOptions,
+  OIDCAuthUrlResult,
+  OIDCProviderConfig,
+} from '../oidc-provider/types.js';
+import type { HerokuProviderConfig } from './types.js';
+import { validate as validateConfig } from './config.js';
+import { HEROKU_METADATA, isHerokuScope } from './utils.js';
+
+/**
+ * Heroku Provider Adapter
+ *
+ * Heroku Identity (`id.heroku.com`) is a plain OAuth 2.0 server: it has no
+ * discovery document, JWKS or ID tokens, so the adapter uses static metadata.
+ * Access tokens are Platform API tokens limited by Heroku's own scopes
+ * (`global`, `identity`, `read`, `write`, `read-protected`, `write-protected`).
+ */
+export class HerokuProviderAdapter extends OIDCProviderAdapter {
+  /** Provider name identifier */
+  public readonly providerName: string = 'heroku';
+
+  /**
+   * Creates a new Heroku Provider Adapter instance
+   * @param config - Heroku provider configuration
+   */
+  public constructor(config: HerokuProviderConfig) {
+    // Validate the Heroku settings; OIDC settings are validated by the base class
+    const oidcConfig = validateConfig(config);
+
+    super({
+      ...oidcConfig,
+      metadata: { ...HEROKU_METADATA },
+    } as OIDCProviderConfig);
+  }
+
+  /**
+   * Create an authorization request; per-request scopes must be Heroku scopes
+   * @param options - Per-request state, scopes and parameters
+   * @returns Authorization URL with the PKCE values it was built from
+   * @throws {OAuthError} If a scope is not a Heroku scope
+   */
+  public async createAuthorizationRequest(
+    options: OIDCAuthUrlOptions
+  ): Promise<OIDCAuthUrlResult> {
+    const unknownScopes = (options.scopes ?? []).filter(
+      (scope) => !isHerokuScope(scope)
+    );
+    if (unknownScopes.length > 0) {
+      throw this.createStandardError(
+        'invalid_scope',
+        `Unknown Heroku scopes: ${unknownScopes.join(', ')}`,
+        { stage: 'createAuthorizationRequest' }
+      );
+    }
+
+    return super.createAuthorizationRequest(options);
+  }
+
+  /**
+   * Compute provider-specific capabilities and requirements
+   * @returns Provider quirks
+   */
+  protected computeProviderQuirks(): ProviderQuirks {
+    return {
+      ...super.computeProviderQuirks(),
+      supportsResourceIndicators: false,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Heroku Provider Adapter exports
+ */
+
+export { HerokuProviderAdapter } from './heroku-adapter.js';
+export {
+  validate as validateHerokuConfig,
+  safeValidate as safeValidateHerokuConfig,
+  HerokuProviderConfigSchema,
+} from './config.js';
+export { hasHerokuScopes } from './utils.js';
+export type { HerokuProviderConfig, HerokuScope } from './types.js';
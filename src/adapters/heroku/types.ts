@@ -0,0 +1,28 @@
+/**
+ * Heroku Provider Adapter types
+ */
+
+import type { OIDCProviderConfig } from '../oidc-provider/types.js';
+import type { HEROKU_SCOPES } from './utils.js';
+
+/**
+ * Heroku OAuth scope
+ * (https://devcenter.heroku.com/articles/oauth#scopes)
+ */
+export type HerokuScope = (typeof HEROKU_SCOPES)[number];
+
+/**
+ * Heroku Provider Adapter configuration
+ *
+ * Heroku Identity has fixed endpoints and no discovery document, so `issuer`
+ * and `metadata` cannot be set. Heroku only supports confidential clients.
+ */
+export interface HerokuProviderConfig extends Omit<
+  OIDCProviderConfig,
+  'issuer' | 'metadata' | 'scopes' | 'clientSecret'
+> {
+  /** OAuth client secret */
+  clientSecret: string;
+  /** Scopes to request (default: global) */
+  scopes?: HerokuScope[];
+}
@@ -0,0 +1,51 @@
+/**
+ * Heroku utilities unit tests
+ */
+
+import { expect } from 'chai';
+import { expandHerokuScopes, hasHerokuScopes, isHerokuScope } from './utils.js';
+
+describe('Heroku utils', function () {
+  describe('isHerokuScope', function () {
+    it('should recognize Heroku scopes', function () {
+      expect(isHerokuScope('write-protected')).to.be.true;
+      expect(isHerokuScope('openid')).to.be.false;
+    });
+  });
+
+  describe('expandHerokuScopes', function () {
+    it('should add included scopes', function () {
+      expect([...expandHerokuScopes(['write-protected'])]).to.have.members([
+        'write-protected',
+        'write',
+        'read-protected',
+        'read',
+      ]);
+      expect([...expandHerokuScopes('global')]).to.have.members([
+        'global',
+        'identity',
+        'read',
+        'write',
+        'read-protected',
+        'write-protected',
+      ]);
+    });
+
+    it('should read comma and space separated scopes and drop unknown ones', function () {
+      expect([...expandHerokuScopes('identity,read custom')]).to.have.members([
+        'identity',
+        'read',
+      ]);
+    });
+  });
+
+  describe('hasHerokuScopes', function () {
+    it('should check required scopes against included scopes', function () {
+      expect(hasHerokuScopes(['write'], ['read'])).to.be.true;
+      expect(hasHerokuScopes('global', ['write-protected', 'identity'])).to.be
+        .true;
+      expect(hasHerokuScopes(['write'], ['read-protected'])).to.be.false;
+      expect(hasHerokuScopes(['read'], ['identity'])).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Shared utilities for Heroku Provider Adapter
+ */
+
+import type { OIDCProviderMetadata } from '../oidc-provider/types.js';
+import type { HerokuScope } from './types.js';
+
+/**
+ * Heroku OAuth scopes
+ */
+export const HEROKU_SCOPES = [
+  'global',
+  'identity',
+  'read',
+  'write',
+  'read-protected',
+  'write-protected',
+] as const;
+
+/**
+ * Constants for Heroku scopes
+ */
+export const HEROKU_CONSTANTS = {
+  DEFAULT_SCOPES: ['global'] as HerokuScope[],
+} as const;
+
+/**
+ * Heroku Identity metadata. Heroku publishes no discovery document, JWKS or
+ * ID tokens.
+ */
+export const HEROKU_METADATA: OIDCProviderMetadata = {
+  issuer: 'https://id.heroku.com',
+  authorization_endpoint: 'https://id.heroku.com/oauth/authorize',
+  token_endpoint: 'https://id.heroku.com/oauth/token',
+  grant_types_supported: ['authorization_code', 'refresh_token'],
+  response_types_supported: ['code'],
+  subject_types_supported: ['public'],
+  id_token_signing_alg_values_supported: [],
+  // Heroku reads the client secret from the request body
+  token_endpoint_auth_methods_supported: ['client_secret_post'],
+};
+
+/**
+ * Scopes each Heroku scope includes: `global` covers everything, write
+ * scopes include their read scope, and the `-protected` scopes add config
+ * vars to `read`/`write`
+ */
+const HEROKU_SCOPE_INCLUDES: Record<HerokuScope, HerokuScope[]> = {
+  global: ['identity', 'read', 'write', 'read-protected', 'write-protected'],
+  identity: [],
+  read: [],
+  write: ['read'],
+  'read-protected': ['read'],
+  'write-protected': ['write', 'read-protected', 'read'],
+};
+
+/**
+ * Whether a value is a Heroku scope
+ */
+export function isHerokuScope(scope: string): scope is HerokuScope {
+  return (HEROKU_SCOPES as readonly string[]).includes(scope);
+}
+
+/**
+ * Expand granted scopes with the scopes they include
+ * @param granted - Granted scopes, as a list or the `scope` of a token response
+ * @returns Granted and included scopes; unknown scopes are dropped
+ */
+export function expandHerokuScopes(
+  granted: string | string[]
+): Set<HerokuScope> {
+  const scopes =
+    typeof granted === 'string' ? granted.split(/[,\s]+/) : granted;
+  const expanded = new Set<HerokuScope>();
+
+  for (const scope of scopes.filter(isHerokuScope)) {
+    expanded.add(scope);
+    for (const included of HEROKU_SCOPE_INCLUDES[scope]) {
+      expanded.add(included);
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Check that granted scopes cover every required scope, e.g. `global`
+ * covers `write` and `write` covers `read`
+ * @param granted - Granted scopes, as a list or the `scope` of a token response
+ * @param required - Scopes the operation needs
+ */
+export function hasHerokuScopes(
+  granted: string | string[],
+  required: HerokuScope[]
+): boolean {
+  const expanded = expandHerokuScopes(granted);
+  return required.every((scope) => expanded.has(scope));
+}
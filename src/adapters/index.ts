@@ -5,11 +5,35 @@
 // OIDC Provider Adapter
 export * from './oidc-provider/index.js';
 
+// GitHub Provider Adapter
+export * from './github/index.js';
+
+// Microsoft Entra ID Provider Adapter
+export * from './entra/index.js';
+
+// Google Provider Adapter
+export * from './google/index.js';
+
+// Okta Provider Adapter
+export * from './okta/index.js';
+
+// Auth0 Provider Adapter
+export * from './auth0/index.js';
+
+// Salesforce Provider Adapter
+export * from './salesforce/index.js';
+
+// Heroku Provider Adapter
+export * from './heroku/index.js';
+
 // Re-export base adapter for convenience
 export { BaseOAuthAdapter } from '../base-adapter.js';
 export type {
   ProviderConfig,
   TokenResponse,
+  IdTokenClaims,
+  UserProfile,
   OAuthError,
   ProviderQuirks,
+  TokenTypeHint,
 } from '../types.js';
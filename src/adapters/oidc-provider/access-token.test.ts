@@ -0,0 +1,250 @@
+/**
+ * JWT access token verifier unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { AccessTokenVerifier } from './access-token.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  createTestAdapter,
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import {
+  createTestSigningKey,
+  jwksResponse,
+  signTestJwt,
+} from '../../testUtils/jwt.js';
+
+describe('AccessTokenVerifier', function () {
+  const signingKey = createTestSigningKey('ES256', 'kid-1');
+  const metadata = oidcMetadata.minimal;
+  const resource = 'https://mcp.example.com/mcp';
+
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+  let verifier: AccessTokenVerifier;
+  let now: number;
+
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    iss: metadata.issuer,
+    sub: 'user-123',
+    aud: resource,
+    client_id: 'mcp-client',
+    exp: now + 300,
+    iat: now,
+    jti: 'token-1',
+    scope: 'mcp:read mcp:write',
+    ...overrides,
+  });
+
+  const sign = (
+    overrides: Record<string, unknown> = {},
+    header: Record<string, unknown> = { typ: 'at+jwt' }
+  ) => signTestJwt(claims(overrides), signingKey, header);
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+    fetchStub.resolves(jwksResponse([signingKey.jwk]));
+    now = Math.floor(Date.now() / 1000);
+    verifier = new AccessTokenVerifier(
+      metadata,
+      { audience: resource, requiredScopes: ['mcp:read'] },
+      { debug: sinon.stub() } as any
+    );
+  });
+
+  afterEach(function () {
+    restoreStubs();
+  });
+
+  it('should return normalized claims for a valid access token', async function () {
+    const result = await verifier.verify(sign());
+
+    expect(result).to.deep.equal({
+      iss: metadata.issuer,
+      sub: 'user-123',
+      aud: [resource],
+      exp: now + 300,
+      iat: now,
+      jti: 'token-1',
+      clientId: 'mcp-client',
+      scopes: ['mcp:read', 'mcp:write'],
+      claims: claims(),
+    });
+    expect(fetchStub.firstCall.args[0]).to.equal(metadata.jwks_uri);
+  });
+
+  it('should read scp arrays and azp as used by Okta and Entra', async function () {
+    const result = await verifier.verify(
+      sign({
+        scope: undefined,
+        scp: ['mcp:read'],
+        client_id: undefined,
+        azp: 'app',
+      })
+    );
+
+    expect(result.scopes).to.deep.equal(['mcp:read']);
+    expect(result.clientId).to.equal('app');
+  });
+
+  it('should expose the certificate binding of mTLS-bound tokens', async function () {
+    const result = await verifier.verify(
+      sign({ cnf: { 'x5t#S256': 'bwcK0esc3ACC3DB2Y5' } })
+    );
+
+    expect(result.certificateThumbprint).to.equal('bwcK0esc3ACC3DB2Y5');
+  });
+
+  it('should expose the DPoP key binding of DPoP-bound tokens', async function () {
+    const result = await verifier.verify(sign({ cnf: { jkt: 'jkt-1' } }));
+
+    expect(result.dpopKeyThumbprint).to.equal('jkt-1');
+  });
+
+  describe('invalid_token', function () {
+    const cases: Array<[string, () => string, string]> = [
+      ['malformed tokens', () => 'not-a-jwt', 'Access token is malformed'],
+      [
+        'tokens without typ=at+jwt',
+        () => sign({}, { typ: 'JWT' }),
+        'Unexpected access token typ: JWT',
+      ],
+      [
+        'symmetric algorithms',
+        () =>
+          signTestJwt(
+            claims(),
+            { alg: 'HS256', secret: 'shared' },
+            { typ: 'at+jwt' }
+          ),
+        'Unexpected access token signing algorithm: HS256',
+      ],
+      [
+        'tokens signed by an unknown key',
+        () =>
+          signTestJwt(claims(), createTestSigningKey('ES256', 'kid-1'), {
+            typ: 'at+jwt',
+          }),
+        'signature verification failed',
+      ],
+      [
+        'issuer mismatches',
+        () => sign({ iss: 'https://evil.example.com' }),
+        'issuer mismatch',
+      ],
+      [
+        'audience mismatches',
+        () => sign({ aud: 'https://other.example.com' }),
+        'audience does not include',
+      ],
+      ['expired tokens', () => sign({ exp: now - 60 }), 'has expired'],
+      [
+        'tokens used before nbf',
+        () => sign({ nbf: now + 60 }),
+        'not yet valid',
+      ],
+      ['tokens without sub', () => sign({ sub: undefined }), 'missing sub'],
+    ];
+
+    for (const [name, token, description] of cases) {
+      it(`should reject ${name}`, async function () {
+        try {
+          await verifier.verify(token());
+          expect.fail('Expected to throw');
+        } catch (err: any) {
+          expect(err.statusCode).to.equal(401);
+          expect(err.error).to.equal('invalid_token');
+          expect(err.error_description).to.include(description);
+        }
+      });
+    }
+
+    it('should accept any typ when requireTyp is false', async function () {
+      verifier = new AccessTokenVerifier(
+        metadata,
+        { audience: resource, requireTyp: false },
+        { debug: sinon.stub() } as any
+      );
+
+      const result = await verifier.verify(sign({}, { typ: 'JWT' }));
+      expect(result.sub).to.equal('user-123');
+    });
+  });
+
+  describe('insufficient_scope', function () {
+    it('should reject tokens missing a configured or per-call scope', async function () {
+      try {
+        await verifier.verify(sign({ scope: 'mcp:write' }), ['mcp:admin']);
+        expect.fail('Expected to throw');
+      } catch (err: any) {
+        expect(err.statusCode).to.equal(403);
+        expect(err.error).to.equal('insufficient_scope');
+        expect(err.error_description).to.equal(
+          'Access token is missing required scope(s): mcp:read mcp:admin'
+        );
+      }
+    });
+  });
+
+  it('should normalize JWKS fetch failures', async function () {
+    fetchStub.resolves({ ok: false, status: 500, statusText: 'Error' });
+
+    await expectOAuthError(
+      () => verifier.verify(sign()),
+      'server_error',
+      'Failed to load provider JWKS'
+    );
+  });
+
+  describe('construction', function () {
+    it('should require a jwks_uri', function () {
+      expect(
+        () =>
+          new AccessTokenVerifier(
+            oidcMetadata.withoutJwksUri,
+            { audience: resource },
+            {} as any
+          )
+      )
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('jwks_uri');
+    });
+
+    it('should require an audience', function () {
+      expect(() => new AccessTokenVerifier(metadata, {}, {} as any))
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('audience is required');
+    });
+
+    it('should default the audience to the adapter resource', async function () {
+      const adapter = createTestAdapter({ resource });
+      await adapter.initialize();
+
+      const result = await adapter.createAccessTokenVerifier().verify(sign());
+      expect(result.aud).to.deep.equal([resource]);
+    });
+
+    it('should share the adapter JWKS cache between verifiers', async function () {
+      const adapter = createTestAdapter({ resource });
+      await adapter.initialize();
+
+      await adapter.createAccessTokenVerifier().verify(sign());
+      await adapter.createAccessTokenVerifier().verify(sign());
+
+      expect(fetchStub.callCount).to.equal(1);
+    });
+
+    it('should require an initialized adapter', function () {
+      expect(() => createTestAdapter({ resource }).createAccessTokenVerifier())
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('must be initialized');
+    });
+  });
+});
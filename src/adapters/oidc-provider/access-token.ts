@@ -0,0 +1,276 @@
+/**
+ * JWT access token verification for MCP resource servers
+ * Implements the RFC 9068 JWT profile for OAuth 2.0 access tokens
+ */
+
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import { ErrorNormalizer } from '../../utils/error-normalizer.js';
+import type {
+  AccessTokenClaims,
+  AccessTokenVerifierOptions,
+  OIDCProviderMetadata,
+} from './types.js';
+import {
+  audienceList,
+  decodeJwt,
+  isSupportedAlgorithm,
+  isSymmetricAlgorithm,
+  type DecodedJwt,
+} from './jwt.js';
+import { createJwksCache, JwsVerifier } from './jws.js';
+import { OIDC_CONSTANTS, readConfirmationClaim } from './utils.js';
+
+/**
+ * Accepted `typ` header values for JWT access tokens (RFC 9068 §2.1)
+ */
+const ACCESS_TOKEN_TYPES = new Set(['at+jwt', 'application/at+jwt']);
+
+/**
+ * Asymmetric algorithms accepted when none are configured. Symmetric
+ * algorithms are never accepted: a resource server has no shared secret.
+ */
+const DEFAULT_ALGORITHMS = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+  'EdDSA',
+];
+
+/**
+ * Verifies JWT access tokens locally against the provider JWKS
+ *
+ * Failures are reported as {@link OAuthError}s ready for a `WWW-Authenticate`
+ * challenge: `invalid_token` (401) for tokens that fail verification and
+ * `insufficient_scope` (403) for valid tokens lacking a required scope.
+ */
+export class AccessTokenVerifier {
+  /** Expected audiences; the token must carry at least one */
+  private readonly audiences: string[];
+
+  /** Accepted signing algorithms */
+  private readonly algorithms: string[];
+
+  /** Allowed clock skew in seconds */
+  private readonly clockTolerance: number;
+
+  /**
+   * @param metadata - Provider metadata with `issuer` and `jwks_uri`
+   * @param options - Audience, required scopes and verification settings
+   * @param logger - Adapter logger
+   * @param jws - Signature and issuer verifier (default: exact issuer match
+   * and a JWKS cache of its own)
+   * @throws {OAuthError} If the provider has no `jwks_uri` or no audience is given
+   */
+  constructor(
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly options: AccessTokenVerifierOptions,
+    private readonly logger: Logger,
+    private readonly jws = new JwsVerifier(
+      metadata,
+      createJwksCache(metadata, options.jwksCacheTtlSeconds, logger)
+    )
+  ) {
+    if (!jws.hasJwks) {
+      throw this.createError(
+        'invalid_request',
+        'Provider metadata does not include jwks_uri; cannot verify access tokens',
+        400
+      );
+    }
+
+    this.audiences = audienceList(options.audience);
+    if (this.audiences.length === 0) {
+      throw this.createError(
+        'invalid_request',
+        'An audience is required to verify access tokens',
+        400
+      );
+    }
+
+    this.algorithms = (options.algorithms ?? DEFAULT_ALGORITHMS).filter(
+      (alg) => isSupportedAlgorithm(alg) && !isSymmetricAlgorithm(alg)
+    );
+    this.clockTolerance =
+      options.clockToleranceSeconds ??
+      OIDC_CONSTANTS.ACCESS_TOKEN_CLOCK_TOLERANCE_SECONDS;
+  }
+
+  /**
+   * Verify a JWT access token and return its normalized claims
+   * @param accessToken - Compact serialized access token (without the `Bearer ` prefix)
+   * @param requiredScopes - Scopes required for this request, in addition to the configured ones
+   * @returns Verified, normalized claims
+   * @throws {OAuthError} invalid_token or insufficient_scope
+   */
+  async verify(
+    accessToken: string,
+    requiredScopes: string[] = []
+  ): Promise<AccessTokenClaims> {
+    let decoded: DecodedJwt;
+    try {
+      decoded = decodeJwt(accessToken);
+    } catch (error) {
+      throw this.invalidToken(
+        `Access token is malformed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const typ = decoded.header.typ?.toLowerCase();
+    if (
+      this.options.requireTyp !== false &&
+      (!typ || !ACCESS_TOKEN_TYPES.has(typ))
+    ) {
+      throw this.invalidToken(
+        `Unexpected access token typ: ${String(decoded.header.typ)}`
+      );
+    }
+
+    await this.verifySignature(decoded);
+    const claims = this.validateClaims(decoded.payload);
+
+    const missing = [
+      ...(this.options.requiredScopes ?? []),
+      ...requiredScopes,
+    ].filter((scope) => !claims.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw this.createError(
+        'insufficient_scope',
+        `Access token is missing required scope(s): ${[...new Set(missing)].join(' ')}`,
+        403
+      );
+    }
+
+    this.logger.debug('Access token verified', {
+      stage: 'verifyAccessToken',
+      issuer: this.metadata.issuer,
+      alg: decoded.header.alg,
+      kid: decoded.header.kid,
+    });
+
+    return claims;
+  }
+
+  /**
+   * Verify the JWS signature using the provider JWKS
+   */
+  private async verifySignature(decoded: DecodedJwt): Promise<void> {
+    await this.jws.verifySignature(decoded, {
+      name: 'access token',
+      algorithms: this.algorithms,
+      invalid: (description) => this.invalidToken(description),
+      jwksUnavailable: (description) =>
+        this.createError('server_error', description, 500),
+    });
+  }
+
+  /**
+   * Validate registered access token claims (RFC 9068 §4)
+   */
+  private validateClaims(payload: Record<string, unknown>): AccessTokenClaims {
+    const now = Math.floor(Date.now() / 1000);
+
+    const iss = this.jws.verifyIssuer(payload, {
+      name: 'access token',
+      invalid: (description) => this.invalidToken(description),
+    });
+
+    const audiences = audienceList(payload.aud);
+    if (!audiences.some((aud) => this.audiences.includes(aud))) {
+      throw this.invalidToken(
+        `Access token audience does not include ${this.audiences.join(' or ')}`
+      );
+    }
+
+    if (typeof payload.exp !== 'number') {
+      throw this.invalidToken('Access token is missing exp claim');
+    }
+    if (now - this.clockTolerance >= payload.exp) {
+      throw this.invalidToken('Access token has expired');
+    }
+
+    if (
+      typeof payload.nbf === 'number' &&
+      payload.nbf > now + this.clockTolerance
+    ) {
+      throw this.invalidToken('Access token is not yet valid');
+    }
+
+    if (
+      typeof payload.iat === 'number' &&
+      payload.iat > now + this.clockTolerance
+    ) {
+      throw this.invalidToken('Access token was issued in the future');
+    }
+
+    if (typeof payload.sub !== 'string' || !payload.sub) {
+      throw this.invalidToken('Access token is missing sub claim');
+    }
+
+    const clientId =
+      typeof payload.client_id === 'string'
+        ? payload.client_id
+        : typeof payload.azp === 'string'
+          ? payload.azp
+          : undefined;
+    const certificateThumbprint = readConfirmationClaim(payload, 'x5t#S256');
+    const dpopKeyThumbprint = readConfirmationClaim(payload, 'jkt');
+
+    return {
+      iss,
+      sub: payload.sub,
+      aud: audiences,
+      exp: payload.exp,
+      ...(typeof payload.iat === 'number' && { iat: payload.iat }),
+      ...(typeof payload.nbf === 'number' && { nbf: payload.nbf }),
+      ...(typeof payload.jti === 'string' && { jti: payload.jti }),
+      ...(clientId && { clientId }),
+      scopes: scopeList(payload),
+      ...(certificateThumbprint && { certificateThumbprint }),
+      ...(dpopKeyThumbprint && { dpopKeyThumbprint }),
+      claims: payload,
+    };
+  }
+
+  /**
+   * Build an invalid_token error for verification failures
+   */
+  private invalidToken(description: string): OAuthError {
+    return this.createError('invalid_token', description, 401);
+  }
+
+  /**
+   * Build a normalized error with the status a resource server should return
+   */
+  private createError(
+    error: string,
+    description: string,
+    statusCode: number
+  ): OAuthError {
+    return ErrorNormalizer.normalizeError(
+      { error, error_description: description, statusCode },
+      { issuer: this.metadata.issuer }
+    );
+  }
+}
+
+/**
+ * Read granted scopes from `scope` (RFC 9068, space-delimited) or `scp`
+ * (string or array, used by Okta and Microsoft Entra ID)
+ */
+function scopeList(payload: Record<string, unknown>): string[] {
+  const value = payload.scope ?? payload.scp;
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.filter((scope): scope is string => typeof scope === 'string');
+  }
+  return [];
+}
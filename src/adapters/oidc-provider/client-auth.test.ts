@@ -0,0 +1,326 @@
+/**
+ * Client authentication unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { ClientAuthenticator, resolveClientAuthMethod } from './client-auth.js';
+import { decodeJwt, importJwk, verifyJwtSignature } from './jwt.js';
+import type { OIDCProviderConfig, OIDCProviderMetadata } from './types.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import { createTestSigningKey } from '../../testUtils/jwt.js';
+import {
+  clientCertificate,
+  serverCertificate,
+  startTlsServer,
+} from '../../testUtils/tls.js';
+
+describe('ClientAuthenticator', function () {
+  const tokenEndpoint = oidcMetadata.minimal.token_endpoint;
+
+  const config = (
+    overrides: Partial<OIDCProviderConfig> = {}
+  ): OIDCProviderConfig => ({
+    clientId: 'test-client-id',
+    scopes: ['openid'],
+    ...overrides,
+  });
+
+  const metadata = (methods?: string[]): OIDCProviderMetadata =>
+    ({
+      ...oidcMetadata.minimal,
+      ...(methods && { token_endpoint_auth_methods_supported: methods }),
+    }) as OIDCProviderMetadata;
+
+  const authenticate = (authenticator: ClientAuthenticator) => {
+    const params = new URLSearchParams({ grant_type: 'refresh_token' });
+    const headers = authenticator.authenticate(params, tokenEndpoint);
+    return { params, headers };
+  };
+
+  describe('resolveClientAuthMethod', function () {
+    it('should prefer an explicit method', function () {
+      expect(
+        resolveClientAuthMethod(
+          config({
+            clientSecret: 'secret',
+            clientAuthentication: { method: 'client_secret_post' },
+          }),
+          metadata()
+        )
+      ).to.equal('client_secret_post');
+    });
+
+    it('should use private_key_jwt when a private key is configured', function () {
+      const { jwk } = createTestSigningKey('ES256');
+      expect(
+        resolveClientAuthMethod(
+          config({ clientAuthentication: { privateKey: jwk } }),
+          metadata()
+        )
+      ).to.equal('private_key_jwt');
+    });
+
+    it('should negotiate secret methods against provider metadata', function () {
+      const withSecret = config({ clientSecret: 'secret' });
+
+      expect(resolveClientAuthMethod(withSecret, metadata([]))).to.equal(
+        'client_secret_basic'
+      );
+      expect(
+        resolveClientAuthMethod(
+          withSecret,
+          metadata(['private_key_jwt', 'client_secret_post'])
+        )
+      ).to.equal('client_secret_post');
+      expect(
+        resolveClientAuthMethod(withSecret, metadata(['client_secret_jwt']))
+      ).to.equal('client_secret_jwt');
+    });
+
+    it('should negotiate mutual TLS when only a certificate is configured', function () {
+      const withCertificate = config({
+        clientAuthentication: { mtls: clientCertificate },
+      });
+
+      expect(resolveClientAuthMethod(withCertificate, metadata())).to.equal(
+        'tls_client_auth'
+      );
+      expect(
+        resolveClientAuthMethod(
+          withCertificate,
+          metadata(['self_signed_tls_client_auth'])
+        )
+      ).to.equal('self_signed_tls_client_auth');
+    });
+
+    it('should use none for public clients', function () {
+      expect(resolveClientAuthMethod(config(), metadata())).to.equal('none');
+    });
+  });
+
+  describe('authenticate', function () {
+    it('should send HTTP Basic credentials for client_secret_basic', function () {
+      const { params, headers } = authenticate(
+        new ClientAuthenticator(
+          config({ clientSecret: 'secret' }),
+          metadata(['client_secret_basic'])
+        )
+      );
+
+      expect(headers.Authorization).to.equal(
+        `Basic ${Buffer.from('test-client-id:secret').toString('base64')}`
+      );
+      expect(params.has('client_secret')).to.be.false;
+      expect(params.get('client_id')).to.equal('test-client-id');
+    });
+
+    it('should send the secret in the body for client_secret_post', function () {
+      const { params, headers } = authenticate(
+        new ClientAuthenticator(
+          config({ clientSecret: 'secret' }),
+          metadata(['client_secret_post'])
+        )
+      );
+
+      expect(headers).to.not.have.property('Authorization');
+      expect(params.get('client_secret')).to.equal('secret');
+    });
+
+    it('should send only client_id for public clients', function () {
+      const { params, headers } = authenticate(
+        new ClientAuthenticator(config(), metadata())
+      );
+
+      expect(headers).to.not.have.property('Authorization');
+      expect([...params.keys()]).to.deep.equal(['grant_type', 'client_id']);
+    });
+
+    it('should sign an HS256 assertion for client_secret_jwt', function () {
+      const { params } = authenticate(
+        new ClientAuthenticator(
+          config({
+            clientSecret: 'secret',
+            clientAuthentication: { method: 'client_secret_jwt' },
+          }),
+          metadata()
+        )
+      );
+
+      expect(params.get('client_assertion_type')).to.equal(
+        'urn:ietf:params:oauth:client-assertion-type:jwt-bearer'
+      );
+      const decoded = decodeJwt(params.get('client_assertion')!);
+      expect(decoded.header.alg).to.equal('HS256');
+      expect(verifyJwtSignature(decoded, Buffer.from('secret'))).to.be.true;
+      expect(decoded.payload).to.include({
+        iss: 'test-client-id',
+        sub: 'test-client-id',
+        aud: tokenEndpoint,
+      });
+    });
+
+    for (const format of ['JWK', 'PEM'] as const) {
+      it(`should sign a private_key_jwt assertion with a ${format} key`, function () {
+        const key = createTestSigningKey('ES256', 'client-key');
+        const privateKey =
+          format === 'JWK'
+            ? {
+                ...(key.privateKey.export({ format: 'jwk' }) as object),
+                kty: 'EC',
+                kid: 'client-key',
+              }
+            : (key.privateKey.export({
+                format: 'pem',
+                type: 'pkcs8',
+              }) as string);
+
+        const { params } = authenticate(
+          new ClientAuthenticator(
+            config({
+              clientAuthentication: {
+                privateKey,
+                ...(format === 'PEM' && { kid: 'pem-key' }),
+              },
+            }),
+            metadata(['private_key_jwt'])
+          )
+        );
+
+        const decoded = decodeJwt(params.get('client_assertion')!);
+        expect(decoded.header).to.deep.equal({
+          alg: 'ES256',
+          typ: 'JWT',
+          kid: format === 'JWK' ? 'client-key' : 'pem-key',
+        });
+        expect(verifyJwtSignature(decoded, importJwk(key.jwk))).to.be.true;
+        expect(decoded.payload.exp).to.equal(
+          (decoded.payload.iat as number) + 60
+        );
+        expect(decoded.payload.jti).to.be.a('string');
+      });
+    }
+  });
+
+  describe('mutual TLS', function () {
+    const aliases = {
+      token_endpoint: 'https://mtls.auth.example.com/oauth/token',
+    };
+
+    it('should prefer mtls_endpoint_aliases only when a certificate is configured', function () {
+      const withAliases = {
+        ...metadata(),
+        mtls_endpoint_aliases: aliases,
+      } as OIDCProviderMetadata;
+
+      const mtls = new ClientAuthenticator(
+        config({ clientAuthentication: { mtls: clientCertificate } }),
+        withAliases
+      );
+      const plain = new ClientAuthenticator(config(), withAliases);
+
+      expect(mtls.endpoint('token_endpoint', tokenEndpoint)).to.equal(
+        aliases.token_endpoint
+      );
+      expect(
+        mtls.endpoint('revocation_endpoint', 'https://auth.example.com/revoke')
+      ).to.equal('https://auth.example.com/revoke');
+      expect(plain.endpoint('token_endpoint', tokenEndpoint)).to.equal(
+        tokenEndpoint
+      );
+    });
+
+    it('should send only client_id and present the certificate', async function () {
+      const server = await startTlsServer(() => ({
+        body: { access_token: 'bound-token' },
+      }));
+
+      try {
+        const authenticator = new ClientAuthenticator(
+          config({
+            clientAuthentication: {
+              method: 'tls_client_auth',
+              mtls: { ...clientCertificate, ca: serverCertificate.cert },
+            },
+          }),
+          metadata(['tls_client_auth'])
+        );
+        const { params, headers } = authenticate(authenticator);
+        const response = await authenticator.fetch(`${server.url}/token`, {
+          method: 'POST',
+          headers,
+          body: params.toString(),
+        });
+
+        expect(await response.json()).to.deep.equal({
+          access_token: 'bound-token',
+        });
+        expect(headers).to.not.have.property('Authorization');
+        expect([...server.requests[0]!.body.keys()]).to.deep.equal([
+          'grant_type',
+          'client_id',
+        ]);
+        expect(server.requests[0]!.peerCertificate).to.be.instanceOf(Buffer);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe('configuration errors', function () {
+    it('should reject unreadable private keys', function () {
+      expect(
+        () =>
+          new ClientAuthenticator(
+            config({
+              clientAuthentication: {
+                method: 'private_key_jwt',
+                privateKey: 'not a pem',
+              },
+            }),
+            metadata()
+          )
+      )
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('Invalid private key for private_key_jwt');
+    });
+
+    it('should reject symmetric algorithms for private_key_jwt', function () {
+      const key = createTestSigningKey('RS256');
+      expect(
+        () =>
+          new ClientAuthenticator(
+            config({
+              clientAuthentication: {
+                privateKey: key.privateKey.export({
+                  format: 'pem',
+                  type: 'pkcs8',
+                }) as string,
+                alg: 'HS256',
+              },
+            }),
+            metadata()
+          )
+      )
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('Unsupported private_key_jwt signing algorithm');
+    });
+
+    it('should warn when the provider does not advertise the method', function () {
+      const logger = { warn: sinon.stub() };
+
+      new ClientAuthenticator(
+        config({ clientSecret: 'secret' }),
+        metadata(['private_key_jwt']),
+        logger as any
+      );
+
+      expect(logger.warn.calledOnce).to.be.true;
+      expect(logger.warn.firstCall.args[1]).to.include({
+        method: 'client_secret_basic',
+      });
+    });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Client authentication for OIDC Provider Adapter
+ * Implements RFC 6749 §2.3 secrets, RFC 7523 JWT assertions and RFC 8705 mutual TLS
+ */
+
+import { randomUUID, type KeyObject } from 'node:crypto';
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import { ErrorNormalizer } from '../../utils/error-normalizer.js';
+import {
+  readJsonObjectResponse,
+  type JsonResponse,
+} from '../../utils/json-response.js';
+import type {
+  ClientAuthMethod,
+  OIDCProviderConfig,
+  OIDCProviderMetadata,
+} from './types.js';
+import {
+  defaultSigningAlgorithm,
+  importPrivateKey,
+  isSupportedAlgorithm,
+  isSymmetricAlgorithm,
+  signJwt,
+} from './jwt.js';
+import {
+  createMtlsFetch,
+  type MtlsFetch,
+  type MtlsRequestInit,
+} from './mtls.js';
+
+/**
+ * `client_assertion_type` for JWT client authentication (RFC 7523 §2.2)
+ */
+const JWT_BEARER_ASSERTION_TYPE =
+  'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+/**
+ * Lifetime of client assertions in seconds
+ */
+const ASSERTION_LIFETIME_SECONDS = 60;
+
+/**
+ * Secret-based methods in order of preference when negotiating
+ */
+const SECRET_METHODS: ClientAuthMethod[] = [
+  'client_secret_basic',
+  'client_secret_post',
+  'client_secret_jwt',
+];
+
+/**
+ * Mutual-TLS methods in order of preference when negotiating
+ */
+const TLS_METHODS: ClientAuthMethod[] = [
+  'tls_client_auth',
+  'self_signed_tls_client_auth',
+];
+
+/**
+ * Authenticates the client on token, revocation and introspection requests
+ *
+ * The method is negotiated once against the provider's
+ * `token_endpoint_auth_methods_supported`; see {@link resolveClientAuthMethod}.
+ */
+export class ClientAuthenticator {
+  /** Negotiated authentication method */
+  readonly method: ClientAuthMethod;
+
+  /** Assertion signing algorithm for JWT methods */
+  private readonly alg?: string;
+
+  /** Private key for private_key_jwt */
+  private readonly privateKey?: KeyObject;
+
+  /** Key identifier for private_key_jwt assertions */
+  private readonly kid?: string;
+
+  /** Transport presenting the client certificate, when mutual TLS is configured */
+  private readonly mtlsFetch?: MtlsFetch;
+
+  /**
+   * @param config - Client credentials and authentication settings
+   * @param metadata - Provider metadata used for negotiation
+   * @param logger - Optional logger for negotiation warnings
+   * @throws {OAuthError} If the configured key or method cannot be used
+   */
+  constructor(
+    private readonly config: OIDCProviderConfig,
+    private readonly metadata: OIDCProviderMetadata,
+    logger?: Logger
+  ) {
+    this.method = resolveClientAuthMethod(config, metadata);
+    const options = config.clientAuthentication ?? {};
+    const supported = metadata.token_endpoint_auth_methods_supported;
+
+    // Public clients are not flagged: providers rarely advertise `none`
+    if (
+      this.method !== 'none' &&
+      supported &&
+      !supported.includes(this.method)
+    ) {
+      logger?.warn(
+        'Client authentication method is not advertised by the provider',
+        {
+          stage: 'clientAuthentication',
+          issuer: metadata.issuer,
+          method: this.method,
+          supported,
+        }
+      );
+    }
+
+    if (options.mtls) {
+      this.mtlsFetch = createMtlsFetch(options.mtls);
+    }
+
+    if (this.method === 'private_key_jwt') {
+      try {
+        this.privateKey = importPrivateKey(options.privateKey!);
+      } catch (error) {
+        throw this.createError(
+          `Invalid private key for private_key_jwt: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      const jwk =
+        typeof options.privateKey === 'object' ? options.privateKey : undefined;
+      const alg =
+        options.alg ?? jwk?.alg ?? defaultSigningAlgorithm(this.privateKey);
+      if (!alg || !isSupportedAlgorithm(alg) || isSymmetricAlgorithm(alg)) {
+        throw this.createError(
+          `Unsupported private_key_jwt signing algorithm: ${String(alg)}`
+        );
+      }
+      this.alg = alg;
+      const kid = options.kid ?? jwk?.kid;
+      if (kid) {
+        this.kid = kid;
+      }
+    } else if (this.method === 'client_secret_jwt') {
+      this.alg = options.alg ?? 'HS256';
+      if (!isSymmetricAlgorithm(this.alg)) {
+        throw this.createError(
+          `Unsupported client_secret_jwt signing algorithm: ${this.alg}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Add client authentication to a form-encoded request
+   * @param params - Request body; credentials or assertions are added in place
+   * @param endpoint - Endpoint URL the request is sent to (assertion audience)
+   * @returns Request headers, including `Authorization` for client_secret_basic
+   */
+  authenticate(
+    params: URLSearchParams,
+    endpoint: string
+  ): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    params.set('client_id', this.config.clientId);
+
+    switch (this.method) {
+      case 'client_secret_basic': {
+        const credentials = `${this.config.clientId}:${this.config.clientSecret}`;
+        const encoded = Buffer.from(credentials).toString('base64');
+        headers.Authorization = `Basic ${encoded}`;
+        break;
+      }
+      case 'client_secret_post':
+        params.set('client_secret', this.config.clientSecret!);
+        break;
+      case 'client_secret_jwt':
+        params.set('client_assertion_type', JWT_BEARER_ASSERTION_TYPE);
+        params.set(
+          'client_assertion',
+          this.createAssertion(endpoint, Buffer.from(this.config.clientSecret!))
+        );
+        break;
+      case 'private_key_jwt':
+        params.set('client_assertion_type', JWT_BEARER_ASSERTION_TYPE);
+        params.set(
+          'client_assertion',
+          this.createAssertion(endpoint, this.privateKey!)
+        );
+        break;
+      case 'tls_client_auth':
+      case 'self_signed_tls_client_auth':
+      case 'none':
+        // mTLS clients authenticate with their certificate (RFC 8705 §2)
+        break;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Resolve the URL for an endpoint, preferring its `mtls_endpoint_aliases`
+   * entry when a client certificate is configured (RFC 8705 §5)
+   * @param name - Metadata name of the endpoint
+   * @param url - Default endpoint URL from provider metadata
+   */
+  endpoint(name: string, url: string): string {
+    if (!this.mtlsFetch) {
+      return url;
+    }
+    return this.metadata.mtls_endpoint_aliases?.[name] ?? url;
+  }
+
+  /**
+   * Send an authenticated request, presenting the client certificate when
+   * mutual TLS is configured
+   * @param url - Endpoint URL, see {@link endpoint}
+   * @param init - Request method, headers and body
+   */
+  fetch(url: string, init: MtlsRequestInit): Promise<Response> {
+    return this.mtlsFetch ? this.mtlsFetch(url, init) : fetch(url, init);
+  }
+
+  /**
+   * POST form parameters with client authentication and parse the JSON body
+   * @param url - Endpoint URL, see {@link endpoint}
+   * @param params - Request parameters; copied so retries do not accumulate
+   * client authentication parameters
+   * @param description - Request name for errors, e.g. `Device authorization request`
+   * @returns Status and parsed JSON object; 4xx responses are returned, not thrown
+   * @throws Error on 5xx responses so the request is retried
+   */
+  async postForm(
+    url: string,
+    params: URLSearchParams,
+    description: string
+  ): Promise<JsonResponse<Record<string, unknown>>> {
+    const body = new URLSearchParams(params);
+    const headers = this.authenticate(body, url);
+
+    const response = await this.fetch(url, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+    });
+
+    return readJsonObjectResponse(response, description);
+  }
+
+  /**
+   * Build a signed client assertion (RFC 7523 §3)
+   */
+  private createAssertion(audience: string, key: KeyObject | Buffer): string {
+    const now = Math.floor(Date.now() / 1000);
+    return signJwt(
+      {
+        iss: this.config.clientId,
+        sub: this.config.clientId,
+        aud: audience,
+        jti: randomUUID(),
+        iat: now,
+        exp: now + ASSERTION_LIFETIME_SECONDS,
+      },
+      key,
+      { alg: this.alg!, typ: 'JWT', ...(this.kid && { kid: this.kid }) }
+    );
+  }
+
+  /**
+   * Build an invalid_request error for configuration problems
+   */
+  private createError(description: string): OAuthError {
+    return ErrorNormalizer.normalizeError(
+      {
+        error: 'invalid_request',
+        error_description: description,
+        statusCode: 400,
+      },
+      { issuer: this.metadata.issuer }
+    );
+  }
+}
+
+/**
+ * Choose the client authentication method.
+ * An explicit `clientAuthentication.method` always wins. Otherwise a configured
+ * private key selects `private_key_jwt`, a client secret selects the first
+ * secret method the provider advertises (`client_secret_basic` when the
+ * provider advertises none, per RFC 8414 §2), a client certificate selects
+ * `tls_client_auth` or `self_signed_tls_client_auth`, and public clients use
+ * `none`.
+ */
+export function resolveClientAuthMethod(
+  config: OIDCProviderConfig,
+  metadata: OIDCProviderMetadata
+): ClientAuthMethod {
+  const options = config.clientAuthentication ?? {};
+  if (options.method) {
+    return options.method;
+  }
+  if (options.privateKey) {
+    return 'private_key_jwt';
+  }
+
+  const supported = metadata.token_endpoint_auth_methods_supported ?? [];
+  const candidates = config.clientSecret
+    ? SECRET_METHODS
+    : options.mtls
+      ? TLS_METHODS
+      : undefined;
+  if (!candidates) {
+    return 'none';
+  }
+  return (
+    candidates.find((method) => supported.includes(method)) ?? candidates[0]!
+  );
+}
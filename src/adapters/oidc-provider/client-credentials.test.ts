@@ -0,0 +1,99 @@
+/**
+ * Client credentials token cache unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { ClientCredentialsTokenCache } from './client-credentials.js';
+
+describe('ClientCredentialsTokenCache', function () {
+  let clock: sinon.SinonFakeTimers;
+  let cache: ClientCredentialsTokenCache;
+  let fetchToken: sinon.SinonStub;
+
+  beforeEach(function () {
+    clock = sinon.useFakeTimers({ now: 1_700_000_000_000, toFake: ['Date'] });
+    cache = new ClientCredentialsTokenCache();
+    fetchToken = sinon.stub().callsFake(async () => ({
+      accessToken: `token-${fetchToken.callCount}`,
+      expiresIn: 300,
+    }));
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  it('should serve a cached token with its remaining lifetime', async function () {
+    const first = await cache.get({ scopes: ['read'] }, fetchToken);
+    clock.tick(100_000);
+    const second = await cache.get({ scopes: ['read'] }, fetchToken);
+
+    expect(fetchToken.callCount).to.equal(1);
+    expect(first).to.deep.equal({ accessToken: 'token-1', expiresIn: 300 });
+    expect(second).to.deep.equal({ accessToken: 'token-1', expiresIn: 200 });
+  });
+
+  it('should fetch a new token shortly before expiry', async function () {
+    await cache.get({}, fetchToken);
+    clock.tick(270_000);
+    const refreshed = await cache.get({}, fetchToken);
+
+    expect(fetchToken.callCount).to.equal(2);
+    expect(refreshed.accessToken).to.equal('token-2');
+  });
+
+  it('should key tokens by scopes, resources and audience', async function () {
+    await cache.get({ scopes: ['a', 'b'], resource: 'https://x' }, fetchToken);
+    await cache.get(
+      { scopes: ['b', 'a'], resource: ['https://x'] },
+      fetchToken
+    );
+    await cache.get({ scopes: ['a', 'b'], audience: 'api' }, fetchToken);
+
+    expect(fetchToken.callCount).to.equal(2);
+  });
+
+  it('should share one request between concurrent callers', async function () {
+    const tokens = await Promise.all([
+      cache.get({}, fetchToken),
+      cache.get({}, fetchToken),
+      cache.get({}, fetchToken),
+    ]);
+
+    expect(fetchToken.callCount).to.equal(1);
+    expect(tokens.map((token) => token.accessToken)).to.deep.equal([
+      'token-1',
+      'token-1',
+      'token-1',
+    ]);
+  });
+
+  it('should not cache failures or tokens without expires_in', async function () {
+    fetchToken.onFirstCall().rejects(new Error('provider down'));
+    fetchToken.onSecondCall().resolves({ accessToken: 'no-expiry' });
+
+    await Promise.all([
+      cache.get({}, fetchToken),
+      cache.get({}, fetchToken),
+    ]).then(
+      () => expect.fail('Expected to throw'),
+      (error) => expect(error.message).to.equal('provider down')
+    );
+    await cache.get({}, fetchToken);
+    const fresh = await cache.get({}, fetchToken);
+
+    expect(fetchToken.callCount).to.equal(3);
+    expect(fresh.accessToken).to.equal('token-3');
+  });
+
+  it('should bypass the cache on forceRefresh and forget revoked tokens', async function () {
+    await cache.get({}, fetchToken);
+    const forced = await cache.get({ forceRefresh: true }, fetchToken);
+    expect(forced.accessToken).to.equal('token-2');
+    expect((await cache.get({}, fetchToken)).accessToken).to.equal('token-2');
+
+    cache.forget('token-2');
+    expect((await cache.get({}, fetchToken)).accessToken).to.equal('token-3');
+  });
+});
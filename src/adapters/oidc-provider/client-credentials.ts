@@ -0,0 +1,125 @@
+/**
+ * Client credentials token cache for OIDC Provider Adapter
+ */
+
+import type { TokenResponse } from '../../types.js';
+import type { ClientCredentialsOptions } from './types.js';
+import { OIDC_CONSTANTS } from './utils.js';
+
+/**
+ * Cached client credentials token
+ */
+type CacheEntry = {
+  token: TokenResponse;
+  expiresAt: number;
+};
+
+/**
+ * In-process cache for client credentials tokens
+ *
+ * Tokens are keyed by the requested scopes, resources and audience and are
+ * served until {@link OIDC_CONSTANTS.CLIENT_CREDENTIALS_EXPIRY_SKEW_SECONDS}
+ * before they expire. Concurrent requests for the same key share a single
+ * token request. Tokens without `expires_in` and failed requests are not cached.
+ */
+export class ClientCredentialsTokenCache {
+  /** Cached tokens keyed by request options */
+  private readonly tokens = new Map<string, CacheEntry>();
+
+  /** In-flight token requests keyed by request options */
+  private readonly pending = new Map<string, Promise<TokenResponse>>();
+
+  /**
+   * Return a cached token for the options, or fetch and cache a new one
+   * @param options - Client credentials request options (part of the cache key)
+   * @param fetchToken - Performs the token request on a cache miss
+   */
+  async get(
+    options: ClientCredentialsOptions,
+    fetchToken: () => Promise<TokenResponse>
+  ): Promise<TokenResponse> {
+    const key = cacheKey(options);
+
+    if (!options.forceRefresh) {
+      const cached = this.getCached(key);
+      if (cached) {
+        return cached;
+      }
+      const inFlight = this.pending.get(key);
+      if (inFlight) {
+        return inFlight;
+      }
+    }
+
+    const request = fetchToken()
+      .then((token) => {
+        this.setCached(key, token);
+        return token;
+      })
+      .finally(() => {
+        if (this.pending.get(key) === request) {
+          this.pending.delete(key);
+        }
+      });
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drop a cached access token (e.g. after revocation)
+   * @param accessToken - Access token to forget
+   */
+  forget(accessToken: string): void {
+    for (const [key, entry] of this.tokens) {
+      if (entry.token.accessToken === accessToken) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Read an unexpired cache entry, reporting the remaining lifetime
+   */
+  private getCached(key: string): TokenResponse | undefined {
+    const entry = this.tokens.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const remainingMs = entry.expiresAt - Date.now();
+    if (
+      remainingMs <=
+      OIDC_CONSTANTS.CLIENT_CREDENTIALS_EXPIRY_SKEW_SECONDS * 1000
+    ) {
+      this.tokens.delete(key);
+      return undefined;
+    }
+    return { ...entry.token, expiresIn: Math.floor(remainingMs / 1000) };
+  }
+
+  /**
+   * Cache a token until it expires
+   */
+  private setCached(key: string, token: TokenResponse): void {
+    if (!token.expiresIn) {
+      return;
+    }
+    this.tokens.set(key, {
+      token,
+      expiresAt: Date.now() + token.expiresIn * 1000,
+    });
+  }
+}
+
+/**
+ * Build a cache key that ignores scope and resource order
+ */
+function cacheKey(options: ClientCredentialsOptions): string {
+  const resources =
+    options.resource === undefined ? [] : [options.resource].flat();
+  return JSON.stringify([
+    [...(options.scopes ?? [])].sort(),
+    [...resources].sort(),
+    options.audience ?? null,
+  ]);
+}
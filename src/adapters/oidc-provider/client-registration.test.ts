@@ -0,0 +1,419 @@
+/**
+ * Dynamic client registration unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { ClientRegistrationClient } from './client-registration.js';
+import type {
+  ClientRegistrationResult,
+  ClientRegistrationStore,
+} from './types.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('ClientRegistrationClient', function () {
+  const metadata = {
+    ...oidcMetadata.minimal,
+    registration_endpoint: 'https://auth.example.com/oauth/register',
+  };
+  const request = {
+    redirectUris: ['https://app.example.com/callback'],
+    grantTypes: ['authorization_code', 'refresh_token'],
+    tokenEndpointAuthMethod: 'client_secret_basic',
+    clientName: 'Test MCP Client',
+    scopes: ['openid', 'profile'],
+  };
+  const registrationResponse = {
+    client_id: 'dyn-client',
+    client_secret: 'dyn-secret',
+    client_id_issued_at: 1_700_000_000,
+    client_secret_expires_at: 0,
+    registration_access_token: 'reg-token',
+    registration_client_uri:
+      'https://auth.example.com/oauth/register/dyn-client',
+    redirect_uris: ['https://app.example.com/callback'],
+    grant_types: ['authorization_code', 'refresh_token'],
+    token_endpoint_auth_method: 'client_secret_basic',
+    scope: 'openid profile',
+    client_name: 'Test MCP Client',
+  };
+
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+  let store: ClientRegistrationStore & {
+    entries: Map<string, ClientRegistrationResult>;
+  };
+  let logger: any;
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+    logger = { info: sinon.stub(), debug: sinon.stub(), warn: sinon.stub() };
+    const entries = new Map<string, ClientRegistrationResult>();
+    store = {
+      entries,
+      saveRegistration: sinon.spy(async (issuer, registration) => {
+        entries.set(issuer, registration);
+      }),
+      loadRegistration: sinon.spy(
+        async (issuer: string) => entries.get(issuer) ?? null
+      ),
+      deleteRegistration: sinon.spy(async (issuer: string) => {
+        entries.delete(issuer);
+      }),
+    };
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  const createClient = (overrides = {}) =>
+    new ClientRegistrationClient({ metadata, store, logger, ...overrides });
+
+  describe('constructor', function () {
+    it('should require exactly one of issuer or metadata', function () {
+      expect(() => new ClientRegistrationClient({})).to.throw();
+      expect(
+        () =>
+          new ClientRegistrationClient({
+            issuer: 'https://auth.example.com',
+            metadata,
+          })
+      ).to.throw();
+    });
+  });
+
+  describe('register', function () {
+    it('should send RFC 7591 client metadata and map the response', async function () {
+      fetchStub.resolves(jsonResponse(registrationResponse, 201));
+      const client = createClient({ initialAccessToken: 'initial-token' });
+
+      const result = await client.register({
+        ...request,
+        additionalMetadata: { logo_uri: 'https://app.example.com/logo.png' },
+      });
+
+      const [url, init] = fetchStub.firstCall.args;
+      expect(url).to.equal(metadata.registration_endpoint);
+      expect(init.method).to.equal('POST');
+      expect(init.headers.Authorization).to.equal('Bearer initial-token');
+      expect(init.headers['Content-Type']).to.equal('application/json');
+      expect(JSON.parse(init.body)).to.deep.equal({
+        logo_uri: 'https://app.example.com/logo.png',
+        redirect_uris: ['https://app.example.com/callback'],
+        grant_types: ['authorization_code', 'refresh_token'],
+        token_endpoint_auth_method: 'client_secret_basic',
+        client_name: 'Test MCP Client',
+        scope: 'openid profile',
+      });
+
+      expect(result).to.deep.equal({
+        clientId: 'dyn-client',
+        clientSecret: 'dyn-secret',
+        clientIdIssuedAt: 1_700_000_000,
+        clientSecretExpiresAt: 0,
+        registrationAccessToken: 'reg-token',
+        registrationClientUri: registrationResponse.registration_client_uri,
+        redirectUris: ['https://app.example.com/callback'],
+        grantTypes: ['authorization_code', 'refresh_token'],
+        tokenEndpointAuthMethod: 'client_secret_basic',
+        scopes: ['openid', 'profile'],
+        metadata: { client_name: 'Test MCP Client' },
+      });
+    });
+
+    it('should persist the registration keyed by issuer', async function () {
+      fetchStub.resolves(jsonResponse(registrationResponse, 201));
+
+      const result = await createClient().register(request);
+
+      expect(store.entries.get(metadata.issuer)).to.deep.equal(result);
+    });
+
+    it('should register public clients without a secret', async function () {
+      fetchStub.resolves(jsonResponse({ client_id: 'public-client' }, 201));
+
+      const result = await createClient({ store: undefined }).register({
+        redirectUris: ['https://app.example.com/callback'],
+        tokenEndpointAuthMethod: 'none',
+      });
+
+      expect(result).to.deep.equal({
+        clientId: 'public-client',
+        redirectUris: ['https://app.example.com/callback'],
+        metadata: {},
+      });
+      expect(fetchStub.firstCall.args[1].headers).to.not.have.property(
+        'Authorization'
+      );
+    });
+
+    it('should discover the registration endpoint from the issuer', async function () {
+      fetchStub.onFirstCall().resolves({
+        ok: true,
+        status: 200,
+        json: async () => metadata,
+      });
+      fetchStub
+        .onSecondCall()
+        .resolves(jsonResponse(registrationResponse, 201));
+
+      const client = new ClientRegistrationClient({
+        issuer: metadata.issuer,
+        logger,
+      });
+      await client.register(request);
+
+      expect(fetchStub.firstCall.args[0]).to.equal(
+        'https://auth.example.com/.well-known/oauth-authorization-server'
+      );
+      expect(fetchStub.secondCall.args[0]).to.equal(
+        metadata.registration_endpoint
+      );
+    });
+
+    it('should fail when the provider does not support registration', async function () {
+      await expectOAuthError(
+        () =>
+          createClient({ metadata: oidcMetadata.minimal }).register(request),
+        'invalid_request',
+        'does not include registration_endpoint'
+      );
+      expect(fetchStub.called).to.be.false;
+    });
+
+    it('should require at least one redirect URI', async function () {
+      await expectOAuthError(
+        () => createClient().register({ redirectUris: [] }),
+        'invalid_redirect_uri',
+        'At least one redirect URI is required'
+      );
+    });
+
+    it('should surface RFC 7591 error responses', async function () {
+      fetchStub.resolves(
+        jsonResponse(
+          {
+            error: 'invalid_client_metadata',
+            error_description: 'token_endpoint_auth_method not supported',
+          },
+          400
+        )
+      );
+
+      await expectOAuthError(
+        () => createClient().register(request),
+        'invalid_client_metadata',
+        'token_endpoint_auth_method not supported'
+      );
+      expect(store.entries.size).to.equal(0);
+    });
+
+    it('should handle non-JSON error responses', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+        json: async () => {
+          throw new SyntaxError('Unexpected token');
+        },
+      });
+
+      await expectOAuthError(
+        () => createClient().register(request),
+        'server_error',
+        'Client registration request failed: 500'
+      );
+    });
+
+    it('should reject responses without client_id', async function () {
+      fetchStub.resolves(jsonResponse({ client_secret: 'orphan' }, 201));
+
+      await expectOAuthError(
+        () => createClient().register(request),
+        'server_error',
+        'Missing client_id'
+      );
+    });
+
+    it('should normalize network failures', async function () {
+      fetchStub.rejects(new Error('ECONNREFUSED'));
+
+      await expectOAuthError(
+        () => createClient().register(request),
+        'server_error'
+      );
+    });
+
+    it('should normalize store failures', async function () {
+      fetchStub.resolves(jsonResponse(registrationResponse, 201));
+      store.saveRegistration = async () => {
+        throw new Error('disk full');
+      };
+
+      await expectOAuthError(
+        () => createClient().register(request),
+        'server_error',
+        'disk full'
+      );
+    });
+  });
+
+  describe('getOrRegister', function () {
+    it('should return a stored registration without registering', async function () {
+      const stored = { clientId: 'stored', redirectUris: [], metadata: {} };
+      store.entries.set(metadata.issuer, stored);
+
+      const result = await createClient().getOrRegister(request);
+
+      expect(result).to.equal(stored);
+      expect(fetchStub.called).to.be.false;
+    });
+
+    it('should re-register when the stored secret has expired', async function () {
+      store.entries.set(metadata.issuer, {
+        clientId: 'stale',
+        clientSecret: 'old',
+        clientSecretExpiresAt: Math.floor(Date.now() / 1000) - 60,
+        redirectUris: [],
+        metadata: {},
+      });
+      fetchStub.resolves(jsonResponse(registrationResponse, 201));
+
+      const result = await createClient().getOrRegister(request);
+
+      expect(result.clientId).to.equal('dyn-client');
+      expect(store.entries.get(metadata.issuer)?.clientId).to.equal(
+        'dyn-client'
+      );
+    });
+
+    it('should register when nothing is stored', async function () {
+      fetchStub.resolves(jsonResponse(registrationResponse, 201));
+
+      const result = await createClient().getOrRegister(request);
+
+      expect(result.clientId).to.equal('dyn-client');
+    });
+  });
+
+  describe('registration management (RFC 7592)', function () {
+    let registration: ClientRegistrationResult;
+
+    beforeEach(async function () {
+      fetchStub.resolves(jsonResponse(registrationResponse, 201));
+      registration = await createClient().register(request);
+      fetchStub.resetHistory();
+    });
+
+    it('should read the client configuration with the registration access token', async function () {
+      fetchStub.resolves(
+        jsonResponse(
+          { ...registrationResponse, client_name: 'Renamed Client' },
+          200
+        )
+      );
+
+      const result = await createClient().read(registration);
+
+      const [url, init] = fetchStub.firstCall.args;
+      expect(url).to.equal(registration.registrationClientUri);
+      expect(init.method).to.equal('GET');
+      expect(init.headers.Authorization).to.equal('Bearer reg-token');
+      expect(init).to.not.have.property('body');
+      expect(result.metadata.client_name).to.equal('Renamed Client');
+    });
+
+    it('should update the client and keep credentials the provider omits', async function () {
+      fetchStub.resolves(
+        jsonResponse(
+          {
+            client_id: 'dyn-client',
+            redirect_uris: ['https://app.example.com/new-callback'],
+            client_secret: 'rotated-secret',
+          },
+          200
+        )
+      );
+
+      const result = await createClient().update(registration, {
+        ...request,
+        redirectUris: ['https://app.example.com/new-callback'],
+      });
+
+      const [url, init] = fetchStub.firstCall.args;
+      expect(url).to.equal(registration.registrationClientUri);
+      expect(init.method).to.equal('PUT');
+      expect(JSON.parse(init.body)).to.include({
+        client_id: 'dyn-client',
+        client_secret: 'dyn-secret',
+      });
+      expect(result.clientSecret).to.equal('rotated-secret');
+      expect(result.registrationAccessToken).to.equal('reg-token');
+      expect(result.redirectUris).to.deep.equal([
+        'https://app.example.com/new-callback',
+      ]);
+      expect(store.entries.get(metadata.issuer)).to.deep.equal(result);
+    });
+
+    it('should delete the client and remove it from the store', async function () {
+      fetchStub.resolves({ ok: true, status: 204, statusText: 'No Content' });
+
+      await createClient().delete(registration);
+
+      const [url, init] = fetchStub.firstCall.args;
+      expect(url).to.equal(registration.registrationClientUri);
+      expect(init.method).to.equal('DELETE');
+      expect(store.entries.has(metadata.issuer)).to.be.false;
+    });
+
+    it('should discover metadata before managing a stored registration', async function () {
+      fetchStub.onFirstCall().resolves({
+        ok: true,
+        status: 200,
+        json: async () => metadata,
+      });
+      fetchStub
+        .onSecondCall()
+        .resolves({ ok: true, status: 204, statusText: 'No Content' });
+
+      await createClient({
+        metadata: undefined,
+        issuer: metadata.issuer,
+      }).delete(registration);
+
+      expect(fetchStub.secondCall.args[1].method).to.equal('DELETE');
+      expect(store.entries.has(metadata.issuer)).to.be.false;
+    });
+
+    it('should surface invalid registration access tokens', async function () {
+      fetchStub.resolves(jsonResponse({ error: 'invalid_token' }, 401));
+
+      await expectOAuthError(
+        () => createClient().read(registration),
+        'invalid_token'
+      );
+    });
+
+    it('should require management credentials', async function () {
+      await expectOAuthError(
+        () =>
+          createClient().delete({
+            clientId: 'no-management',
+            redirectUris: [],
+            metadata: {},
+          }),
+        'invalid_request',
+        'registration_client_uri and registration_access_token'
+      );
+    });
+  });
+});
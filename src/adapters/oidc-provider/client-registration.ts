@@ -0,0 +1,482 @@
+/**
+ * Dynamic client registration for OIDC providers
+ * Implements RFC 7591 registration and RFC 7592 registration management
+ */
+
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import { DefaultLogger } from '../../logging/logger.js';
+import { ErrorNormalizer } from '../../utils/error-normalizer.js';
+import type {
+  ClientRegistrationOptions,
+  ClientRegistrationRequest,
+  ClientRegistrationResult,
+  ClientRegistrationStore,
+  OIDCProviderMetadata,
+} from './types.js';
+import { MetadataDiscoveryService } from './discovery.js';
+import { isNormalizedOAuthError } from './utils.js';
+
+/**
+ * Response fields mapped onto ClientRegistrationResult properties
+ */
+const REGISTRATION_RESPONSE_FIELDS = new Set([
+  'client_id',
+  'client_secret',
+  'client_id_issued_at',
+  'client_secret_expires_at',
+  'registration_access_token',
+  'registration_client_uri',
+  'redirect_uris',
+  'grant_types',
+  'token_endpoint_auth_method',
+  'scope',
+]);
+
+/**
+ * Registers OAuth clients with a provider and manages their registrations
+ */
+export class ClientRegistrationClient {
+  /** Provider metadata (resolved via discovery when only issuer is given) */
+  private metadata?: OIDCProviderMetadata;
+
+  private readonly store?: ClientRegistrationStore;
+
+  private readonly logger: Logger;
+
+  constructor(private readonly options: ClientRegistrationOptions) {
+    if (!options.issuer && !options.metadata) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Either issuer or metadata must be provided',
+        { stage: 'register' }
+      );
+    }
+    if (options.issuer && options.metadata) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Cannot specify both issuer and metadata',
+        { stage: 'register' }
+      );
+    }
+
+    if (options.metadata) {
+      this.metadata = options.metadata;
+    }
+    if (options.store) {
+      this.store = options.store;
+    }
+    this.logger =
+      options.logger ??
+      new DefaultLogger(
+        { component: 'client-registration' },
+        { redactPaths: ['clientSecret', 'registrationAccessToken'] }
+      );
+  }
+
+  /**
+   * Register a new client with the provider
+   * @param request - Client metadata to register
+   * @returns Issued client credentials (persisted to the store when configured)
+   * @throws {OAuthError} If the provider has no registration endpoint or rejects the request
+   */
+  async register(
+    request: ClientRegistrationRequest
+  ): Promise<ClientRegistrationResult> {
+    const metadata = await this.getMetadata();
+    if (!metadata.registration_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Provider metadata does not include registration_endpoint',
+        { stage: 'register', issuer: metadata.issuer }
+      );
+    }
+    if (!request.redirectUris || request.redirectUris.length === 0) {
+      throw this.createStandardError(
+        'invalid_redirect_uri',
+        'At least one redirect URI is required',
+        { stage: 'register', issuer: metadata.issuer }
+      );
+    }
+
+    this.logger.info('Registering OAuth client', {
+      stage: 'register',
+      issuer: metadata.issuer,
+      endpoint: metadata.registration_endpoint,
+      redirectUris: request.redirectUris,
+      grantTypes: request.grantTypes,
+      tokenEndpointAuthMethod: request.tokenEndpointAuthMethod,
+    });
+
+    const body = await this.send(
+      'register',
+      metadata.registration_endpoint,
+      'POST',
+      this.options.initialAccessToken,
+      toClientMetadata(request)
+    );
+    const registration = toRegistrationResult(body, request.redirectUris);
+
+    await this.save(registration);
+
+    this.logger.info('OAuth client registered successfully', {
+      stage: 'register',
+      issuer: metadata.issuer,
+      clientId: registration.clientId,
+      hasClientSecret: Boolean(registration.clientSecret),
+      supportsManagement: Boolean(registration.registrationClientUri),
+    });
+
+    return registration;
+  }
+
+  /**
+   * Return the stored registration, registering a new client if none exists
+   * or the stored client secret has expired
+   * @param request - Client metadata to register when needed
+   * @returns Stored or newly issued client credentials
+   */
+  async getOrRegister(
+    request: ClientRegistrationRequest
+  ): Promise<ClientRegistrationResult> {
+    const metadata = await this.getMetadata();
+    const stored = await this.store?.loadRegistration(metadata.issuer);
+
+    if (stored) {
+      const expiresAt = stored.clientSecretExpiresAt;
+      if (!expiresAt || expiresAt > Math.floor(Date.now() / 1000)) {
+        return stored;
+      }
+      this.logger.info('Stored client secret has expired; re-registering', {
+        stage: 'register',
+        issuer: metadata.issuer,
+        clientId: stored.clientId,
+      });
+    }
+
+    return this.register(request);
+  }
+
+  /**
+   * Read the current client configuration (RFC 7592 §2.1)
+   * @param registration - Registration returned by register()
+   * @returns Current registration as reported by the provider
+   */
+  async read(
+    registration: ClientRegistrationResult
+  ): Promise<ClientRegistrationResult> {
+    await this.getMetadata();
+    const { uri, token } = this.managementEndpoint(registration, 'read');
+    const body = await this.send('read', uri, 'GET', token);
+    const current = mergeRegistration(registration, body);
+
+    await this.save(current);
+    return current;
+  }
+
+  /**
+   * Replace the client configuration (RFC 7592 §2.2)
+   * @param registration - Registration returned by register()
+   * @param request - Complete client metadata to apply
+   * @returns Updated registration (credentials may be rotated)
+   */
+  async update(
+    registration: ClientRegistrationResult,
+    request: ClientRegistrationRequest
+  ): Promise<ClientRegistrationResult> {
+    const metadata = await this.getMetadata();
+    const { uri, token } = this.managementEndpoint(registration, 'update');
+    const body = await this.send('update', uri, 'PUT', token, {
+      ...toClientMetadata(request),
+      client_id: registration.clientId,
+      ...(registration.clientSecret && {
+        client_secret: registration.clientSecret,
+      }),
+    });
+    const updated = mergeRegistration(registration, body);
+
+    await this.save(updated);
+
+    this.logger.info('OAuth client registration updated', {
+      stage: 'update',
+      issuer: metadata.issuer,
+      clientId: updated.clientId,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Deprovision the client (RFC 7592 §2.3) and remove it from the store
+   * @param registration - Registration returned by register()
+   */
+  async delete(registration: ClientRegistrationResult): Promise<void> {
+    const metadata = await this.getMetadata();
+    const { uri, token } = this.managementEndpoint(registration, 'delete');
+    await this.send('delete', uri, 'DELETE', token);
+
+    if (this.store) {
+      await this.runStoreOperation('delete', () =>
+        this.store!.deleteRegistration(metadata.issuer)
+      );
+    }
+
+    this.logger.info('OAuth client registration deleted', {
+      stage: 'delete',
+      issuer: metadata.issuer,
+      clientId: registration.clientId,
+    });
+  }
+
+  /**
+   * Resolve provider metadata, performing discovery on first use
+   */
+  private async getMetadata(): Promise<OIDCProviderMetadata> {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    const issuer = this.options.issuer!;
+    const { metadata } = await new MetadataDiscoveryService(
+      this.logger,
+      this.createStandardError.bind(this),
+      (error, context) => ErrorNormalizer.normalizeError(error, context, issuer)
+    ).discover(issuer);
+    this.metadata = metadata;
+    return this.metadata;
+  }
+
+  /**
+   * Resolve the RFC 7592 client configuration endpoint and its access token
+   */
+  private managementEndpoint(
+    registration: ClientRegistrationResult,
+    stage: string
+  ): { uri: string; token: string } {
+    if (
+      !registration.registrationClientUri ||
+      !registration.registrationAccessToken
+    ) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Registration does not include registration_client_uri and registration_access_token',
+        { stage }
+      );
+    }
+    return {
+      uri: registration.registrationClientUri,
+      token: registration.registrationAccessToken,
+    };
+  }
+
+  /**
+   * Send a JSON request to a registration endpoint and parse the response
+   */
+  private async send(
+    stage: string,
+    url: string,
+    method: 'POST' | 'GET' | 'PUT' | 'DELETE',
+    bearerToken?: string,
+    payload?: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const endpoint =
+      stage === 'register'
+        ? 'registration_endpoint'
+        : 'registration_client_uri';
+    const issuer = this.metadata?.issuer;
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (payload) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (bearerToken) {
+      headers.Authorization = `Bearer ${bearerToken}`;
+    }
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        ...(payload && { body: JSON.stringify(payload) }),
+      });
+
+      if (response.status === 204) {
+        return {};
+      }
+
+      let body: Record<string, unknown> = {};
+      try {
+        body = (await response.json()) as Record<string, unknown>;
+      } catch {
+        if (response.ok) {
+          throw this.createStandardError(
+            'server_error',
+            'Invalid JSON in registration response',
+            { stage, issuer, endpoint }
+          );
+        }
+      }
+
+      if (!response.ok) {
+        throw this.createStandardError(
+          typeof body.error === 'string' ? body.error : 'server_error',
+          typeof body.error_description === 'string'
+            ? body.error_description
+            : `Client registration request failed: ${response.status} ${response.statusText}`,
+          { stage, issuer, endpoint }
+        );
+      }
+
+      return body;
+    } catch (error) {
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+      throw ErrorNormalizer.normalizeError(error, {
+        endpoint,
+        ...(issuer && { issuer }),
+      });
+    }
+  }
+
+  /**
+   * Persist a registration to the store when one is configured
+   */
+  private async save(registration: ClientRegistrationResult): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+    await this.runStoreOperation('save', () =>
+      this.store!.saveRegistration(this.metadata!.issuer, registration)
+    );
+  }
+
+  /**
+   * Run a store operation, normalizing failures
+   */
+  private async runStoreOperation(
+    operation: 'save' | 'delete',
+    fn: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await fn();
+    } catch (error) {
+      throw ErrorNormalizer.normalizeError(error, {
+        endpoint: `registrationStore.${operation}Registration`,
+        issuer: this.metadata!.issuer,
+      });
+    }
+  }
+
+  /**
+   * Build a normalized error with a 400 status
+   */
+  private createStandardError(
+    error: string,
+    description: string,
+    context: { endpoint?: string; stage?: string; issuer?: string | undefined }
+  ): OAuthError {
+    return ErrorNormalizer.normalizeError(
+      { error, error_description: description, statusCode: 400 },
+      {
+        ...(context.endpoint && { endpoint: context.endpoint }),
+        ...(context.issuer && { issuer: context.issuer }),
+      }
+    );
+  }
+}
+
+/**
+ * Convert a registration request into RFC 7591 client metadata
+ */
+function toClientMetadata(
+  request: ClientRegistrationRequest
+): Record<string, unknown> {
+  return {
+    ...request.additionalMetadata,
+    redirect_uris: request.redirectUris,
+    ...(request.grantTypes && { grant_types: request.grantTypes }),
+    ...(request.responseTypes && { response_types: request.responseTypes }),
+    ...(request.tokenEndpointAuthMethod && {
+      token_endpoint_auth_method: request.tokenEndpointAuthMethod,
+    }),
+    ...(request.clientName && { client_name: request.clientName }),
+    ...(request.scopes && { scope: request.scopes.join(' ') }),
+  };
+}
+
+/**
+ * Convert an RFC 7591 client information response into a registration result
+ */
+function toRegistrationResult(
+  body: Record<string, unknown>,
+  requestedRedirectUris: string[]
+): ClientRegistrationResult {
+  if (typeof body.client_id !== 'string' || !body.client_id) {
+    throw ErrorNormalizer.normalizeError(
+      {
+        error: 'server_error',
+        error_description: 'Missing client_id in registration response',
+        statusCode: 400,
+      },
+      { endpoint: 'registration_endpoint' }
+    );
+  }
+
+  const metadata: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!REGISTRATION_RESPONSE_FIELDS.has(key)) {
+      metadata[key] = value;
+    }
+  }
+
+  const optionalString = (key: string) =>
+    typeof body[key] === 'string' ? (body[key] as string) : undefined;
+  const optionalNumber = (key: string) =>
+    typeof body[key] === 'number' ? (body[key] as number) : undefined;
+  const optionalStrings = (key: string) =>
+    Array.isArray(body[key]) ? (body[key] as string[]) : undefined;
+
+  const clientSecret = optionalString('client_secret');
+  const clientIdIssuedAt = optionalNumber('client_id_issued_at');
+  const clientSecretExpiresAt = optionalNumber('client_secret_expires_at');
+  const registrationAccessToken = optionalString('registration_access_token');
+  const registrationClientUri = optionalString('registration_client_uri');
+  const grantTypes = optionalStrings('grant_types');
+  const tokenEndpointAuthMethod = optionalString('token_endpoint_auth_method');
+  const scope = optionalString('scope');
+
+  return {
+    clientId: body.client_id,
+    ...(clientSecret && { clientSecret }),
+    ...(clientIdIssuedAt !== undefined && { clientIdIssuedAt }),
+    ...(clientSecretExpiresAt !== undefined && { clientSecretExpiresAt }),
+    ...(registrationAccessToken && { registrationAccessToken }),
+    ...(registrationClientUri && { registrationClientUri }),
+    redirectUris: optionalStrings('redirect_uris') ?? requestedRedirectUris,
+    ...(grantTypes && { grantTypes }),
+    ...(tokenEndpointAuthMethod && { tokenEndpointAuthMethod }),
+    ...(scope && { scopes: scope.split(' ').filter(Boolean) }),
+    metadata,
+  };
+}
+
+/**
+ * Apply an RFC 7592 read/update response to an existing registration.
+ * Credentials the provider omits (e.g. an unrotated registration_access_token)
+ * remain valid and are carried over.
+ */
+function mergeRegistration(
+  previous: ClientRegistrationResult,
+  body: Record<string, unknown>
+): ClientRegistrationResult {
+  const next = toRegistrationResult(
+    { client_id: previous.clientId, ...body },
+    previous.redirectUris
+  );
+  return {
+    ...previous,
+    ...next,
+    metadata: { ...previous.metadata, ...next.metadata },
+  };
+}
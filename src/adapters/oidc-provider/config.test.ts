@@ -6,6 +6,8 @@
  * - scopes format and defaults
  * - timeouts shape
  * - customParameters passthrough
+ * - idTokenValidation shape
+ * - resource indicators
  * Co-located with config.ts for better maintainability
  */
 
@@ -231,6 +233,114 @@ describe('OIDCProviderConfig Validation', function () {
     });
   });
 
+  describe('idTokenValidation shape', function () {
+    it('should validate idTokenValidation configuration', function () {
+      const config = createOIDCConfig({
+        idTokenValidation: {
+          enabled: true,
+          clockToleranceSeconds: 0,
+          jwksCacheTtlSeconds: 300,
+        },
+      });
+
+      const result = validate(config);
+      expect(result.idTokenValidation).to.deep.equal({
+        enabled: true,
+        clockToleranceSeconds: 0,
+        jwksCacheTtlSeconds: 300,
+      });
+    });
+
+    it('should throw ZodError for invalid idTokenValidation values', function () {
+      const config = createOIDCConfig({
+        idTokenValidation: { clockToleranceSeconds: -1 },
+      });
+
+      expect(() => validate(config)).to.throw(
+        'Clock tolerance must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('introspection shape', function () {
+    it('should validate introspection configuration', function () {
+      const result = validate(
+        createOIDCConfig({ introspection: { cacheTtlSeconds: 30 } })
+      );
+      expect(result.introspection).to.deep.equal({ cacheTtlSeconds: 30 });
+    });
+
+    it('should throw ZodError for a negative cache TTL', function () {
+      const config = createOIDCConfig({
+        introspection: { cacheTtlSeconds: -1 },
+      });
+
+      expect(() => validate(config)).to.throw(
+        'Introspection cache TTL must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('clientAuthentication shape', function () {
+    it('should require a private key for private_key_jwt', function () {
+      const config = createOIDCConfig({
+        clientAuthentication: { method: 'private_key_jwt' },
+      });
+
+      expect(() => validate(config)).to.throw(
+        'private_key_jwt requires clientAuthentication.privateKey'
+      );
+    });
+
+    it('should require a client secret for client_secret_* methods', function () {
+      const config = createOIDCConfig({
+        clientAuthentication: { method: 'client_secret_post' },
+      });
+
+      expect(() => validate(config)).to.throw(
+        'client_secret_* authentication requires clientSecret'
+      );
+    });
+
+    it('should require a client certificate for tls_client_auth', function () {
+      const config = createOIDCConfig({
+        clientAuthentication: { method: 'tls_client_auth' },
+      });
+
+      expect(() => validate(config)).to.throw(
+        'tls_client_auth methods require clientAuthentication.mtls'
+      );
+    });
+  });
+
+  describe('resource indicators', function () {
+    it('should accept a single resource or a list of resources', function () {
+      expect(
+        validate(createOIDCConfig({ resource: 'https://mcp.example.com/' }))
+          .resource
+      ).to.equal('https://mcp.example.com/');
+      expect(
+        validate(
+          createOIDCConfig({
+            resource: ['https://mcp.example.com/', 'https://api.example.com'],
+          })
+        ).resource
+      ).to.deep.equal(['https://mcp.example.com/', 'https://api.example.com']);
+    });
+
+    it('should reject relative URIs, fragments and empty lists', function () {
+      expect(() => validate(createOIDCConfig({ resource: '/mcp' }))).to.throw(
+        'Invalid resource indicator URL'
+      );
+      expect(() =>
+        validate(createOIDCConfig({ resource: 'https://mcp.example.com/#x' }))
+      ).to.throw('must not include a fragment');
+      expect(() => validate(createOIDCConfig({ resource: [] }))).to.throw(
+        'At least one resource indicator is required'
+      );
+    });
+  });
+
   describe('safeValidate() function', function () {
     it('should return success for valid configuration', function () {
       const validConfig = createOIDCConfigMinimal();
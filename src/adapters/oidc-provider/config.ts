@@ -14,6 +14,7 @@ const metadataSchema = z.object({
   token_endpoint: z.string().url('Invalid token endpoint URL'),
   jwks_uri: z.string().url('Invalid JWKS URI').optional(),
   userinfo_endpoint: z.string().url('Invalid userinfo endpoint URL').optional(),
+  userinfo_signing_alg_values_supported: z.array(z.string()).optional(),
   scopes_supported: z.array(z.string()).optional(),
   grant_types_supported: z.array(z.string()).optional(),
   response_types_supported: z.array(z.string()).optional(),
@@ -23,8 +24,51 @@ const metadataSchema = z.object({
   subject_types_supported: z.array(z.string()).optional(),
   id_token_signing_alg_values_supported: z.array(z.string()).optional(),
   token_endpoint_auth_methods_supported: z.array(z.string()).optional(),
+  registration_endpoint: z
+    .string()
+    .url('Invalid registration endpoint URL')
+    .optional(),
+  introspection_endpoint: z
+    .string()
+    .url('Invalid introspection endpoint URL')
+    .optional(),
+  revocation_endpoint: z
+    .string()
+    .url('Invalid revocation endpoint URL')
+    .optional(),
+  mtls_endpoint_aliases: z
+    .record(z.string(), z.string().url('Invalid mTLS endpoint alias URL'))
+    .optional(),
+  tls_client_certificate_bound_access_tokens: z.boolean().optional(),
+  dpop_signing_alg_values_supported: z.array(z.string()).optional(),
+  pushed_authorization_request_endpoint: z
+    .string()
+    .url('Invalid pushed authorization request endpoint URL')
+    .optional(),
+  require_pushed_authorization_requests: z.boolean().optional(),
+  authorization_response_iss_parameter_supported: z.boolean().optional(),
+  device_authorization_endpoint: z
+    .string()
+    .url('Invalid device authorization endpoint URL')
+    .optional(),
+  end_session_endpoint: z
+    .string()
+    .url('Invalid end session endpoint URL')
+    .optional(),
+  backchannel_logout_supported: z.boolean().optional(),
+  backchannel_logout_session_supported: z.boolean().optional(),
 });
 
+/**
+ * RFC 8707 resource indicator: absolute URI without a fragment
+ */
+const resourceIndicatorSchema = z
+  .string()
+  .url('Invalid resource indicator URL')
+  .refine((v) => !v.includes('#'), {
+    message: 'Resource indicator must not include a fragment',
+  });
+
 /**
  * OIDC Provider Configuration Schema
  */
@@ -62,11 +106,121 @@ export const OIDCProviderConfigSchema = z
       .int()
       .positive('PKCE state expiration must be a positive integer')
       .optional(),
+    idTokenValidation: z
+      .object({
+        enabled: z.boolean().optional(),
+        clockToleranceSeconds: z
+          .number()
+          .int()
+          .nonnegative('Clock tolerance must be a non-negative integer')
+          .optional(),
+        jwksCacheTtlSeconds: z
+          .number()
+          .int()
+          .positive('JWKS cache TTL must be a positive integer')
+          .optional(),
+      })
+      .optional(),
+    introspection: z
+      .object({
+        cacheTtlSeconds: z
+          .number()
+          .int()
+          .nonnegative('Introspection cache TTL must be a non-negative integer')
+          .optional(),
+      })
+      .optional(),
+    clientAuthentication: z
+      .object({
+        method: z
+          .enum([
+            'none',
+            'client_secret_basic',
+            'client_secret_post',
+            'client_secret_jwt',
+            'private_key_jwt',
+            'tls_client_auth',
+            'self_signed_tls_client_auth',
+          ])
+          .optional(),
+        privateKey: z
+          .union([
+            z.string().min(1, 'privateKey must not be empty'),
+            z.object({ kty: z.string() }).passthrough(),
+          ])
+          .optional(),
+        kid: z.string().min(1).optional(),
+        alg: z.string().min(1).optional(),
+        mtls: z
+          .object({
+            cert: z.string().min(1, 'mtls.cert is required'),
+            key: z.string().min(1, 'mtls.key is required'),
+            passphrase: z.string().optional(),
+            ca: z.union([z.string(), z.array(z.string())]).optional(),
+          })
+          .optional(),
+      })
+      .optional(),
+    dpop: z
+      .object({
+        privateKey: z
+          .union([
+            z.string().min(1, 'privateKey must not be empty'),
+            z.object({ kty: z.string() }).passthrough(),
+          ])
+          .optional(),
+        alg: z.string().min(1).optional(),
+      })
+      .optional(),
+    pushedAuthorizationRequests: z
+      .enum(['required', 'preferred', 'disabled'])
+      .optional(),
+    requireIssuerParameter: z.boolean().optional(),
+    postLogoutRedirectUri: z
+      .string()
+      .url('Invalid post-logout redirect URI')
+      .optional(),
+    resource: z
+      .union([
+        resourceIndicatorSchema,
+        z
+          .array(resourceIndicatorSchema)
+          .min(1, 'At least one resource indicator is required'),
+      ])
+      .optional(),
+    supportsResourceIndicators: z.boolean().optional(),
   })
   .refine((v) => Boolean(v.issuer) !== Boolean(v.metadata), {
     message: 'Provide exactly one of `issuer` or `metadata`',
     path: ['issuer', 'metadata'],
-  });
+  })
+  .refine(
+    (v) =>
+      v.clientAuthentication?.method !== 'private_key_jwt' ||
+      Boolean(v.clientAuthentication.privateKey),
+    {
+      message: 'private_key_jwt requires clientAuthentication.privateKey',
+      path: ['clientAuthentication', 'privateKey'],
+    }
+  )
+  .refine(
+    (v) =>
+      !v.clientAuthentication?.method?.startsWith('client_secret') ||
+      Boolean(v.clientSecret),
+    {
+      message: 'client_secret_* authentication requires clientSecret',
+      path: ['clientSecret'],
+    }
+  )
+  .refine(
+    (v) =>
+      !v.clientAuthentication?.method?.includes('tls_client_auth') ||
+      Boolean(v.clientAuthentication.mtls),
+    {
+      message: 'tls_client_auth methods require clientAuthentication.mtls',
+      path: ['clientAuthentication', 'mtls'],
+    }
+  );
 
 export type OIDCProviderConfig = z.infer<typeof OIDCProviderConfigSchema>;
 
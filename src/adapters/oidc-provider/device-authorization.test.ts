@@ -0,0 +1,307 @@
+/**
+ * Device authorization grant unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { DeviceAuthorizationService } from './device-authorization.js';
+import { TokenExchangeService } from './token-exchange.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+import type { DeviceAuthorizationResult, OIDCProviderConfig } from './types.js';
+
+describe('DeviceAuthorizationService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const deviceEndpoint = 'https://auth.example.com/oauth/device/code';
+  const metadata = {
+    ...oidcMetadata.minimal,
+    device_authorization_endpoint: deviceEndpoint,
+  };
+
+  const createService = (
+    providerMetadata: Record<string, unknown> = metadata
+  ) => {
+    const config = {
+      clientId: 'test-client-id',
+      scopes: ['openid', 'offline_access'],
+    } as OIDCProviderConfig;
+    const {
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+    } = createServiceDependencies(metadata.issuer);
+
+    return new DeviceAuthorizationService(
+      config,
+      providerMetadata as any,
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+      new TokenExchangeService(
+        config,
+        providerMetadata as any,
+        logger,
+        createStandardError,
+        normalizeError
+      )
+    );
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('start', function () {
+    it('should request device and user codes', async function () {
+      fetchStub.resolves(
+        jsonResponse({
+          device_code: 'device-123',
+          user_code: 'WDJB-MJHT',
+          verification_uri: 'https://auth.example.com/device',
+          verification_uri_complete:
+            'https://auth.example.com/device?user_code=WDJB-MJHT',
+          expires_in: 900,
+          interval: 8,
+        })
+      );
+
+      const result = await createService().start({
+        resource: 'https://mcp.example.com',
+      });
+
+      expect(result).to.deep.equal({
+        deviceCode: 'device-123',
+        userCode: 'WDJB-MJHT',
+        verificationUri: 'https://auth.example.com/device',
+        verificationUriComplete:
+          'https://auth.example.com/device?user_code=WDJB-MJHT',
+        expiresIn: 900,
+        interval: 8,
+      });
+      const [url, options] = fetchStub.firstCall.args;
+      expect(url).to.equal(deviceEndpoint);
+      const body = new URLSearchParams(options.body);
+      expect(body.get('scope')).to.equal('openid offline_access');
+      expect(body.get('resource')).to.equal('https://mcp.example.com');
+      expect(body.get('client_id')).to.equal('test-client-id');
+    });
+
+    it('should default the interval and accept verification_url', async function () {
+      fetchStub.resolves(
+        jsonResponse({
+          device_code: 'device-123',
+          user_code: 'WDJB-MJHT',
+          verification_url: 'https://auth.example.com/device',
+          expires_in: 900,
+        })
+      );
+
+      const result = await createService().start({ scopes: ['profile'] });
+
+      expect(result.interval).to.equal(5);
+      expect(result.verificationUri).to.equal(
+        'https://auth.example.com/device'
+      );
+      expect(result).to.not.have.property('verificationUriComplete');
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.get('scope')).to.equal('profile');
+    });
+
+    it('should surface provider errors and incomplete responses', async function () {
+      fetchStub.resolves(
+        jsonResponse(
+          { error: 'unauthorized_client', error_description: 'Not allowed' },
+          400
+        )
+      );
+      await expectOAuthError(
+        () => createService().start(),
+        'unauthorized_client',
+        'Not allowed'
+      );
+
+      fetchStub.resolves(jsonResponse({ device_code: 'device-123' }));
+      await expectOAuthError(
+        () => createService().start(),
+        'server_error',
+        'Invalid device authorization response'
+      );
+    });
+
+    it('should retry 5xx responses', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+      });
+
+      await expectOAuthError(
+        () => createService().start(),
+        'server_error',
+        'Device authorization request failed: 503'
+      );
+      expect(fetchStub.callCount).to.equal(3);
+    });
+
+    it('should fail without a device authorization endpoint', async function () {
+      await expectOAuthError(
+        () => createService(oidcMetadata.minimal).start(),
+        'invalid_request',
+        'Device authorization endpoint not available'
+      );
+      expect(fetchStub.called).to.be.false;
+    });
+  });
+
+  describe('poll', function () {
+    let clock: sinon.SinonFakeTimers;
+
+    const authorization: DeviceAuthorizationResult = {
+      deviceCode: 'device-123',
+      userCode: 'WDJB-MJHT',
+      verificationUri: 'https://auth.example.com/device',
+      expiresIn: 60,
+      interval: 5,
+    };
+
+    const tokenError = (error: string) =>
+      new Response(JSON.stringify({ error }), {
+        status: 400,
+        statusText: 'Bad Request',
+      });
+
+    beforeEach(function () {
+      clock = sinon.useFakeTimers({
+        now: 1_700_000_000_000,
+        toFake: ['setTimeout', 'clearTimeout', 'Date'],
+      });
+    });
+
+    afterEach(function () {
+      clock.restore();
+    });
+
+    it('should poll until approved, backing off on slow_down', async function () {
+      fetchStub.onCall(0).resolves(tokenError('authorization_pending'));
+      fetchStub.onCall(1).resolves(tokenError('slow_down'));
+      fetchStub
+        .onCall(2)
+        .resolves(
+          jsonResponse({ access_token: 'device-token', refresh_token: 'rt' })
+        );
+
+      const tokens = createService().poll(authorization);
+
+      await clock.tickAsync(5_000);
+      expect(fetchStub.callCount).to.equal(1);
+      await clock.tickAsync(5_000);
+      expect(fetchStub.callCount).to.equal(2);
+      await clock.tickAsync(5_000);
+      expect(fetchStub.callCount).to.equal(2);
+      await clock.tickAsync(5_000);
+
+      expect((await tokens).accessToken).to.equal('device-token');
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.get('grant_type')).to.equal(
+        'urn:ietf:params:oauth:grant-type:device_code'
+      );
+      expect(body.get('device_code')).to.equal('device-123');
+    });
+
+    for (const error of ['access_denied', 'expired_token']) {
+      it(`should stop polling on ${error}`, async function () {
+        fetchStub.resolves(tokenError(error));
+
+        const tokens = createService().poll(authorization);
+        const assertion = expectOAuthError(() => tokens, error);
+        await clock.tickAsync(5_000);
+        await assertion;
+        expect(fetchStub.callCount).to.equal(1);
+      });
+    }
+
+    it('should stop once the device code expires', async function () {
+      fetchStub.callsFake(async () => tokenError('authorization_pending'));
+
+      const tokens = createService().poll({ ...authorization, expiresIn: 12 });
+      const assertion = expectOAuthError(
+        () => tokens,
+        'expired_token',
+        'The device code has expired'
+      );
+      await clock.tickAsync(15_000);
+      await assertion;
+      expect(fetchStub.callCount).to.equal(2);
+    });
+
+    it('should stop when aborted', async function () {
+      fetchStub.callsFake(async () => tokenError('authorization_pending'));
+      const controller = new AbortController();
+
+      const tokens = createService().poll(authorization, {
+        signal: controller.signal,
+      });
+      const assertion = expectOAuthError(
+        () => tokens,
+        'invalid_request',
+        'Device authorization polling was aborted'
+      );
+      await clock.tickAsync(7_000);
+      controller.abort();
+      await assertion;
+      expect(fetchStub.callCount).to.equal(1);
+
+      await expectOAuthError(
+        () =>
+          createService().poll(authorization, { signal: controller.signal }),
+        'invalid_request',
+        'aborted'
+      );
+    });
+
+    it('should cancel the in-flight token request when aborted', async function () {
+      fetchStub.callsFake(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(
+                new DOMException('The operation was aborted', 'AbortError')
+              )
+            );
+          })
+      );
+      const controller = new AbortController();
+
+      const tokens = createService().poll(authorization, {
+        signal: controller.signal,
+      });
+      const assertion = expectOAuthError(
+        () => tokens,
+        'invalid_request',
+        'Device authorization polling was aborted'
+      );
+      await clock.tickAsync(5_000);
+      expect(fetchStub.callCount).to.equal(1);
+      expect(fetchStub.firstCall.args[1].signal).to.equal(controller.signal);
+
+      controller.abort();
+      await assertion;
+    });
+  });
+});
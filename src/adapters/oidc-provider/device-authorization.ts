@@ -0,0 +1,307 @@
+/**
+ * Device authorization grant for OIDC Provider Adapter
+ * Implements RFC 8628
+ */
+
+import type { OAuthError, TokenResponse } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { ResilienceContext } from '../../utils/resilience-manager.js';
+import { readString } from '../../utils/json-response.js';
+import type {
+  DeviceAuthorizationOptions,
+  DeviceAuthorizationResult,
+  DevicePollOptions,
+  OIDCProviderConfig,
+  OIDCProviderMetadata,
+} from './types.js';
+import {
+  isNormalizedOAuthError,
+  normalizeResourceIndicators,
+} from './utils.js';
+import { ClientAuthenticator } from './client-auth.js';
+import type { TokenExchangeService } from './token-exchange.js';
+
+/**
+ * Polling interval when the provider does not return one (RFC 8628 §3.2)
+ */
+const DEFAULT_INTERVAL_SECONDS = 5;
+
+/**
+ * Interval increase after a `slow_down` response (RFC 8628 §3.5)
+ */
+const SLOW_DOWN_INCREMENT_SECONDS = 5;
+
+/**
+ * Device authorization service
+ *
+ * Starts device authorizations at the provider's
+ * `device_authorization_endpoint` and polls the token endpoint (through
+ * {@link TokenExchangeService}) until the user approves or denies the request
+ * or the device code expires.
+ */
+export class DeviceAuthorizationService {
+  constructor(
+    private readonly config: OIDCProviderConfig,
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context?: any
+    ) => OAuthError,
+    private readonly executeWithResilience: <T>(
+      operation: () => Promise<T>,
+      context: ResilienceContext
+    ) => Promise<T>,
+    private readonly tokenExchangeService: TokenExchangeService,
+    private readonly clientAuthenticator = new ClientAuthenticator(
+      config,
+      metadata,
+      logger
+    )
+  ) {}
+
+  /**
+   * Start a device authorization
+   * @param options - Scopes and resource indicators to request
+   * @returns Codes and verification URI to show the user, and the polling interval
+   * @throws {OAuthError} If the endpoint is unavailable or the request is rejected
+   */
+  async start(
+    options: DeviceAuthorizationOptions = {}
+  ): Promise<DeviceAuthorizationResult> {
+    if (!this.metadata.device_authorization_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Device authorization endpoint not available',
+        {
+          stage: 'startDeviceAuthorization',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    let resources: string[];
+    try {
+      resources = normalizeResourceIndicators(
+        options.resource ?? this.config.resource
+      );
+    } catch (error) {
+      throw this.createStandardError(
+        'invalid_target',
+        error instanceof Error ? error.message : String(error),
+        { stage: 'startDeviceAuthorization', issuer: this.metadata.issuer }
+      );
+    }
+
+    const endpoint = this.clientAuthenticator.endpoint(
+      'device_authorization_endpoint',
+      this.metadata.device_authorization_endpoint
+    );
+
+    try {
+      const scopes = options.scopes ?? this.config.scopes;
+      this.logger.info('Starting device authorization', {
+        stage: 'startDeviceAuthorization',
+        issuer: this.metadata.issuer,
+        endpoint,
+        scopes,
+        resources,
+      });
+
+      const params = new URLSearchParams({ scope: scopes.join(' ') });
+      for (const resource of resources) {
+        params.append('resource', resource);
+      }
+
+      const response = await this.executeWithResilience(
+        () =>
+          this.clientAuthenticator.postForm(
+            endpoint,
+            params,
+            'Device authorization request'
+          ),
+        {
+          endpoint: 'device_authorization_endpoint',
+          circuitKey: endpoint,
+        }
+      );
+
+      if (!response.ok) {
+        throw this.createStandardError(
+          readString(response.body, 'error') || 'server_error',
+          readString(response.body, 'error_description') ||
+            `Device authorization request failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'startDeviceAuthorization',
+            issuer: this.metadata.issuer,
+            endpoint: 'device_authorization_endpoint',
+          }
+        );
+      }
+
+      const deviceCode = readString(response.body, 'device_code');
+      const userCode = readString(response.body, 'user_code');
+      const verificationUri =
+        readString(response.body, 'verification_uri') ??
+        // Pre-standard name still used by some providers (e.g. Google)
+        readString(response.body, 'verification_url');
+      const expiresIn = response.body?.expires_in;
+      if (
+        !deviceCode ||
+        !userCode ||
+        !verificationUri ||
+        typeof expiresIn !== 'number'
+      ) {
+        throw this.createStandardError(
+          'server_error',
+          'Invalid device authorization response: missing device_code, user_code, verification_uri or expires_in',
+          {
+            stage: 'startDeviceAuthorization',
+            issuer: this.metadata.issuer,
+            endpoint: 'device_authorization_endpoint',
+          }
+        );
+      }
+
+      const interval = response.body?.interval;
+      const verificationUriComplete = readString(
+        response.body,
+        'verification_uri_complete'
+      );
+      const result: DeviceAuthorizationResult = {
+        deviceCode,
+        userCode,
+        verificationUri,
+        ...(verificationUriComplete && { verificationUriComplete }),
+        expiresIn,
+        interval:
+          typeof interval === 'number' && interval > 0
+            ? interval
+            : DEFAULT_INTERVAL_SECONDS,
+      };
+
+      this.logger.info('Device authorization started', {
+        stage: 'startDeviceAuthorization',
+        issuer: this.metadata.issuer,
+        endpoint,
+        expiresIn: result.expiresIn,
+        interval: result.interval,
+      });
+
+      return result;
+    } catch (error) {
+      this.logger.error('Device authorization request failed', {
+        stage: 'startDeviceAuthorization',
+        issuer: this.metadata.issuer,
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'device_authorization_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Poll the token endpoint until the user completes the device authorization
+   *
+   * Waits `interval` seconds between requests, keeps polling on
+   * `authorization_pending`, backs off by 5 seconds on `slow_down` and stops
+   * once the device code expires.
+   * @param authorization - Result of {@link start}
+   * @param options - Abort signal and resource indicators
+   * @returns Token response once the user approves the request
+   * @throws {OAuthError} `access_denied` or `expired_token` when the user denies
+   * the request or the code expires, `invalid_request` when aborted
+   */
+  async poll(
+    authorization: DeviceAuthorizationResult,
+    options: DevicePollOptions = {}
+  ): Promise<TokenResponse> {
+    const deadline = Date.now() + authorization.expiresIn * 1000;
+    let interval = authorization.interval;
+
+    for (;;) {
+      await this.wait(interval, options.signal);
+
+      if (Date.now() >= deadline) {
+        throw this.createStandardError(
+          'expired_token',
+          'The device code has expired',
+          { stage: 'pollDeviceAuthorization', issuer: this.metadata.issuer }
+        );
+      }
+
+      try {
+        return await this.tokenExchangeService.deviceToken(
+          authorization.deviceCode,
+          options
+        );
+      } catch (error) {
+        // Aborting cancels the in-flight token request as well as the wait
+        if (options.signal?.aborted) {
+          throw this.abortedError();
+        }
+        if (!isNormalizedOAuthError(error)) {
+          throw error;
+        }
+        if (error.error === 'slow_down') {
+          interval += SLOW_DOWN_INCREMENT_SECONDS;
+          this.logger.debug('Device authorization polling slowed down', {
+            stage: 'pollDeviceAuthorization',
+            issuer: this.metadata.issuer,
+            interval,
+          });
+        } else if (error.error !== 'authorization_pending') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Wait before the next poll, rejecting early when aborted
+   */
+  private wait(seconds: number, signal: AbortSignal | undefined) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.abortedError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.abortedError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, seconds * 1000);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Build the error thrown when polling is aborted
+   */
+  private abortedError(): OAuthError {
+    return this.createStandardError(
+      'invalid_request',
+      'Device authorization polling was aborted',
+      { stage: 'pollDeviceAuthorization', issuer: this.metadata.issuer }
+    );
+  }
+}
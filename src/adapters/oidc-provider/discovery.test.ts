@@ -0,0 +1,162 @@
+/**
+ * Metadata discovery unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import {
+  MetadataDiscoveryService,
+  buildDiscoveryDocuments,
+} from './discovery.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('MetadataDiscoveryService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+  let service: MetadataDiscoveryService;
+
+  const { logger, createStandardError, normalizeError } =
+    createServiceDependencies();
+
+  const notFound = { ok: false, status: 404, statusText: 'Not Found' };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+    service = new MetadataDiscoveryService(
+      logger,
+      createStandardError,
+      normalizeError
+    );
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('buildDiscoveryDocuments', function () {
+    it('should build insertion and append forms for issuers with a path', function () {
+      expect(
+        buildDiscoveryDocuments('https://auth.example.com/tenant/v2')
+      ).to.deep.equal([
+        {
+          url: 'https://auth.example.com/.well-known/oauth-authorization-server/tenant/v2',
+          type: 'oauth-authorization-server',
+          form: 'insertion',
+        },
+        {
+          url: 'https://auth.example.com/tenant/v2/.well-known/openid-configuration',
+          type: 'openid-configuration',
+          form: 'append',
+        },
+        {
+          url: 'https://auth.example.com/.well-known/openid-configuration/tenant/v2',
+          type: 'openid-configuration',
+          form: 'insertion',
+        },
+      ]);
+    });
+
+    it('should collapse duplicate URLs for issuers without a path', function () {
+      expect(
+        buildDiscoveryDocuments('https://auth.example.com/').map((d) => d.url)
+      ).to.deep.equal([
+        'https://auth.example.com/.well-known/oauth-authorization-server',
+        'https://auth.example.com/.well-known/openid-configuration',
+      ]);
+    });
+  });
+
+  describe('discover', function () {
+    const issuer = 'https://auth.example.com/tenant';
+    const metadata = { ...oidcMetadata.minimal, issuer };
+
+    it('should use RFC 8414 metadata when available', async function () {
+      fetchStub.resolves(jsonResponse(metadata));
+
+      const result = await service.discover(issuer);
+
+      expect(result.metadata).to.deep.equal(metadata);
+      expect(result.document.type).to.equal('oauth-authorization-server');
+      expect(fetchStub.callCount).to.equal(1);
+    });
+
+    it('should fall back through the OIDC forms in order', async function () {
+      fetchStub.onFirstCall().resolves(notFound);
+      fetchStub.onSecondCall().resolves({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw new SyntaxError('Unexpected token <');
+        },
+      });
+      fetchStub.onThirdCall().resolves(jsonResponse(metadata));
+
+      const result = await service.discover(issuer);
+
+      expect(fetchStub.args.map((args) => args[0])).to.deep.equal([
+        'https://auth.example.com/.well-known/oauth-authorization-server/tenant',
+        'https://auth.example.com/tenant/.well-known/openid-configuration',
+        'https://auth.example.com/.well-known/openid-configuration/tenant',
+      ]);
+      expect(result.document).to.deep.equal({
+        url: 'https://auth.example.com/.well-known/openid-configuration/tenant',
+        type: 'openid-configuration',
+        form: 'insertion',
+      });
+    });
+
+    it('should reject documents whose issuer does not match exactly', async function () {
+      fetchStub.resolves(jsonResponse({ ...metadata, issuer: `${issuer}/` }));
+
+      await expectOAuthError(
+        () => service.discover(issuer),
+        'invalid_request',
+        'Discovery document issuer mismatch'
+      );
+      expect(fetchStub.callCount).to.equal(1);
+    });
+
+    it('should fail when no document is found', async function () {
+      fetchStub.resolves(notFound);
+
+      await expectOAuthError(
+        () => service.discover(issuer),
+        'invalid_request',
+        'No authorization server metadata found'
+      );
+      expect(fetchStub.callCount).to.equal(3);
+    });
+
+    it('should surface server errors after retrying', async function () {
+      this.timeout(5000);
+      fetchStub.resolves({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+      });
+
+      await expectOAuthError(
+        () => service.discover(issuer),
+        'server_error',
+        'Discovery failed: 503'
+      );
+    });
+
+    it('should reject issuers that are not URLs', async function () {
+      await expectOAuthError(
+        () => service.discover('not a url'),
+        'invalid_request',
+        'Issuer is not a valid URL'
+      );
+    });
+  });
+});
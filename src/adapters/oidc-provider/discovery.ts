@@ -0,0 +1,169 @@
+/**
+ * Authorization server metadata discovery for OIDC Provider Adapter
+ * Implements RFC 8414 and OpenID Connect Discovery 1.0 well-known URL fallback
+ */
+
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import { asObject } from '../../utils/json-response.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import type { OIDCDiscoveryDocument, OIDCProviderMetadata } from './types.js';
+import { OIDC_CONSTANTS } from './utils.js';
+
+/**
+ * Build the well-known metadata URLs for an issuer, in the order they are tried:
+ * 1. RFC 8414 insertion form: `/.well-known/oauth-authorization-server{path}`
+ * 2. OIDC path-append form: `{path}/.well-known/openid-configuration`
+ * 3. OIDC insertion form: `/.well-known/openid-configuration{path}`
+ * Issuers without a path component yield only the first two.
+ */
+export function buildDiscoveryDocuments(
+  issuer: string
+): OIDCDiscoveryDocument[] {
+  const { origin, pathname } = new URL(issuer);
+  const path = pathname.replace(/\/+$/, '');
+
+  const documents: OIDCDiscoveryDocument[] = [
+    {
+      url: `${origin}/.well-known/oauth-authorization-server${path}`,
+      type: 'oauth-authorization-server',
+      form: 'insertion',
+    },
+    {
+      url: `${origin}${path}/.well-known/openid-configuration`,
+      type: 'openid-configuration',
+      form: 'append',
+    },
+    {
+      url: `${origin}/.well-known/openid-configuration${path}`,
+      type: 'openid-configuration',
+      form: 'insertion',
+    },
+  ];
+
+  return documents.filter(
+    (document, index) =>
+      documents.findIndex((other) => other.url === document.url) === index
+  );
+}
+
+/**
+ * Discovers provider metadata by trying each well-known document in turn
+ */
+export class MetadataDiscoveryService {
+  constructor(
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context: { endpoint?: string; issuer?: string }
+    ) => OAuthError
+  ) {}
+
+  /**
+   * Fetch metadata for an issuer. Documents that are missing (4xx or non-JSON)
+   * fall through to the next candidate; server and network errors are retried
+   * and then surfaced.
+   * @param issuer - Configured issuer
+   * @param matchesIssuer - Check for the document's issuer (default: exact match)
+   * @returns Provider metadata and the document it was read from
+   * @throws {OAuthError} If no document is found or its issuer does not match
+   */
+  async discover(
+    issuer: string,
+    matchesIssuer: (discovered: string) => boolean = (discovered) =>
+      discovered === issuer
+  ): Promise<{
+    metadata: OIDCProviderMetadata;
+    document: OIDCDiscoveryDocument;
+  }> {
+    let documents: OIDCDiscoveryDocument[];
+    try {
+      documents = buildDiscoveryDocuments(issuer);
+    } catch {
+      throw this.createStandardError(
+        'invalid_request',
+        `Issuer is not a valid URL: ${issuer}`,
+        { stage: 'discovery', issuer }
+      );
+    }
+
+    for (const document of documents) {
+      const metadata = await ResilienceManager.executeWithResilience(
+        () => this.fetchDocument(document.url),
+        {
+          endpoint: document.url,
+          maxRetries: OIDC_CONSTANTS.DISCOVERY_MAX_RETRIES,
+          backoffMs: OIDC_CONSTANTS.DISCOVERY_BACKOFF_MS,
+          circuitKey: issuer,
+          failureThreshold: OIDC_CONSTANTS.CIRCUIT_FAILURE_THRESHOLD,
+          circuitOpenMs: OIDC_CONSTANTS.CIRCUIT_OPEN_MS,
+        },
+        (error, context) => this.normalizeError(error, context)
+      );
+
+      if (!metadata) {
+        this.logger.debug('Discovery document not found; trying next', {
+          stage: 'discovery',
+          issuer,
+          discoveryUrl: document.url,
+          documentType: document.type,
+        });
+        continue;
+      }
+
+      // RFC 8414 §3.3 / OIDC Discovery §4.3: issuer must be identical, unless the
+      // adapter knows the provider publishes a templated issuer
+      if (
+        typeof metadata.issuer !== 'string' ||
+        !matchesIssuer(metadata.issuer)
+      ) {
+        throw this.createStandardError(
+          'invalid_request',
+          `Discovery document issuer mismatch: expected ${issuer}, got ${String(metadata.issuer)}`,
+          { stage: 'discovery', issuer, endpoint: document.url }
+        );
+      }
+
+      return { metadata, document };
+    }
+
+    throw this.createStandardError(
+      'invalid_request',
+      `No authorization server metadata found for issuer ${issuer} (tried ${documents.map((d) => d.url).join(', ')})`,
+      { stage: 'discovery', issuer }
+    );
+  }
+
+  /**
+   * Fetch a single well-known document
+   * @returns Parsed metadata, or null if the document does not exist
+   * @throws Error on 5xx responses so the request is retried
+   */
+  private async fetchDocument(
+    url: string
+  ): Promise<OIDCProviderMetadata | null> {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      if (response.status >= 400 && response.status < 500) {
+        return null;
+      }
+      throw new Error(
+        `Discovery failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    try {
+      return asObject(await response.json()) as OIDCProviderMetadata | null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * DPoP proof signer and verifier unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { createHash } from 'node:crypto';
+import { DPoPProofSigner, DPoPProofVerifier } from './dpop.js';
+import { decodeJwt, jwkThumbprint } from './jwt.js';
+import type { DPoPJtiStore, OIDCProviderMetadata } from './types.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import { createTestSigningKey, signTestJwt } from '../../testUtils/jwt.js';
+
+describe('DPoP', function () {
+  const metadata = oidcMetadata.minimal as OIDCProviderMetadata;
+  const resourceUrl = 'https://mcp.example.com/mcp';
+
+  describe('DPoPProofSigner', function () {
+    it('should generate a P-256 key and sign proofs with it', function () {
+      const signer = new DPoPProofSigner({}, metadata);
+      const proof = decodeJwt(
+        signer.createProof('post', `${resourceUrl}?session=1#frag`, 'at-123')
+      );
+
+      expect(signer.alg).to.equal('ES256');
+      expect(proof.header).to.deep.equal({
+        alg: 'ES256',
+        typ: 'dpop+jwt',
+        jwk: signer.publicJwk,
+      });
+      expect(signer.publicJwk).to.not.have.property('d');
+      expect(signer.thumbprint).to.equal(jwkThumbprint(signer.publicJwk));
+      expect(proof.payload).to.include({ htm: 'POST', htu: resourceUrl });
+      expect(proof.payload.ath).to.equal(
+        createHash('sha256').update('at-123').digest('base64url')
+      );
+      expect(proof.payload.jti).to.be.a('string');
+      expect(proof.payload).to.not.have.property('nonce');
+    });
+
+    it('should use a configured key and include remembered nonces per origin', function () {
+      const key = createTestSigningKey('RS256');
+      const signer = new DPoPProofSigner(
+        {
+          privateKey: key.privateKey.export({
+            format: 'pem',
+            type: 'pkcs8',
+          }) as string,
+        },
+        metadata
+      );
+
+      expect(
+        signer.rememberNonce(
+          metadata.token_endpoint,
+          new Headers({ 'DPoP-Nonce': 'n-1' })
+        )
+      ).to.be.true;
+      expect(signer.rememberNonce(metadata.token_endpoint, new Headers())).to.be
+        .false;
+
+      expect(signer.publicJwk).to.include({ kty: 'RSA', e: key.jwk.e });
+      expect(
+        decodeJwt(signer.createProof('POST', metadata.token_endpoint)).payload
+          .nonce
+      ).to.equal('n-1');
+      expect(
+        decodeJwt(signer.createProof('GET', resourceUrl)).payload
+      ).to.not.have.property('nonce');
+    });
+
+    it('should reject symmetric algorithms', function () {
+      expect(() => new DPoPProofSigner({ alg: 'HS256' }, metadata))
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('Unsupported DPoP signing algorithm: HS256');
+    });
+
+    it('should reject unreadable keys', function () {
+      expect(() => new DPoPProofSigner({ privateKey: 'not a pem' }, metadata))
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('Invalid DPoP private key');
+    });
+
+    it('should warn when the provider does not advertise the algorithm', function () {
+      const logger = { warn: sinon.stub() };
+
+      new DPoPProofSigner(
+        {},
+        { ...metadata, dpop_signing_alg_values_supported: ['RS256'] },
+        logger as any
+      );
+
+      expect(logger.warn.calledOnce).to.be.true;
+      expect(logger.warn.firstCall.args[1]).to.include({ alg: 'ES256' });
+    });
+  });
+
+  describe('DPoPProofVerifier', function () {
+    let signer: DPoPProofSigner;
+    let verifier: DPoPProofVerifier;
+
+    const request = { method: 'GET', url: `${resourceUrl}?q=1` };
+
+    beforeEach(function () {
+      signer = new DPoPProofSigner({}, metadata);
+      verifier = new DPoPProofVerifier();
+    });
+
+    it('should verify a proof bound to an access token and key', async function () {
+      const proof = signer.createProof('GET', resourceUrl, 'at-123');
+
+      const result = await verifier.verify(proof, {
+        ...request,
+        accessToken: 'at-123',
+        jkt: signer.thumbprint,
+      });
+
+      expect(result.jkt).to.equal(signer.thumbprint);
+      expect(result.jwk).to.deep.equal(signer.publicJwk);
+      expect(result.jti).to.equal(decodeJwt(proof).payload.jti);
+    });
+
+    it('should reject replayed proofs', async function () {
+      const proof = signer.createProof('GET', resourceUrl);
+      await verifier.verify(proof, request);
+
+      try {
+        await verifier.verify(proof, request);
+        expect.fail('Expected to throw');
+      } catch (err: any) {
+        expect(err.statusCode).to.equal(401);
+        expect(err.error).to.equal('invalid_dpop_proof');
+        expect(err.error_description).to.include('already been used');
+      }
+    });
+
+    it('should consult a pluggable jti store', async function () {
+      const jtiStore: DPoPJtiStore = { markUsed: sinon.stub().resolves(false) };
+      verifier = new DPoPProofVerifier({ jtiStore });
+
+      try {
+        await verifier.verify(signer.createProof('GET', resourceUrl), request);
+        expect.fail('Expected to throw');
+      } catch (err: any) {
+        expect(err.error_description).to.include('already been used');
+      }
+      const [jti, expiresAt] = (jtiStore.markUsed as sinon.SinonStub).firstCall
+        .args;
+      expect(jti).to.be.a('string');
+      expect(expiresAt).to.be.greaterThan(Date.now());
+    });
+
+    it('should require the current server nonce', async function () {
+      try {
+        await verifier.verify(signer.createProof('GET', resourceUrl), {
+          ...request,
+          nonce: 'server-nonce',
+        });
+        expect.fail('Expected to throw');
+      } catch (err: any) {
+        expect(err.statusCode).to.equal(401);
+        expect(err.error).to.equal('use_dpop_nonce');
+      }
+    });
+
+    describe('invalid_dpop_proof', function () {
+      const key = createTestSigningKey('ES256');
+      const now = () => Math.floor(Date.now() / 1000);
+      const claims = (overrides: Record<string, unknown> = {}) => ({
+        jti: 'proof-1',
+        htm: 'GET',
+        htu: resourceUrl,
+        iat: now(),
+        ...overrides,
+      });
+      const { kid: _kid, ...publicJwk } = key.jwk;
+      const sign = (
+        overrides: Record<string, unknown> = {},
+        header: Record<string, unknown> = {}
+      ) =>
+        signTestJwt(claims(overrides), key, {
+          typ: 'dpop+jwt',
+          jwk: publicJwk,
+          kid: undefined,
+          ...header,
+        });
+
+      const cases: Array<
+        [string, () => string, string, Record<string, unknown>?]
+      > = [
+        ['malformed proofs', () => 'not-a-jwt', 'DPoP proof is malformed'],
+        [
+          'proofs without typ=dpop+jwt',
+          () => sign({}, { typ: 'JWT' }),
+          'Unexpected DPoP proof typ: JWT',
+        ],
+        [
+          'symmetric algorithms',
+          () =>
+            signTestJwt(
+              claims(),
+              { alg: 'HS256', secret: 'shared' },
+              { typ: 'dpop+jwt', jwk: publicJwk }
+            ),
+          'Unexpected DPoP proof signing algorithm: HS256',
+        ],
+        [
+          'proofs without an embedded key',
+          () => sign({}, { jwk: undefined }),
+          'missing jwk',
+        ],
+        [
+          'private embedded keys',
+          () => sign({}, { jwk: { ...publicJwk, d: 'secret' } }),
+          'must be a public key',
+        ],
+        [
+          'proofs signed by another key',
+          () =>
+            signTestJwt(claims(), createTestSigningKey('ES256'), {
+              typ: 'dpop+jwt',
+              jwk: publicJwk,
+            }),
+          'signature verification failed',
+        ],
+        ['proofs without jti', () => sign({ jti: undefined }), 'missing jti'],
+        [
+          'method mismatches',
+          () => sign({ htm: 'POST' }),
+          'htm does not match',
+        ],
+        [
+          'URL mismatches',
+          () => sign({ htu: 'https://mcp.example.com/other' }),
+          'htu does not match',
+        ],
+        ['stale proofs', () => sign({ iat: now() - 600 }), 'iat is outside'],
+        [
+          'access token mismatches',
+          () => sign({ ath: 'wrong' }),
+          'ath does not match',
+          { accessToken: 'at-123' },
+        ],
+        [
+          'key mismatches',
+          () => sign(),
+          'does not match the key the access token is bound to',
+          { jkt: 'other-thumbprint' },
+        ],
+      ];
+
+      for (const [name, proof, description, extra] of cases) {
+        it(`should reject ${name}`, async function () {
+          try {
+            await verifier.verify(proof(), { ...request, ...extra });
+            expect.fail('Expected to throw');
+          } catch (err: any) {
+            expect(err.statusCode).to.equal(401);
+            expect(err.error).to.equal('invalid_dpop_proof');
+            expect(err.error_description).to.include(description);
+          }
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * DPoP for OIDC Provider Adapter
+ * Implements RFC 9449 proof creation for clients and proof verification for
+ * resource servers
+ */
+
+import {
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+  randomUUID,
+  type KeyObject,
+} from 'node:crypto';
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import { ErrorNormalizer } from '../../utils/error-normalizer.js';
+import type {
+  DPoPJtiStore,
+  DPoPOptions,
+  DPoPProofResult,
+  DPoPProofVerifierOptions,
+  DPoPRequest,
+  OIDCProviderMetadata,
+} from './types.js';
+import {
+  decodeJwt,
+  defaultSigningAlgorithm,
+  importJwk,
+  importPrivateKey,
+  isSupportedAlgorithm,
+  isSymmetricAlgorithm,
+  jwkThumbprint,
+  signJwt,
+  verifyJwtSignature,
+  type DecodedJwt,
+  type JWK,
+} from './jwt.js';
+import { OIDC_CONSTANTS } from './utils.js';
+
+/**
+ * `typ` header of DPoP proofs (RFC 9449 §4.2)
+ */
+const DPOP_PROOF_TYPE = 'dpop+jwt';
+
+/**
+ * JWK members that only appear in private keys
+ */
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+/**
+ * Creates DPoP proofs for token requests and protected resource calls
+ *
+ * Server-provided nonces are remembered per origin and included in later
+ * proofs to that origin (RFC 9449 §8).
+ */
+export class DPoPProofSigner {
+  /** Proof signing algorithm */
+  readonly alg: string;
+
+  /** Public key embedded in every proof */
+  readonly publicJwk: JWK;
+
+  /** RFC 7638 thumbprint of the public key (the `jkt` tokens are bound to) */
+  readonly thumbprint: string;
+
+  /** Proof signing key */
+  private readonly privateKey: KeyObject;
+
+  /** Latest nonce issued by each origin */
+  private readonly nonces = new Map<string, string>();
+
+  /**
+   * @param options - Signing key and algorithm; a P-256 key is generated when no key is given
+   * @param metadata - Provider metadata used to check `dpop_signing_alg_values_supported`
+   * @param logger - Optional logger for negotiation warnings
+   * @throws {OAuthError} If the key or algorithm cannot be used
+   */
+  constructor(
+    options: DPoPOptions,
+    private readonly metadata: OIDCProviderMetadata,
+    logger?: Logger
+  ) {
+    try {
+      this.privateKey = options.privateKey
+        ? importPrivateKey(options.privateKey)
+        : generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+    } catch (error) {
+      throw this.createError(
+        `Invalid DPoP private key: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const jwk =
+      typeof options.privateKey === 'object' ? options.privateKey : undefined;
+    const alg =
+      options.alg ?? jwk?.alg ?? defaultSigningAlgorithm(this.privateKey);
+    if (!alg || !isSupportedAlgorithm(alg) || isSymmetricAlgorithm(alg)) {
+      throw this.createError(
+        `Unsupported DPoP signing algorithm: ${String(alg)}`
+      );
+    }
+    this.alg = alg;
+
+    this.publicJwk = createPublicKey(this.privateKey).export({
+      format: 'jwk',
+    }) as JWK;
+    this.thumbprint = jwkThumbprint(this.publicJwk);
+
+    const supported = metadata.dpop_signing_alg_values_supported;
+    if (supported && !supported.includes(alg)) {
+      logger?.warn('DPoP signing algorithm is not advertised by the provider', {
+        stage: 'dpop',
+        issuer: metadata.issuer,
+        alg,
+        supported,
+      });
+    }
+  }
+
+  /**
+   * Create a DPoP proof for a request
+   * @param method - HTTP method of the request
+   * @param url - Request URL; query and fragment are omitted from `htu`
+   * @param accessToken - Access token sent with the request, bound via `ath`
+   * @returns Compact serialized proof for the `DPoP` header
+   */
+  createProof(method: string, url: string, accessToken?: string): string {
+    const target = new URL(url);
+    const nonce = this.nonces.get(target.origin);
+
+    return signJwt(
+      {
+        jti: randomUUID(),
+        htm: method.toUpperCase(),
+        htu: requestUri(target),
+        iat: Math.floor(Date.now() / 1000),
+        ...(nonce && { nonce }),
+        ...(accessToken && { ath: accessTokenHash(accessToken) }),
+      },
+      this.privateKey,
+      { alg: this.alg, typ: DPOP_PROOF_TYPE, jwk: this.publicJwk }
+    );
+  }
+
+  /**
+   * Remember the `DPoP-Nonce` a server returned for use in later proofs
+   * @param url - URL the response came from
+   * @param headers - Response headers
+   * @returns Whether the response carried a nonce
+   */
+  rememberNonce(url: string, headers: Headers): boolean {
+    const nonce = headers.get('DPoP-Nonce');
+    if (!nonce) {
+      return false;
+    }
+    this.nonces.set(new URL(url).origin, nonce);
+    return true;
+  }
+
+  /**
+   * Build an invalid_request error for configuration problems
+   */
+  private createError(description: string): OAuthError {
+    return ErrorNormalizer.normalizeError(
+      {
+        error: 'invalid_request',
+        error_description: description,
+        statusCode: 400,
+      },
+      { issuer: this.metadata.issuer }
+    );
+  }
+}
+
+/**
+ * Verifies DPoP proofs presented to an MCP resource server (RFC 9449 §4.3)
+ *
+ * Failures are reported as {@link OAuthError}s with status 401:
+ * `invalid_dpop_proof` for invalid proofs and `use_dpop_nonce` when a
+ * required nonce is missing or stale.
+ */
+export class DPoPProofVerifier {
+  /** Maximum proof age in seconds */
+  private readonly maxAge: number;
+
+  /** Allowed clock skew in seconds */
+  private readonly clockTolerance: number;
+
+  /** Replay store for proof identifiers */
+  private readonly jtiStore: DPoPJtiStore;
+
+  /**
+   * @param options - Accepted algorithms, proof lifetime and replay store
+   * @param logger - Optional logger
+   */
+  constructor(
+    private readonly options: DPoPProofVerifierOptions = {},
+    private readonly logger?: Logger
+  ) {
+    this.maxAge =
+      options.maxAgeSeconds ?? OIDC_CONSTANTS.DPOP_PROOF_MAX_AGE_SECONDS;
+    this.clockTolerance =
+      options.clockToleranceSeconds ??
+      OIDC_CONSTANTS.DPOP_CLOCK_TOLERANCE_SECONDS;
+    this.jtiStore = options.jtiStore ?? new MemoryDPoPJtiStore();
+  }
+
+  /**
+   * Verify a DPoP proof for a request
+   * @param proof - Value of the `DPoP` request header
+   * @param request - Method, URL and, for protected resource calls, the access token and its `cnf.jkt`
+   * @returns Verified proof details
+   * @throws {OAuthError} invalid_dpop_proof or use_dpop_nonce
+   */
+  async verify(proof: string, request: DPoPRequest): Promise<DPoPProofResult> {
+    let decoded: DecodedJwt;
+    try {
+      decoded = decodeJwt(proof);
+    } catch (error) {
+      throw this.invalidProof(
+        `DPoP proof is malformed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const jwk = this.verifySignature(decoded);
+    const { payload } = decoded;
+
+    if (typeof payload.jti !== 'string' || !payload.jti) {
+      throw this.invalidProof('DPoP proof is missing jti claim');
+    }
+
+    if (payload.htm !== request.method.toUpperCase()) {
+      throw this.invalidProof(
+        'DPoP proof htm does not match the request method'
+      );
+    }
+
+    if (
+      typeof payload.htu !== 'string' ||
+      normalizeUri(payload.htu) !== normalizeUri(request.url)
+    ) {
+      throw this.invalidProof('DPoP proof htu does not match the request URL');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.iat !== 'number') {
+      throw this.invalidProof('DPoP proof is missing iat claim');
+    }
+    if (
+      payload.iat > now + this.clockTolerance ||
+      payload.iat < now - this.maxAge - this.clockTolerance
+    ) {
+      throw this.invalidProof(
+        'DPoP proof iat is outside the acceptable window'
+      );
+    }
+
+    if (request.nonce !== undefined && payload.nonce !== request.nonce) {
+      throw this.createError(
+        'use_dpop_nonce',
+        'DPoP proof is missing the current server nonce'
+      );
+    }
+
+    if (request.accessToken !== undefined) {
+      if (payload.ath !== accessTokenHash(request.accessToken)) {
+        throw this.invalidProof(
+          'DPoP proof ath does not match the access token'
+        );
+      }
+    }
+
+    const jkt = jwkThumbprint(jwk);
+    if (request.jkt !== undefined && request.jkt !== jkt) {
+      throw this.invalidProof(
+        'DPoP proof key does not match the key the access token is bound to'
+      );
+    }
+
+    // Checked last so invalid proofs do not consume their jti
+    const expiresAt = (payload.iat + this.maxAge + this.clockTolerance) * 1000;
+    if (!(await this.jtiStore.markUsed(payload.jti, expiresAt))) {
+      throw this.invalidProof('DPoP proof has already been used');
+    }
+
+    this.logger?.debug('DPoP proof verified', {
+      stage: 'verifyDPoPProof',
+      alg: decoded.header.alg,
+      htm: payload.htm,
+    });
+
+    return { jkt, jti: payload.jti, iat: payload.iat, jwk, claims: payload };
+  }
+
+  /**
+   * Check the proof header and verify its signature with the embedded key
+   * @returns The embedded public key
+   */
+  private verifySignature(decoded: DecodedJwt): JWK {
+    const { typ, alg, jwk } = decoded.header;
+
+    if (typ?.toLowerCase() !== DPOP_PROOF_TYPE) {
+      throw this.invalidProof(`Unexpected DPoP proof typ: ${String(typ)}`);
+    }
+
+    if (
+      !isSupportedAlgorithm(alg) ||
+      isSymmetricAlgorithm(alg) ||
+      (this.options.algorithms && !this.options.algorithms.includes(alg))
+    ) {
+      throw this.invalidProof(
+        `Unexpected DPoP proof signing algorithm: ${alg}`
+      );
+    }
+
+    if (!jwk || typeof jwk !== 'object' || Array.isArray(jwk)) {
+      throw this.invalidProof('DPoP proof header is missing jwk');
+    }
+    const publicJwk = jwk as JWK;
+    if (PRIVATE_JWK_MEMBERS.some((member) => member in publicJwk)) {
+      throw this.invalidProof('DPoP proof jwk must be a public key');
+    }
+
+    let verified: boolean;
+    try {
+      verified = verifyJwtSignature(decoded, importJwk(publicJwk));
+    } catch {
+      verified = false;
+    }
+    if (!verified) {
+      throw this.invalidProof('DPoP proof signature verification failed');
+    }
+
+    return publicJwk;
+  }
+
+  /**
+   * Build an invalid_dpop_proof error
+   */
+  private invalidProof(description: string): OAuthError {
+    return this.createError('invalid_dpop_proof', description);
+  }
+
+  /**
+   * Build a normalized 401 error
+   */
+  private createError(error: string, description: string): OAuthError {
+    return ErrorNormalizer.normalizeError(
+      { error, error_description: description, statusCode: 401 },
+      {}
+    );
+  }
+}
+
+/**
+ * Default per-process replay store with bounded size
+ */
+class MemoryDPoPJtiStore implements DPoPJtiStore {
+  /** Expiry timestamps keyed by jti */
+  private readonly entries = new Map<string, number>();
+
+  async markUsed(jti: string, expiresAt: number): Promise<boolean> {
+    const now = Date.now();
+    const existing = this.entries.get(jti);
+    if (existing !== undefined && existing > now) {
+      return false;
+    }
+
+    if (this.entries.size >= OIDC_CONSTANTS.DPOP_JTI_STORE_MAX_ENTRIES) {
+      for (const [key, entryExpiresAt] of this.entries) {
+        if (entryExpiresAt <= now) {
+          this.entries.delete(key);
+        }
+      }
+    }
+    if (this.entries.size >= OIDC_CONSTANTS.DPOP_JTI_STORE_MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+
+    this.entries.set(jti, expiresAt);
+    return true;
+  }
+}
+
+/**
+ * Hash an access token for the `ath` claim (RFC 9449 §4.2)
+ */
+function accessTokenHash(accessToken: string): string {
+  return createHash('sha256').update(accessToken).digest('base64url');
+}
+
+/**
+ * Strip query and fragment from a request URL for `htu`
+ */
+function requestUri(url: URL): string {
+  const target = new URL(url.href);
+  target.search = '';
+  target.hash = '';
+  return target.href;
+}
+
+/**
+ * Normalize a URI for `htu` comparison, or return undefined if it is invalid
+ */
+function normalizeUri(uri: string): string | undefined {
+  try {
+    return requestUri(new URL(uri));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for fromRegistration helper
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import {
+  fromRegistration,
+  fromRegistrationAsync,
+} from './from-registration.js';
+import { OIDCProviderAdapter } from './oidc-adapter.js';
+import type { ClientRegistrationResult } from './types.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+
+describe('fromRegistration', () => {
+  const registration: ClientRegistrationResult = {
+    clientId: 'dyn-client',
+    clientSecret: 'dyn-secret',
+    redirectUris: [
+      'https://app.example.com/callback',
+      'https://app.example.com/alt',
+    ],
+    scopes: ['openid', 'mcp'],
+    metadata: {},
+  };
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('should map registered credentials onto the adapter config', () => {
+    const adapter = fromRegistration(registration, {
+      metadata: oidcMetadata.minimal,
+    });
+    const config = (adapter as any).oidcConfig;
+
+    expect(adapter).to.be.instanceOf(OIDCProviderAdapter);
+    expect(config.clientId).to.equal('dyn-client');
+    expect(config.clientSecret).to.equal('dyn-secret');
+    expect(config.redirectUri).to.equal('https://app.example.com/callback');
+    expect(config.scopes).to.deep.equal(['openid', 'mcp']);
+  });
+
+  it('should prefer explicit scopes and redirect URI', () => {
+    const adapter = fromRegistration(registration, {
+      metadata: oidcMetadata.minimal,
+      scopes: ['openid'],
+      redirectUri: 'https://app.example.com/alt',
+    });
+    const config = (adapter as any).oidcConfig;
+
+    expect(config.scopes).to.deep.equal(['openid']);
+    expect(config.redirectUri).to.equal('https://app.example.com/alt');
+  });
+
+  it('should create a public client adapter when no secret was issued', () => {
+    const adapter = fromRegistration(
+      { clientId: 'public-client', redirectUris: [], metadata: {} },
+      { metadata: oidcMetadata.minimal }
+    );
+    const config = (adapter as any).oidcConfig;
+
+    expect(config).to.not.have.property('clientSecret');
+    expect(config).to.not.have.property('redirectUri');
+    expect(config.scopes).to.deep.equal(['openid', 'profile', 'email']);
+  });
+
+  it('should initialize the adapter in the async variant', async () => {
+    const initStub = sinon
+      .stub(OIDCProviderAdapter.prototype, 'initialize')
+      .resolves();
+
+    const adapter = await fromRegistrationAsync(registration, {
+      metadata: oidcMetadata.minimal,
+    });
+
+    expect(adapter).to.be.instanceOf(OIDCProviderAdapter);
+    expect(initStub.calledOnce).to.be.true;
+  });
+});
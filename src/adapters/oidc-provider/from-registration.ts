@@ -0,0 +1,70 @@
+/**
+ * Dynamic client registration helper for OIDCProviderAdapter
+ * Maps a ClientRegistrationResult to OIDCProviderConfig
+ */
+
+import type {
+  ClientRegistrationResult,
+  FromRegistrationOptions,
+  OIDCProviderConfig,
+} from './types.js';
+import { OIDCProviderAdapter } from './oidc-adapter.js';
+
+/**
+ * Default scopes used if neither options nor the registration provide any
+ */
+const DEFAULT_SCOPES = ['openid', 'profile', 'email'];
+
+/**
+ * Create an OIDCProviderAdapter from a dynamic client registration result
+ *
+ * Maps the issued credentials onto OIDCProviderConfig:
+ * - clientId -> clientId
+ * - clientSecret -> clientSecret (omitted for public clients)
+ * - redirectUris[0] -> redirectUri (unless options.redirectUri is set)
+ * - scopes -> scopes (unless options.scopes is set)
+ *
+ * @param registration - Result of ClientRegistrationClient.register()
+ * @param options - Remaining adapter configuration (issuer or metadata, storage, etc.)
+ * @returns Configured OIDCProviderAdapter instance
+ */
+export function fromRegistration(
+  registration: ClientRegistrationResult,
+  options: FromRegistrationOptions
+): OIDCProviderAdapter {
+  const { scopes, redirectUri, ...rest } = options;
+  const resolvedRedirectUri = redirectUri ?? registration.redirectUris[0];
+
+  const config: OIDCProviderConfig = {
+    ...rest,
+    clientId: registration.clientId,
+    scopes: scopes ?? registration.scopes ?? DEFAULT_SCOPES,
+  };
+
+  // Add optional properties only if defined
+  if (registration.clientSecret) {
+    config.clientSecret = registration.clientSecret;
+  }
+
+  if (resolvedRedirectUri) {
+    config.redirectUri = resolvedRedirectUri;
+  }
+
+  return new OIDCProviderAdapter(config);
+}
+
+/**
+ * Async version that also initializes the adapter
+ *
+ * @param registration - Result of ClientRegistrationClient.register()
+ * @param options - Remaining adapter configuration (issuer or metadata, storage, etc.)
+ * @returns Initialized OIDCProviderAdapter instance
+ */
+export async function fromRegistrationAsync(
+  registration: ClientRegistrationResult,
+  options: FromRegistrationOptions
+): Promise<OIDCProviderAdapter> {
+  const adapter = fromRegistration(registration, options);
+  await adapter.initialize();
+  return adapter;
+}
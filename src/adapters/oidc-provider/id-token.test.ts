@@ -0,0 +1,329 @@
+/**
+ * ID token validator unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { IdTokenValidator } from './id-token.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+import {
+  createTestSigningKey,
+  jwksResponse,
+  signTestJwt,
+} from '../../testUtils/jwt.js';
+
+describe('IdTokenValidator', function () {
+  const signingKey = createTestSigningKey('RS256', 'kid-1');
+  const metadata = {
+    ...oidcMetadata.minimal,
+    id_token_signing_alg_values_supported: ['RS256', 'HS256'],
+  };
+  const config = {
+    clientId: 'test-client-id',
+    clientSecret: 'test-client-secret',
+    scopes: ['openid'],
+  };
+
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+  let validator: IdTokenValidator;
+  let now: number;
+
+  const { logger, createStandardError } = createServiceDependencies(
+    metadata.issuer
+  );
+
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    iss: metadata.issuer,
+    sub: 'user-123',
+    aud: config.clientId,
+    exp: now + 300,
+    iat: now,
+    ...overrides,
+  });
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+    fetchStub.resolves(jwksResponse([signingKey.jwk]));
+    now = Math.floor(Date.now() / 1000);
+    validator = new IdTokenValidator(
+      config,
+      metadata,
+      logger,
+      createStandardError
+    );
+  });
+
+  afterEach(function () {
+    restoreStubs();
+  });
+
+  describe('signature', function () {
+    it('should return claims for a valid RS256 ID token', async function () {
+      const token = signTestJwt(claims({ email: 'a@b.c' }), signingKey);
+
+      const result = await validator.validate(token);
+
+      expect(result.sub).to.equal('user-123');
+      expect(result.email).to.equal('a@b.c');
+      expect(fetchStub.firstCall.args[0]).to.equal(metadata.jwks_uri);
+    });
+
+    it('should cache the JWKS across validations', async function () {
+      await validator.validate(signTestJwt(claims(), signingKey));
+      await validator.validate(signTestJwt(claims(), signingKey));
+
+      expect(fetchStub.callCount).to.equal(1);
+    });
+
+    it('should refetch the JWKS when the kid is unknown', async function () {
+      const rotatedKey = createTestSigningKey('RS256', 'kid-2');
+      fetchStub.onFirstCall().resolves(jwksResponse([signingKey.jwk]));
+      fetchStub
+        .onSecondCall()
+        .resolves(jwksResponse([signingKey.jwk, rotatedKey.jwk]));
+
+      await validator.validate(signTestJwt(claims(), signingKey));
+      // Allow the rate-limited forced refresh
+      const clock = sinon.useFakeTimers({
+        now: Date.now() + 60_000,
+        toFake: ['Date'],
+      });
+      now = Math.floor(Date.now() / 1000);
+      const result = await validator.validate(
+        signTestJwt(claims(), rotatedKey)
+      );
+      clock.restore();
+
+      expect(result.sub).to.equal('user-123');
+      expect(fetchStub.callCount).to.equal(2);
+    });
+
+    it('should reject tokens signed by an unknown key', async function () {
+      const otherKey = createTestSigningKey('RS256', 'kid-1');
+
+      await expectOAuthError(
+        () => validator.validate(signTestJwt(claims(), otherKey)),
+        'invalid_token',
+        'signature verification failed'
+      );
+    });
+
+    it('should reject tokens when no JWKS key matches', async function () {
+      await expectOAuthError(
+        () =>
+          validator.validate(
+            signTestJwt(claims(), signingKey, { kid: 'missing' })
+          ),
+        'invalid_token',
+        'No matching key found in provider JWKS for kid missing'
+      );
+    });
+
+    it('should reject algorithms not advertised by the provider', async function () {
+      const esKey = createTestSigningKey('ES256');
+
+      await expectOAuthError(
+        () => validator.validate(signTestJwt(claims(), esKey)),
+        'invalid_token',
+        'Unexpected ID token signing algorithm: ES256'
+      );
+    });
+
+    it('should reject unsigned tokens', async function () {
+      const [, payload] = signTestJwt(claims(), signingKey).split('.');
+      const header = Buffer.from('{"alg":"none"}').toString('base64url');
+
+      await expectOAuthError(
+        () => validator.validate(`${header}.${payload}.`),
+        'invalid_token',
+        'Unexpected ID token signing algorithm: none'
+      );
+    });
+
+    it('should reject malformed tokens', async function () {
+      await expectOAuthError(
+        () => validator.validate('not-a-jwt'),
+        'invalid_token',
+        'ID token is malformed'
+      );
+    });
+
+    it('should verify HS256 tokens with the client secret', async function () {
+      const token = signTestJwt(claims(), {
+        alg: 'HS256',
+        secret: config.clientSecret,
+      });
+
+      const result = await validator.validate(token);
+
+      expect(result.sub).to.equal('user-123');
+      expect(fetchStub.called).to.be.false;
+    });
+
+    it('should reject HS256 tokens signed with another secret', async function () {
+      const token = signTestJwt(claims(), { alg: 'HS256', secret: 'other' });
+
+      await expectOAuthError(
+        () => validator.validate(token),
+        'invalid_token',
+        'signature verification failed'
+      );
+    });
+
+    it('should reject HS256 tokens for public clients', async function () {
+      const publicValidator = new IdTokenValidator(
+        { ...config, clientSecret: undefined } as any,
+        metadata,
+        logger,
+        createStandardError
+      );
+      const token = signTestJwt(claims(), { alg: 'HS256', secret: 'x' });
+
+      await expectOAuthError(
+        () => publicValidator.validate(token),
+        'invalid_token',
+        'requires a client secret'
+      );
+    });
+
+    it('should reject asymmetric tokens when the provider has no jwks_uri', async function () {
+      const noJwksValidator = new IdTokenValidator(
+        config,
+        { ...metadata, jwks_uri: undefined } as any,
+        logger,
+        createStandardError
+      );
+
+      await expectOAuthError(
+        () => noJwksValidator.validate(signTestJwt(claims(), signingKey)),
+        'invalid_token',
+        'does not include jwks_uri'
+      );
+    });
+
+    it('should normalize JWKS fetch failures', async function () {
+      fetchStub.resolves({ ok: false, status: 500, statusText: 'Oops' });
+
+      await expectOAuthError(
+        () => validator.validate(signTestJwt(claims(), signingKey)),
+        'server_error',
+        'Failed to load provider JWKS'
+      );
+    });
+  });
+
+  describe('claims', function () {
+    const cases: Array<[string, () => Record<string, unknown>, string]> = [
+      [
+        'issuer',
+        () => ({ iss: 'https://evil.example.com' }),
+        'issuer mismatch',
+      ],
+      ['subject', () => ({ sub: undefined }), 'missing sub claim'],
+      [
+        'audience',
+        () => ({ aud: 'other-client' }),
+        'audience does not include',
+      ],
+      [
+        'authorized party',
+        () => ({ aud: ['test-client-id', 'other'], azp: 'other' }),
+        'azp does not match',
+      ],
+      [
+        'multi-audience azp',
+        () => ({ aud: ['test-client-id', 'other'] }),
+        'must include azp',
+      ],
+      ['missing expiry', () => ({ exp: undefined }), 'missing exp claim'],
+      ['expiry', () => ({ exp: now - 1000 }), 'has expired'],
+      ['missing issued-at', () => ({ iat: undefined }), 'missing iat claim'],
+      ['issued-at', () => ({ iat: now + 3600 }), 'issued in the future'],
+    ];
+
+    for (const [name, overrides, message] of cases) {
+      it(`should reject an invalid ${name}`, async function () {
+        const payload = JSON.parse(JSON.stringify(claims(overrides())));
+
+        await expectOAuthError(
+          () => validator.validate(signTestJwt(payload, signingKey)),
+          'invalid_token',
+          message
+        );
+      });
+    }
+
+    it('should accept expiry within the clock tolerance', async function () {
+      const token = signTestJwt(claims({ exp: now - 10 }), signingKey);
+
+      const result = await validator.validate(token);
+
+      expect(result.exp).to.equal(now - 10);
+    });
+
+    it('should honour a configured clock tolerance', async function () {
+      const strictValidator = new IdTokenValidator(
+        { ...config, idTokenValidation: { clockToleranceSeconds: 0 } },
+        metadata,
+        logger,
+        createStandardError
+      );
+      const token = signTestJwt(claims({ exp: now - 10 }), signingKey);
+
+      await expectOAuthError(
+        () => strictValidator.validate(token),
+        'invalid_token',
+        'has expired'
+      );
+    });
+
+    it('should accept a matching azp', async function () {
+      const token = signTestJwt(
+        claims({ aud: ['test-client-id', 'api'], azp: 'test-client-id' }),
+        signingKey
+      );
+
+      const result = await validator.validate(token);
+
+      expect(result.azp).to.equal('test-client-id');
+    });
+
+    it('should check the expected nonce', async function () {
+      const token = signTestJwt(claims({ nonce: 'n-1' }), signingKey);
+
+      expect(
+        (await validator.validate(token, { nonce: 'n-1' })).nonce
+      ).to.equal('n-1');
+      await expectOAuthError(
+        () => validator.validate(token, { nonce: 'n-2' }),
+        'invalid_token',
+        'nonce mismatch'
+      );
+    });
+
+    it('should enforce max_age against auth_time', async function () {
+      const fresh = signTestJwt(claims({ auth_time: now - 60 }), signingKey);
+      const stale = signTestJwt(claims({ auth_time: now - 600 }), signingKey);
+      const missing = signTestJwt(claims(), signingKey);
+
+      await validator.validate(fresh, { maxAge: 300 });
+      await expectOAuthError(
+        () => validator.validate(stale, { maxAge: 300 }),
+        'invalid_token',
+        'older than the requested max_age'
+      );
+      await expectOAuthError(
+        () => validator.validate(missing, { maxAge: 300 }),
+        'invalid_token',
+        'missing auth_time'
+      );
+    });
+  });
+});
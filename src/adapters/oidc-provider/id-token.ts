@@ -0,0 +1,188 @@
+/**
+ * ID token validation for OIDC Provider Adapter
+ * Implements OpenID Connect Core §3.1.3.7 signature and claim checks
+ */
+
+import type { IdTokenClaims, OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type {
+  OIDCExchangeCodeOptions,
+  OIDCProviderConfig,
+  OIDCProviderMetadata,
+} from './types.js';
+import { audienceList, decodeJwt, type DecodedJwt } from './jwt.js';
+import { createJwksCache, JwsVerifier } from './jws.js';
+import { OIDC_CONSTANTS } from './utils.js';
+
+/**
+ * Validates ID tokens against the provider JWKS and expected claims
+ */
+export class IdTokenValidator {
+  /** Allowed clock skew in seconds */
+  private readonly clockTolerance: number;
+
+  /**
+   * @param config - Client ID, client secret and validation settings
+   * @param metadata - Provider metadata
+   * @param logger - Adapter logger
+   * @param createStandardError - Error factory
+   * @param jws - Signature and issuer verifier (default: one with its own JWKS cache)
+   */
+  constructor(
+    private readonly config: OIDCProviderConfig,
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly jws = new JwsVerifier(
+      metadata,
+      createJwksCache(
+        metadata,
+        config.idTokenValidation?.jwksCacheTtlSeconds,
+        logger
+      )
+    )
+  ) {
+    this.clockTolerance =
+      config.idTokenValidation?.clockToleranceSeconds ??
+      OIDC_CONSTANTS.ID_TOKEN_CLOCK_TOLERANCE_SECONDS;
+  }
+
+  /**
+   * Validate an ID token and return its claims
+   * @param idToken - Compact serialized ID token
+   * @param expectations - Nonce and max_age from the authorization request
+   * @returns Verified ID token claims
+   * @throws {OAuthError} invalid_token if the signature or any claim check fails
+   */
+  async validate(
+    idToken: string,
+    expectations: OIDCExchangeCodeOptions = {}
+  ): Promise<IdTokenClaims> {
+    let decoded: DecodedJwt;
+    try {
+      decoded = decodeJwt(idToken);
+    } catch (error) {
+      throw this.invalidToken(
+        `ID token is malformed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    await this.verifySignature(decoded);
+    const claims = this.validateClaims(decoded.payload, expectations);
+
+    this.logger.debug('ID token validated', {
+      stage: 'validateIdToken',
+      issuer: this.metadata.issuer,
+      alg: decoded.header.alg,
+      kid: decoded.header.kid,
+    });
+
+    return claims;
+  }
+
+  /**
+   * Verify the JWS signature using the provider JWKS or the client secret
+   */
+  private async verifySignature(decoded: DecodedJwt): Promise<void> {
+    await this.jws.verifySignature(decoded, {
+      name: 'ID token',
+      algorithms: this.metadata.id_token_signing_alg_values_supported ?? [
+        'RS256',
+      ],
+      ...(this.config.clientSecret && {
+        clientSecret: this.config.clientSecret,
+      }),
+      invalid: (description) => this.invalidToken(description),
+      jwksUnavailable: (description) =>
+        this.createStandardError('server_error', description, {
+          stage: 'validateIdToken',
+          issuer: this.metadata.issuer,
+          endpoint: 'jwks_uri',
+        }),
+    });
+  }
+
+  /**
+   * Validate registered ID token claims
+   */
+  private validateClaims(
+    payload: Record<string, unknown>,
+    expectations: OIDCExchangeCodeOptions
+  ): IdTokenClaims {
+    const now = Math.floor(Date.now() / 1000);
+
+    this.jws.verifyIssuer(payload, {
+      name: 'ID token',
+      invalid: (description) => this.invalidToken(description),
+    });
+
+    if (typeof payload.sub !== 'string' || !payload.sub) {
+      throw this.invalidToken('ID token is missing sub claim');
+    }
+
+    const audiences = audienceList(payload.aud);
+    if (!audiences.includes(this.config.clientId)) {
+      throw this.invalidToken('ID token audience does not include client_id');
+    }
+
+    if (payload.azp !== undefined && payload.azp !== this.config.clientId) {
+      throw this.invalidToken('ID token azp does not match client_id');
+    }
+
+    if (audiences.length > 1 && payload.azp === undefined) {
+      throw this.invalidToken(
+        'ID token with multiple audiences must include azp claim'
+      );
+    }
+
+    if (typeof payload.exp !== 'number') {
+      throw this.invalidToken('ID token is missing exp claim');
+    }
+    if (now - this.clockTolerance >= payload.exp) {
+      throw this.invalidToken('ID token has expired');
+    }
+
+    if (typeof payload.iat !== 'number') {
+      throw this.invalidToken('ID token is missing iat claim');
+    }
+    if (payload.iat > now + this.clockTolerance) {
+      throw this.invalidToken('ID token was issued in the future');
+    }
+
+    if (
+      expectations.nonce !== undefined &&
+      payload.nonce !== expectations.nonce
+    ) {
+      throw this.invalidToken('ID token nonce mismatch');
+    }
+
+    if (expectations.maxAge !== undefined) {
+      if (typeof payload.auth_time !== 'number') {
+        throw this.invalidToken(
+          'ID token is missing auth_time claim required by max_age'
+        );
+      }
+      if (now - this.clockTolerance > payload.auth_time + expectations.maxAge) {
+        throw this.invalidToken(
+          'ID token auth_time is older than the requested max_age'
+        );
+      }
+    }
+
+    return payload as IdTokenClaims;
+  }
+
+  /**
+   * Build an invalid_token error for ID token validation failures
+   */
+  private invalidToken(description: string): OAuthError {
+    return this.createStandardError('invalid_token', description, {
+      stage: 'validateIdToken',
+      issuer: this.metadata.issuer,
+    });
+  }
+}
@@ -5,13 +5,65 @@
 export { OIDCProviderAdapter } from './oidc-adapter.js';
 export { validate, safeValidate, OIDCProviderConfigSchema } from './config.js';
 export { fromEnvironment, fromEnvironmentAsync } from './from-environment.js';
+export {
+  fromRegistration,
+  fromRegistrationAsync,
+} from './from-registration.js';
+export { ClientRegistrationClient } from './client-registration.js';
+export { AccessTokenVerifier } from './access-token.js';
+export { certificateThumbprint } from './mtls.js';
+export { DPoPProofVerifier } from './dpop.js';
+export {
+  createProtectedResourceMetadata,
+  getProtectedResourceMetadataUrl,
+  buildWWWAuthenticateHeader,
+  parseWWWAuthenticateHeader,
+} from './protected-resource.js';
 export type {
   OIDCProviderConfig,
   OIDCProviderMetadata,
+  OIDCDiscoveryDocument,
   OIDCProviderCapabilities,
   OIDCAuthUrlOptions,
   OIDCAuthUrlResult,
+  OIDCExchangeCodeOptions,
+  OIDCRefreshTokenOptions,
+  ClientCredentialsOptions,
+  TokenExchangeOptions,
+  TokenExchangeResponse,
+  OIDCCallbackParams,
+  IdTokenValidationOptions,
+  TokenIntrospectionOptions,
+  TokenIntrospectionResult,
+  AccessTokenVerifierOptions,
+  AccessTokenClaims,
+  ClientAuthMethod,
+  ClientAuthenticationOptions,
+  MutualTlsOptions,
+  MtlsEndpointAliases,
+  DPoPOptions,
+  DPoPJtiStore,
+  DPoPProofVerifierOptions,
+  DPoPRequest,
+  DPoPProofResult,
+  PushedAuthorizationMode,
+  PushedAuthorizationResult,
+  DeviceAuthorizationOptions,
+  DeviceAuthorizationResult,
+  DevicePollOptions,
+  LogoutUrlOptions,
+  UserInfoOptions,
+  LogoutTokenClaims,
   PKCEStorageHook,
+  ClientRegistrationRequest,
+  ClientRegistrationResult,
+  ClientRegistrationStore,
+  ClientRegistrationOptions,
   EnvironmentVariables,
   FromEnvironmentOptions,
+  FromRegistrationOptions,
+  ProtectedResourceMetadata,
+  ProtectedResourceMetadataOptions,
+  WWWAuthenticateOptions,
+  WWWAuthenticateChallenge,
 } from './types.js';
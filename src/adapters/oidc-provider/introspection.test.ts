@@ -0,0 +1,257 @@
+/**
+ * Token introspection unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { TokenIntrospectionService } from './introspection.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import type { OIDCProviderConfig } from './types.js';
+
+describe('TokenIntrospectionService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const introspectionEndpoint = 'https://auth.example.com/oauth/introspect';
+  const metadata = {
+    ...oidcMetadata.minimal,
+    introspection_endpoint: introspectionEndpoint,
+  };
+
+  const createService = (
+    config: Partial<OIDCProviderConfig> = {},
+    providerMetadata: Record<string, unknown> = metadata
+  ) => {
+    const {
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+    } = createServiceDependencies(metadata.issuer);
+    return new TokenIntrospectionService(
+      {
+        clientId: 'rs-client',
+        clientSecret: 'rs-secret',
+        scopes: ['openid'],
+        ...config,
+      } as OIDCProviderConfig,
+      providerMetadata as any,
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience
+    );
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  it('should normalize an active token response', async function () {
+    const body = {
+      active: true,
+      scope: 'mcp:read mcp:write',
+      client_id: 'mcp-client',
+      sub: 'user-123',
+      aud: 'https://mcp.example.com',
+      exp: 2000000000,
+      iat: 1700000000,
+      iss: metadata.issuer,
+      token_type: 'Bearer',
+      tenant: 'acme',
+    };
+    fetchStub.callsFake(async () => jsonResponse(body));
+
+    const result = await createService().introspect(
+      'opaque-token',
+      'access_token'
+    );
+
+    expect(result).to.deep.equal({
+      active: true,
+      scope: 'mcp:read mcp:write',
+      clientId: 'mcp-client',
+      sub: 'user-123',
+      aud: ['https://mcp.example.com'],
+      exp: 2000000000,
+      iat: 1700000000,
+      iss: metadata.issuer,
+      tokenType: 'Bearer',
+      claims: body,
+    });
+
+    const [url, options] = fetchStub.firstCall.args;
+    expect(url).to.equal(introspectionEndpoint);
+    expect(options.headers.Authorization).to.equal(
+      `Basic ${Buffer.from('rs-client:rs-secret').toString('base64')}`
+    );
+    const params = new URLSearchParams(options.body);
+    expect(params.get('token')).to.equal('opaque-token');
+    expect(params.get('token_type_hint')).to.equal('access_token');
+  });
+
+  it('should expose the certificate binding of mTLS-bound tokens', async function () {
+    fetchStub.callsFake(async () =>
+      jsonResponse({ active: true, cnf: { 'x5t#S256': 'bwcK0esc3ACC3DB2Y5' } })
+    );
+
+    const result = await createService().introspect('bound-token');
+
+    expect(result.certificateThumbprint).to.equal('bwcK0esc3ACC3DB2Y5');
+  });
+
+  it('should expose the DPoP key binding of DPoP-bound tokens', async function () {
+    fetchStub.callsFake(async () =>
+      jsonResponse({ active: true, cnf: { jkt: 'jkt-1' } })
+    );
+
+    const result = await createService().introspect('bound-token');
+
+    expect(result.dpopKeyThumbprint).to.equal('jkt-1');
+  });
+
+  it('should ignore other fields for inactive tokens', async function () {
+    fetchStub.callsFake(async () =>
+      jsonResponse({ active: false, sub: 'stale' })
+    );
+
+    const result = await createService().introspect('revoked-token');
+
+    expect(result).to.deep.equal({
+      active: false,
+      claims: { active: false, sub: 'stale' },
+    });
+  });
+
+  it('should not cache by default', async function () {
+    fetchStub.callsFake(async () => jsonResponse({ active: true }));
+    const service = createService();
+
+    await service.introspect('opaque-token');
+    await service.introspect('opaque-token');
+
+    expect(fetchStub.callCount).to.equal(2);
+  });
+
+  describe('caching', function () {
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(function () {
+      // Fake only Date: reading a Response body relies on real timers
+      clock = sinon.useFakeTimers({ now: 1_700_000_000_000, toFake: ['Date'] });
+    });
+
+    afterEach(function () {
+      clock.restore();
+    });
+
+    it('should serve cached results until the TTL elapses', async function () {
+      fetchStub.callsFake(async () =>
+        jsonResponse({ active: true, sub: 'user-123' })
+      );
+      const service = createService({ introspection: { cacheTtlSeconds: 30 } });
+
+      await service.introspect('opaque-token');
+      const cached = await service.introspect('opaque-token');
+      await service.introspect('other-token');
+
+      expect(cached.sub).to.equal('user-123');
+      expect(fetchStub.callCount).to.equal(2);
+
+      clock.tick(30_000);
+      await service.introspect('opaque-token');
+      expect(fetchStub.callCount).to.equal(3);
+    });
+
+    it('should not cache active tokens past their expiry', async function () {
+      fetchStub.callsFake(
+        async () => jsonResponse({ active: true, exp: 1_700_000_010 }) // expires in 10s
+      );
+      const service = createService({ introspection: { cacheTtlSeconds: 60 } });
+
+      await service.introspect('opaque-token');
+      clock.tick(9_000);
+      await service.introspect('opaque-token');
+      expect(fetchStub.callCount).to.equal(1);
+
+      clock.tick(1_000);
+      await service.introspect('opaque-token');
+      expect(fetchStub.callCount).to.equal(2);
+    });
+
+    it('should drop forgotten tokens', async function () {
+      fetchStub.callsFake(async () => jsonResponse({ active: true }));
+      const service = createService({ introspection: { cacheTtlSeconds: 30 } });
+
+      await service.introspect('opaque-token');
+      service.forget('opaque-token');
+      await service.introspect('opaque-token');
+
+      expect(fetchStub.callCount).to.equal(2);
+    });
+  });
+
+  it('should surface provider errors without retrying', async function () {
+    fetchStub.callsFake(async () =>
+      jsonResponse(
+        { error: 'invalid_client', error_description: 'Bad credentials' },
+        401
+      )
+    );
+
+    await expectOAuthError(
+      () => createService().introspect('opaque-token'),
+      'invalid_client',
+      'Bad credentials'
+    );
+    expect(fetchStub.callCount).to.equal(1);
+  });
+
+  it('should reject responses without an active flag', async function () {
+    fetchStub.callsFake(async () => jsonResponse({ sub: 'user-123' }));
+
+    await expectOAuthError(
+      () => createService().introspect('opaque-token'),
+      'server_error',
+      'missing active flag'
+    );
+  });
+
+  it('should retry server errors before failing', async function () {
+    this.timeout(5000);
+    fetchStub.resolves({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+    });
+
+    await expectOAuthError(
+      () => createService().introspect('opaque-token'),
+      'server_error',
+      'Token introspection request failed: 503'
+    );
+    expect(fetchStub.callCount).to.equal(3);
+  });
+
+  it('should fail when the provider has no introspection endpoint', async function () {
+    await expectOAuthError(
+      () => createService({}, oidcMetadata.minimal).introspect('opaque-token'),
+      'invalid_request',
+      'Introspection endpoint not available'
+    );
+    expect(fetchStub.called).to.be.false;
+  });
+});
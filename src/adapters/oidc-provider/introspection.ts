@@ -0,0 +1,302 @@
+/**
+ * Token introspection for OIDC Provider Adapter
+ * Implements RFC 7662 with an optional short-lived result cache
+ */
+
+import { createHash } from 'node:crypto';
+import type { OAuthError, TokenTypeHint } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { ResilienceContext } from '../../utils/resilience-manager.js';
+import { readNumber, readString } from '../../utils/json-response.js';
+import type {
+  OIDCProviderConfig,
+  OIDCProviderMetadata,
+  TokenIntrospectionResult,
+} from './types.js';
+import {
+  OIDC_CONSTANTS,
+  isNormalizedOAuthError,
+  readConfirmationClaim,
+} from './utils.js';
+import { ClientAuthenticator } from './client-auth.js';
+
+/**
+ * Cached introspection result
+ */
+type CacheEntry = {
+  result: TokenIntrospectionResult;
+  expiresAt: number;
+};
+
+/**
+ * Token introspection service for validating opaque access tokens
+ *
+ * Results are cached in memory (keyed by SHA-256 of the token, never the token
+ * itself) when `introspection.cacheTtlSeconds` is set. Active results are never
+ * cached past the token's `exp`.
+ */
+export class TokenIntrospectionService {
+  /** Cached results keyed by token hash */
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly config: OIDCProviderConfig,
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context?: any
+    ) => OAuthError,
+    private readonly executeWithResilience: <T>(
+      operation: () => Promise<T>,
+      context: ResilienceContext
+    ) => Promise<T>,
+    private readonly clientAuthenticator = new ClientAuthenticator(
+      config,
+      metadata,
+      logger
+    )
+  ) {}
+
+  /**
+   * Introspect a token at the provider's introspection endpoint
+   * @param token - Token to introspect
+   * @param tokenTypeHint - Optional hint about the type of token
+   * @returns Normalized introspection result
+   * @throws {OAuthError} If the endpoint is unavailable or the request fails
+   */
+  async introspect(
+    token: string,
+    tokenTypeHint?: TokenTypeHint
+  ): Promise<TokenIntrospectionResult> {
+    if (!this.metadata.introspection_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Introspection endpoint not available',
+        {
+          stage: 'introspectToken',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    const endpoint = this.clientAuthenticator.endpoint(
+      'introspection_endpoint',
+      this.metadata.introspection_endpoint
+    );
+    const cacheKey = this.cacheTtlMs > 0 ? hashToken(token) : undefined;
+    const cached = cacheKey && this.getCached(cacheKey);
+    if (cached) {
+      this.logger.debug('Token introspection served from cache', {
+        stage: 'introspectToken',
+        issuer: this.metadata.issuer,
+        active: cached.active,
+      });
+      return cached;
+    }
+
+    try {
+      this.logger.debug('Introspecting token', {
+        stage: 'introspectToken',
+        issuer: this.metadata.issuer,
+        endpoint,
+        tokenTypeHint,
+      });
+
+      const params = new URLSearchParams({
+        token,
+        client_id: this.config.clientId,
+      });
+      if (tokenTypeHint) {
+        params.set('token_type_hint', tokenTypeHint);
+      }
+
+      const response = await this.executeWithResilience(
+        () =>
+          this.clientAuthenticator.postForm(
+            endpoint,
+            params,
+            'Token introspection request'
+          ),
+        {
+          endpoint: 'introspection_endpoint',
+          circuitKey: endpoint,
+        }
+      );
+
+      if (!response.ok) {
+        throw this.createStandardError(
+          readString(response.body, 'error') || 'server_error',
+          readString(response.body, 'error_description') ||
+            `Token introspection failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'introspectToken',
+            issuer: this.metadata.issuer,
+            endpoint: 'introspection_endpoint',
+          }
+        );
+      }
+
+      if (!response.body || typeof response.body.active !== 'boolean') {
+        throw this.createStandardError(
+          'server_error',
+          'Invalid introspection response: missing active flag',
+          {
+            stage: 'introspectToken',
+            issuer: this.metadata.issuer,
+            endpoint: 'introspection_endpoint',
+          }
+        );
+      }
+
+      const result = toIntrospectionResult(response.body);
+      if (cacheKey) {
+        this.setCached(cacheKey, result);
+      }
+
+      this.logger.debug('Token introspection completed', {
+        stage: 'introspectToken',
+        issuer: this.metadata.issuer,
+        endpoint,
+        active: result.active,
+      });
+
+      return result;
+    } catch (error) {
+      this.logger.error('Token introspection failed', {
+        stage: 'introspectToken',
+        issuer: this.metadata.issuer,
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'introspection_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Drop any cached result for a token (e.g. after revocation)
+   * @param token - Token to forget
+   */
+  forget(token: string): void {
+    this.cache.delete(hashToken(token));
+  }
+
+  /**
+   * Configured cache TTL in milliseconds
+   */
+  private get cacheTtlMs(): number {
+    return (this.config.introspection?.cacheTtlSeconds ?? 0) * 1000;
+  }
+
+  /**
+   * Read an unexpired cache entry
+   */
+  private getCached(key: string): TokenIntrospectionResult | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.cache.delete(key);
+      return undefined;
+    }
+    return entry.result;
+  }
+
+  /**
+   * Cache a result, evicting expired and then oldest entries when full
+   */
+  private setCached(key: string, result: TokenIntrospectionResult): void {
+    const now = Date.now();
+    let expiresAt = now + this.cacheTtlMs;
+    if (result.active && result.exp !== undefined) {
+      expiresAt = Math.min(expiresAt, result.exp * 1000);
+    }
+    if (expiresAt <= now) {
+      return;
+    }
+
+    if (this.cache.size >= OIDC_CONSTANTS.INTROSPECTION_CACHE_MAX_ENTRIES) {
+      for (const [cachedKey, entry] of this.cache) {
+        if (entry.expiresAt <= now) {
+          this.cache.delete(cachedKey);
+        }
+      }
+    }
+    if (this.cache.size >= OIDC_CONSTANTS.INTROSPECTION_CACHE_MAX_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+
+    this.cache.set(key, { result, expiresAt });
+  }
+}
+
+/**
+ * Map an RFC 7662 response onto the normalized result. Inactive tokens carry
+ * no other fields (RFC 7662 §2.2).
+ */
+function toIntrospectionResult(
+  body: Record<string, unknown>
+): TokenIntrospectionResult {
+  if (body.active !== true) {
+    return { active: false, claims: body };
+  }
+
+  const scope = readString(body, 'scope');
+  const clientId = readString(body, 'client_id');
+  const sub = readString(body, 'sub');
+  const iss = readString(body, 'iss');
+  const username = readString(body, 'username');
+  const tokenType = readString(body, 'token_type');
+  const exp = readNumber(body, 'exp');
+  const iat = readNumber(body, 'iat');
+  const certificateThumbprint = readConfirmationClaim(body, 'x5t#S256');
+  const dpopKeyThumbprint = readConfirmationClaim(body, 'jkt');
+  const aud =
+    typeof body.aud === 'string'
+      ? [body.aud]
+      : Array.isArray(body.aud)
+        ? body.aud.filter((v): v is string => typeof v === 'string')
+        : undefined;
+
+  return {
+    active: true,
+    ...(scope && { scope }),
+    ...(clientId && { clientId }),
+    ...(sub && { sub }),
+    ...(aud && { aud }),
+    ...(exp !== undefined && { exp }),
+    ...(iat !== undefined && { iat }),
+    ...(iss && { iss }),
+    ...(username && { username }),
+    ...(tokenType && { tokenType }),
+    ...(certificateThumbprint && { certificateThumbprint }),
+    ...(dpopKeyThumbprint && { dpopKeyThumbprint }),
+    claims: body,
+  };
+}
+
+/**
+ * Hash a token for use as a cache key
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('base64url');
+}
@@ -0,0 +1,108 @@
+/**
+ * JWKS cache unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { JwksCache } from './jwks.js';
+import { setupSinonStubs } from '../../testUtils/testHelpers.js';
+import { createTestSigningKey, jwksResponse } from '../../testUtils/jwt.js';
+
+describe('JwksCache', function () {
+  const jwksUri = 'https://auth.example.com/.well-known/jwks.json';
+  const key = createTestSigningKey('ES256').jwk;
+
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+  let clock: sinon.SinonFakeTimers;
+  let logger: any;
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+    clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    logger = { debug: sinon.stub() };
+  });
+
+  afterEach(function () {
+    restoreStubs();
+  });
+
+  it('should fetch keys and serve them from cache within the TTL', async function () {
+    fetchStub.resolves(jwksResponse([key]));
+    const cache = new JwksCache(jwksUri, 60_000, 5_000, logger);
+
+    expect(await cache.getKeys()).to.deep.equal([key]);
+    clock.tick(59_000);
+    expect(await cache.getKeys()).to.deep.equal([key]);
+
+    expect(fetchStub.callCount).to.equal(1);
+    expect(fetchStub.firstCall.args[0]).to.equal(jwksUri);
+  });
+
+  it('should refetch keys after the TTL expires', async function () {
+    fetchStub.resolves(jwksResponse([key]));
+    const cache = new JwksCache(jwksUri, 60_000, 5_000, logger);
+
+    await cache.getKeys();
+    clock.tick(60_000);
+    await cache.getKeys();
+
+    expect(fetchStub.callCount).to.equal(2);
+  });
+
+  it('should rate-limit forced refreshes', async function () {
+    fetchStub.resolves(jwksResponse([key]));
+    const cache = new JwksCache(jwksUri, 60_000, 5_000, logger);
+
+    await cache.getKeys();
+    await cache.getKeys(true);
+    expect(fetchStub.callCount).to.equal(1);
+
+    clock.tick(5_000);
+    await cache.getKeys(true);
+    expect(fetchStub.callCount).to.equal(2);
+  });
+
+  it('should deduplicate concurrent fetches', async function () {
+    fetchStub.resolves(jwksResponse([key]));
+    const cache = new JwksCache(jwksUri, 60_000, 5_000, logger);
+
+    await Promise.all([cache.getKeys(), cache.getKeys(), cache.getKeys()]);
+
+    expect(fetchStub.callCount).to.equal(1);
+  });
+
+  it('should ignore entries without a key type', async function () {
+    fetchStub.resolves(
+      jwksResponse([key, { kid: 'broken' } as any, null as any])
+    );
+    const cache = new JwksCache(jwksUri, 60_000, 5_000, logger);
+
+    expect(await cache.getKeys()).to.deep.equal([key]);
+  });
+
+  it('should throw on HTTP errors', async function () {
+    fetchStub.resolves({ ok: false, status: 503, statusText: 'Unavailable' });
+    const cache = new JwksCache(jwksUri, 60_000, 5_000, logger);
+
+    try {
+      await cache.getKeys();
+      expect.fail('Expected to throw');
+    } catch (err: any) {
+      expect(err.message).to.equal('JWKS fetch failed: 503 Unavailable');
+    }
+  });
+
+  it('should throw when the response has no keys array', async function () {
+    fetchStub.resolves({ ok: true, json: async () => ({}) });
+    const cache = new JwksCache(jwksUri, 60_000, 5_000, logger);
+
+    try {
+      await cache.getKeys();
+      expect.fail('Expected to throw');
+    } catch (err: any) {
+      expect(err.message).to.equal('JWKS response is missing a keys array');
+    }
+  });
+});
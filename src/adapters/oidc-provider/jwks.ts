@@ -0,0 +1,106 @@
+/**
+ * JWKS retrieval and caching for OIDC Provider Adapter
+ */
+
+import type { Logger } from '../../logging/types.js';
+import type { JWK } from './jwt.js';
+
+/**
+ * Fetches a provider JSON Web Key Set and caches it in memory
+ *
+ * Features:
+ * - Time-based cache expiry
+ * - Deduplication of concurrent fetches
+ * - Rate-limited forced refresh for key rotation (unknown `kid`)
+ */
+export class JwksCache {
+  /** Cached keys from the last successful fetch */
+  private keys?: JWK[];
+
+  /** Timestamp of the last successful fetch */
+  private fetchedAt = 0;
+
+  /** In-flight fetch shared by concurrent callers */
+  private inflight: Promise<JWK[]> | undefined;
+
+  /**
+   * @param jwksUri - Provider `jwks_uri`
+   * @param ttlMs - How long fetched keys are served from cache
+   * @param minRefreshIntervalMs - Minimum time between forced refreshes
+   * @param logger - Adapter logger
+   */
+  constructor(
+    private readonly jwksUri: string,
+    private readonly ttlMs: number,
+    private readonly minRefreshIntervalMs: number,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Get the provider signing keys
+   * @param forceRefresh - Bypass the cache (e.g. when a `kid` is not found);
+   * ignored if the keys were fetched less than `minRefreshIntervalMs` ago
+   * @returns Keys from the JWKS document
+   * @throws Error if the JWKS cannot be fetched or parsed
+   */
+  async getKeys(forceRefresh = false): Promise<JWK[]> {
+    if (this.keys) {
+      const age = Date.now() - this.fetchedAt;
+      const maxAge = forceRefresh ? this.minRefreshIntervalMs : this.ttlMs;
+      if (age < maxAge) {
+        return this.keys;
+      }
+    }
+
+    if (!this.inflight) {
+      this.inflight = this.fetchKeys().finally(() => {
+        this.inflight = undefined;
+      });
+    }
+
+    return this.inflight;
+  }
+
+  /**
+   * Fetch and parse the JWKS document
+   */
+  private async fetchKeys(): Promise<JWK[]> {
+    this.logger.debug('Fetching provider JWKS', {
+      stage: 'jwks',
+      jwksUri: this.jwksUri,
+    });
+
+    const response = await fetch(this.jwksUri, {
+      headers: { Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `JWKS fetch failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const body = (await response.json()) as { keys?: unknown };
+    if (!body || !Array.isArray(body.keys)) {
+      throw new Error('JWKS response is missing a keys array');
+    }
+
+    const keys = body.keys.filter(
+      (key): key is JWK =>
+        key !== null &&
+        typeof key === 'object' &&
+        typeof (key as JWK).kty === 'string'
+    );
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+
+    this.logger.debug('Provider JWKS fetched', {
+      stage: 'jwks',
+      jwksUri: this.jwksUri,
+      keyCount: keys.length,
+    });
+
+    return keys;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * JWS verifier unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { createJwksCache, JwsVerifier } from './jws.js';
+import { decodeJwt } from './jwt.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import {
+  createTestSigningKey,
+  jwksResponse,
+  signTestJwt,
+} from '../../testUtils/jwt.js';
+
+describe('JwsVerifier', function () {
+  const signingKey = createTestSigningKey('RS256', 'kid-1');
+  const metadata = oidcMetadata.minimal;
+  const logger = { debug: sinon.stub() } as any;
+
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const options = {
+    name: 'test token',
+    algorithms: ['RS256', 'HS256'],
+    invalid: (description: string) => ({
+      statusCode: 401,
+      error: 'invalid_token',
+      error_description: description,
+    }),
+  };
+
+  const decode = (claims: Record<string, unknown> = {}) =>
+    decodeJwt(signTestJwt({ iss: metadata.issuer, ...claims }, signingKey));
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+    fetchStub.resolves(jwksResponse([signingKey.jwk]));
+  });
+
+  afterEach(function () {
+    restoreStubs();
+  });
+
+  it('should verify signatures against one shared JWKS fetch', async function () {
+    const verifier = new JwsVerifier(
+      metadata,
+      createJwksCache(metadata, undefined, logger)
+    );
+
+    await verifier.verifySignature(decode(), options);
+    await verifier.verifySignature(decode({ sub: 'other' }), {
+      ...options,
+      name: 'other token',
+    });
+
+    expect(fetchStub.callCount).to.equal(1);
+  });
+
+  it('should verify HMAC signatures with the client secret', async function () {
+    const verifier = new JwsVerifier(metadata, undefined);
+    const token = signTestJwt(
+      { iss: metadata.issuer },
+      {
+        alg: 'HS256',
+        secret: 'test-secret',
+      }
+    );
+
+    await verifier.verifySignature(decodeJwt(token), {
+      ...options,
+      clientSecret: 'test-secret',
+    });
+    await expectOAuthError(
+      () => verifier.verifySignature(decodeJwt(token), options),
+      'invalid_token',
+      'Test token signed with HS256 requires a client secret'
+    );
+  });
+
+  it('should report JWKS failures with jwksUnavailable', async function () {
+    fetchStub.resolves({ ok: false, status: 500, statusText: 'Error' });
+    const verifier = new JwsVerifier(
+      metadata,
+      createJwksCache(metadata, undefined, logger)
+    );
+
+    await expectOAuthError(
+      () =>
+        verifier.verifySignature(decode(), {
+          ...options,
+          jwksUnavailable: (description) => ({
+            statusCode: 500,
+            error: 'server_error',
+            error_description: description,
+          }),
+        }),
+      'server_error',
+      'Failed to load provider JWKS'
+    );
+  });
+
+  it('should check issuers with the issuer matcher', function () {
+    const verifier = new JwsVerifier(metadata, undefined, (issuer) =>
+      issuer.startsWith('https://tenant-')
+    );
+
+    expect(
+      verifier.verifyIssuer({ iss: 'https://tenant-1.example.com' }, options)
+    ).to.equal('https://tenant-1.example.com');
+    expect(() => verifier.verifyIssuer({ iss: metadata.issuer }, options))
+      .to.throw()
+      .with.property('error_description')
+      .that.includes('Test token issuer mismatch');
+  });
+
+  it('should not create a JWKS cache without jwks_uri', function () {
+    expect(createJwksCache(oidcMetadata.withoutJwksUri, undefined, logger)).to
+      .be.undefined;
+  });
+});
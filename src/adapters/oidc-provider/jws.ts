@@ -0,0 +1,203 @@
+/**
+ * JWS verification for OIDC Provider Adapter
+ * Shared signature and issuer checks for ID tokens, logout tokens, signed
+ * UserInfo responses and JWT access tokens
+ */
+
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { IssuerMatcher, OIDCProviderMetadata } from './types.js';
+import {
+  importJwk,
+  isSupportedAlgorithm,
+  isSymmetricAlgorithm,
+  selectVerificationKeys,
+  verifyJwtSignature,
+  type DecodedJwt,
+  type JWK,
+} from './jwt.js';
+import { JwksCache } from './jwks.js';
+import { OIDC_CONSTANTS } from './utils.js';
+
+/**
+ * How a token is checked and how failures are reported
+ */
+export interface JwsVerificationOptions {
+  /** Token name used in error descriptions, e.g. `ID token` */
+  name: string;
+  /** Accepted `alg` header values; `none` is never accepted */
+  algorithms: string[];
+  /** Shared secret for HMAC algorithms; they are rejected without one */
+  clientSecret?: string;
+  /** Build the error for tokens that fail verification */
+  invalid: (description: string) => OAuthError;
+  /** Build the error for JWKS retrieval failures (default: `invalid`) */
+  jwksUnavailable?: (description: string) => OAuthError;
+}
+
+/**
+ * Create the JWKS cache for a provider
+ * @param metadata - Provider metadata
+ * @param ttlSeconds - How long keys are cached (default: 600)
+ * @param logger - Adapter logger
+ * @returns Cache, or undefined when the provider does not publish `jwks_uri`
+ */
+export function createJwksCache(
+  metadata: OIDCProviderMetadata,
+  ttlSeconds: number | undefined,
+  logger: Logger
+): JwksCache | undefined {
+  return metadata.jwks_uri
+    ? new JwksCache(
+        metadata.jwks_uri,
+        (ttlSeconds ?? OIDC_CONSTANTS.JWKS_CACHE_TTL_SECONDS) * 1000,
+        OIDC_CONSTANTS.JWKS_MIN_REFRESH_INTERVAL_MS,
+        logger
+      )
+    : undefined;
+}
+
+/**
+ * Verifies JWS signatures against the provider JWKS (or the client secret
+ * for HMAC algorithms) and token issuers against the provider issuer
+ *
+ * The adapter creates one verifier, and with it one JWKS cache, per provider
+ * so key rotation is only fetched once.
+ */
+export class JwsVerifier {
+  /**
+   * @param metadata - Provider metadata
+   * @param jwks - Provider JWKS cache (absent when the provider does not publish jwks_uri)
+   * @param matchesIssuer - Issuer check (default: exact match with metadata issuer)
+   */
+  constructor(
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly jwks: JwksCache | undefined,
+    private readonly matchesIssuer: IssuerMatcher = (issuer) =>
+      issuer === metadata.issuer
+  ) {}
+
+  /**
+   * Whether asymmetric signatures can be verified
+   */
+  get hasJwks(): boolean {
+    return this.jwks !== undefined;
+  }
+
+  /**
+   * Verify the signature of a decoded JWS
+   * @param decoded - Decoded token
+   * @param options - Accepted algorithms, client secret and error builders
+   * @throws {OAuthError} from `options.invalid` or `options.jwksUnavailable`
+   */
+  async verifySignature(
+    decoded: DecodedJwt,
+    options: JwsVerificationOptions
+  ): Promise<void> {
+    const { alg } = decoded.header;
+    const label = capitalize(options.name);
+
+    if (
+      alg === 'none' ||
+      !isSupportedAlgorithm(alg) ||
+      !options.algorithms.includes(alg)
+    ) {
+      throw options.invalid(
+        `Unexpected ${options.name} signing algorithm: ${alg}`
+      );
+    }
+
+    if (isSymmetricAlgorithm(alg)) {
+      if (!options.clientSecret) {
+        throw options.invalid(
+          `${label} signed with ${alg} requires a client secret`
+        );
+      }
+      if (!verifyJwtSignature(decoded, Buffer.from(options.clientSecret))) {
+        throw options.invalid(`${label} signature verification failed`);
+      }
+      return;
+    }
+
+    if (!this.jwks) {
+      throw options.invalid(
+        `Provider metadata does not include jwks_uri; cannot verify ${options.name} signature`
+      );
+    }
+
+    let candidates = selectVerificationKeys(
+      await this.loadKeys(false, options),
+      decoded.header
+    );
+    if (candidates.length === 0) {
+      // Unknown kid: the provider may have rotated its keys
+      candidates = selectVerificationKeys(
+        await this.loadKeys(true, options),
+        decoded.header
+      );
+    }
+
+    if (candidates.length === 0) {
+      throw options.invalid(
+        `No matching key found in provider JWKS${decoded.header.kid ? ` for kid ${decoded.header.kid}` : ''}`
+      );
+    }
+
+    const verified = candidates.some((jwk) => {
+      try {
+        return verifyJwtSignature(decoded, importJwk(jwk));
+      } catch {
+        return false;
+      }
+    });
+
+    if (!verified) {
+      throw options.invalid(`${label} signature verification failed`);
+    }
+  }
+
+  /**
+   * Check the `iss` claim against the provider issuer
+   * @param payload - Token claims
+   * @param options - Token name and error builder
+   * @returns The verified issuer
+   * @throws {OAuthError} from `options.invalid` if the issuer does not match
+   */
+  verifyIssuer(
+    payload: Record<string, unknown>,
+    options: Pick<JwsVerificationOptions, 'name' | 'invalid'>
+  ): string {
+    if (
+      typeof payload.iss !== 'string' ||
+      !this.matchesIssuer(payload.iss, payload)
+    ) {
+      throw options.invalid(
+        `${capitalize(options.name)} issuer mismatch: expected ${this.metadata.issuer}, got ${String(payload.iss)}`
+      );
+    }
+    return payload.iss;
+  }
+
+  /**
+   * Load keys from the JWKS cache, normalizing fetch failures
+   */
+  private async loadKeys(
+    forceRefresh: boolean,
+    options: JwsVerificationOptions
+  ): Promise<JWK[]> {
+    try {
+      return await this.jwks!.getKeys(forceRefresh);
+    } catch (error) {
+      throw (options.jwksUnavailable ?? options.invalid)(
+        `Failed to load provider JWKS: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Upper-case the first letter of a token name for the start of a sentence
+ */
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
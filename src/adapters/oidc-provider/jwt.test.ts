@@ -0,0 +1,201 @@
+/**
+ * JOSE helper unit tests
+ */
+
+import { expect } from 'chai';
+import {
+  audienceList,
+  decodeJwt,
+  importJwk,
+  isSupportedAlgorithm,
+  jwkThumbprint,
+  isSymmetricAlgorithm,
+  selectVerificationKeys,
+  signJwt,
+  verifyJwtSignature,
+} from './jwt.js';
+import { createTestSigningKey, signTestJwt } from '../../testUtils/jwt.js';
+
+describe('JOSE helpers', function () {
+  describe('decodeJwt', function () {
+    it('should decode header, payload and signature', function () {
+      const key = createTestSigningKey('RS256');
+      const token = signTestJwt({ sub: 'user-1' }, key);
+
+      const decoded = decodeJwt(token);
+
+      expect(decoded.header.alg).to.equal('RS256');
+      expect(decoded.header.kid).to.equal('test-key-1');
+      expect(decoded.payload.sub).to.equal('user-1');
+      expect(decoded.signingInput).to.equal(
+        token.split('.').slice(0, 2).join('.')
+      );
+      expect(decoded.signature.length).to.be.greaterThan(0);
+    });
+
+    it('should reject tokens without three parts', function () {
+      expect(() => decodeJwt('a.b')).to.throw('three dot-separated parts');
+    });
+
+    it('should reject non-JSON segments', function () {
+      expect(() => decodeJwt('not-json.e30.sig')).to.throw(
+        'JWT header is not valid base64url-encoded JSON'
+      );
+    });
+
+    it('should reject non-object segments', function () {
+      const header = Buffer.from('{"alg":"RS256"}').toString('base64url');
+      const payload = Buffer.from('[1,2]').toString('base64url');
+      expect(() => decodeJwt(`${header}.${payload}.sig`)).to.throw(
+        'JWT payload must be a JSON object'
+      );
+    });
+
+    it('should reject headers without alg', function () {
+      const header = Buffer.from('{"typ":"JWT"}').toString('base64url');
+      expect(() => decodeJwt(`${header}.e30.sig`)).to.throw(
+        'JWT header is missing alg'
+      );
+    });
+  });
+
+  describe('verifyJwtSignature', function () {
+    for (const alg of ['RS256', 'PS256', 'ES256', 'EdDSA'] as const) {
+      it(`should verify ${alg} signatures`, function () {
+        const key = createTestSigningKey(alg);
+        const decoded = decodeJwt(signTestJwt({ sub: 'user-1' }, key));
+
+        expect(verifyJwtSignature(decoded, importJwk(key.jwk))).to.be.true;
+      });
+    }
+
+    it('should reject signatures from a different key', function () {
+      const signer = createTestSigningKey('RS256');
+      const other = createTestSigningKey('RS256');
+      const decoded = decodeJwt(signTestJwt({ sub: 'user-1' }, signer));
+
+      expect(verifyJwtSignature(decoded, importJwk(other.jwk))).to.be.false;
+    });
+
+    it('should verify HS256 signatures with the shared secret', function () {
+      const decoded = decodeJwt(
+        signTestJwt({ sub: 'user-1' }, { alg: 'HS256', secret: 'shh' })
+      );
+
+      expect(verifyJwtSignature(decoded, Buffer.from('shh'))).to.be.true;
+      expect(verifyJwtSignature(decoded, Buffer.from('nope'))).to.be.false;
+    });
+
+    it('should reject mismatched key kinds and unknown algorithms', function () {
+      const key = createTestSigningKey('RS256');
+      const rsDecoded = decodeJwt(signTestJwt({}, key));
+      const hsDecoded = decodeJwt(
+        signTestJwt({}, { alg: 'HS256', secret: 's' })
+      );
+
+      expect(verifyJwtSignature(rsDecoded, Buffer.from('s'))).to.be.false;
+      expect(verifyJwtSignature(hsDecoded, importJwk(key.jwk))).to.be.false;
+      expect(
+        verifyJwtSignature(
+          { ...rsDecoded, header: { alg: 'none' } },
+          importJwk(key.jwk)
+        )
+      ).to.be.false;
+    });
+  });
+
+  describe('signJwt', function () {
+    for (const alg of ['RS256', 'PS256', 'ES256', 'EdDSA'] as const) {
+      it(`should produce verifiable ${alg} signatures`, function () {
+        const key = createTestSigningKey(alg);
+        const token = signJwt({ sub: 'user-1' }, key.privateKey, {
+          alg,
+          kid: 'kid-1',
+        });
+        const decoded = decodeJwt(token);
+
+        expect(decoded.header).to.deep.equal({ alg, kid: 'kid-1' });
+        expect(decoded.payload).to.deep.equal({ sub: 'user-1' });
+        expect(verifyJwtSignature(decoded, importJwk(key.jwk))).to.be.true;
+      });
+    }
+
+    it('should sign HS256 tokens with a shared secret', function () {
+      const decoded = decodeJwt(
+        signJwt({ sub: 'user-1' }, Buffer.from('shh'), { alg: 'HS256' })
+      );
+
+      expect(verifyJwtSignature(decoded, Buffer.from('shh'))).to.be.true;
+    });
+
+    it('should reject unsupported algorithms and mismatched keys', function () {
+      const key = createTestSigningKey('RS256');
+
+      expect(() => signJwt({}, key.privateKey, { alg: 'none' })).to.throw(
+        'Unsupported JWS algorithm: none'
+      );
+      expect(() => signJwt({}, key.privateKey, { alg: 'HS256' })).to.throw(
+        'HS256 requires a shared secret'
+      );
+      expect(() => signJwt({}, Buffer.from('s'), { alg: 'RS256' })).to.throw(
+        'RS256 requires a private key'
+      );
+    });
+  });
+
+  describe('selectVerificationKeys', function () {
+    const rsa = createTestSigningKey('RS256', 'rsa-1').jwk;
+    const ec = createTestSigningKey('ES256', 'ec-1').jwk;
+    const enc = { ...rsa, kid: 'rsa-enc', use: 'enc' };
+
+    it('should match on kid', function () {
+      const keys = selectVerificationKeys([rsa, ec], {
+        alg: 'RS256',
+        kid: 'rsa-1',
+      });
+      expect(keys).to.deep.equal([rsa]);
+    });
+
+    it('should match on key type and use when kid is absent', function () {
+      const keys = selectVerificationKeys([rsa, ec, enc], { alg: 'ES256' });
+      expect(keys).to.deep.equal([ec]);
+    });
+
+    it('should return no keys for unsupported algorithms', function () {
+      expect(selectVerificationKeys([rsa], { alg: 'none' })).to.deep.equal([]);
+    });
+  });
+
+  describe('algorithm helpers', function () {
+    it('should classify algorithms', function () {
+      expect(isSupportedAlgorithm('RS256')).to.be.true;
+      expect(isSupportedAlgorithm('none')).to.be.false;
+      expect(isSymmetricAlgorithm('HS256')).to.be.true;
+      expect(isSymmetricAlgorithm('RS256')).to.be.false;
+    });
+
+    it('should compute RFC 7638 JWK thumbprints', function () {
+      // RFC 7638 §3.1 example
+      const jwk = {
+        kty: 'RSA',
+        n: '0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4cbbfAAtVT86zwu1RK7aPFFxuhDR1L6tSoc_BJECPebWKRXjBZCiFV4n3oknjhMstn64tZ_2W-5JsGY4Hc5n9yBXArwl93lqt7_RN5w6Cf0h4QyQ5v-65YGjQR0_FDW2QvzqY368QQMicAtaSqzs8KJZgnYb9c7d0zgdAZHzu6qMQvRL5hajrn1n91CbOpbISD08qNLyrdkt-bFTWhAI4vMQFh6WeZu0fM4lFd2NcRwr3XPksINHaQ-G_xBniIqbw0Ls1jF44-csFCur-kEgU8awapJzKnqDKgw',
+        e: 'AQAB',
+        alg: 'RS256',
+        kid: '2011-04-29',
+      };
+
+      expect(jwkThumbprint(jwk)).to.equal(
+        'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs'
+      );
+      expect(() => jwkThumbprint({ kty: 'oct', k: 'c2VjcmV0' })).to.throw(
+        'Unsupported JWK key type: oct'
+      );
+    });
+
+    it('should normalize audiences', function () {
+      expect(audienceList('a')).to.deep.equal(['a']);
+      expect(audienceList(['a', 1, 'b'])).to.deep.equal(['a', 'b']);
+      expect(audienceList(undefined)).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Minimal JOSE helpers for OIDC Provider Adapter
+ * Decodes, signs and verifies compact JWS tokens using node:crypto
+ */
+
+import {
+  constants,
+  createHash,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  sign as createSignature,
+  timingSafeEqual,
+  verify as verifySignature,
+  type JsonWebKeyInput,
+  type KeyObject,
+} from 'node:crypto';
+
+/**
+ * JSON Web Key as published in a provider JWKS document
+ */
+export interface JWK {
+  /** Key type (RSA, EC, OKP, oct) */
+  kty: string;
+  /** Key identifier */
+  kid?: string;
+  /** Intended key use (sig or enc) */
+  use?: string;
+  /** Algorithm the key is intended for */
+  alg?: string;
+  /** Elliptic curve name for EC and OKP keys */
+  crv?: string;
+  /** Additional key parameters */
+  [key: string]: unknown;
+}
+
+/**
+ * JOSE header of a compact JWS
+ */
+export interface JwtHeader {
+  /** Signing algorithm */
+  alg: string;
+  /** Key identifier */
+  kid?: string;
+  /** Token type */
+  typ?: string;
+  /** Additional header parameters */
+  [key: string]: unknown;
+}
+
+/**
+ * Decoded compact JWS with the raw parts needed for signature verification
+ */
+export interface DecodedJwt {
+  /** Parsed JOSE header */
+  header: JwtHeader;
+  /** Parsed claims set */
+  payload: Record<string, unknown>;
+  /** `<header>.<payload>` as signed by the issuer */
+  signingInput: string;
+  /** Raw signature bytes */
+  signature: Buffer;
+}
+
+/**
+ * Elliptic curves mapped to their ECDSA JWS algorithm
+ */
+const EC_CURVE_ALGORITHMS: Record<string, string> = {
+  prime256v1: 'ES256',
+  secp384r1: 'ES384',
+  secp521r1: 'ES512',
+};
+
+/**
+ * Required JWK members for thumbprints, in lexicographic order (RFC 7638 §3.2)
+ */
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  RSA: ['e', 'kty', 'n'],
+  EC: ['crv', 'kty', 'x', 'y'],
+  OKP: ['crv', 'kty', 'x'],
+};
+
+/**
+ * Signature algorithm parameters keyed by JWS `alg` value
+ */
+const JWS_ALGORITHMS: Record<
+  string,
+  { kty: string; hash: string | null; padding?: number }
+> = {
+  RS256: { kty: 'RSA', hash: 'sha256' },
+  RS384: { kty: 'RSA', hash: 'sha384' },
+  RS512: { kty: 'RSA', hash: 'sha512' },
+  PS256: {
+    kty: 'RSA',
+    hash: 'sha256',
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+  },
+  PS384: {
+    kty: 'RSA',
+    hash: 'sha384',
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+  },
+  PS512: {
+    kty: 'RSA',
+    hash: 'sha512',
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+  },
+  ES256: { kty: 'EC', hash: 'sha256' },
+  ES384: { kty: 'EC', hash: 'sha384' },
+  ES512: { kty: 'EC', hash: 'sha512' },
+  EdDSA: { kty: 'OKP', hash: null },
+  HS256: { kty: 'oct', hash: 'sha256' },
+  HS384: { kty: 'oct', hash: 'sha384' },
+  HS512: { kty: 'oct', hash: 'sha512' },
+};
+
+/**
+ * Check whether a JWS algorithm is supported by {@link verifyJwtSignature}
+ */
+export function isSupportedAlgorithm(alg: string): boolean {
+  return Object.prototype.hasOwnProperty.call(JWS_ALGORITHMS, alg);
+}
+
+/**
+ * Check whether a JWS algorithm is a symmetric (HMAC) algorithm
+ */
+export function isSymmetricAlgorithm(alg: string): boolean {
+  return JWS_ALGORITHMS[alg]?.kty === 'oct';
+}
+
+/**
+ * Decode a compact JWS without verifying it
+ * @param token - Compact serialized JWT
+ * @returns Decoded header, payload and signature parts
+ * @throws Error if the token is not a well-formed compact JWS
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('JWT must have three dot-separated parts');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [
+    string,
+    string,
+    string,
+  ];
+
+  const header = parseJsonSegment(encodedHeader, 'header');
+  const payload = parseJsonSegment(encodedPayload, 'payload');
+
+  if (typeof header.alg !== 'string') {
+    throw new Error('JWT header is missing alg');
+  }
+
+  return {
+    header: header as JwtHeader,
+    payload,
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: Buffer.from(encodedSignature, 'base64url'),
+  };
+}
+
+/**
+ * Select candidate verification keys from a JWKS for a given JWS header
+ * Keys are matched on kid (when present), key type, use and alg
+ */
+export function selectVerificationKeys(keys: JWK[], header: JwtHeader): JWK[] {
+  const algorithm = JWS_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    return [];
+  }
+
+  return keys.filter((key) => {
+    if (header.kid !== undefined && key.kid !== header.kid) return false;
+    if (key.kty !== algorithm.kty) return false;
+    if (key.use !== undefined && key.use !== 'sig') return false;
+    if (key.alg !== undefined && key.alg !== header.alg) return false;
+    return true;
+  });
+}
+
+/**
+ * Import a public JWK into a node:crypto KeyObject
+ * @throws Error if the key cannot be imported
+ */
+export function importJwk(jwk: JWK): KeyObject {
+  return createPublicKey({
+    key: jwk as JsonWebKeyInput['key'],
+    format: 'jwk',
+  });
+}
+
+/**
+ * Verify the signature of a decoded JWS
+ * @param decoded - Decoded token from {@link decodeJwt}
+ * @param key - Public key for asymmetric algorithms, shared secret for HMAC
+ * @returns Whether the signature is valid
+ */
+export function verifyJwtSignature(
+  decoded: DecodedJwt,
+  key: KeyObject | Buffer
+): boolean {
+  const algorithm = JWS_ALGORITHMS[decoded.header.alg];
+  if (!algorithm) {
+    return false;
+  }
+
+  const data = Buffer.from(decoded.signingInput);
+
+  if (algorithm.kty === 'oct') {
+    if (!Buffer.isBuffer(key)) return false;
+    const expected = createHmac(algorithm.hash!, key).update(data).digest();
+    return (
+      expected.length === decoded.signature.length &&
+      timingSafeEqual(expected, decoded.signature)
+    );
+  }
+
+  if (Buffer.isBuffer(key)) {
+    return false;
+  }
+
+  try {
+    return verifySignature(
+      algorithm.hash,
+      data,
+      {
+        key,
+        ...(algorithm.padding !== undefined && {
+          padding: algorithm.padding,
+          saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+        }),
+        ...(algorithm.kty === 'EC' && { dsaEncoding: 'ieee-p1363' as const }),
+      },
+      decoded.signature
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign a claims set as a compact JWS
+ * @param payload - Claims set
+ * @param key - Private key for asymmetric algorithms, shared secret for HMAC
+ * @param header - JOSE header; `alg` selects the signature algorithm
+ * @returns Compact serialized JWT
+ * @throws Error if the algorithm is unsupported or does not match the key
+ */
+export function signJwt(
+  payload: Record<string, unknown>,
+  key: KeyObject | Buffer,
+  header: JwtHeader
+): string {
+  const algorithm = JWS_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported JWS algorithm: ${header.alg}`);
+  }
+
+  const signingInput = `${encodeJsonSegment(header)}.${encodeJsonSegment(payload)}`;
+  const data = Buffer.from(signingInput);
+
+  let signature: Buffer;
+  if (algorithm.kty === 'oct') {
+    if (!Buffer.isBuffer(key)) {
+      throw new Error(`${header.alg} requires a shared secret`);
+    }
+    signature = createHmac(algorithm.hash!, key).update(data).digest();
+  } else {
+    if (Buffer.isBuffer(key)) {
+      throw new Error(`${header.alg} requires a private key`);
+    }
+    signature = createSignature(algorithm.hash, data, {
+      key,
+      ...(algorithm.padding !== undefined && {
+        padding: algorithm.padding,
+        saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+      }),
+      ...(algorithm.kty === 'EC' && { dsaEncoding: 'ieee-p1363' as const }),
+    });
+  }
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Import a PEM or JWK private key
+ * @throws Error if the key cannot be imported
+ */
+export function importPrivateKey(key: string | JWK): KeyObject {
+  return typeof key === 'string'
+    ? createPrivateKey(key)
+    : createPrivateKey({
+        key: key as JsonWebKeyInput['key'],
+        format: 'jwk',
+      });
+}
+
+/**
+ * Derive the default JWS algorithm for a private key
+ * @returns RS256, PS256, ES256/384/512 or EdDSA, or undefined for other key types
+ */
+export function defaultSigningAlgorithm(key: KeyObject): string | undefined {
+  switch (key.asymmetricKeyType) {
+    case 'rsa':
+      return 'RS256';
+    case 'rsa-pss':
+      return 'PS256';
+    case 'ec':
+      return EC_CURVE_ALGORITHMS[key.asymmetricKeyDetails?.namedCurve ?? ''];
+    case 'ed25519':
+      return 'EdDSA';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compute the RFC 7638 SHA-256 thumbprint of a public JWK
+ * @returns Base64url-encoded thumbprint
+ * @throws Error if the key type is not RSA, EC or OKP
+ */
+export function jwkThumbprint(jwk: JWK): string {
+  const members = THUMBPRINT_MEMBERS[jwk.kty];
+  if (!members) {
+    throw new Error(`Unsupported JWK key type: ${jwk.kty}`);
+  }
+  // Required members only, in lexicographic order, without whitespace
+  const canonical = JSON.stringify(
+    Object.fromEntries(members.map((name) => [name, jwk[name]]))
+  );
+  return createHash('sha256').update(canonical).digest('base64url');
+}
+
+/**
+ * Normalize the `aud` claim into an array of audiences
+ */
+export function audienceList(aud: unknown): string[] {
+  if (typeof aud === 'string') return [aud];
+  if (Array.isArray(aud)) {
+    return aud.filter((value): value is string => typeof value === 'string');
+  }
+  return [];
+}
+
+/**
+ * Encode a JSON object as a base64url JWT segment
+ */
+function encodeJsonSegment(value: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Parse a base64url-encoded JSON segment of a JWT
+ */
+function parseJsonSegment(
+  segment: string,
+  name: string
+): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error(`JWT ${name} is not valid base64url-encoded JSON`);
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`JWT ${name} must be a JSON object`);
+  }
+
+  return parsed as Record<string, unknown>;
+}
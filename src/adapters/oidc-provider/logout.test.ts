@@ -0,0 +1,181 @@
+/**
+ * Back-channel logout token validator unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { LogoutTokenValidator } from './logout.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+import {
+  createTestSigningKey,
+  jwksResponse,
+  signTestJwt,
+} from '../../testUtils/jwt.js';
+
+describe('LogoutTokenValidator', function () {
+  const signingKey = createTestSigningKey('RS256', 'kid-1');
+  const metadata = {
+    ...oidcMetadata.minimal,
+    id_token_signing_alg_values_supported: ['RS256', 'HS256'],
+  };
+  const config = {
+    clientId: 'test-client-id',
+    clientSecret: 'test-client-secret',
+    scopes: ['openid'],
+  };
+  const logoutEvent = 'http://schemas.openid.net/event/backchannel-logout';
+
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+  let validator: LogoutTokenValidator;
+  let now: number;
+
+  const { logger, createStandardError } = createServiceDependencies(
+    metadata.issuer
+  );
+
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    iss: metadata.issuer,
+    aud: config.clientId,
+    iat: now,
+    exp: now + 120,
+    jti: 'logout-jti-1',
+    sub: 'user-123',
+    sid: 'session-abc',
+    events: { [logoutEvent]: {} },
+    ...overrides,
+  });
+
+  const sign = (payload: Record<string, unknown>) =>
+    signTestJwt(payload, signingKey, { typ: 'logout+jwt' });
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+    fetchStub.resolves(jwksResponse([signingKey.jwk]));
+    now = Math.floor(Date.now() / 1000);
+    validator = new LogoutTokenValidator(
+      config,
+      metadata,
+      logger,
+      createStandardError
+    );
+  });
+
+  afterEach(function () {
+    restoreStubs();
+  });
+
+  it('should return claims for a valid logout token', async function () {
+    const result = await validator.validate(sign(claims()));
+
+    expect(result).to.include({
+      jti: 'logout-jti-1',
+      sub: 'user-123',
+      sid: 'session-abc',
+    });
+    expect(fetchStub.firstCall.args[0]).to.equal(metadata.jwks_uri);
+  });
+
+  it('should accept untyped tokens, sid-only tokens and HS256 tokens', async function () {
+    const { sub: _sub, ...sidOnly } = claims();
+
+    const untyped = await validator.validate(
+      signTestJwt(sidOnly, signingKey, { typ: undefined })
+    );
+    const symmetric = await validator.validate(
+      signTestJwt(claims(), { alg: 'HS256', secret: config.clientSecret })
+    );
+
+    expect(untyped.sub).to.be.undefined;
+    expect(untyped.sid).to.equal('session-abc');
+    expect(symmetric.jti).to.equal('logout-jti-1');
+  });
+
+  it('should reject ID tokens and other typed JWTs', async function () {
+    await expectOAuthError(
+      () =>
+        validator.validate(
+          signTestJwt(claims(), signingKey, { typ: 'at+jwt' })
+        ),
+      'invalid_request',
+      'Unexpected logout token typ: at+jwt'
+    );
+  });
+
+  it('should reject malformed and unsigned tokens', async function () {
+    await expectOAuthError(
+      () => validator.validate('not-a-jwt'),
+      'invalid_request',
+      'Logout token is malformed'
+    );
+    await expectOAuthError(
+      () =>
+        validator.validate(
+          signTestJwt(claims(), signingKey, { alg: 'none' }).replace(
+            /\.[^.]+$/,
+            '.'
+          )
+        ),
+      'invalid_request',
+      'Unexpected logout token signing algorithm: none'
+    );
+  });
+
+  it('should reject tokens signed by an unknown key', async function () {
+    const otherKey = createTestSigningKey('RS256', 'kid-1');
+
+    await expectOAuthError(
+      () =>
+        validator.validate(
+          signTestJwt(claims(), otherKey, { typ: 'logout+jwt' })
+        ),
+      'invalid_request',
+      'Logout token signature verification failed'
+    );
+  });
+
+  const invalidClaims: Array<[string, Record<string, unknown>, string]> = [
+    ['issuer', { iss: 'https://evil.example.com' }, 'issuer mismatch'],
+    ['audience', { aud: 'other-client' }, 'audience does not include'],
+    ['iat', { iat: undefined }, 'missing iat claim'],
+    ['future iat', { iat: Date.now() / 1000 + 3600 }, 'issued in the future'],
+    ['expired', { exp: Date.now() / 1000 - 3600 }, 'has expired'],
+    ['jti', { jti: undefined }, 'missing jti claim'],
+    ['events', { events: { other: {} } }, 'back-channel logout event'],
+    ['event shape', { events: { [logoutEvent]: 'yes' } }, 'logout event'],
+    ['sub and sid', { sub: undefined, sid: undefined }, 'sub or sid claim'],
+    ['nonce', { nonce: 'n-1' }, 'must not contain a nonce'],
+  ];
+
+  for (const [name, overrides, description] of invalidClaims) {
+    it(`should reject an invalid ${name} claim`, async function () {
+      await expectOAuthError(
+        () => validator.validate(sign(claims(overrides))),
+        'invalid_request',
+        description
+      );
+    });
+  }
+
+  it('should require jwks_uri for asymmetric tokens', async function () {
+    const { jwks_uri: _jwksUri, ...noJwks } = metadata;
+    const noJwksValidator = new LogoutTokenValidator(
+      config,
+      noJwks as any,
+      logger,
+      createStandardError
+    );
+
+    await expectOAuthError(
+      () => noJwksValidator.validate(sign(claims())),
+      'invalid_request',
+      'does not include jwks_uri'
+    );
+  });
+});
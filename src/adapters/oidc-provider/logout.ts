@@ -0,0 +1,201 @@
+/**
+ * Back-channel logout for OIDC Provider Adapter
+ * Implements OpenID Connect Back-Channel Logout §2.6 logout token validation
+ */
+
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import { asObject } from '../../utils/json-response.js';
+import type {
+  LogoutTokenClaims,
+  OIDCProviderConfig,
+  OIDCProviderMetadata,
+} from './types.js';
+import { audienceList, decodeJwt, type DecodedJwt } from './jwt.js';
+import { createJwksCache, JwsVerifier } from './jws.js';
+import { OIDC_CONSTANTS } from './utils.js';
+
+/**
+ * Event identifying a back-channel logout token (§2.4)
+ */
+const BACKCHANNEL_LOGOUT_EVENT =
+  'http://schemas.openid.net/event/backchannel-logout';
+
+/**
+ * Accepted `typ` header values; logout tokens may also be untyped (§2.4)
+ */
+const LOGOUT_TOKEN_TYPES = new Set([
+  'logout+jwt',
+  'application/logout+jwt',
+  'jwt',
+]);
+
+/**
+ * Validates back-channel logout tokens against the provider JWKS
+ *
+ * Failures are reported as `invalid_request` errors, the error the logout
+ * endpoint returns to the provider (§2.8). Replay detection on `jti` is left
+ * to the caller, which owns session storage.
+ */
+export class LogoutTokenValidator {
+  /** Allowed clock skew in seconds */
+  private readonly clockTolerance: number;
+
+  /**
+   * @param config - Client ID, client secret and validation settings
+   * @param metadata - Provider metadata
+   * @param logger - Adapter logger
+   * @param createStandardError - Error factory
+   * @param jws - Signature and issuer verifier (default: one with its own JWKS cache)
+   */
+  constructor(
+    private readonly config: OIDCProviderConfig,
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly jws = new JwsVerifier(
+      metadata,
+      createJwksCache(
+        metadata,
+        config.idTokenValidation?.jwksCacheTtlSeconds,
+        logger
+      )
+    )
+  ) {
+    this.clockTolerance =
+      config.idTokenValidation?.clockToleranceSeconds ??
+      OIDC_CONSTANTS.ID_TOKEN_CLOCK_TOLERANCE_SECONDS;
+  }
+
+  /**
+   * Validate a logout token and return its claims
+   * @param logoutToken - The `logout_token` form parameter sent by the provider
+   * @returns Verified claims; end the sessions matching `sub` and/or `sid`
+   * @throws {OAuthError} invalid_request if the signature or any claim check fails
+   */
+  async validate(logoutToken: string): Promise<LogoutTokenClaims> {
+    let decoded: DecodedJwt;
+    try {
+      decoded = decodeJwt(logoutToken);
+    } catch (error) {
+      throw this.invalidToken(
+        `Logout token is malformed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const typ = decoded.header.typ?.toLowerCase();
+    if (typ !== undefined && !LOGOUT_TOKEN_TYPES.has(typ)) {
+      throw this.invalidToken(
+        `Unexpected logout token typ: ${String(decoded.header.typ)}`
+      );
+    }
+
+    await this.verifySignature(decoded);
+    const claims = this.validateClaims(decoded.payload);
+
+    this.logger.debug('Logout token validated', {
+      stage: 'validateLogoutToken',
+      issuer: this.metadata.issuer,
+      alg: decoded.header.alg,
+      kid: decoded.header.kid,
+      hasSub: Boolean(claims.sub),
+      hasSid: Boolean(claims.sid),
+    });
+
+    return claims;
+  }
+
+  /**
+   * Verify the JWS signature using the provider JWKS or the client secret
+   */
+  private async verifySignature(decoded: DecodedJwt): Promise<void> {
+    await this.jws.verifySignature(decoded, {
+      name: 'logout token',
+      algorithms: this.metadata.id_token_signing_alg_values_supported ?? [
+        'RS256',
+      ],
+      ...(this.config.clientSecret && {
+        clientSecret: this.config.clientSecret,
+      }),
+      invalid: (description) => this.invalidToken(description),
+      jwksUnavailable: (description) =>
+        this.createStandardError('server_error', description, {
+          stage: 'validateLogoutToken',
+          issuer: this.metadata.issuer,
+          endpoint: 'jwks_uri',
+        }),
+    });
+  }
+
+  /**
+   * Validate logout token claims (§2.6 steps 3-7)
+   */
+  private validateClaims(payload: Record<string, unknown>): LogoutTokenClaims {
+    const now = Math.floor(Date.now() / 1000);
+
+    this.jws.verifyIssuer(payload, {
+      name: 'logout token',
+      invalid: (description) => this.invalidToken(description),
+    });
+
+    if (!audienceList(payload.aud).includes(this.config.clientId)) {
+      throw this.invalidToken(
+        'Logout token audience does not include client_id'
+      );
+    }
+
+    if (typeof payload.iat !== 'number') {
+      throw this.invalidToken('Logout token is missing iat claim');
+    }
+    if (payload.iat > now + this.clockTolerance) {
+      throw this.invalidToken('Logout token was issued in the future');
+    }
+
+    if (payload.exp !== undefined) {
+      if (typeof payload.exp !== 'number') {
+        throw this.invalidToken('Logout token exp claim is invalid');
+      }
+      if (now - this.clockTolerance >= payload.exp) {
+        throw this.invalidToken('Logout token has expired');
+      }
+    }
+
+    if (typeof payload.jti !== 'string' || !payload.jti) {
+      throw this.invalidToken('Logout token is missing jti claim');
+    }
+
+    // §2.4 requires both `events` and its logout event member to be objects
+    const events = asObject(payload.events);
+    if (!events || !asObject(events[BACKCHANNEL_LOGOUT_EVENT])) {
+      throw this.invalidToken(
+        'Logout token events claim does not contain the back-channel logout event'
+      );
+    }
+
+    const hasSub = typeof payload.sub === 'string' && payload.sub.length > 0;
+    const hasSid = typeof payload.sid === 'string' && payload.sid.length > 0;
+    if (!hasSub && !hasSid) {
+      throw this.invalidToken('Logout token must contain a sub or sid claim');
+    }
+
+    if (payload.nonce !== undefined) {
+      throw this.invalidToken('Logout token must not contain a nonce claim');
+    }
+
+    return payload as LogoutTokenClaims;
+  }
+
+  /**
+   * Build an invalid_request error for logout token validation failures
+   */
+  private invalidToken(description: string): OAuthError {
+    return this.createStandardError('invalid_request', description, {
+      stage: 'validateLogoutToken',
+      issuer: this.metadata.issuer,
+    });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Mutual-TLS transport and certificate thumbprint unit tests
+ */
+
+import { expect } from 'chai';
+import { createHash, X509Certificate } from 'node:crypto';
+import { certificateThumbprint, createMtlsFetch } from './mtls.js';
+import {
+  clientCertificate,
+  serverCertificate,
+  startTlsServer,
+  type TlsTestServer,
+} from '../../testUtils/tls.js';
+
+describe('mtls', function () {
+  const clientDer = new X509Certificate(clientCertificate.cert).raw;
+  const expectedThumbprint = createHash('sha256')
+    .update(clientDer)
+    .digest('base64url');
+
+  describe('certificateThumbprint', function () {
+    it('should hash PEM, DER and X509Certificate inputs alike', function () {
+      expect(certificateThumbprint(clientCertificate.cert)).to.equal(
+        expectedThumbprint
+      );
+      expect(certificateThumbprint(clientDer)).to.equal(expectedThumbprint);
+      expect(
+        certificateThumbprint(new X509Certificate(clientCertificate.cert))
+      ).to.equal(expectedThumbprint);
+    });
+  });
+
+  describe('createMtlsFetch', function () {
+    let server: TlsTestServer;
+
+    beforeEach(async function () {
+      server = await startTlsServer(({ body }) =>
+        body.get('token') === 'bad'
+          ? { status: 400, body: { error: 'invalid_request' } }
+          : { body: { active: true } }
+      );
+    });
+
+    afterEach(async function () {
+      await server.close();
+    });
+
+    const post = (token: string, ca = serverCertificate.cert) =>
+      createMtlsFetch({ ...clientCertificate, ca })(`${server.url}/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token }).toString(),
+      });
+
+    it('should present the client certificate', async function () {
+      const response = await post('good');
+
+      expect(response.status).to.equal(200);
+      expect(response.headers.get('content-type')).to.equal('application/json');
+      expect(await response.json()).to.deep.equal({ active: true });
+      expect(server.requests).to.have.length(1);
+      expect(server.requests[0]!.path).to.equal('/token');
+      expect(server.requests[0]!.body.get('token')).to.equal('good');
+      expect(
+        certificateThumbprint(server.requests[0]!.peerCertificate!)
+      ).to.equal(expectedThumbprint);
+    });
+
+    it('should return error responses without throwing', async function () {
+      const response = await post('bad');
+
+      expect(response.ok).to.be.false;
+      expect(response.status).to.equal(400);
+      expect(await response.json()).to.deep.equal({
+        error: 'invalid_request',
+      });
+    });
+
+    it('should reject servers that are not trusted', async function () {
+      try {
+        await post('good', clientCertificate.cert);
+        expect.fail('Expected to throw');
+      } catch (err: any) {
+        expect(err.code).to.equal('DEPTH_ZERO_SELF_SIGNED_CERT');
+        expect(server.requests).to.have.length(0);
+      }
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Mutual-TLS support for OIDC Provider Adapter
+ * Implements the RFC 8705 client transport and certificate thumbprints
+ */
+
+import { createHash, X509Certificate } from 'node:crypto';
+import { request as httpsRequest } from 'node:https';
+import type { MutualTlsOptions } from './types.js';
+
+/**
+ * Request options accepted by {@link MtlsFetch}
+ */
+export interface MtlsRequestInit {
+  /** HTTP method */
+  method: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body */
+  body?: string;
+  /** Aborts the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Minimal fetch-compatible function used for provider back-channel requests
+ */
+export type MtlsFetch = (
+  url: string,
+  init: MtlsRequestInit
+) => Promise<Response>;
+
+/**
+ * Status codes that must not carry a response body
+ */
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * Create a fetch-compatible function that presents a client certificate
+ *
+ * The global `fetch` cannot present client certificates without a custom
+ * dispatcher, so requests are sent with `node:https` and wrapped in a
+ * standard `Response`.
+ * @param options - Client certificate, key and optional trusted CAs
+ */
+export function createMtlsFetch(options: MutualTlsOptions): MtlsFetch {
+  return (url, init) =>
+    new Promise<Response>((resolve, reject) => {
+      const request = httpsRequest(
+        url,
+        {
+          method: init.method,
+          headers: init.headers,
+          cert: options.cert,
+          key: options.key,
+          ...(options.passphrase && { passphrase: options.passphrase }),
+          ...(options.ca && { ca: options.ca }),
+          ...(init.signal && { signal: init.signal }),
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on('data', (chunk: Buffer) => chunks.push(chunk));
+          response.on('error', reject);
+          response.on('end', () => {
+            const status = response.statusCode ?? 500;
+            const headers = new Headers();
+            for (const [name, value] of Object.entries(response.headers)) {
+              for (const item of [value ?? []].flat()) {
+                headers.append(name, item);
+              }
+            }
+            resolve(
+              new Response(
+                NULL_BODY_STATUSES.has(status) ? null : Buffer.concat(chunks),
+                {
+                  status,
+                  statusText: response.statusMessage ?? '',
+                  headers,
+                }
+              )
+            );
+          });
+        }
+      );
+
+      request.on('error', reject);
+      request.end(init.body);
+    });
+}
+
+/**
+ * Compute the RFC 8705 §3.1 `x5t#S256` thumbprint of a certificate
+ *
+ * Resource servers compare this with the `cnf` thumbprint of a
+ * certificate-bound access token to verify the presenter holds the key.
+ * @param certificate - PEM string, DER buffer (e.g. `getPeerCertificate().raw`) or X509Certificate
+ * @returns Base64url-encoded SHA-256 hash of the DER certificate
+ */
+export function certificateThumbprint(
+  certificate: string | Buffer | X509Certificate
+): string {
+  const der =
+    typeof certificate === 'string'
+      ? new X509Certificate(certificate).raw
+      : Buffer.isBuffer(certificate)
+        ? certificate
+        : certificate.raw;
+  return createHash('sha256').update(der).digest('base64url');
+}
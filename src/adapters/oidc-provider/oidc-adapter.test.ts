@@ -7,6 +7,8 @@
 import { expect } from 'chai';
 import sinon from 'sinon';
 import { OIDCProviderAdapter } from './oidc-adapter.js';
+import { DPoPProofVerifier } from './dpop.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
 import {
   oidcMetadata,
   createOIDCConfigWithMetadata,
@@ -19,6 +21,11 @@ import {
   setupSinonStubs,
   createTestAdapter,
 } from '../../testUtils/testHelpers.js';
+import {
+  createTestSigningKey,
+  jwksResponse,
+  signTestJwt,
+} from '../../testUtils/jwt.js';
 
 describe('OIDCProviderAdapter', function () {
   let restoreStubs: () => void;
@@ -173,6 +180,297 @@ describe('OIDCProviderAdapter', function () {
     });
   });
 
+  describe('createAuthorizationRequest', function () {
+    let adapter: OIDCProviderAdapter;
+
+    beforeEach(async function () {
+      adapter = createTestAdapter();
+      await adapter.initialize();
+    });
+
+    it('should return the URL with its PKCE, state and nonce values', async function () {
+      const result = await adapter.createAuthorizationRequest({
+        state: 'caller-state',
+      });
+
+      const params = new URL(result.url).searchParams;
+      expect(result.state).to.equal('caller-state');
+      expect(result.codeChallengeMethod).to.equal('S256');
+      expect(params.get('state')).to.equal('caller-state');
+      expect(params.get('code_challenge')).to.equal(result.codeChallenge);
+      expect(params.get('redirect_uri')).to.equal(
+        testConfigs.valid.redirectUri
+      );
+      expect(params.get('nonce')).to.equal(result.nonce).and.to.exist;
+    });
+
+    it('should honour per-call scopes and OIDC parameters', async function () {
+      const result = await adapter.createAuthorizationRequest({
+        state: 'caller-state',
+        redirectUrl: 'https://example.com/other-callback',
+        scopes: ['openid', 'offline_access'],
+        prompt: 'consent',
+        loginHint: 'user@example.com',
+        maxAge: 300,
+        acrValues: ['urn:mace:incommon:iap:silver', 'mfa'],
+        nonce: 'caller-nonce',
+        additionalParams: { ui_locales: 'fr' },
+      });
+
+      const params = new URL(result.url).searchParams;
+      expect(params.get('scope')).to.equal('openid offline_access');
+      expect(params.get('redirect_uri')).to.equal(
+        'https://example.com/other-callback'
+      );
+      expect(params.get('prompt')).to.equal('consent');
+      expect(params.get('login_hint')).to.equal('user@example.com');
+      expect(params.get('max_age')).to.equal('300');
+      expect(params.get('acr_values')).to.equal(
+        'urn:mace:incommon:iap:silver mfa'
+      );
+      expect(params.get('nonce')).to.equal('caller-nonce');
+      expect(params.get('ui_locales')).to.equal('fr');
+      expect(result.nonce).to.equal('caller-nonce');
+    });
+
+    it('should omit the nonce when openid is not requested', async function () {
+      const result = await adapter.createAuthorizationRequest({
+        state: 'caller-state',
+        scopes: ['read'],
+      });
+
+      expect(result.nonce).to.be.undefined;
+      expect(new URL(result.url).searchParams.has('nonce')).to.be.false;
+    });
+
+    it('should use a caller-supplied code verifier', async function () {
+      const codeVerifier = 'a'.repeat(43);
+      const { calculatePKCECodeChallenge } = await import('openid-client');
+
+      const result = await adapter.createAuthorizationRequest({
+        state: 'caller-state',
+        codeVerifier,
+      });
+
+      expect(result.codeVerifier).to.equal(codeVerifier);
+      expect(result.codeChallenge).to.equal(
+        await calculatePKCECodeChallenge(codeVerifier)
+      );
+    });
+
+    it('should reject invalid code verifiers', async function () {
+      await expectOAuthError(
+        () =>
+          adapter.createAuthorizationRequest({
+            state: 'caller-state',
+            codeVerifier: 'too-short',
+          }),
+        'invalid_request',
+        'RFC 7636'
+      );
+    });
+
+    it('should reject empty scopes and missing redirect URLs', async function () {
+      await expectOAuthError(
+        () =>
+          adapter.createAuthorizationRequest({
+            state: 'caller-state',
+            scopes: [],
+          }),
+        'invalid_request',
+        'scopes are required'
+      );
+
+      const noRedirectAdapter = new OIDCProviderAdapter(
+        createOIDCConfigWithMetadata()
+      );
+      await noRedirectAdapter.initialize();
+      await expectOAuthError(
+        () =>
+          noRedirectAdapter.createAuthorizationRequest({
+            state: 'caller-state',
+          }),
+        'invalid_request',
+        'redirectUrl is required'
+      );
+    });
+
+    it('should not persist PKCE state', async function () {
+      const storageHook = {
+        storePKCEState: sinon.stub().resolves(),
+        retrievePKCEState: sinon.stub().resolves(null),
+        cleanupExpiredState: sinon.stub().resolves(),
+      };
+      const hookAdapter = createTestAdapter({ storageHook });
+      await hookAdapter.initialize();
+
+      await hookAdapter.createAuthorizationRequest({ state: 'caller-state' });
+
+      expect(storageHook.storePKCEState.called).to.be.false;
+    });
+
+    it('should append resource indicators to the authorization URL', async function () {
+      const resourceAdapter = createTestAdapter({
+        resource: 'https://mcp.example.com/',
+      });
+      await resourceAdapter.initialize();
+
+      const configured = await resourceAdapter.createAuthorizationRequest({
+        state: 'caller-state',
+      });
+      const perCall = await resourceAdapter.createAuthorizationRequest({
+        state: 'caller-state',
+        resource: ['https://a.example.com/', 'https://b.example.com/'],
+      });
+      const authUrl = await resourceAdapter.generateAuthUrl(
+        'interaction-1',
+        'https://example.com/callback'
+      );
+
+      expect(
+        new URL(configured.url).searchParams.getAll('resource')
+      ).to.deep.equal(['https://mcp.example.com/']);
+      expect(
+        new URL(perCall.url).searchParams.getAll('resource')
+      ).to.deep.equal(['https://a.example.com/', 'https://b.example.com/']);
+      expect(new URL(authUrl).searchParams.getAll('resource')).to.deep.equal([
+        'https://mcp.example.com/',
+      ]);
+    });
+
+    it('should reject invalid resource indicators', async function () {
+      await expectOAuthError(
+        () =>
+          adapter.createAuthorizationRequest({
+            state: 'caller-state',
+            resource: 'not-a-uri',
+          }),
+        'invalid_target',
+        'absolute URI'
+      );
+    });
+
+    it('should throw error if not initialized', async function () {
+      await expectOAuthError(
+        () =>
+          createTestAdapter().createAuthorizationRequest({
+            state: 'caller-state',
+          }),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('pushed authorization requests', function () {
+    const parMetadata = {
+      ...oidcMetadata.minimal,
+      pushed_authorization_request_endpoint:
+        'https://auth.example.com/oauth/par',
+    };
+    let fetchStub: sinon.SinonStub;
+
+    beforeEach(function () {
+      fetchStub = sinon.stub(global, 'fetch').resolves({
+        ok: true,
+        status: 201,
+        json: async () => ({
+          request_uri: 'urn:ietf:params:oauth:request_uri:abc',
+          expires_in: 60,
+        }),
+      } as Response);
+    });
+
+    afterEach(function () {
+      ResilienceManager.resetAllCircuits();
+    });
+
+    it('should push the request when the provider advertises PAR', async function () {
+      const adapter = createTestAdapter({
+        metadata: parMetadata,
+        resource: 'https://mcp.example.com',
+        customParameters: { audience: 'internal-api' },
+      });
+      await adapter.initialize();
+
+      const result = await adapter.createAuthorizationRequest({
+        state: 'caller-state',
+      });
+
+      const url = new URL(result.url);
+      expect(url.origin + url.pathname).to.equal(
+        oidcMetadata.minimal.authorization_endpoint
+      );
+      expect([...url.searchParams]).to.deep.equal([
+        ['client_id', 'test-client-id'],
+        ['request_uri', 'urn:ietf:params:oauth:request_uri:abc'],
+      ]);
+      expect(result.requestUri).to.equal(
+        'urn:ietf:params:oauth:request_uri:abc'
+      );
+
+      const [endpoint, options] = fetchStub.firstCall.args;
+      expect(endpoint).to.equal(
+        parMetadata.pushed_authorization_request_endpoint
+      );
+      const pushed = new URLSearchParams(options.body);
+      expect(pushed.get('state')).to.equal('caller-state');
+      expect(pushed.get('code_challenge')).to.equal(result.codeChallenge);
+      expect(pushed.get('audience')).to.equal('internal-api');
+      expect(pushed.get('resource')).to.equal('https://mcp.example.com');
+      expect(adapter.getProviderQuirks().supportsPushedAuthorization).to.be
+        .true;
+    });
+
+    it('should push when the provider requires PAR', async function () {
+      const adapter = createTestAdapter({
+        metadata: {
+          ...parMetadata,
+          require_pushed_authorization_requests: true,
+        },
+      });
+      await adapter.initialize();
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-1', 'https://example.com/cb')
+      );
+      expect(url.searchParams.get('request_uri')).to.equal(
+        'urn:ietf:params:oauth:request_uri:abc'
+      );
+    });
+
+    it('should build a front-channel URL when PAR is disabled', async function () {
+      const adapter = createTestAdapter({
+        metadata: parMetadata,
+        pushedAuthorizationRequests: 'disabled',
+      });
+      await adapter.initialize();
+
+      const result = await adapter.createAuthorizationRequest({
+        state: 'caller-state',
+      });
+
+      expect(new URL(result.url).searchParams.get('state')).to.equal(
+        'caller-state'
+      );
+      expect(result.requestUri).to.be.undefined;
+      expect(fetchStub.called).to.be.false;
+    });
+
+    it('should fail when PAR is required but not available', async function () {
+      const adapter = createTestAdapter({
+        pushedAuthorizationRequests: 'required',
+      });
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => adapter.createAuthorizationRequest({ state: 'caller-state' }),
+        'invalid_request',
+        'Pushed authorization request endpoint not available'
+      );
+    });
+  });
+
   describe('Provider Quirks', function () {
     it('should compute quirks with static metadata', async function () {
       const config = createOIDCConfigWithMetadata();
@@ -186,6 +484,32 @@ describe('OIDCProviderAdapter', function () {
       expect(quirks.requiresPKCE).to.equal(true);
       expect(quirks.supportsRefreshTokens).to.equal(false);
       expect(quirks.customParameters).to.be.an('array');
+      expect(quirks.supportsResourceIndicators).to.equal(false);
+    });
+
+    it('should report resource indicator support when configured', async function () {
+      const adapter = new OIDCProviderAdapter(
+        createOIDCConfigWithMetadata({ supportsResourceIndicators: true })
+      );
+      await adapter.initialize();
+
+      expect(adapter.getProviderQuirks().supportsResourceIndicators).to.equal(
+        true
+      );
+    });
+
+    it('should report revocation support from metadata', async function () {
+      const adapter = new OIDCProviderAdapter(
+        createOIDCConfigWithMetadata({
+          metadata: {
+            ...oidcMetadata.minimal,
+            revocation_endpoint: 'https://auth.example.com/oauth/revoke',
+          },
+        })
+      );
+      await adapter.initialize();
+
+      expect(adapter.getProviderQuirks().supportsRevocation).to.equal(true);
     });
 
     it('should compute quirks with issuer-based discovery', async function () {
@@ -251,6 +575,90 @@ describe('OIDCProviderAdapter', function () {
       }
     });
 
+    it('should record which discovery document was used', async function () {
+      ResilienceManager.resetAllCircuits();
+      const fetchStub = sinon.stub(global, 'fetch');
+      fetchStub.onFirstCall().resolves({ ok: false, status: 404 } as any);
+      fetchStub.onSecondCall().resolves({
+        ok: true,
+        status: 200,
+        json: async () => oidcMetadata.minimal,
+      } as any);
+
+      const logger = {
+        debug: sinon.stub(),
+        info: sinon.stub(),
+        warn: sinon.stub(),
+        error: sinon.stub(),
+      };
+
+      const adapter = new OIDCProviderAdapter({
+        clientId: 'test-client',
+        scopes: ['openid'],
+        issuer: oidcMetadata.minimal.issuer,
+        logger: logger as any,
+      });
+      await adapter.initialize();
+
+      expect(adapter.getProviderMetadata()?.issuer).to.equal(
+        oidcMetadata.minimal.issuer
+      );
+      expect(adapter.getDiscoveryDocument()).to.deep.equal({
+        url: 'https://auth.example.com/.well-known/openid-configuration',
+        type: 'openid-configuration',
+        form: 'append',
+      });
+      expect(
+        logger.info.calledWithMatch(
+          'OIDC provider initialization completed successfully',
+          {
+            discoveryUrl:
+              'https://auth.example.com/.well-known/openid-configuration',
+          }
+        )
+      ).to.be.true;
+    });
+
+    it('should log every discovery URL tried when discovery fails', async function () {
+      ResilienceManager.resetAllCircuits();
+      sinon.stub(global, 'fetch').resolves({ ok: false, status: 404 } as any);
+      const logger = {
+        debug: sinon.stub(),
+        info: sinon.stub(),
+        warn: sinon.stub(),
+        error: sinon.stub(),
+      };
+
+      const adapter = new OIDCProviderAdapter({
+        clientId: 'test-client',
+        scopes: ['openid'],
+        issuer: 'https://auth.example.com/tenant',
+        logger: logger as any,
+      });
+
+      await expectOAuthError(
+        () => adapter.initialize(),
+        'invalid_request',
+        'No authorization server metadata found'
+      );
+      expect(
+        logger.error.calledWithMatch('OIDC provider initialization failed', {
+          discoveryUrls: [
+            'https://auth.example.com/.well-known/oauth-authorization-server/tenant',
+            'https://auth.example.com/tenant/.well-known/openid-configuration',
+            'https://auth.example.com/.well-known/openid-configuration/tenant',
+          ],
+        })
+      ).to.be.true;
+    });
+
+    it('should not record a discovery document for static metadata', async function () {
+      const adapter = createTestAdapter();
+      await adapter.initialize();
+
+      expect(adapter.getDiscoveryDocument()).to.be.undefined;
+    });
+
     it('should handle discovery errors gracefully', async function () {
       const config = {
         clientId: 'test-client',
@@ -269,6 +677,794 @@ describe('OIDCProviderAdapter', function () {
     });
   });
 
+  describe('ID token validation', function () {
+    const signingKey = createTestSigningKey('RS256');
+    let fetchStub: sinon.SinonStub;
+
+    const signIdToken = (overrides: Record<string, unknown> = {}) => {
+      const now = Math.floor(Date.now() / 1000);
+      return signTestJwt(
+        {
+          iss: oidcMetadata.minimal.issuer,
+          sub: 'user-123',
+          aud: 'test-client-id',
+          exp: now + 300,
+          iat: now,
+          nonce: 'test-nonce',
+          ...overrides,
+        },
+        signingKey
+      );
+    };
+
+    const stubProvider = (idToken: string) => {
+      fetchStub.callsFake(async (url: string) =>
+        url === oidcMetadata.minimal.jwks_uri
+          ? jwksResponse([signingKey.jwk])
+          : {
+              ok: true,
+              json: async () => ({
+                access_token: 'test-access-token',
+                id_token: idToken,
+              }),
+            }
+      );
+    };
+
+    beforeEach(function () {
+      fetchStub = sinon.stub(global, 'fetch');
+    });
+
+    it('should return validated ID token claims from exchangeCode', async function () {
+      stubProvider(signIdToken());
+      const adapter = createTestAdapter();
+      await adapter.initialize();
+
+      const tokens = await adapter.exchangeCode(
+        'test-code',
+        'test-verifier',
+        authUrlData.validParams.redirectUrl,
+        { nonce: 'test-nonce' }
+      );
+
+      expect(tokens.idTokenClaims?.sub).to.equal('user-123');
+      expect(tokens.idTokenClaims?.nonce).to.equal('test-nonce');
+    });
+
+    it('should reject ID tokens that fail validation', async function () {
+      stubProvider(signIdToken({ aud: 'someone-else' }));
+      const adapter = createTestAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () =>
+          adapter.exchangeCode(
+            'test-code',
+            'test-verifier',
+            authUrlData.validParams.redirectUrl
+          ),
+        'invalid_token',
+        'audience does not include client_id'
+      );
+    });
+
+    it('should skip validation when disabled', async function () {
+      stubProvider('opaque-id-token');
+      const adapter = createTestAdapter({
+        idTokenValidation: { enabled: false },
+      });
+      await adapter.initialize();
+
+      const tokens = await adapter.exchangeCode(
+        'test-code',
+        'test-verifier',
+        authUrlData.validParams.redirectUrl
+      );
+
+      expect(tokens.idToken).to.equal('opaque-id-token');
+      expect(tokens.idTokenClaims).to.be.undefined;
+    });
+
+    it('should reject ID tokens it cannot verify when the provider has no jwks_uri', async function () {
+      stubProvider(signIdToken());
+      const adapter = createTestAdapter({
+        metadata: oidcMetadata.withoutJwksUri,
+      });
+      await adapter.initialize();
+
+      await expectOAuthError(
+        () => adapter.refreshToken('test-refresh-token'),
+        'invalid_token',
+        'does not include jwks_uri'
+      );
+    });
+  });
+
+  describe('revokeToken', function () {
+    it('should revoke via the metadata revocation endpoint', async function () {
+      const fetchStub = sinon.stub(global, 'fetch').resolves({
+        ok: true,
+        status: 200,
+      } as Response);
+      const adapter = createTestAdapter({
+        clientSecret: 'test-secret',
+        metadata: {
+          ...oidcMetadata.minimal,
+          revocation_endpoint: 'https://auth.example.com/oauth/revoke',
+        },
+      });
+      await adapter.initialize();
+
+      await adapter.revokeToken('test-refresh-token', 'refresh_token');
+
+      const [url, options] = fetchStub.firstCall.args as [string, RequestInit];
+      expect(url).to.equal('https://auth.example.com/oauth/revoke');
+      expect(
+        (options.headers as Record<string, string>).Authorization
+      ).to.match(/^Basic /);
+      const body = new URLSearchParams(options.body as string);
+      expect(body.get('token')).to.equal('test-refresh-token');
+      expect(body.get('token_type_hint')).to.equal('refresh_token');
+    });
+
+    it('should require initialization', async function () {
+      await expectOAuthError(
+        () => createTestAdapter().revokeToken('token'),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('clientCredentials', function () {
+    it('should cache tokens and drop them on revocation', async function () {
+      const fetchStub = sinon.stub(global, 'fetch');
+      fetchStub.onFirstCall().resolves({
+        ok: true,
+        json: async () => ({ access_token: 'service-token', expires_in: 300 }),
+      } as Response);
+      fetchStub.onSecondCall().resolves({ ok: true, status: 200 } as Response);
+      fetchStub.onThirdCall().resolves({
+        ok: true,
+        json: async () => ({ access_token: 'fresh-token', expires_in: 300 }),
+      } as Response);
+      const adapter = createTestAdapter({
+        clientSecret: 'test-secret',
+        metadata: {
+          ...oidcMetadata.minimal,
+          revocation_endpoint: 'https://auth.example.com/oauth/revoke',
+        },
+      });
+      await adapter.initialize();
+
+      const [first, second] = await Promise.all([
+        adapter.clientCredentials({ scopes: ['read:data'] }),
+        adapter.clientCredentials({ scopes: ['read:data'] }),
+      ]);
+      expect(first.accessToken).to.equal('service-token');
+      expect(second.accessToken).to.equal('service-token');
+      expect(fetchStub.callCount).to.equal(1);
+
+      await adapter.revokeToken('service-token', 'access_token');
+      const fresh = await adapter.clientCredentials({ scopes: ['read:data'] });
+      expect(fresh.accessToken).to.equal('fresh-token');
+      expect(fetchStub.callCount).to.equal(3);
+    });
+
+    it('should require initialization', async function () {
+      await expectOAuthError(
+        () => createTestAdapter().clientCredentials(),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('logout', function () {
+    const endSessionMetadata = {
+      ...oidcMetadata.minimal,
+      end_session_endpoint: 'https://auth.example.com/oauth/logout',
+    };
+
+    it('should build an end-session URL', async function () {
+      const adapter = createTestAdapter({
+        metadata: endSessionMetadata,
+        postLogoutRedirectUri: 'https://mcp.example.com/logged-out',
+      });
+      await adapter.initialize();
+
+      const url = new URL(
+        adapter.generateLogoutUrl({
+          idTokenHint: 'id-token',
+          state: 'logout-state',
+          logoutHint: 'user@example.com',
+        })
+      );
+
+      expect(url.origin + url.pathname).to.equal(
+        endSessionMetadata.end_session_endpoint
+      );
+      expect(Object.fromEntries(url.searchParams)).to.deep.equal({
+        client_id: 'test-client-id',
+        id_token_hint: 'id-token',
+        post_logout_redirect_uri: 'https://mcp.example.com/logged-out',
+        state: 'logout-state',
+        logout_hint: 'user@example.com',
+      });
+      expect(adapter.getProviderQuirks().supportsLogout).to.be.true;
+
+      const override = new URL(
+        adapter.generateLogoutUrl({
+          postLogoutRedirectUri: 'https://mcp.example.com/bye',
+        })
+      );
+      expect(override.searchParams.get('post_logout_redirect_uri')).to.equal(
+        'https://mcp.example.com/bye'
+      );
+    });
+
+    it('should fail without an end_session_endpoint', async function () {
+      const uninitialized = createTestAdapter();
+      expect(() => uninitialized.generateLogoutUrl())
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('must be initialized');
+
+      await uninitialized.initialize();
+      expect(() => uninitialized.generateLogoutUrl())
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('End session endpoint not available');
+    });
+
+    it('should validate back-channel logout tokens', async function () {
+      const signingKey = createTestSigningKey('RS256', 'kid-1');
+      sinon
+        .stub(global, 'fetch')
+        .resolves(jwksResponse([signingKey.jwk]) as Response);
+      const adapter = createTestAdapter();
+      await adapter.initialize();
+      const now = Math.floor(Date.now() / 1000);
+
+      const claims = await adapter.validateLogoutToken(
+        signTestJwt(
+          {
+            iss: oidcMetadata.minimal.issuer,
+            aud: 'test-client-id',
+            iat: now,
+            jti: 'logout-jti-1',
+            sid: 'session-abc',
+            events: {
+              'http://schemas.openid.net/event/backchannel-logout': {},
+            },
+          },
+          signingKey,
+          { typ: 'logout+jwt' }
+        )
+      );
+
+      expect(claims.sid).to.equal('session-abc');
+      await expectOAuthError(
+        () => createTestAdapter().validateLogoutToken('token'),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('device authorization', function () {
+    afterEach(function () {
+      ResilienceManager.resetAllCircuits();
+    });
+
+    it('should start device authorization at the advertised endpoint', async function () {
+      const fetchStub = sinon.stub(global, 'fetch').resolves({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          device_code: 'device-123',
+          user_code: 'WDJB-MJHT',
+          verification_uri: 'https://auth.example.com/device',
+          expires_in: 900,
+        }),
+      } as Response);
+      const adapter = createTestAdapter({
+        metadata: {
+          ...oidcMetadata.minimal,
+          device_authorization_endpoint:
+            'https://auth.example.com/oauth/device/code',
+        },
+      });
+      await adapter.initialize();
+
+      const result = await adapter.startDeviceAuthorization();
+
+      expect(result.userCode).to.equal('WDJB-MJHT');
+      expect(fetchStub.firstCall.args[0]).to.equal(
+        'https://auth.example.com/oauth/device/code'
+      );
+      expect(adapter.getProviderQuirks().supportsDeviceAuthorization).to.be
+        .true;
+    });
+
+    it('should require initialization', async function () {
+      const adapter = createTestAdapter();
+
+      await expectOAuthError(
+        () => adapter.startDeviceAuthorization(),
+        'invalid_request',
+        'must be initialized'
+      );
+      await expectOAuthError(
+        () =>
+          adapter.pollDeviceAuthorization({
+            deviceCode: 'device-123',
+            userCode: 'WDJB-MJHT',
+            verificationUri: 'https://auth.example.com/device',
+            expiresIn: 900,
+            interval: 5,
+          }),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('exchangeToken', function () {
+    it('should exchange tokens through the token endpoint', async function () {
+      const fetchStub = sinon.stub(global, 'fetch').resolves({
+        ok: true,
+        json: async () => ({
+          access_token: 'downstream-token',
+          issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+        }),
+      } as Response);
+      const adapter = createTestAdapter({ clientSecret: 'test-secret' });
+      await adapter.initialize();
+
+      const result = await adapter.exchangeToken({
+        subjectToken: 'user-token',
+        audience: 'reports-api',
+      });
+
+      expect(result.issuedTokenType).to.equal(
+        'urn:ietf:params:oauth:token-type:access_token'
+      );
+      const [url, options] = fetchStub.firstCall.args as [string, RequestInit];
+      expect(url).to.equal(oidcMetadata.minimal.token_endpoint);
+      expect(
+        (options.headers as Record<string, string>).Authorization
+      ).to.match(/^Basic /);
+    });
+
+    it('should require initialization', async function () {
+      await expectOAuthError(
+        () => createTestAdapter().exchangeToken({ subjectToken: 'user-token' }),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('fetchUserInfo', function () {
+    it('should fetch a normalized profile from the UserInfo endpoint', async function () {
+      const fetchStub = sinon.stub(global, 'fetch').resolves(
+        new Response(
+          JSON.stringify({
+            sub: 'user-123',
+            email: 'ada@example.com',
+            email_verified: true,
+            name: 'Ada Lovelace',
+          }),
+          { headers: { 'Content-Type': 'application/json' } }
+        )
+      );
+      const adapter = createTestAdapter({
+        metadata: {
+          ...oidcMetadata.minimal,
+          userinfo_endpoint: 'https://auth.example.com/userinfo',
+        },
+      });
+      await adapter.initialize();
+
+      const profile = await adapter.fetchUserInfo('access-token', {
+        expectedSubject: 'user-123',
+      });
+
+      expect(profile).to.deep.include({
+        id: 'user-123',
+        email: 'ada@example.com',
+        emailVerified: true,
+        name: 'Ada Lovelace',
+        groups: [],
+      });
+      expect(fetchStub.firstCall.args[0]).to.equal(
+        'https://auth.example.com/userinfo'
+      );
+    });
+
+    it('should require initialization', async function () {
+      await expectOAuthError(
+        () => createTestAdapter().fetchUserInfo('access-token'),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('introspectToken', function () {
+    it('should introspect and forget cached results on revocation', async function () {
+      const fetchStub = sinon.stub(global, 'fetch');
+      fetchStub.resolves({
+        ok: true,
+        status: 200,
+        json: async () => ({ active: true, sub: 'user-123' }),
+      } as Response);
+      const adapter = createTestAdapter({
+        metadata: {
+          ...oidcMetadata.minimal,
+          introspection_endpoint: 'https://auth.example.com/oauth/introspect',
+          revocation_endpoint: 'https://auth.example.com/oauth/revoke',
+        },
+        introspection: { cacheTtlSeconds: 60 },
+      });
+      await adapter.initialize();
+
+      const result = await adapter.introspectToken('opaque-token');
+      await adapter.introspectToken('opaque-token');
+      await adapter.revokeToken('opaque-token');
+      await adapter.introspectToken('opaque-token');
+
+      expect(result).to.include({ active: true, sub: 'user-123' });
+      expect(fetchStub.args.map((args) => args[0])).to.deep.equal([
+        'https://auth.example.com/oauth/introspect',
+        'https://auth.example.com/oauth/revoke',
+        'https://auth.example.com/oauth/introspect',
+      ]);
+    });
+
+    it('should require initialization', async function () {
+      await expectOAuthError(
+        () => createTestAdapter().introspectToken('token'),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
+  describe('createDPoPProof', function () {
+    it('should create proofs a resource server can verify', async function () {
+      const adapter = createTestAdapter({ dpop: {} });
+      await adapter.initialize();
+
+      const proof = adapter.createDPoPProof(
+        'GET',
+        'https://mcp.example.com/mcp',
+        'dpop-token'
+      );
+
+      const result = await new DPoPProofVerifier().verify(proof, {
+        method: 'GET',
+        url: 'https://mcp.example.com/mcp',
+        accessToken: 'dpop-token',
+      });
+      expect(result.jkt).to.be.a('string');
+    });
+
+    it('should require DPoP to be enabled', async function () {
+      const adapter = createTestAdapter();
+      await adapter.initialize();
+
+      await expectOAuthError(
+        async () => adapter.createDPoPProof('GET', 'https://mcp.example.com'),
+        'invalid_request',
+        'DPoP is not enabled'
+      );
+    });
+  });
+
+  describe('handleCallback', function () {
+    const { interactionId, redirectUrl } = authUrlData.validParams;
+    let adapter: OIDCProviderAdapter;
+    let fetchStub: sinon.SinonStub;
+
+    beforeEach(async function () {
+      fetchStub = sinon.stub(global, 'fetch');
+      fetchStub.resolves({
+        ok: true,
+        json: async () => ({ access_token: 'test-access-token' }),
+      });
+      adapter = createTestAdapter();
+      await adapter.initialize();
+    });
+
+    it('should exchange the code using the stored PKCE verifier', async function () {
+      const authUrl = await adapter.generateAuthUrl(interactionId, redirectUrl);
+
+      const tokens = await adapter.handleCallback({
+        code: 'test-code',
+        state: interactionId,
+        iss: oidcMetadata.minimal.issuer,
+      });
+
+      expect(tokens.accessToken).to.equal('test-access-token');
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.get('code')).to.equal('test-code');
+      expect(body.get('redirect_uri')).to.equal(redirectUrl);
+      const challenge = new URL(authUrl).searchParams.get('code_challenge');
+      const { calculatePKCECodeChallenge } = await import('openid-client');
+      expect(
+        await calculatePKCECodeChallenge(body.get('code_verifier')!)
+      ).to.equal(challenge);
+    });
+
+    it('should consume the stored state so it can only be used once', async function () {
+      await adapter.generateAuthUrl(interactionId, redirectUrl);
+      await adapter.handleCallback({ code: 'test-code', state: interactionId });
+
+      await expectOAuthError(
+        () =>
+          adapter.handleCallback({ code: 'test-code', state: interactionId }),
+        'invalid_request',
+        'Unknown or expired authorization state'
+      );
+      expect(fetchStub.callCount).to.equal(1);
+    });
+
+    it('should reject unknown state', async function () {
+      await expectOAuthError(
+        () => adapter.handleCallback({ code: 'test-code', state: 'unknown' }),
+        'invalid_request',
+        'Unknown or expired authorization state'
+      );
+      expect(fetchStub.called).to.be.false;
+    });
+
+    it('should reject expired state', async function () {
+      const clock = sinon.useFakeTimers({ now: Date.now(), toFake: ['Date'] });
+      await adapter.generateAuthUrl(interactionId, redirectUrl);
+      clock.tick(601_000);
+
+      await expectOAuthError(
+        () =>
+          adapter.handleCallback({ code: 'test-code', state: interactionId }),
+        'invalid_request',
+        'Unknown or expired authorization state'
+      );
+    });
+
+    it('should surface authorization error responses', async function () {
+      await expectOAuthError(
+        () =>
+          adapter.handleCallback({
+            state: interactionId,
+            error: 'access_denied',
+            error_description: 'User cancelled',
+          }),
+        'access_denied',
+        'User cancelled'
+      );
+    });
+
+    it('should require state and code', async function () {
+      await expectOAuthError(
+        () => adapter.handleCallback({ code: 'test-code' }),
+        'invalid_request',
+        'Missing state parameter'
+      );
+      await expectOAuthError(
+        () => adapter.handleCallback({ state: interactionId }),
+        'invalid_request',
+        'Missing code parameter'
+      );
+    });
+
+    it('should require a redirect URL when none is configured', async function () {
+      const noRedirectAdapter = new OIDCProviderAdapter(
+        createOIDCConfigWithMetadata()
+      );
+      await noRedirectAdapter.initialize();
+
+      await expectOAuthError(
+        () =>
+          noRedirectAdapter.handleCallback({
+            code: 'test-code',
+            state: interactionId,
+          }),
+        'invalid_request',
+        'redirectUrl is required'
+      );
+    });
+
+    it('should reject a mismatched iss parameter', async function () {
+      await adapter.generateAuthUrl(interactionId, redirectUrl);
+
+      await expectOAuthError(
+        () =>
+          adapter.handleCallback({
+            code: 'test-code',
+            state: interactionId,
+            iss: 'https://evil.example.com',
+          }),
+        'invalid_request',
+        'issuer does not match'
+      );
+    });
+
+    it('should reject a mismatched iss parameter on error responses', async function () {
+      const logger = {
+        debug: sinon.stub(),
+        info: sinon.stub(),
+        warn: sinon.stub(),
+        error: sinon.stub(),
+      };
+      const loggedAdapter = createTestAdapter({ logger: logger as any });
+      await loggedAdapter.initialize();
+
+      await expectOAuthError(
+        () =>
+          loggedAdapter.handleCallback({
+            state: interactionId,
+            iss: 'https://evil.example.com',
+            error: 'access_denied',
+          }),
+        'invalid_request',
+        'issuer does not match'
+      );
+      expect(
+        logger.warn.calledWith('Authorization response issuer mismatch', {
+          stage: 'handleCallback',
+          issuer: oidcMetadata.minimal.issuer,
+          received: 'https://evil.example.com',
+        })
+      ).to.be.true;
+    });
+
+    it('should require iss when the provider advertises RFC 9207 support', async function () {
+      const issAdapter = createTestAdapter({
+        metadata: {
+          ...oidcMetadata.minimal,
+          authorization_response_iss_parameter_supported: true,
+        },
+      });
+      await issAdapter.initialize();
+      await issAdapter.generateAuthUrl(interactionId, redirectUrl);
+
+      await expectOAuthError(
+        () =>
+          issAdapter.handleCallback({
+            code: 'test-code',
+            state: interactionId,
+          }),
+        'invalid_request',
+        'Missing iss parameter'
+      );
+
+      const tokens = await issAdapter.handleCallback({
+        code: 'test-code',
+        state: interactionId,
+        iss: oidcMetadata.minimal.issuer,
+      });
+      expect(tokens.accessToken).to.equal('test-access-token');
+    });
+
+    it('should honor requireIssuerParameter over provider metadata', async function () {
+      const required = createTestAdapter({ requireIssuerParameter: true });
+      await required.initialize();
+      await expectOAuthError(
+        () =>
+          required.handleCallback({ code: 'test-code', state: interactionId }),
+        'invalid_request',
+        'Missing iss parameter'
+      );
+
+      const optional = createTestAdapter({
+        metadata: {
+          ...oidcMetadata.minimal,
+          authorization_response_iss_parameter_supported: true,
+        },
+        requireIssuerParameter: false,
+      });
+      await optional.initialize();
+      await optional.generateAuthUrl(interactionId, redirectUrl);
+      const tokens = await optional.handleCallback({
+        code: 'test-code',
+        state: interactionId,
+      });
+      expect(tokens.accessToken).to.equal('test-access-token');
+    });
+
+    it('should normalize storage hook failures', async function () {
+      const storageHook = {
+        storePKCEState: sinon.stub().resolves(),
+        retrievePKCEState: sinon.stub().resolves('stored-verifier'),
+        cleanupExpiredState: sinon.stub().resolves(),
+        deletePKCEState: sinon.stub().rejects(new Error('Redis down')),
+      };
+      const hookAdapter = createTestAdapter({ storageHook });
+      await hookAdapter.initialize();
+
+      await expectOAuthError(
+        () => hookAdapter.handleCallback({ code: 'test-code', state: 'abc' }),
+        'server_error',
+        'Redis down'
+      );
+      expect(storageHook.retrievePKCEState.calledWith('abc', 'abc')).to.be.true;
+
+      storageHook.retrievePKCEState.rejects(new Error('Redis timeout'));
+      await expectOAuthError(
+        () => hookAdapter.handleCallback({ code: 'test-code', state: 'abc' }),
+        'temporarily_unavailable',
+        'Redis timeout'
+      );
+    });
+
+    it('should consume state atomically when the storage hook supports it', async function () {
+      const storageHook = {
+        storePKCEState: sinon.stub().resolves(),
+        retrievePKCEState: sinon.stub().resolves('stored-verifier'),
+        cleanupExpiredState: sinon.stub().resolves(),
+        deletePKCEState: sinon.stub().resolves(),
+        consumePKCEState: sinon.stub(),
+      };
+      storageHook.consumePKCEState.onFirstCall().resolves('stored-verifier');
+      storageHook.consumePKCEState.resolves(null);
+      const hookAdapter = createTestAdapter({ storageHook });
+      await hookAdapter.initialize();
+
+      const tokens = await hookAdapter.handleCallback({
+        code: 'test-code',
+        state: 'abc',
+      });
+      expect(tokens.accessToken).to.equal('test-access-token');
+      expect(storageHook.consumePKCEState.calledWith('abc', 'abc')).to.be.true;
+      expect(storageHook.retrievePKCEState.called).to.be.false;
+      expect(storageHook.deletePKCEState.called).to.be.false;
+
+      await expectOAuthError(
+        () => hookAdapter.handleCallback({ code: 'test-code', state: 'abc' }),
+        'invalid_request',
+        'Unknown or expired authorization state'
+      );
+
+      storageHook.consumePKCEState.rejects(new Error('Redis down'));
+      await expectOAuthError(
+        () => hookAdapter.handleCallback({ code: 'test-code', state: 'abc' }),
+        'server_error',
+        'Redis down'
+      );
+    });
+
+    it('should reject callbacks when the storage hook cannot delete state', async function () {
+      const storageHook = {
+        storePKCEState: sinon.stub().resolves(),
+        retrievePKCEState: sinon.stub().resolves('stored-verifier'),
+        cleanupExpiredState: sinon.stub().resolves(),
+      };
+      const hookAdapter = createTestAdapter({ storageHook });
+      await hookAdapter.initialize();
+
+      await expectOAuthError(
+        () => hookAdapter.handleCallback({ code: 'test-code', state: 'abc' }),
+        'invalid_request',
+        'storageHook must implement consumePKCEState or deletePKCEState'
+      );
+      expect(storageHook.retrievePKCEState.called).to.be.false;
+    });
+
+    it('should throw error if not initialized', async function () {
+      await expectOAuthError(
+        () =>
+          createTestAdapter().handleCallback({
+            code: 'test-code',
+            state: interactionId,
+          }),
+        'invalid_request',
+        'must be initialized'
+      );
+    });
+  });
+
   describe('Storage Hook Validation', function () {
     it('should validate storage hook has required methods', async function () {
       const incompleteStorageHook = {
@@ -366,6 +1562,40 @@ describe('OIDCProviderAdapter', function () {
       }
     });
 
+    it('should validate optional deletePKCEState is a function', async function () {
+      const adapter = createTestAdapter({
+        storageHook: {
+          storePKCEState: sinon.stub().resolves(),
+          retrievePKCEState: sinon.stub().resolves(null),
+          cleanupExpiredState: sinon.stub().resolves(),
+          deletePKCEState: 'not-a-function',
+        } as any,
+      });
+
+      await expectOAuthError(
+        () => adapter.initialize(),
+        'invalid_request',
+        'deletePKCEState must be a function'
+      );
+    });
+
+    it('should validate optional consumePKCEState is a function', async function () {
+      const adapter = createTestAdapter({
+        storageHook: {
+          storePKCEState: sinon.stub().resolves(),
+          retrievePKCEState: sinon.stub().resolves(null),
+          cleanupExpiredState: sinon.stub().resolves(),
+          consumePKCEState: 'not-a-function',
+        } as any,
+      });
+
+      await expectOAuthError(
+        () => adapter.initialize(),
+        'invalid_request',
+        'consumePKCEState must be a function'
+      );
+    });
+
     it('should accept valid storage hook', async function () {
       const validStorageHook = {
         storePKCEState: sinon.stub().resolves(),
@@ -4,63 +4,67 @@
  */
 
 import { BaseOAuthAdapter } from '../../base-adapter.js';
-import type { ProviderConfig } from '../../types.js';
 import type {
+  ProviderConfig,
+  TokenTypeHint,
+  UserProfile,
+} from '../../types.js';
+import type {
+  AccessTokenVerifierOptions,
+  ClientCredentialsOptions,
+  DeviceAuthorizationOptions,
+  DeviceAuthorizationResult,
+  DevicePollOptions,
+  LogoutTokenClaims,
+  LogoutUrlOptions,
+  OIDCAuthUrlOptions,
+  OIDCAuthUrlResult,
+  OIDCCallbackParams,
+  OIDCDiscoveryDocument,
+  OIDCExchangeCodeOptions,
   OIDCProviderConfig,
   OIDCProviderMetadata,
+  OIDCRefreshTokenOptions,
   PKCEStorageHook,
+  TokenExchangeOptions,
+  TokenExchangeResponse,
+  TokenIntrospectionResult,
+  UserInfoOptions,
 } from './types.js';
 import { validate as validateConfig } from './config.js';
 import * as openidClient from 'openid-client';
 import { TokenExchangeService } from './token-exchange.js';
-import { OIDC_CONSTANTS, validateProviderMetadata } from './utils.js';
-const { randomPKCECodeVerifier, calculatePKCECodeChallenge, customFetch } =
-  openidClient;
+import { TokenIntrospectionService } from './introspection.js';
+import { PushedAuthorizationService } from './par.js';
+import { DeviceAuthorizationService } from './device-authorization.js';
+import { LogoutTokenValidator } from './logout.js';
+import { UserInfoService } from './userinfo.js';
+import { ClientCredentialsTokenCache } from './client-credentials.js';
+import { ClientAuthenticator } from './client-auth.js';
+import { DPoPProofSigner } from './dpop.js';
+import { AccessTokenVerifier } from './access-token.js';
+import { IdTokenValidator } from './id-token.js';
+import { createJwksCache, JwsVerifier } from './jws.js';
+import {
+  buildDiscoveryDocuments,
+  MetadataDiscoveryService,
+} from './discovery.js';
+import { MockPKCEStorageHook } from './pkce-storage.js';
+import {
+  normalizeResourceIndicators,
+  validateProviderMetadata,
+} from './utils.js';
+const {
+  randomPKCECodeVerifier,
+  calculatePKCECodeChallenge,
+  randomNonce,
+  customFetch,
+} = openidClient;
 
 /**
- * Internal mock storage hook for PKCE state persistence
- * Used as fallback when no storageHook is provided
- * Suitable for development and testing only
+ * RFC 7636 §4.1 code_verifier format
  */
-class MockPKCEStorageHook implements PKCEStorageHook {
-  private storage = new Map<
-    string,
-    { state: string; codeVerifier: string; expiresAt: number }
-  >();
-
-  async storePKCEState(
-    interactionId: string,
-    state: string,
-    codeVerifier: string,
-    expiresAt: number
-  ): Promise<void> {
-    this.storage.set(interactionId, { state, codeVerifier, expiresAt });
-  }
-
-  async retrievePKCEState(
-    interactionId: string,
-    state: string
-  ): Promise<string | null> {
-    const entry = this.storage.get(interactionId);
-    if (!entry) return null;
-
-    if (entry.state !== state) return null;
-    if (Date.now() > entry.expiresAt) {
-      this.storage.delete(interactionId);
-      return null;
-    }
-
-    return entry.codeVerifier;
-  }
-
-  async cleanupExpiredState(beforeTimestamp: number): Promise<void> {
-    for (const [key, entry] of this.storage.entries()) {
-      if (entry.expiresAt < beforeTimestamp) {
-        this.storage.delete(key);
-      }
-    }
-  }
-}
+const PKCE_CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
 
 /**
  * OIDC Provider Adapter
@@ -68,7 +72,7 @@ class MockPKCEStorageHook implements PKCEStorageHook {
  */
 export class OIDCProviderAdapter extends BaseOAuthAdapter {
   /** Provider name identifier */
-  public readonly providerName = 'oidc-provider';
+  public readonly providerName: string = 'oidc-provider';
 
   /** OIDC-specific configuration */
   private readonly oidcConfig: OIDCProviderConfig;
@@ -76,6 +80,9 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
   /** Cached OIDC provider metadata */
   private providerMetadata?: OIDCProviderMetadata;
 
+  /** Well-known document the metadata was discovered from (unset for static metadata) */
+  private discoveryDocument?: OIDCDiscoveryDocument;
+
   /** PKCE storage hook */
   private storageHook: PKCEStorageHook;
 
@@ -85,6 +92,30 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
   /** Token exchange service */
   private tokenExchangeService?: TokenExchangeService;
 
+  /** Token introspection service */
+  private introspectionService?: TokenIntrospectionService;
+
+  /** DPoP proof signer (set when DPoP is enabled) */
+  private dpopSigner?: DPoPProofSigner;
+
+  /** JWS verifier shared by every token and response check, with the provider JWKS cache */
+  private jwsVerifier?: JwsVerifier;
+
+  /** Pushed authorization request service */
+  private pushedAuthorizationService?: PushedAuthorizationService;
+
+  /** Device authorization service */
+  private deviceAuthorizationService?: DeviceAuthorizationService;
+
+  /** Back-channel logout token validator */
+  private logoutTokenValidator?: LogoutTokenValidator;
+
+  /** UserInfo service */
+  private userInfoService?: UserInfoService;
+
+  /** Cached client credentials tokens */
+  private readonly clientCredentialsCache = new ClientCredentialsTokenCache();
+
   // Note: initialized property is inherited from BaseOAuthAdapter
 
   /**
@@ -132,7 +163,7 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
       this.validateConfiguration();
 
       // Validate storage hook shape and basic health
-      await this.validateStorageHook();
+      await this.validateStorageHook(this.storageHook);
 
       // Set sane default HTTP timeouts for discovery
       this.setHttpDefaults({ timeout: 8_000 });
@@ -162,9 +193,7 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
         stage: 'initialize',
         issuer: this.providerMetadata?.issuer,
         usedDiscovery: Boolean(this.oidcConfig.issuer),
-        discoveryUrl: this.oidcConfig.issuer
-          ? `${this.oidcConfig.issuer}/.well-known/openid-configuration`
-          : undefined,
+        discoveryUrl: this.discoveryDocument?.url,
       });
     } catch (error) {
       // Extract error details from both Error instances and OAuthError objects
@@ -172,9 +201,7 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
       this.logger.error('OIDC provider initialization failed', {
         stage: 'initialize',
         issuer: this.oidcConfig.issuer,
-        discoveryUrl: this.oidcConfig.issuer
-          ? `${this.oidcConfig.issuer}/.well-known/openid-configuration`
-          : undefined,
+        discoveryUrls: this.discoveryUrls(),
         ...errorDetails,
       });
       throw error;
@@ -209,21 +236,14 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
         scopes: this.oidcConfig.scopes,
       });
 
-      // Generate PKCE pair using openid-client
-      if (!randomPKCECodeVerifier || !calculatePKCECodeChallenge) {
-        throw this.createStandardError(
-          'server_error',
-          'PKCE generators not available from openid-client',
-          { stage: 'generateAuthUrl' }
-        );
-      }
-      const codeVerifier = randomPKCECodeVerifier();
-      const codeChallenge = await calculatePKCECodeChallenge(codeVerifier);
-      const pkcePair = {
-        codeVerifier,
-        codeChallenge,
-        codeChallengeMethod: 'S256' as const,
-      };
+      const request = await this.buildAuthorizationRequest({
+        state: interactionId,
+        redirectUrl,
+        scopes: this.oidcConfig.scopes,
+        params: {},
+        resources: normalizeResourceIndicators(this.oidcConfig.resource),
+        stage: 'generateAuthUrl',
+      });
 
       // Store PKCE state
       const expiresAt = Date.now() + this.pkceStateExpirationSeconds * 1000;
@@ -231,7 +251,7 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
         await this.storageHook.storePKCEState(
           interactionId,
           interactionId,
-          pkcePair.codeVerifier,
+          request.codeVerifier,
           expiresAt
         );
       } catch (error) {
@@ -240,32 +260,14 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
         });
       }
 
-      // Build authorization URL via openid-client Client when available
-      const params = {
-        response_type: 'code',
-        scope: this.oidcConfig.scopes.join(' '),
-        state: interactionId,
-        code_challenge: pkcePair.codeChallenge,
-        code_challenge_method: pkcePair.codeChallengeMethod,
-        redirect_uri: redirectUrl,
-        ...this.oidcConfig.customParameters,
-      } as Record<string, string>;
-
-      // Build authorization URL manually
-      const authEndpoint = this.providerMetadata!.authorization_endpoint;
-      const url = this.buildAuthorizeUrl(authEndpoint, {
-        client_id: this.oidcConfig.clientId,
-        ...params,
-      });
-
       this.logger.info('Authorization URL generated successfully', {
         stage: 'generateAuthUrl',
         state: interactionId,
-        hasCodeChallenge: Boolean(pkcePair.codeChallenge),
-        codeChallengeMethod: pkcePair.codeChallengeMethod,
+        hasCodeChallenge: Boolean(request.codeChallenge),
+        codeChallengeMethod: request.codeChallengeMethod,
       });
 
-      return url;
+      return request.url;
     } catch (error) {
       this.logger.error('Failed to generate authorization URL', {
         stage: 'generateAuthUrl',
@@ -277,6 +279,180 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
     }
   }
 
+  /**
+   * Create an authorization request without persisting PKCE state.
+   * Intended for callers that manage their own state store: keep the returned
+   * codeVerifier (and nonce) and pass them to exchangeCode on callback.
+   * @param options - Per-request state, scopes, OIDC parameters and PKCE verifier
+   * @returns Authorization URL with the PKCE and nonce values it was built from
+   * @throws {OAuthError} If the adapter is not initialized or options are invalid
+   */
+  public async createAuthorizationRequest(
+    options: OIDCAuthUrlOptions
+  ): Promise<OIDCAuthUrlResult> {
+    if (!this.initialized) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before creating an authorization request',
+        {
+          stage: 'createAuthorizationRequest',
+        }
+      );
+    }
+
+    const redirectUrl = options.redirectUrl ?? this.oidcConfig.redirectUri;
+    if (!redirectUrl) {
+      throw this.createStandardError(
+        'invalid_request',
+        'redirectUrl is required when no redirectUri is configured',
+        { stage: 'createAuthorizationRequest' }
+      );
+    }
+
+    const scopes = options.scopes ?? this.oidcConfig.scopes;
+    if (scopes.length === 0) {
+      throw this.createStandardError('invalid_request', 'scopes are required', {
+        stage: 'createAuthorizationRequest',
+      });
+    }
+
+    if (
+      options.codeVerifier !== undefined &&
+      !PKCE_CODE_VERIFIER_PATTERN.test(options.codeVerifier)
+    ) {
+      throw this.createStandardError(
+        'invalid_request',
+        'codeVerifier must be 43-128 characters of [A-Za-z0-9-._~] (RFC 7636)',
+        { stage: 'createAuthorizationRequest' }
+      );
+    }
+
+    let resources: string[];
+    try {
+      resources = normalizeResourceIndicators(
+        options.resource ?? this.oidcConfig.resource
+      );
+    } catch (error) {
+      throw this.createStandardError(
+        'invalid_target',
+        error instanceof Error ? error.message : String(error),
+        { stage: 'createAuthorizationRequest' }
+      );
+    }
+
+    const nonce =
+      options.nonce ?? (scopes.includes('openid') ? randomNonce() : undefined);
+
+    const params: Record<string, string> = {
+      ...(nonce && { nonce }),
+      ...(options.prompt && { prompt: options.prompt }),
+      ...(options.loginHint && { login_hint: options.loginHint }),
+      ...(options.maxAge !== undefined && { max_age: String(options.maxAge) }),
+      ...(options.acrValues &&
+        options.acrValues.length > 0 && {
+          acr_values: options.acrValues.join(' '),
+        }),
+      ...options.additionalParams,
+    };
+
+    const request = await this.buildAuthorizationRequest({
+      state: options.state,
+      redirectUrl,
+      scopes,
+      params,
+      resources,
+      stage: 'createAuthorizationRequest',
+      ...(options.codeVerifier && { codeVerifier: options.codeVerifier }),
+    });
+
+    this.logger.info('Authorization request created', {
+      stage: 'createAuthorizationRequest',
+      state: options.state,
+      scopes,
+      resources,
+      hasNonce: Boolean(nonce),
+      customVerifier: Boolean(options.codeVerifier),
+    });
+
+    return { ...request, ...(nonce && { nonce }) };
+  }
+
+  /**
+   * Handle the authorization callback: validate the returned state, consume the
+   * stored PKCE verifier (single-use) and exchange the code for tokens
+   * @param params - Query parameters received on the redirect URI
+   * @param redirectUrl - Redirect URL used in authorization (defaults to config.redirectUri)
+   * @returns Token response
+   * @throws {OAuthError} If the callback carries an error, the state is unknown or
+   * expired, or the token exchange fails
+   */
+  public async handleCallback(
+    params: OIDCCallbackParams,
+    redirectUrl: string | undefined = this.oidcConfig.redirectUri
+  ): Promise<import('../../types.js').TokenResponse> {
+    if (!this.initialized) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before handling callbacks',
+        {
+          stage: 'handleCallback',
+        }
+      );
+    }
+
+    // Error responses carry `iss` too, so check it before trusting the error
+    this.validateResponseIssuer(params.iss);
+
+    if (params.error) {
+      this.logger.warn('Authorization callback returned an error', {
+        stage: 'handleCallback',
+        state: params.state,
+        error: params.error,
+      });
+      throw this.createStandardError(
+        params.error,
+        params.error_description || 'Authorization request failed',
+        { stage: 'handleCallback', issuer: this.providerMetadata!.issuer }
+      );
+    }
+
+    if (!params.state) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Missing state parameter in authorization callback',
+        { stage: 'handleCallback' }
+      );
+    }
+
+    if (!params.code) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Missing code parameter in authorization callback',
+        { stage: 'handleCallback' }
+      );
+    }
+
+    if (!redirectUrl) {
+      throw this.createStandardError(
+        'invalid_request',
+        'redirectUrl is required when no redirectUri is configured',
+        { stage: 'handleCallback' }
+      );
+    }
+
+    const codeVerifier = await this.consumePKCEState(
+      this.storageHook,
+      params.state
+    );
+
+    this.logger.info('Authorization callback state verified', {
+      stage: 'handleCallback',
+      state: params.state,
+    });
+
+    return this.exchangeCode(params.code, codeVerifier, redirectUrl);
+  }
+
   /**
    * Get OIDC provider metadata
    * @returns Provider metadata
@@ -285,6 +461,14 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
     return this.providerMetadata;
   }
 
+  /**
+   * Get the well-known document the provider metadata was discovered from
+   * @returns Discovery document, or undefined when static metadata is used
+   */
+  public getDiscoveryDocument(): OIDCDiscoveryDocument | undefined {
+    return this.discoveryDocument;
+  }
+
   // === Protected Methods ===
 
   /**
@@ -303,6 +487,33 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
     return this.providerMetadata.authorization_endpoint;
   }
 
+  /**
+   * Check the issuer of a discovered metadata document against the configured
+   * issuer. RFC 8414 requires an exact match; adapters for providers that
+   * publish a templated issuer override this.
+   * @param discovered - `issuer` from the metadata document
+   * @param configured - Issuer the document was discovered from
+   */
+  protected matchesDiscoveredIssuer(
+    discovered: string,
+    configured: string
+  ): boolean {
+    return discovered === configured;
+  }
+
+  /**
+   * Check the `iss` claim of an ID token or JWT access token against the
+   * provider issuer
+   * @param issuer - `iss` claim value
+   * @param _claims - Token claims, for providers whose issuer depends on them
+   */
+  protected matchesTokenIssuer(
+    issuer: string,
+    _claims: Record<string, unknown>
+  ): boolean {
+    return issuer === this.providerMetadata?.issuer;
+  }
+
   // === Private Methods ===
 
   /**
@@ -347,7 +558,24 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
   }
 
   /**
-   * Perform OIDC discovery
+   * Well-known URLs tried for the configured issuer, for failure logs
+   * @returns Discovery URLs, or undefined without a valid issuer URL
+   */
+  private discoveryUrls(): string[] | undefined {
+    if (!this.oidcConfig.issuer) {
+      return undefined;
+    }
+    try {
+      return buildDiscoveryDocuments(this.oidcConfig.issuer).map(
+        (document) => document.url
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Perform discovery, trying RFC 8414 and OIDC well-known documents in turn
    */
   private async performDiscovery(): Promise<void> {
     if (!this.oidcConfig.issuer) {
@@ -361,33 +589,19 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
     }
 
     const issuer = this.oidcConfig.issuer;
-    const discoveryUrl = `${issuer}/.well-known/openid-configuration`;
 
     this.logger.info('Performing OIDC discovery', {
       stage: 'discovery',
-      discoveryUrl,
       issuer,
     });
 
-    const metadata = (await this.executeWithResilience(
-      async () => {
-        const response = await fetch(discoveryUrl);
-        if (!response.ok) {
-          throw new Error(
-            `Discovery failed: ${response.status} ${response.statusText}`
-          );
-        }
-        return await response.json();
-      },
-      {
-        endpoint: discoveryUrl,
-        maxRetries: OIDC_CONSTANTS.DISCOVERY_MAX_RETRIES,
-        backoffMs: OIDC_CONSTANTS.DISCOVERY_BACKOFF_MS,
-        circuitKey: issuer,
-        failureThreshold: OIDC_CONSTANTS.CIRCUIT_FAILURE_THRESHOLD,
-        circuitOpenMs: OIDC_CONSTANTS.CIRCUIT_OPEN_MS,
-      }
-    )) as OIDCProviderMetadata;
+    const { metadata, document } = await new MetadataDiscoveryService(
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this)
+    ).discover(issuer, (discovered) =>
+      this.matchesDiscoveredIssuer(discovered, issuer)
+    );
 
     // Validate required endpoints
     try {
@@ -404,19 +618,14 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
     }
 
     this.providerMetadata = metadata;
-
-    // Initialize token exchange service
-    this.tokenExchangeService = new TokenExchangeService(
-      this.oidcConfig,
-      this.providerMetadata,
-      this.logger,
-      this.createStandardError.bind(this),
-      this.normalizeError.bind(this)
-    );
+    this.discoveryDocument = document;
+    this.initializeServices(this.providerMetadata);
 
     this.logger.info('OIDC discovery completed successfully', {
       stage: 'discovery',
-      discoveryUrl,
+      discoveryUrl: document.url,
+      documentType: document.type,
+      documentForm: document.form,
       issuer: metadata.issuer,
       hasAuthorizationEndpoint: Boolean(metadata.authorization_endpoint),
       hasTokenEndpoint: Boolean(metadata.token_endpoint),
@@ -464,44 +673,289 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
       );
     }
     this.providerMetadata = this.oidcConfig.metadata as OIDCProviderMetadata;
+    this.initializeServices(this.providerMetadata);
+
+    // No discovery; client cannot be constructed without Issuer instance
+  }
+
+  /**
+   * Create the metadata-dependent services (ID token validation, token
+   * exchange, introspection)
+   */
+  private initializeServices(metadata: OIDCProviderMetadata): void {
+    // One JWKS cache per provider, so key rotation is only fetched once
+    this.jwsVerifier = new JwsVerifier(
+      metadata,
+      createJwksCache(
+        metadata,
+        this.oidcConfig.idTokenValidation?.jwksCacheTtlSeconds,
+        this.logger
+      ),
+      this.matchesTokenIssuer.bind(this)
+    );
+
+    let idTokenValidator: IdTokenValidator | undefined;
+    if (this.oidcConfig.idTokenValidation?.enabled === false) {
+      this.logger.warn('ID token validation is disabled by configuration', {
+        stage: 'initialize',
+        issuer: metadata.issuer,
+      });
+    } else {
+      if (!metadata.jwks_uri) {
+        // Without a JWKS only HMAC-signed ID tokens can be verified; any other
+        // ID token is rejected rather than passed through unvalidated
+        this.logger.info(
+          'Provider metadata has no jwks_uri; only ID tokens signed with the client secret can be validated',
+          { stage: 'initialize', issuer: metadata.issuer }
+        );
+      }
+      idTokenValidator = new IdTokenValidator(
+        this.oidcConfig,
+        metadata,
+        this.logger,
+        this.createStandardError.bind(this),
+        this.jwsVerifier
+      );
+    }
+
+    const clientAuthenticator = new ClientAuthenticator(
+      this.oidcConfig,
+      metadata,
+      this.logger
+    );
+    this.logger.debug('Client authentication method selected', {
+      stage: 'initialize',
+      issuer: metadata.issuer,
+      method: clientAuthenticator.method,
+      mutualTls: Boolean(this.oidcConfig.clientAuthentication?.mtls),
+    });
+
+    if (this.oidcConfig.dpop) {
+      this.dpopSigner = new DPoPProofSigner(
+        this.oidcConfig.dpop,
+        metadata,
+        this.logger
+      );
+      this.logger.debug('DPoP enabled', {
+        stage: 'initialize',
+        issuer: metadata.issuer,
+        alg: this.dpopSigner.alg,
+        jkt: this.dpopSigner.thumbprint,
+      });
+    }
+
+    this.logoutTokenValidator = new LogoutTokenValidator(
+      this.oidcConfig,
+      metadata,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.jwsVerifier
+    );
 
-    // Initialize token exchange service
     this.tokenExchangeService = new TokenExchangeService(
       this.oidcConfig,
-      this.providerMetadata,
+      metadata,
       this.logger,
       this.createStandardError.bind(this),
-      this.normalizeError.bind(this)
+      this.normalizeError.bind(this),
+      idTokenValidator,
+      clientAuthenticator,
+      this.dpopSigner
     );
 
-    // No discovery; client cannot be constructed without Issuer instance
+    this.introspectionService = new TokenIntrospectionService(
+      this.oidcConfig,
+      metadata,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this),
+      this.executeWithResilience.bind(this),
+      clientAuthenticator
+    );
+
+    this.pushedAuthorizationService = new PushedAuthorizationService(
+      this.oidcConfig,
+      metadata,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this),
+      this.executeWithResilience.bind(this),
+      clientAuthenticator
+    );
+
+    this.deviceAuthorizationService = new DeviceAuthorizationService(
+      this.oidcConfig,
+      metadata,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this),
+      this.executeWithResilience.bind(this),
+      this.tokenExchangeService,
+      clientAuthenticator
+    );
+
+    this.userInfoService = new UserInfoService(
+      this.oidcConfig,
+      metadata,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this),
+      this.executeWithResilience.bind(this),
+      clientAuthenticator,
+      this.dpopSigner,
+      this.jwsVerifier
+    );
+
+    if (
+      this.oidcConfig.pushedAuthorizationRequests === 'disabled' &&
+      metadata.require_pushed_authorization_requests
+    ) {
+      this.logger.warn(
+        'Provider requires pushed authorization requests but PAR is disabled by configuration',
+        { stage: 'initialize', issuer: metadata.issuer }
+      );
+    }
+  }
+
+  /**
+   * Generate the PKCE pair and build the authorization URL.
+   * Parameter precedence: base parameters, then config customParameters, then
+   * per-request parameters. Resource indicators are appended as repeated
+   * `resource` parameters (RFC 8707).
+   */
+  private async buildAuthorizationRequest(request: {
+    state: string;
+    redirectUrl: string;
+    scopes: string[];
+    params: Record<string, string>;
+    resources: string[];
+    stage: string;
+    codeVerifier?: string;
+  }): Promise<OIDCAuthUrlResult> {
+    // Generate PKCE pair using openid-client
+    if (!randomPKCECodeVerifier || !calculatePKCECodeChallenge) {
+      throw this.createStandardError(
+        'server_error',
+        'PKCE generators not available from openid-client',
+        { stage: request.stage }
+      );
+    }
+    const codeVerifier = request.codeVerifier ?? randomPKCECodeVerifier();
+    const codeChallenge = await calculatePKCECodeChallenge(codeVerifier);
+
+    const params = {
+      response_type: 'code',
+      scope: request.scopes.join(' '),
+      state: request.state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      redirect_uri: request.redirectUrl,
+      ...this.oidcConfig.customParameters,
+      ...request.params,
+    } as Record<string, string>;
+
+    const authEndpoint = this.providerMetadata!.authorization_endpoint;
+
+    // RFC 9126: push the parameters and reference them by request_uri
+    if (this.shouldPushAuthorizationRequest()) {
+      const pushed = new URLSearchParams({
+        client_id: this.oidcConfig.clientId,
+        ...params,
+      });
+      for (const resource of request.resources) {
+        pushed.append('resource', resource);
+      }
+      const { requestUri } =
+        await this.pushedAuthorizationService!.push(pushed);
+
+      return {
+        url: this.buildAuthorizeUrl(authEndpoint, {
+          client_id: this.oidcConfig.clientId,
+          request_uri: requestUri,
+        }),
+        codeVerifier,
+        state: request.state,
+        codeChallenge,
+        codeChallengeMethod: 'S256',
+        requestUri,
+      };
+    }
+
+    // Build authorization URL manually
+    const url = new URL(
+      this.buildAuthorizeUrl(authEndpoint, {
+        client_id: this.oidcConfig.clientId,
+        ...params,
+      })
+    );
+    for (const resource of request.resources) {
+      url.searchParams.append('resource', resource);
+    }
+
+    return {
+      url: url.toString(),
+      codeVerifier,
+      state: request.state,
+      codeChallenge,
+      codeChallengeMethod: 'S256',
+    };
   }
 
   /**
-   * Validate storage hook contract and perform lightweight health check
+   * Whether authorization requests should be pushed (RFC 9126). Providers
+   * that advertise a PAR endpoint or require PAR get pushed requests unless
+   * PAR is disabled by configuration.
    */
-  private async validateStorageHook(): Promise<void> {
-    const hook = this.storageHook;
-    const hasMethods =
-      hook &&
-      typeof hook.storePKCEState === 'function' &&
-      typeof hook.retrievePKCEState === 'function' &&
-      typeof hook.cleanupExpiredState === 'function';
-    if (!hasMethods) {
+  private shouldPushAuthorizationRequest(): boolean {
+    const mode = this.oidcConfig.pushedAuthorizationRequests ?? 'preferred';
+    if (mode === 'disabled') {
+      return false;
+    }
+    return (
+      mode === 'required' ||
+      Boolean(this.providerMetadata!.require_pushed_authorization_requests) ||
+      Boolean(this.providerMetadata!.pushed_authorization_request_endpoint)
+    );
+  }
+
+  /**
+   * Check the authorization response `iss` parameter against the provider
+   * issuer to detect mix-up attacks (RFC 9207 §2.4)
+   */
+  private validateResponseIssuer(iss: string | undefined): void {
+    const issuer = this.providerMetadata!.issuer;
+    const required =
+      this.oidcConfig.requireIssuerParameter ??
+      Boolean(
+        this.providerMetadata!.authorization_response_iss_parameter_supported
+      );
+
+    if (iss === undefined) {
+      if (!required) {
+        return;
+      }
+      this.logger.warn('Authorization response issuer missing', {
+        stage: 'handleCallback',
+        issuer,
+      });
       throw this.createStandardError(
         'invalid_request',
-        'storageHook must implement storePKCEState, retrievePKCEState, and cleanupExpiredState',
-        { stage: 'initialize' }
+        'Missing iss parameter in authorization callback',
+        { stage: 'handleCallback', issuer }
       );
     }
 
-    // Lightweight health check: ensure cleanupExpiredState resolves
-    try {
-      await hook.cleanupExpiredState(Date.now());
-    } catch (e) {
-      throw this.normalizeError(e, {
-        endpoint: 'storageHook.cleanupExpiredState',
+    if (iss !== issuer) {
+      this.logger.warn('Authorization response issuer mismatch', {
+        stage: 'handleCallback',
+        issuer,
+        received: iss,
       });
+      throw this.createStandardError(
+        'invalid_request',
+        'Authorization response issuer does not match the provider issuer',
+        { stage: 'handleCallback', issuer }
+      );
     }
   }
 
@@ -540,12 +994,14 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
    * @param code - Authorization code from callback
    * @param verifier - PKCE code verifier
    * @param redirectUrl - Redirect URL used in authorization
-   * @returns Token response
+   * @param options - ID token expectations (nonce, max_age) and resource indicators
+   * @returns Token response, including validated `idTokenClaims` when an ID token is returned
    */
   public async exchangeCode(
     code: string,
     verifier: string,
-    redirectUrl: string
+    redirectUrl: string,
+    options: OIDCExchangeCodeOptions = {}
   ): Promise<import('../../types.js').TokenResponse> {
     if (!this.initialized) {
       throw this.createStandardError(
@@ -567,16 +1023,23 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
       );
     }
 
-    return this.tokenExchangeService.exchangeCode(code, verifier, redirectUrl);
+    return this.tokenExchangeService.exchangeCode(
+      code,
+      verifier,
+      redirectUrl,
+      options
+    );
   }
 
   /**
    * Refresh access token using refresh token
    * @param refreshToken - Refresh token
+   * @param options - Resource indicators and narrowed scopes for the refreshed token
    * @returns New token response
    */
   public async refreshToken(
-    refreshToken: string
+    refreshToken: string,
+    options: OIDCRefreshTokenOptions = {}
   ): Promise<import('../../types.js').TokenResponse> {
     if (!this.initialized) {
       throw this.createStandardError(
@@ -598,7 +1061,350 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
       );
     }
 
-    return this.tokenExchangeService.refreshToken(refreshToken);
+    return this.tokenExchangeService.refreshToken(refreshToken, options);
+  }
+
+  /**
+   * Revoke an access or refresh token at the provider's revocation endpoint (RFC 7009)
+   * @param token - Token to revoke
+   * @param tokenTypeHint - Optional hint about the type of token
+   */
+  public async revokeToken(
+    token: string,
+    tokenTypeHint?: TokenTypeHint
+  ): Promise<void> {
+    if (!this.initialized) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before revoking token',
+        {
+          stage: 'revokeToken',
+        }
+      );
+    }
+
+    if (!this.tokenExchangeService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Token exchange service not initialized',
+        {
+          stage: 'revokeToken',
+        }
+      );
+    }
+
+    await this.tokenExchangeService.revokeToken(token, tokenTypeHint);
+    this.introspectionService?.forget(token);
+    this.clientCredentialsCache.forget(token);
+  }
+
+  /**
+   * Obtain an access token for the client itself (RFC 6749 §4.4), e.g. for
+   * machine-to-machine calls from an MCP server to downstream APIs. Tokens are
+   * cached in memory until shortly before they expire, and concurrent calls with
+   * the same options share a single token request.
+   * @param options - Scopes, resource indicators and audience to request
+   * @returns Token response; `expiresIn` reflects the remaining lifetime
+   */
+  public async clientCredentials(
+    options: ClientCredentialsOptions = {}
+  ): Promise<import('../../types.js').TokenResponse> {
+    if (!this.initialized || !this.tokenExchangeService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before requesting client credentials',
+        {
+          stage: 'clientCredentials',
+        }
+      );
+    }
+
+    const tokenExchangeService = this.tokenExchangeService;
+    return this.clientCredentialsCache.get(options, () =>
+      tokenExchangeService.clientCredentials(options)
+    );
+  }
+
+  /**
+   * Fetch the signed-in user's claims from the provider's UserInfo endpoint
+   * (OpenID Connect Core §5.3) and map them to a provider-independent profile.
+   * Pass the ID token's `sub` as `expectedSubject` so a response for another
+   * user is rejected.
+   * @param accessToken - Access token issued with the `openid` scope
+   * @param options - HTTP method and the expected subject
+   * @returns Normalized profile with the raw claims in `claims`
+   * @throws {OAuthError} `invalid_token` if the token is rejected or the subject does not match
+   */
+  public async fetchUserInfo(
+    accessToken: string,
+    options: UserInfoOptions = {}
+  ): Promise<UserProfile> {
+    if (!this.initialized || !this.userInfoService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before fetching UserInfo',
+        {
+          stage: 'fetchUserInfo',
+        }
+      );
+    }
+
+    return this.userInfoService.fetch(accessToken, options);
+  }
+
+  /**
+   * Build the provider URL that ends the user's session (OpenID Connect
+   * RP-Initiated Logout). Redirect the user's browser to it.
+   * @param options - ID token hint, post-logout redirect, state and logout hint
+   * @returns End-session URL
+   * @throws {OAuthError} If the provider has no `end_session_endpoint`
+   */
+  public generateLogoutUrl(options: LogoutUrlOptions = {}): string {
+    if (!this.initialized || !this.providerMetadata) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before generating a logout URL',
+        {
+          stage: 'generateLogoutUrl',
+        }
+      );
+    }
+
+    if (!this.providerMetadata.end_session_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'End session endpoint not available',
+        { stage: 'generateLogoutUrl', issuer: this.providerMetadata.issuer }
+      );
+    }
+
+    const postLogoutRedirectUri =
+      options.postLogoutRedirectUri ?? this.oidcConfig.postLogoutRedirectUri;
+    const url = this.buildAuthorizeUrl(
+      this.providerMetadata.end_session_endpoint,
+      {
+        client_id: this.oidcConfig.clientId,
+        ...(options.idTokenHint && { id_token_hint: options.idTokenHint }),
+        ...(postLogoutRedirectUri && {
+          post_logout_redirect_uri: postLogoutRedirectUri,
+        }),
+        ...(options.state && { state: options.state }),
+        ...(options.logoutHint && { logout_hint: options.logoutHint }),
+      }
+    );
+
+    this.logger.info('Generated logout URL', {
+      stage: 'generateLogoutUrl',
+      issuer: this.providerMetadata.issuer,
+      hasIdTokenHint: Boolean(options.idTokenHint),
+      postLogoutRedirectUri,
+    });
+
+    return url;
+  }
+
+  /**
+   * Validate a back-channel logout token (OpenID Connect Back-Channel Logout).
+   * Call this from the endpoint registered as the client's
+   * `backchannel_logout_uri` with the `logout_token` form parameter, then end
+   * the sessions matching `sub` and/or `sid`. Respond with 400 when it throws.
+   * @param logoutToken - Logout token JWT sent by the provider
+   * @returns Verified logout token claims
+   * @throws {OAuthError} invalid_request if the token fails validation
+   */
+  public async validateLogoutToken(
+    logoutToken: string
+  ): Promise<LogoutTokenClaims> {
+    if (!this.initialized || !this.logoutTokenValidator) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before validating a logout token',
+        {
+          stage: 'validateLogoutToken',
+        }
+      );
+    }
+
+    const claims = await this.logoutTokenValidator.validate(logoutToken);
+
+    this.logger.info('Back-channel logout token validated', {
+      stage: 'validateLogoutToken',
+      issuer: this.providerMetadata?.issuer,
+      jti: claims.jti,
+      hasSub: Boolean(claims.sub),
+      hasSid: Boolean(claims.sid),
+    });
+
+    return claims;
+  }
+
+  /**
+   * Start a device authorization (RFC 8628) for clients that cannot open a
+   * browser redirect. Show the user `verificationUri` and `userCode` (or
+   * `verificationUriComplete`), then call {@link pollDeviceAuthorization}.
+   * @param options - Scopes and resource indicators to request
+   * @returns Device and user codes, verification URI and polling interval
+   */
+  public async startDeviceAuthorization(
+    options: DeviceAuthorizationOptions = {}
+  ): Promise<DeviceAuthorizationResult> {
+    if (!this.initialized || !this.deviceAuthorizationService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before starting device authorization',
+        {
+          stage: 'startDeviceAuthorization',
+        }
+      );
+    }
+
+    return this.deviceAuthorizationService.start(options);
+  }
+
+  /**
+   * Poll the token endpoint until the user approves a device authorization
+   * @param authorization - Result of {@link startDeviceAuthorization}
+   * @param options - AbortSignal to stop polling, and resource indicators
+   * @returns Token response
+   * @throws {OAuthError} `access_denied` or `expired_token` when the user denies
+   * the request or the code expires, `invalid_request` when aborted
+   */
+  public async pollDeviceAuthorization(
+    authorization: DeviceAuthorizationResult,
+    options: DevicePollOptions = {}
+  ): Promise<import('../../types.js').TokenResponse> {
+    if (!this.initialized || !this.deviceAuthorizationService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before polling device authorization',
+        {
+          stage: 'pollDeviceAuthorization',
+        }
+      );
+    }
+
+    return this.deviceAuthorizationService.poll(authorization, options);
+  }
+
+  /**
+   * Exchange a token for one scoped to a downstream API (RFC 8693), e.g. to
+   * call another service on behalf of the user whose token the MCP server
+   * received
+   * @param options - Subject and actor tokens and the target audience, resources and scopes
+   * @returns Token response including the issued token type
+   * @throws {OAuthError} `invalid_target` when the provider rejects the audience or resource
+   */
+  public async exchangeToken(
+    options: TokenExchangeOptions
+  ): Promise<TokenExchangeResponse> {
+    if (!this.initialized || !this.tokenExchangeService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before exchanging token',
+        {
+          stage: 'exchangeToken',
+        }
+      );
+    }
+
+    return this.tokenExchangeService.exchangeToken(options);
+  }
+
+  /**
+   * Introspect a token at the provider's introspection endpoint (RFC 7662).
+   * Use this to validate opaque access tokens presented to an MCP server.
+   * @param token - Token to introspect
+   * @param tokenTypeHint - Optional hint about the type of token
+   * @returns Normalized introspection result; check `active` before trusting it
+   */
+  public async introspectToken(
+    token: string,
+    tokenTypeHint?: TokenTypeHint
+  ): Promise<TokenIntrospectionResult> {
+    if (!this.initialized || !this.introspectionService) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before introspecting token',
+        {
+          stage: 'introspectToken',
+        }
+      );
+    }
+
+    return this.introspectionService.introspect(token, tokenTypeHint);
+  }
+
+  /**
+   * Create a verifier for JWT access tokens issued by this provider (RFC 9068).
+   * Use this to validate JWT access tokens presented to an MCP server without
+   * calling the provider on every request.
+   * @param options - Expected audience (defaults to the configured `resource`),
+   * required scopes and verification settings
+   * @returns Verifier bound to the provider issuer and JWKS
+   */
+  public createAccessTokenVerifier(
+    options: AccessTokenVerifierOptions = {}
+  ): AccessTokenVerifier {
+    if (!this.initialized || !this.providerMetadata) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Adapter must be initialized before creating an access token verifier',
+        {
+          stage: 'createAccessTokenVerifier',
+        }
+      );
+    }
+
+    // Share the adapter's JWKS cache unless a different cache lifetime is asked for
+    const jws =
+      options.jwksCacheTtlSeconds === undefined && this.jwsVerifier
+        ? this.jwsVerifier
+        : new JwsVerifier(
+            this.providerMetadata,
+            createJwksCache(
+              this.providerMetadata,
+              options.jwksCacheTtlSeconds,
+              this.logger
+            ),
+            this.matchesTokenIssuer.bind(this)
+          );
+
+    const audience = options.audience ?? this.oidcConfig.resource;
+    return new AccessTokenVerifier(
+      this.providerMetadata,
+      { ...options, ...(audience && { audience }) },
+      this.logger,
+      jws
+    );
+  }
+
+  /**
+   * Create a DPoP proof for calling a protected resource with a DPoP-bound
+   * access token (RFC 9449 §7). Send it in the `DPoP` header alongside
+   * `Authorization: DPoP <token>`.
+   * @param method - HTTP method of the request
+   * @param url - Request URL
+   * @param accessToken - DPoP-bound access token sent with the request
+   * @returns Compact serialized proof
+   */
+  public createDPoPProof(
+    method: string,
+    url: string,
+    accessToken?: string
+  ): string {
+    if (!this.initialized || !this.dpopSigner) {
+      throw this.createStandardError(
+        'invalid_request',
+        this.initialized
+          ? 'DPoP is not enabled for this adapter'
+          : 'Adapter must be initialized before creating a DPoP proof',
+        {
+          stage: 'createDPoPProof',
+        }
+      );
+    }
+
+    return this.dpopSigner.createProof(method, url, accessToken);
   }
 
   /**
@@ -620,6 +1426,15 @@ export class OIDCProviderAdapter extends BaseOAuthAdapter {
       requiresPKCE: true, // OIDC always requires PKCE for security
       supportsRefreshTokens,
       customParameters,
+      // No registered metadata field advertises RFC 8707 support
+      supportsResourceIndicators:
+        this.oidcConfig.supportsResourceIndicators ?? false,
+      supportsRevocation: !!this.providerMetadata?.revocation_endpoint,
+      supportsPushedAuthorization:
+        !!this.providerMetadata?.pushed_authorization_request_endpoint,
+      supportsDeviceAuthorization:
+        !!this.providerMetadata?.device_authorization_endpoint,
+      supportsLogout: !!this.providerMetadata?.end_session_endpoint,
     };
   }
 }
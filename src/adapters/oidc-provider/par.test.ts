@@ -0,0 +1,146 @@
+/**
+ * Pushed authorization request unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { PushedAuthorizationService } from './par.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import type { OIDCProviderConfig } from './types.js';
+
+describe('PushedAuthorizationService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const parEndpoint = 'https://auth.example.com/oauth/par';
+  const metadata = {
+    ...oidcMetadata.minimal,
+    pushed_authorization_request_endpoint: parEndpoint,
+  };
+
+  const createService = (
+    providerMetadata: Record<string, unknown> = metadata
+  ) => {
+    const {
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+    } = createServiceDependencies(metadata.issuer);
+    return new PushedAuthorizationService(
+      {
+        clientId: 'test-client-id',
+        clientSecret: 'test-secret',
+        scopes: ['openid'],
+      } as OIDCProviderConfig,
+      providerMetadata as any,
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience
+    );
+  };
+
+  const params = () =>
+    new URLSearchParams({
+      response_type: 'code',
+      state: 'state-1',
+      resource: 'https://mcp.example.com',
+    });
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  it('should push parameters with client authentication', async function () {
+    fetchStub.resolves(
+      jsonResponse(
+        {
+          request_uri: 'urn:ietf:params:oauth:request_uri:abc',
+          expires_in: 60,
+        },
+        201
+      )
+    );
+
+    const result = await createService().push(params());
+
+    expect(result).to.deep.equal({
+      requestUri: 'urn:ietf:params:oauth:request_uri:abc',
+      expiresIn: 60,
+    });
+    const [url, options] = fetchStub.firstCall.args;
+    expect(url).to.equal(parEndpoint);
+    expect(options.headers.Authorization).to.equal(
+      `Basic ${Buffer.from('test-client-id:test-secret').toString('base64')}`
+    );
+    const body = new URLSearchParams(options.body);
+    expect(body.get('state')).to.equal('state-1');
+    expect(body.get('resource')).to.equal('https://mcp.example.com');
+    expect(body.get('client_id')).to.equal('test-client-id');
+  });
+
+  it('should surface provider errors without retrying', async function () {
+    fetchStub.resolves(
+      jsonResponse(
+        { error: 'invalid_request', error_description: 'Bad redirect_uri' },
+        400
+      )
+    );
+
+    await expectOAuthError(
+      () => createService().push(params()),
+      'invalid_request',
+      'Bad redirect_uri'
+    );
+    expect(fetchStub.callCount).to.equal(1);
+  });
+
+  it('should reject responses without a request_uri', async function () {
+    fetchStub.resolves(jsonResponse({ expires_in: 60 }, 201));
+
+    await expectOAuthError(
+      () => createService().push(params()),
+      'server_error',
+      'missing request_uri'
+    );
+  });
+
+  it('should retry server errors before failing', async function () {
+    this.timeout(5000);
+    fetchStub.resolves({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+    });
+
+    await expectOAuthError(
+      () => createService().push(params()),
+      'server_error',
+      'Pushed authorization request failed: 503'
+    );
+    expect(fetchStub.callCount).to.equal(3);
+  });
+
+  it('should fail when the provider has no PAR endpoint', async function () {
+    await expectOAuthError(
+      () => createService(oidcMetadata.minimal).push(params()),
+      'invalid_request',
+      'Pushed authorization request endpoint not available'
+    );
+    expect(fetchStub.called).to.be.false;
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Pushed authorization requests for OIDC Provider Adapter
+ * Implements RFC 9126
+ */
+
+import type { OAuthError } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { ResilienceContext } from '../../utils/resilience-manager.js';
+import { readString } from '../../utils/json-response.js';
+import type {
+  OIDCProviderConfig,
+  OIDCProviderMetadata,
+  PushedAuthorizationResult,
+} from './types.js';
+import { isNormalizedOAuthError } from './utils.js';
+import { ClientAuthenticator } from './client-auth.js';
+
+/**
+ * Pushed authorization request service
+ *
+ * Sends the authorization request parameters to the provider over the back
+ * channel with client authentication, so the front-channel URL only carries
+ * `client_id` and the returned `request_uri`.
+ */
+export class PushedAuthorizationService {
+  constructor(
+    private readonly config: OIDCProviderConfig,
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context?: any
+    ) => OAuthError,
+    private readonly executeWithResilience: <T>(
+      operation: () => Promise<T>,
+      context: ResilienceContext
+    ) => Promise<T>,
+    private readonly clientAuthenticator = new ClientAuthenticator(
+      config,
+      metadata,
+      logger
+    )
+  ) {}
+
+  /**
+   * Push authorization request parameters to the provider
+   * @param params - Authorization request parameters (client_id is added)
+   * @returns request_uri to reference from the authorization URL and its lifetime
+   * @throws {OAuthError} If the endpoint is unavailable or the request is rejected
+   */
+  async push(params: URLSearchParams): Promise<PushedAuthorizationResult> {
+    if (!this.metadata.pushed_authorization_request_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Pushed authorization request endpoint not available',
+        {
+          stage: 'pushAuthorizationRequest',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    const endpoint = this.clientAuthenticator.endpoint(
+      'pushed_authorization_request_endpoint',
+      this.metadata.pushed_authorization_request_endpoint
+    );
+
+    try {
+      this.logger.debug('Pushing authorization request', {
+        stage: 'pushAuthorizationRequest',
+        issuer: this.metadata.issuer,
+        endpoint,
+      });
+
+      const response = await this.executeWithResilience(
+        () =>
+          this.clientAuthenticator.postForm(
+            endpoint,
+            params,
+            'Pushed authorization request'
+          ),
+        {
+          endpoint: 'pushed_authorization_request_endpoint',
+          circuitKey: endpoint,
+        }
+      );
+
+      if (!response.ok) {
+        throw this.createStandardError(
+          readString(response.body, 'error') || 'server_error',
+          readString(response.body, 'error_description') ||
+            `Pushed authorization request failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'pushAuthorizationRequest',
+            issuer: this.metadata.issuer,
+            endpoint: 'pushed_authorization_request_endpoint',
+          }
+        );
+      }
+
+      const requestUri = readString(response.body, 'request_uri');
+      const expiresIn = response.body?.expires_in;
+      if (!requestUri || typeof expiresIn !== 'number') {
+        throw this.createStandardError(
+          'server_error',
+          'Invalid pushed authorization response: missing request_uri or expires_in',
+          {
+            stage: 'pushAuthorizationRequest',
+            issuer: this.metadata.issuer,
+            endpoint: 'pushed_authorization_request_endpoint',
+          }
+        );
+      }
+
+      this.logger.debug('Authorization request pushed', {
+        stage: 'pushAuthorizationRequest',
+        issuer: this.metadata.issuer,
+        endpoint,
+        expiresIn,
+      });
+
+      return { requestUri, expiresIn };
+    } catch (error) {
+      this.logger.error('Pushed authorization request failed', {
+        stage: 'pushAuthorizationRequest',
+        issuer: this.metadata.issuer,
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'pushed_authorization_request_endpoint',
+      });
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Protected resource metadata helper unit tests
+ */
+
+import { expect } from 'chai';
+import {
+  buildWWWAuthenticateHeader,
+  createProtectedResourceMetadata,
+  getProtectedResourceMetadataUrl,
+  parseWWWAuthenticateHeader,
+} from './protected-resource.js';
+import { createTestAdapter } from '../../testUtils/testHelpers.js';
+
+describe('Protected resource metadata', function () {
+  const resource = 'https://mcp.example.com/mcp';
+
+  describe('createProtectedResourceMetadata', function () {
+    it('should point at the adapter issuer', async function () {
+      const adapter = createTestAdapter();
+      await adapter.initialize();
+
+      const metadata = createProtectedResourceMetadata(adapter, {
+        resource,
+        scopesSupported: ['mcp:tools'],
+        resourceName: 'Example MCP',
+        resourceDocumentation: 'https://mcp.example.com/docs',
+        additionalMetadata: { resource_policy_uri: 'https://x.example/p' },
+      });
+
+      expect(metadata).to.deep.equal({
+        resource_policy_uri: 'https://x.example/p',
+        resource,
+        authorization_servers: ['https://auth.example.com'],
+        bearer_methods_supported: ['header'],
+        scopes_supported: ['mcp:tools'],
+        resource_name: 'Example MCP',
+        resource_documentation: 'https://mcp.example.com/docs',
+      });
+    });
+
+    it('should require an initialized adapter', function () {
+      expect(() =>
+        createProtectedResourceMetadata(createTestAdapter(), { resource })
+      )
+        .to.throw()
+        .with.property('error_description')
+        .that.includes('must be initialized');
+    });
+
+    it('should reject resources with fragments', async function () {
+      const adapter = createTestAdapter();
+      await adapter.initialize();
+
+      expect(() =>
+        createProtectedResourceMetadata(adapter, {
+          resource: `${resource}#frag`,
+        })
+      )
+        .to.throw()
+        .with.property('error', 'invalid_request');
+    });
+  });
+
+  describe('getProtectedResourceMetadataUrl', function () {
+    it('should insert the well-known path before the resource path', function () {
+      expect(getProtectedResourceMetadataUrl(resource)).to.equal(
+        'https://mcp.example.com/.well-known/oauth-protected-resource/mcp'
+      );
+      expect(
+        getProtectedResourceMetadataUrl('https://mcp.example.com/')
+      ).to.equal(
+        'https://mcp.example.com/.well-known/oauth-protected-resource'
+      );
+    });
+
+    it('should reject relative resources', function () {
+      expect(() => getProtectedResourceMetadataUrl('/mcp'))
+        .to.throw()
+        .with.property('error', 'invalid_request');
+    });
+  });
+
+  describe('buildWWWAuthenticateHeader', function () {
+    const resourceMetadataUrl =
+      'https://mcp.example.com/.well-known/oauth-protected-resource/mcp';
+
+    it('should build a 401 challenge', function () {
+      expect(buildWWWAuthenticateHeader({ resourceMetadataUrl })).to.equal(
+        `Bearer resource_metadata="${resourceMetadataUrl}"`
+      );
+    });
+
+    it('should build an insufficient_scope challenge with escaped values', function () {
+      expect(
+        buildWWWAuthenticateHeader({
+          resourceMetadataUrl,
+          realm: 'mcp',
+          error: 'insufficient_scope',
+          errorDescription: 'Needs "write" access',
+          scope: ['mcp:read', 'mcp:write'],
+        })
+      ).to.equal(
+        `Bearer realm="mcp", resource_metadata="${resourceMetadataUrl}", error="insufficient_scope", error_description="Needs \\"write\\" access", scope="mcp:read mcp:write"`
+      );
+    });
+  });
+
+  describe('parseWWWAuthenticateHeader', function () {
+    it('should round-trip a built challenge', function () {
+      const header = buildWWWAuthenticateHeader({
+        resourceMetadataUrl: 'https://mcp.example.com/.well-known/x',
+        error: 'invalid_token',
+        errorDescription: 'Token "expired"',
+        scope: ['a', 'b'],
+      });
+
+      const [challenge] = parseWWWAuthenticateHeader(header);
+
+      expect(challenge).to.deep.include({
+        scheme: 'Bearer',
+        resourceMetadata: 'https://mcp.example.com/.well-known/x',
+        error: 'invalid_token',
+        errorDescription: 'Token "expired"',
+        scope: ['a', 'b'],
+      });
+    });
+
+    it('should parse multiple challenges, token params and token68', function () {
+      const challenges = parseWWWAuthenticateHeader(
+        'Basic dXNlcjpwYXNz==, DPoP algs="ES256 RS256", Bearer Realm=api, error=invalid_token, Negotiate'
+      );
+
+      expect(challenges).to.deep.equal([
+        { scheme: 'Basic', params: {}, token68: 'dXNlcjpwYXNz==' },
+        { scheme: 'DPoP', params: { algs: 'ES256 RS256' } },
+        {
+          scheme: 'Bearer',
+          params: { realm: 'api', error: 'invalid_token' },
+          error: 'invalid_token',
+        },
+        { scheme: 'Negotiate', params: {} },
+      ]);
+    });
+
+    it('should reject malformed headers', function () {
+      expect(() => parseWWWAuthenticateHeader('Bearer error="open'))
+        .to.throw()
+        .with.property('error', 'invalid_request');
+      expect(() => parseWWWAuthenticateHeader('"Bearer"'))
+        .to.throw()
+        .with.property('error', 'invalid_request');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Protected resource metadata helpers for MCP servers
+ * Implements RFC 9728 metadata documents and WWW-Authenticate challenges
+ */
+
+import type { OAuthError } from '../../types.js';
+import { ErrorNormalizer } from '../../utils/error-normalizer.js';
+import type { OIDCProviderAdapter } from './oidc-adapter.js';
+import type {
+  ProtectedResourceMetadata,
+  ProtectedResourceMetadataOptions,
+  WWWAuthenticateChallenge,
+  WWWAuthenticateOptions,
+} from './types.js';
+import { normalizeResourceIndicators } from './utils.js';
+
+/**
+ * Well-known path for protected resource metadata (RFC 9728 §3)
+ */
+const PROTECTED_RESOURCE_WELL_KNOWN = '/.well-known/oauth-protected-resource';
+
+/**
+ * RFC 7230 token characters
+ */
+const TOKEN_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+/;
+
+/**
+ * RFC 7235 token68 characters
+ */
+const TOKEN68_PATTERN = /^[A-Za-z0-9\-._~+/]+=*/;
+
+/**
+ * Build the RFC 9728 metadata document for an MCP server protected by the
+ * adapter's authorization server
+ * @param adapter - Initialized adapter for the authorization server
+ * @param options - Resource identifier and optional resource metadata
+ * @returns Metadata to serve at {@link getProtectedResourceMetadataUrl}
+ * @throws {OAuthError} If the adapter is not initialized or the resource is invalid
+ */
+export function createProtectedResourceMetadata(
+  adapter: OIDCProviderAdapter,
+  options: ProtectedResourceMetadataOptions
+): ProtectedResourceMetadata {
+  const providerMetadata = adapter.getProviderMetadata();
+  if (!providerMetadata) {
+    throw invalidRequest(
+      'Adapter must be initialized before creating protected resource metadata'
+    );
+  }
+
+  validateResource(options.resource);
+
+  return {
+    ...options.additionalMetadata,
+    resource: options.resource,
+    authorization_servers: [providerMetadata.issuer],
+    bearer_methods_supported: options.bearerMethodsSupported ?? ['header'],
+    ...(options.scopesSupported && {
+      scopes_supported: options.scopesSupported,
+    }),
+    ...(options.resourceName && { resource_name: options.resourceName }),
+    ...(options.resourceDocumentation && {
+      resource_documentation: options.resourceDocumentation,
+    }),
+  };
+}
+
+/**
+ * Get the well-known URL for a resource's metadata. The well-known path is
+ * inserted between the host and any path component (RFC 9728 §3.1).
+ * @param resource - Protected resource identifier
+ * @returns Metadata URL
+ * @throws {OAuthError} If the resource is not an absolute URI without a fragment
+ */
+export function getProtectedResourceMetadataUrl(resource: string): string {
+  validateResource(resource);
+
+  const url = new URL(resource);
+  const path = url.pathname.replace(/\/+$/, '');
+  return `${url.origin}${PROTECTED_RESOURCE_WELL_KNOWN}${path}${url.search}`;
+}
+
+/**
+ * Build a WWW-Authenticate challenge for 401/403 responses (RFC 6750 §3, RFC 9728 §5.1)
+ * @param options - Metadata URL, error and required scopes
+ * @returns Header value, e.g. `Bearer resource_metadata="…", error="invalid_token"`
+ */
+export function buildWWWAuthenticateHeader(
+  options: WWWAuthenticateOptions
+): string {
+  const params: Array<[string, string]> = [];
+  if (options.realm) params.push(['realm', options.realm]);
+  params.push(['resource_metadata', options.resourceMetadataUrl]);
+  if (options.error) params.push(['error', options.error]);
+  if (options.errorDescription) {
+    params.push(['error_description', options.errorDescription]);
+  }
+  if (options.scope && options.scope.length > 0) {
+    params.push(['scope', options.scope.join(' ')]);
+  }
+
+  const formatted = params
+    .map(([name, value]) => `${name}="${value.replace(/["\\]/g, '\\$&')}"`)
+    .join(', ');
+  return `${options.scheme ?? 'Bearer'} ${formatted}`;
+}
+
+/**
+ * Parse a WWW-Authenticate header into its challenges (RFC 7235 §4.1)
+ * @param header - Header value, possibly containing several challenges
+ * @returns Challenges in header order; parameter names are lower-cased
+ * @throws {OAuthError} If the header is malformed
+ */
+export function parseWWWAuthenticateHeader(
+  header: string
+): WWWAuthenticateChallenge[] {
+  const challenges: WWWAuthenticateChallenge[] = [];
+  let rest = header;
+
+  const skip = (pattern: RegExp) => {
+    rest = rest.replace(pattern, '');
+  };
+
+  skip(/^[\s,]+/);
+  while (rest.length > 0) {
+    const scheme = TOKEN_PATTERN.exec(rest)?.[0];
+    if (!scheme) {
+      throw invalidRequest(`Malformed WWW-Authenticate header: ${header}`);
+    }
+    rest = rest.slice(scheme.length);
+
+    const challenge: WWWAuthenticateChallenge = { scheme, params: {} };
+    challenges.push(challenge);
+    skip(/^[ \t]+/);
+
+    // token68 form, e.g. `Basic dXNlcg==`
+    const token68 = TOKEN68_PATTERN.exec(rest)?.[0];
+    if (token68 && /^[ \t]*(,|$)/.test(rest.slice(token68.length))) {
+      challenge.token68 = token68;
+      rest = rest.slice(token68.length);
+      skip(/^[\s,]+/);
+      continue;
+    }
+
+    // auth-param list; stops at the next challenge's scheme
+    while (rest.length > 0) {
+      const match = /^([!#$%&'*+\-.^_`|~0-9A-Za-z]+)[ \t]*=[ \t]*/.exec(rest);
+      if (!match) {
+        break;
+      }
+      rest = rest.slice(match[0].length);
+
+      let value: string;
+      if (rest.startsWith('"')) {
+        const quoted = /^"((?:[^"\\]|\\.)*)"/.exec(rest);
+        if (!quoted) {
+          throw invalidRequest(`Malformed WWW-Authenticate header: ${header}`);
+        }
+        value = quoted[1]!.replace(/\\(.)/g, '$1');
+        rest = rest.slice(quoted[0].length);
+      } else {
+        value = TOKEN_PATTERN.exec(rest)?.[0] ?? '';
+        rest = rest.slice(value.length);
+      }
+      challenge.params[match[1]!.toLowerCase()] = value;
+      skip(/^[\s,]+/);
+    }
+    skip(/^[\s,]+/);
+
+    const { params } = challenge;
+    if (params.resource_metadata) {
+      challenge.resourceMetadata = params.resource_metadata;
+    }
+    if (params.error) challenge.error = params.error;
+    if (params.error_description) {
+      challenge.errorDescription = params.error_description;
+    }
+    if (params.scope) {
+      challenge.scope = params.scope.split(' ').filter(Boolean);
+    }
+  }
+
+  return challenges;
+}
+
+/**
+ * Validate a resource identifier (absolute URI, no fragment)
+ */
+function validateResource(resource: string): void {
+  try {
+    normalizeResourceIndicators(resource);
+  } catch (error) {
+    throw invalidRequest(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Build an invalid_request error
+ */
+function invalidRequest(description: string): OAuthError {
+  return ErrorNormalizer.normalizeError(
+    {
+      error: 'invalid_request',
+      error_description: description,
+      statusCode: 400,
+    },
+    {}
+  );
+}
@@ -6,8 +6,16 @@
 import { expect } from 'chai';
 import sinon from 'sinon';
 import { TokenExchangeService } from './token-exchange.js';
+import { DPoPProofSigner } from './dpop.js';
+import { decodeJwt } from './jwt.js';
 import { oidcMetadata } from '../../fixtures/test-data.js';
 import { setupSinonStubs } from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import {
+  clientCertificate,
+  serverCertificate,
+  startTlsServer,
+} from '../../testUtils/tls.js';
 
 describe('TokenExchangeService', function () {
   let restoreStubs: () => void;
@@ -22,6 +30,8 @@ describe('TokenExchangeService', function () {
     scopes: ['openid', 'profile', 'email'],
     clientSecret: undefined,
     customParameters: {},
+    // ID token validation is covered separately with a validator stub
+    idTokenValidation: { enabled: false },
   };
 
   const mockMetadata = oidcMetadata.minimal;
@@ -242,6 +252,34 @@ describe('TokenExchangeService', function () {
       }
     });
 
+    it('should read Okta-style error payloads', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        json: sinon.stub().resolves({
+          errorCode: 'E0000047',
+          errorSummary:
+            'API call exceeded rate limit due to too many requests.',
+          errorCauses: [],
+        }),
+      });
+
+      try {
+        await service.exchangeCode(
+          'auth-code',
+          'test-verifier',
+          'https://example.com/callback'
+        );
+        expect.fail('Expected to throw');
+      } catch {
+        expect(createStandardErrorStub.firstCall.args[0]).to.equal('E0000047');
+        expect(createStandardErrorStub.firstCall.args[1]).to.equal(
+          'API call exceeded rate limit due to too many requests.'
+        );
+      }
+    });
+
     it('should handle network errors', async function () {
       fetchStub.rejects(new Error('Network error'));
 
@@ -415,6 +453,566 @@ describe('TokenExchangeService', function () {
     });
   });
 
+  describe('clientCredentials', function () {
+    it('should request a token with the client credentials grant', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          access_token: 'service-token',
+          token_type: 'Bearer',
+          expires_in: 300,
+        }),
+      });
+
+      const result = await service.clientCredentials({
+        scopes: ['read:data', 'write:data'],
+        resource: ['https://api.example.com', 'https://files.example.com'],
+        audience: 'downstream-api',
+      });
+
+      expect(result.accessToken).to.equal('service-token');
+      expect(result.expiresIn).to.equal(300);
+      expect(result.scope).to.equal('read:data write:data');
+      expect(result.refreshToken).to.be.undefined;
+
+      const [url, options] = fetchStub.firstCall.args;
+      expect(url).to.equal('https://auth.example.com/oauth/token');
+      const body = new URLSearchParams(options.body);
+      expect(body.get('grant_type')).to.equal('client_credentials');
+      expect(body.get('scope')).to.equal('read:data write:data');
+      expect(body.get('audience')).to.equal('downstream-api');
+      expect(body.getAll('resource')).to.deep.equal([
+        'https://api.example.com',
+        'https://files.example.com',
+      ]);
+    });
+
+    it('should omit scope when none is requested', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({ access_token: 'service-token' }),
+      });
+
+      const result = await service.clientCredentials();
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect([...body.keys()]).to.deep.equal(['grant_type', 'client_id']);
+      expect(result.scope).to.equal('');
+    });
+
+    it('should surface unauthorized_client errors', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: sinon.stub().resolves({
+          error: 'unauthorized_client',
+          error_description: 'Grant type not allowed for this client',
+        }),
+      });
+
+      try {
+        await service.clientCredentials();
+        expect.fail('Expected to throw');
+      } catch {
+        expect(
+          createStandardErrorStub.firstCall.args.slice(0, 2)
+        ).to.deep.equal([
+          'unauthorized_client',
+          'Grant type not allowed for this client',
+        ]);
+      }
+    });
+
+    it('should normalize network failures', async function () {
+      fetchStub.rejects(new Error('socket hang up'));
+
+      try {
+        await service.clientCredentials();
+        expect.fail('Expected to throw');
+      } catch (error: any) {
+        expect(error.error_description).to.equal('socket hang up');
+        expect(normalizeErrorStub.firstCall.args[1]).to.deep.equal({
+          endpoint: 'token_endpoint',
+        });
+      }
+    });
+  });
+
+  describe('exchangeToken', function () {
+    const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+    it('should exchange a subject token for a downstream token', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          access_token: 'downstream-token',
+          issued_token_type: ACCESS_TOKEN_TYPE,
+          token_type: 'Bearer',
+          expires_in: 600,
+          scope: 'reports:read',
+        }),
+      });
+
+      const result = await service.exchangeToken({
+        subjectToken: 'user-token',
+        actorToken: 'mcp-server-token',
+        audience: ['reports-api', 'files-api'],
+        resource: 'https://reports.example.com',
+        scopes: ['reports:read'],
+        requestedTokenType: ACCESS_TOKEN_TYPE,
+      });
+
+      expect(result).to.include({
+        accessToken: 'downstream-token',
+        issuedTokenType: ACCESS_TOKEN_TYPE,
+        tokenType: 'Bearer',
+        expiresIn: 600,
+        scope: 'reports:read',
+      });
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.get('grant_type')).to.equal(
+        'urn:ietf:params:oauth:grant-type:token-exchange'
+      );
+      expect(body.get('subject_token')).to.equal('user-token');
+      expect(body.get('subject_token_type')).to.equal(ACCESS_TOKEN_TYPE);
+      expect(body.get('actor_token')).to.equal('mcp-server-token');
+      expect(body.get('actor_token_type')).to.equal(ACCESS_TOKEN_TYPE);
+      expect(body.get('requested_token_type')).to.equal(ACCESS_TOKEN_TYPE);
+      expect(body.get('scope')).to.equal('reports:read');
+      expect(body.getAll('audience')).to.deep.equal([
+        'reports-api',
+        'files-api',
+      ]);
+      expect(body.getAll('resource')).to.deep.equal([
+        'https://reports.example.com',
+      ]);
+    });
+
+    it('should send only the required parameters by default', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          access_token: 'downstream-token',
+          issued_token_type: ACCESS_TOKEN_TYPE,
+        }),
+      });
+
+      await service.exchangeToken({
+        subjectToken: 'id-token',
+        subjectTokenType: 'urn:ietf:params:oauth:token-type:id_token',
+      });
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect([...body.keys()]).to.deep.equal([
+        'grant_type',
+        'subject_token',
+        'subject_token_type',
+        'client_id',
+      ]);
+      expect(body.get('subject_token_type')).to.equal(
+        'urn:ietf:params:oauth:token-type:id_token'
+      );
+    });
+
+    it('should describe invalid_target errors without a description', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: sinon.stub().resolves({ error: 'invalid_target' }),
+      });
+
+      try {
+        await service.exchangeToken({
+          subjectToken: 'user-token',
+          audience: 'unknown-api',
+        });
+        expect.fail('Expected to throw');
+      } catch {
+        expect(
+          createStandardErrorStub.firstCall.args.slice(0, 2)
+        ).to.deep.equal([
+          'invalid_target',
+          'The requested audience or resource is invalid, unknown or not allowed',
+        ]);
+      }
+    });
+
+    it('should fall back to the HTTP status for unknown errors', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+        json: sinon.stub().resolves({ error: 'policy_violation' }),
+      });
+
+      try {
+        await service.exchangeToken({ subjectToken: 'user-token' });
+        expect.fail('Expected to throw');
+      } catch {
+        expect(
+          createStandardErrorStub.firstCall.args.slice(0, 2)
+        ).to.deep.equal([
+          'policy_violation',
+          'Token exchange failed: 403 Forbidden',
+        ]);
+      }
+    });
+
+    it('should require issued_token_type in the response', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({ access_token: 'downstream-token' }),
+      });
+
+      try {
+        await service.exchangeToken({ subjectToken: 'user-token' });
+        expect.fail('Expected to throw');
+      } catch {
+        expect(
+          createStandardErrorStub.firstCall.args.slice(0, 2)
+        ).to.deep.equal([
+          'server_error',
+          'Missing access_token or issued_token_type in provider response',
+        ]);
+      }
+    });
+
+    it('should normalize network failures', async function () {
+      fetchStub.rejects(new Error('socket hang up'));
+
+      try {
+        await service.exchangeToken({ subjectToken: 'user-token' });
+        expect.fail('Expected to throw');
+      } catch (error: any) {
+        expect(error.error_description).to.equal('socket hang up');
+      }
+    });
+  });
+
+  describe('revokeToken', function () {
+    const revocationEndpoint = 'https://auth.example.com/oauth/revoke';
+
+    beforeEach(function () {
+      service = new TokenExchangeService(
+        { ...mockConfig, clientSecret: 'test-secret' } as any,
+        { ...mockMetadata, revocation_endpoint: revocationEndpoint } as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub
+      );
+    });
+
+    it('should post the token with client authentication', async function () {
+      fetchStub.resolves({ ok: true, status: 200 });
+
+      await service.revokeToken('test-access-token', 'access_token');
+
+      const [url, options] = fetchStub.firstCall.args;
+      expect(url).to.equal(revocationEndpoint);
+      expect(options.headers.Authorization).to.equal(
+        `Basic ${Buffer.from('test-client-id:test-secret').toString('base64')}`
+      );
+      const body = new URLSearchParams(options.body);
+      expect(body.get('token')).to.equal('test-access-token');
+      expect(body.get('token_type_hint')).to.equal('access_token');
+      expect(body.get('client_id')).to.equal('test-client-id');
+    });
+
+    it('should omit token_type_hint when not given', async function () {
+      fetchStub.resolves({ ok: true, status: 200 });
+
+      await service.revokeToken('test-token');
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.has('token_type_hint')).to.be.false;
+    });
+
+    it('should surface provider errors', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 400,
+        json: sinon.stub().resolves({
+          error: 'unsupported_token_type',
+          error_description: 'Access tokens cannot be revoked',
+        }),
+      });
+
+      try {
+        await service.revokeToken('test-token', 'access_token');
+        expect.fail('Expected to throw');
+      } catch {
+        expect(createStandardErrorStub.firstCall.args[0]).to.equal(
+          'unsupported_token_type'
+        );
+        expect(createStandardErrorStub.firstCall.args[1]).to.equal(
+          'Access tokens cannot be revoked'
+        );
+        expect(createStandardErrorStub.firstCall.args[2].endpoint).to.equal(
+          'revocation_endpoint'
+        );
+      }
+    });
+
+    it('should fall back to the status when the error body is not JSON', async function () {
+      fetchStub.resolves({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        json: sinon.stub().rejects(new SyntaxError('Unexpected token')),
+      });
+
+      try {
+        await service.revokeToken('test-token');
+        expect.fail('Expected to throw');
+      } catch {
+        expect(createStandardErrorStub.firstCall.args[0]).to.equal(
+          'server_error'
+        );
+        expect(createStandardErrorStub.firstCall.args[1]).to.equal(
+          'Token revocation failed: 503 Service Unavailable'
+        );
+      }
+    });
+
+    it('should normalize network errors', async function () {
+      fetchStub.rejects(new Error('Network down'));
+
+      try {
+        await service.revokeToken('test-token');
+        expect.fail('Expected to throw');
+      } catch {
+        expect(normalizeErrorStub.calledOnce).to.be.true;
+        expect(normalizeErrorStub.firstCall.args[1]).to.deep.equal({
+          endpoint: 'revocation_endpoint',
+        });
+      }
+    });
+
+    it('should fail when the provider has no revocation endpoint', async function () {
+      service = new TokenExchangeService(
+        mockConfig as any,
+        mockMetadata as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub
+      );
+
+      try {
+        await service.revokeToken('test-token');
+        expect.fail('Expected to throw');
+      } catch (error: any) {
+        expect(error.error).to.equal('invalid_request');
+        expect(error.error_description).to.equal(
+          'Token revocation is not supported: revocation endpoint not available'
+        );
+        expect(fetchStub.called).to.be.false;
+      }
+    });
+  });
+
+  describe('client authentication', function () {
+    it('should use the negotiated method on token requests', async function () {
+      service = new TokenExchangeService(
+        { ...mockConfig, clientSecret: 'test-secret' } as any,
+        {
+          ...mockMetadata,
+          token_endpoint_auth_methods_supported: ['client_secret_post'],
+        } as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub
+      );
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({ access_token: 'new-access-token' }),
+      });
+
+      await service.refreshToken('old-refresh-token');
+
+      const [, options] = fetchStub.firstCall.args;
+      expect(options.headers).to.not.have.property('Authorization');
+      const body = new URLSearchParams(options.body);
+      expect(body.get('client_secret')).to.equal('test-secret');
+    });
+
+    it('should send token requests to the mTLS alias over mutual TLS', async function () {
+      const server = await startTlsServer(() => ({
+        body: { access_token: 'bound-access-token', token_type: 'Bearer' },
+      }));
+
+      try {
+        service = new TokenExchangeService(
+          {
+            ...mockConfig,
+            clientAuthentication: {
+              mtls: { ...clientCertificate, ca: serverCertificate.cert },
+            },
+          } as any,
+          {
+            ...mockMetadata,
+            mtls_endpoint_aliases: { token_endpoint: `${server.url}/token` },
+          } as any,
+          { ...loggerStub, warn: sinon.stub() },
+          createStandardErrorStub,
+          normalizeErrorStub
+        );
+
+        const result = await service.refreshToken('old-refresh-token');
+
+        expect(result.accessToken).to.equal('bound-access-token');
+        expect(fetchStub.called).to.be.false;
+        expect(server.requests[0]!.path).to.equal('/token');
+        expect(server.requests[0]!.body.get('refresh_token')).to.equal(
+          'old-refresh-token'
+        );
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe('DPoP', function () {
+    let signer: DPoPProofSigner;
+
+    beforeEach(function () {
+      signer = new DPoPProofSigner({}, mockMetadata as any);
+      loggerStub.debug = sinon.stub();
+      loggerStub.warn = sinon.stub();
+      service = new TokenExchangeService(
+        mockConfig as any,
+        mockMetadata as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub,
+        undefined,
+        undefined,
+        signer
+      );
+    });
+
+    it('should attach a proof and return the DPoP token type', async function () {
+      fetchStub.resolves(
+        jsonResponse({ access_token: 'dpop-token', token_type: 'DPoP' })
+      );
+
+      const result = await service.exchangeCode(
+        'test-code',
+        'test-verifier',
+        'https://example.com/callback'
+      );
+
+      expect(result.tokenType).to.equal('DPoP');
+      const [, options] = fetchStub.firstCall.args;
+      const proof = decodeJwt(options.headers.DPoP);
+      expect(proof.header.jwk).to.deep.equal(signer.publicJwk);
+      expect(proof.payload).to.include({
+        htm: 'POST',
+        htu: mockMetadata.token_endpoint,
+      });
+      expect(loggerStub.warn.called).to.be.false;
+    });
+
+    it('should retry once with the server nonce on use_dpop_nonce', async function () {
+      fetchStub
+        .onFirstCall()
+        .resolves(
+          jsonResponse({ error: 'use_dpop_nonce' }, 400, {
+            'DPoP-Nonce': 'nonce-1',
+          })
+        )
+        .onSecondCall()
+        .resolves(
+          jsonResponse({ access_token: 'dpop-token', token_type: 'DPoP' })
+        );
+
+      const result = await service.refreshToken('old-refresh-token');
+
+      expect(result.accessToken).to.equal('dpop-token');
+      expect(fetchStub.callCount).to.equal(2);
+      const first = decodeJwt(fetchStub.firstCall.args[1].headers.DPoP);
+      const second = decodeJwt(fetchStub.secondCall.args[1].headers.DPoP);
+      expect(first.payload).to.not.have.property('nonce');
+      expect(second.payload.nonce).to.equal('nonce-1');
+      expect(second.payload.jti).to.not.equal(first.payload.jti);
+    });
+
+    it('should send a fresh client assertion on the nonce retry', async function () {
+      service = new TokenExchangeService(
+        {
+          ...mockConfig,
+          clientSecret: 'test-secret',
+          clientAuthentication: { method: 'client_secret_jwt' },
+        } as any,
+        mockMetadata as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub,
+        undefined,
+        undefined,
+        signer
+      );
+      fetchStub
+        .onFirstCall()
+        .resolves(
+          jsonResponse({ error: 'use_dpop_nonce' }, 400, {
+            'DPoP-Nonce': 'nonce-1',
+          })
+        )
+        .onSecondCall()
+        .resolves(
+          jsonResponse({ access_token: 'dpop-token', token_type: 'DPoP' })
+        );
+
+      await service.refreshToken('old-refresh-token');
+
+      const assertion = (call: sinon.SinonSpyCall) =>
+        decodeJwt(
+          new URLSearchParams(call.args[1].body).get('client_assertion')!
+        );
+      const first = assertion(fetchStub.firstCall);
+      const second = assertion(fetchStub.secondCall);
+      expect(second.payload.jti).to.be.a('string');
+      expect(second.payload.jti).to.not.equal(first.payload.jti);
+      expect(
+        new URLSearchParams(fetchStub.secondCall.args[1].body).getAll(
+          'client_assertion'
+        )
+      ).to.have.length(1);
+    });
+
+    it('should not retry other errors that carry a nonce', async function () {
+      fetchStub.resolves(
+        jsonResponse({ error: 'invalid_grant' }, 400, {
+          'DPoP-Nonce': 'nonce-1',
+        })
+      );
+
+      try {
+        await service.refreshToken('old-refresh-token');
+        expect.fail('Expected to throw');
+      } catch {
+        expect(fetchStub.callCount).to.equal(1);
+        expect(createStandardErrorStub.firstCall.args[0]).to.equal(
+          'invalid_grant'
+        );
+      }
+    });
+
+    it('should warn when the provider issues a Bearer token', async function () {
+      fetchStub.resolves(
+        jsonResponse({ access_token: 'bearer-token', token_type: 'Bearer' })
+      );
+
+      const result = await service.refreshToken('old-refresh-token');
+
+      expect(result.tokenType).to.equal('Bearer');
+      expect(loggerStub.warn.calledOnce).to.be.true;
+    });
+  });
+
   describe('scope normalization', function () {
     const testCases = [
       {
@@ -525,4 +1123,230 @@ describe('TokenExchangeService', function () {
       expect(result.userData).to.be.undefined;
     });
   });
+  describe('ID token validation', function () {
+    let validatorStub: { validate: sinon.SinonStub };
+    let serviceWithValidator: TokenExchangeService;
+    const claims = {
+      iss: 'https://auth.example.com',
+      sub: 'user-123',
+      aud: 'test-client-id',
+      exp: 2_000_000_000,
+      iat: 1_000_000_000,
+    };
+
+    beforeEach(function () {
+      validatorStub = { validate: sinon.stub().resolves(claims) };
+      serviceWithValidator = new TokenExchangeService(
+        mockConfig as any,
+        mockMetadata as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub,
+        validatorStub as any
+      );
+    });
+
+    it('should attach validated claims on code exchange', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          access_token: 'test-access-token',
+          id_token: 'header.payload.signature',
+        }),
+      });
+
+      const result = await serviceWithValidator.exchangeCode(
+        'test-code',
+        'test-verifier',
+        'https://example.com/callback',
+        { nonce: 'test-nonce' }
+      );
+
+      expect(result.idTokenClaims).to.deep.equal(claims);
+      expect(validatorStub.validate.firstCall.args).to.deep.equal([
+        'header.payload.signature',
+        { nonce: 'test-nonce' },
+      ]);
+    });
+
+    it('should attach validated claims on refresh', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          access_token: 'new-access-token',
+          id_token: 'header.payload.signature',
+        }),
+      });
+
+      const result = await serviceWithValidator.refreshToken('refresh');
+
+      expect(result.idTokenClaims).to.deep.equal(claims);
+      expect(validatorStub.validate.firstCall.args[1]).to.deep.equal({});
+    });
+
+    it('should skip validation when no ID token is returned', async function () {
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({ access_token: 'test-access-token' }),
+      });
+
+      const result = await serviceWithValidator.exchangeCode(
+        'test-code',
+        'test-verifier',
+        'https://example.com/callback'
+      );
+
+      expect(result.idTokenClaims).to.be.undefined;
+      expect(validatorStub.validate.called).to.be.false;
+    });
+
+    it('should reject ID tokens when validation is enabled but no validator is configured', async function () {
+      const serviceWithoutValidator = new TokenExchangeService(
+        { ...mockConfig, idTokenValidation: {} } as any,
+        mockMetadata as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub
+      );
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          access_token: 'test-access-token',
+          id_token: 'header.payload.signature',
+        }),
+      });
+
+      try {
+        await serviceWithoutValidator.exchangeCode(
+          'test-code',
+          'test-verifier',
+          'https://example.com/callback',
+          { nonce: 'test-nonce' }
+        );
+        expect.fail('Expected to throw');
+      } catch {
+        expect(createStandardErrorStub.firstCall.args[0]).to.equal(
+          'invalid_token'
+        );
+        expect(createStandardErrorStub.firstCall.args[2].stage).to.equal(
+          'validateIdToken'
+        );
+      }
+    });
+
+    it('should propagate validation failures', async function () {
+      const validationError = {
+        statusCode: 400,
+        error: 'invalid_token',
+        error_description: 'ID token nonce mismatch',
+      };
+      validatorStub.validate.rejects(validationError);
+      fetchStub.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          access_token: 'test-access-token',
+          id_token: 'header.payload.signature',
+        }),
+      });
+
+      try {
+        await serviceWithValidator.exchangeCode(
+          'test-code',
+          'test-verifier',
+          'https://example.com/callback'
+        );
+        expect.fail('Expected to throw');
+      } catch (err) {
+        expect(err).to.equal(validationError);
+        expect(normalizeErrorStub.called).to.be.false;
+      }
+    });
+  });
+
+  describe('resource indicators', function () {
+    const tokenResponse = () => ({
+      ok: true,
+      json: sinon.stub().resolves({ access_token: 'test-access-token' }),
+    });
+
+    it('should send the configured resource on code exchange', async function () {
+      fetchStub.resolves(tokenResponse());
+      const resourceService = new TokenExchangeService(
+        { ...mockConfig, resource: 'https://mcp.example.com/' } as any,
+        mockMetadata as any,
+        loggerStub,
+        createStandardErrorStub,
+        normalizeErrorStub
+      );
+
+      await resourceService.exchangeCode(
+        'auth-code',
+        'verifier',
+        'https://example.com/callback'
+      );
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.getAll('resource')).to.deep.equal([
+        'https://mcp.example.com/',
+      ]);
+    });
+
+    it('should send per-call resources on refresh', async function () {
+      fetchStub.resolves(tokenResponse());
+
+      await service.refreshToken('refresh-token', {
+        resource: ['https://mcp.example.com/', 'https://api.example.com/'],
+      });
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.getAll('resource')).to.deep.equal([
+        'https://mcp.example.com/',
+        'https://api.example.com/',
+      ]);
+    });
+
+    it('should omit resource when none is configured', async function () {
+      fetchStub.resolves(tokenResponse());
+
+      await service.refreshToken('refresh-token');
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.has('resource')).to.be.false;
+      expect(body.has('scope')).to.be.false;
+    });
+
+    it('should send narrowed scopes on refresh', async function () {
+      fetchStub.resolves(tokenResponse());
+
+      await service.refreshToken('refresh-token', {
+        scopes: ['openid', 'files.read'],
+      });
+
+      const body = new URLSearchParams(fetchStub.firstCall.args[1].body);
+      expect(body.get('scope')).to.equal('openid files.read');
+    });
+
+    it('should reject invalid resource indicators with invalid_target', async function () {
+      try {
+        await service.exchangeCode(
+          'auth-code',
+          'verifier',
+          'https://example.com/callback',
+          { resource: 'https://mcp.example.com/#fragment' }
+        );
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.error).to.equal('invalid_target');
+        expect(error.error_description).to.include('fragment');
+      }
+      try {
+        await service.refreshToken('refresh-token', { resource: 'mcp' });
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.error).to.equal('invalid_target');
+        expect(error.error_description).to.include('absolute URI');
+      }
+      expect(fetchStub.called).to.be.false;
+    });
+  });
 });
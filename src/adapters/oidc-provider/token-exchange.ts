@@ -2,17 +2,49 @@
  * Token exchange operations for OIDC Provider Adapter
  */
 
-import type { TokenResponse, OAuthError } from '../../types.js';
+import type { TokenResponse, OAuthError, TokenTypeHint } from '../../types.js';
 import type {
+  ClientCredentialsOptions,
+  DevicePollOptions,
+  OIDCExchangeCodeOptions,
   OIDCProviderConfig,
   OIDCProviderMetadata,
+  OIDCRefreshTokenOptions,
   RawTokenResponse,
+  TokenExchangeOptions,
+  TokenExchangeResponse,
 } from './types.js';
+import type { IdTokenValidator } from './id-token.js';
 import {
   normalizeScope,
   extractUserData,
   isNormalizedOAuthError,
+  normalizeResourceIndicators,
 } from './utils.js';
+import { ClientAuthenticator } from './client-auth.js';
+import type { DPoPProofSigner } from './dpop.js';
+import { ErrorNormalizer } from '../../utils/error-normalizer.js';
+
+/**
+ * Token exchange grant type (RFC 8693 §2.1)
+ */
+const TOKEN_EXCHANGE_GRANT_TYPE =
+  'urn:ietf:params:oauth:grant-type:token-exchange';
+
+/**
+ * Device code grant type (RFC 8628 §3.4)
+ */
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+/**
+ * Device token errors that mean "keep polling" (RFC 8628 §3.5)
+ */
+const DEVICE_PENDING_ERRORS = new Set(['authorization_pending', 'slow_down']);
+
+/**
+ * Default subject and actor token type (RFC 8693 §3)
+ */
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
 
 /**
  * Token exchange service for OIDC operations
@@ -30,7 +62,14 @@ export class TokenExchangeService {
     private readonly normalizeError: (
       error: unknown,
       context?: any
-    ) => OAuthError
+    ) => OAuthError,
+    private readonly idTokenValidator?: IdTokenValidator,
+    private readonly clientAuthenticator = new ClientAuthenticator(
+      config,
+      metadata,
+      logger
+    ),
+    private readonly dpop?: DPoPProofSigner
   ) {}
 
   /**
@@ -38,12 +77,14 @@ export class TokenExchangeService {
    * @param code - Authorization code from callback
    * @param verifier - PKCE code verifier
    * @param redirectUrl - Redirect URL used in authorization
+   * @param options - ID token expectations (nonce, max_age) and resource indicators
    * @returns Token response
    */
   async exchangeCode(
     code: string,
     verifier: string,
-    redirectUrl: string
+    redirectUrl: string,
+    options: OIDCExchangeCodeOptions = {}
   ): Promise<TokenResponse> {
     if (!this.metadata.token_endpoint) {
       throw this.createStandardError(
@@ -58,11 +99,14 @@ export class TokenExchangeService {
       );
     }
 
+    const resources = this.resolveResources(options.resource, 'exchangeCode');
+
     try {
       this.logger.info('Exchanging authorization code for tokens', {
         stage: 'exchangeCode',
         issuer: this.metadata.issuer,
         endpoint: this.metadata.token_endpoint,
+        resources,
       });
 
       // Build token request parameters
@@ -73,26 +117,15 @@ export class TokenExchangeService {
         redirect_uri: redirectUrl,
         client_id: this.config.clientId,
       });
+      appendResources(tokenParams, resources);
 
-      // Prepare headers and client authentication
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        Accept: 'application/json',
-      };
-
-      // For confidential clients, use HTTP Basic auth per RFC 6749 §2.3.1
-      if (this.config.clientSecret) {
-        const credentials = `${this.config.clientId}:${this.config.clientSecret}`;
-        const encoded = Buffer.from(credentials).toString('base64');
-        headers.Authorization = `Basic ${encoded}`;
-      }
-
+      // Resolve the token endpoint (mTLS alias when configured)
+      const endpoint = this.clientAuthenticator.endpoint(
+        'token_endpoint',
+        this.metadata.token_endpoint
+      );
       // Make token exchange request
-      const response = await fetch(this.metadata.token_endpoint, {
-        method: 'POST',
-        headers,
-        body: tokenParams.toString(),
-      });
+      const response = await this.sendTokenRequest(endpoint, tokenParams);
 
       const responseData = await this.parseTokenResponse(
         response,
@@ -101,9 +134,11 @@ export class TokenExchangeService {
 
       // Handle OAuth error responses
       if (!response.ok) {
+        const { error, description } =
+          ErrorNormalizer.readErrorResponse(responseData);
         throw this.createStandardError(
-          responseData.error || 'server_error',
-          responseData.error_description ||
+          error || 'server_error',
+          description ||
             `Token exchange failed: ${response.status} ${response.statusText}`,
           {
             stage: 'exchangeCode',
@@ -126,7 +161,10 @@ export class TokenExchangeService {
         );
       }
 
-      const tokenResponse = this.buildTokenResponse(responseData);
+      const tokenResponse = await this.attachIdTokenClaims(
+        this.buildTokenResponse(responseData),
+        options
+      );
 
       this.logger.info('Authorization code exchange completed successfully', {
         stage: 'exchangeCode',
@@ -134,6 +172,7 @@ export class TokenExchangeService {
         endpoint: this.metadata.token_endpoint,
         hasRefreshToken: Boolean(tokenResponse.refreshToken),
         hasIdToken: Boolean(tokenResponse.idToken),
+        idTokenValidated: Boolean(tokenResponse.idTokenClaims),
         expiresIn: tokenResponse.expiresIn,
       });
 
@@ -160,9 +199,13 @@ export class TokenExchangeService {
   /**
    * Refresh access token using refresh token
    * @param refreshToken - Refresh token
+   * @param options - Resource indicators and narrowed scopes for the refreshed token
    * @returns New token response
    */
-  async refreshToken(refreshToken: string): Promise<TokenResponse> {
+  async refreshToken(
+    refreshToken: string,
+    options: OIDCRefreshTokenOptions = {}
+  ): Promise<TokenResponse> {
     if (!this.metadata.token_endpoint) {
       throw this.createStandardError(
         'invalid_request',
@@ -176,11 +219,14 @@ export class TokenExchangeService {
       );
     }
 
+    const resources = this.resolveResources(options.resource, 'refreshToken');
+
     try {
       this.logger.info('Refreshing access token', {
         stage: 'refreshToken',
         issuer: this.metadata.issuer,
         endpoint: this.metadata.token_endpoint,
+        resources,
       });
 
       // Build token refresh request parameters
@@ -189,26 +235,18 @@ export class TokenExchangeService {
         refresh_token: refreshToken,
         client_id: this.config.clientId,
       });
-
-      // Prepare headers and client authentication
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        Accept: 'application/json',
-      };
-
-      // For confidential clients, use HTTP Basic auth per RFC 6749 §2.3.1
-      if (this.config.clientSecret) {
-        const credentials = `${this.config.clientId}:${this.config.clientSecret}`;
-        const encoded = Buffer.from(credentials).toString('base64');
-        headers.Authorization = `Basic ${encoded}`;
+      if (options.scopes?.length) {
+        tokenParams.set('scope', options.scopes.join(' '));
       }
+      appendResources(tokenParams, resources);
 
+      // Resolve the token endpoint (mTLS alias when configured)
+      const endpoint = this.clientAuthenticator.endpoint(
+        'token_endpoint',
+        this.metadata.token_endpoint
+      );
       // Make token refresh request
-      const response = await fetch(this.metadata.token_endpoint, {
-        method: 'POST',
-        headers,
-        body: tokenParams.toString(),
-      });
+      const response = await this.sendTokenRequest(endpoint, tokenParams);
 
       const responseData = await this.parseTokenResponse(
         response,
@@ -217,9 +255,11 @@ export class TokenExchangeService {
 
       // Handle OAuth error responses
       if (!response.ok) {
+        const { error, description } =
+          ErrorNormalizer.readErrorResponse(responseData);
         throw this.createStandardError(
-          responseData.error || 'server_error',
-          responseData.error_description ||
+          error || 'server_error',
+          description ||
             `Token refresh failed: ${response.status} ${response.statusText}`,
           {
             stage: 'refreshToken',
@@ -242,7 +282,10 @@ export class TokenExchangeService {
         );
       }
 
-      const tokenResponse = this.buildTokenResponse(responseData);
+      const tokenResponse = await this.attachIdTokenClaims(
+        this.buildTokenResponse(responseData),
+        {}
+      );
 
       this.logger.info('Token refresh completed successfully', {
         stage: 'refreshToken',
@@ -250,6 +293,7 @@ export class TokenExchangeService {
         endpoint: this.metadata.token_endpoint,
         hasNewRefreshToken: Boolean(tokenResponse.refreshToken),
         hasIdToken: Boolean(tokenResponse.idToken),
+        idTokenValidated: Boolean(tokenResponse.idTokenClaims),
         expiresIn: tokenResponse.expiresIn,
       });
 
@@ -273,6 +317,558 @@ export class TokenExchangeService {
     }
   }
 
+  /**
+   * Obtain an access token with the client's own credentials (RFC 6749 §4.4)
+   * @param options - Scopes, resource indicators and audience to request
+   * @returns Token response
+   */
+  async clientCredentials(
+    options: ClientCredentialsOptions = {}
+  ): Promise<TokenResponse> {
+    if (!this.metadata.token_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Token endpoint not available',
+        {
+          stage: 'clientCredentials',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    const resources = this.resolveResources(
+      options.resource,
+      'clientCredentials'
+    );
+
+    try {
+      this.logger.info('Requesting client credentials token', {
+        stage: 'clientCredentials',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        scopes: options.scopes,
+        resources,
+        audience: options.audience,
+      });
+
+      // Build client credentials request parameters
+      const tokenParams = new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.config.clientId,
+      });
+      if (options.scopes?.length) {
+        tokenParams.set('scope', options.scopes.join(' '));
+      }
+      if (options.audience) {
+        tokenParams.set('audience', options.audience);
+      }
+      appendResources(tokenParams, resources);
+
+      // Resolve the token endpoint (mTLS alias when configured)
+      const endpoint = this.clientAuthenticator.endpoint(
+        'token_endpoint',
+        this.metadata.token_endpoint
+      );
+      const response = await this.sendTokenRequest(endpoint, tokenParams);
+
+      const responseData = await this.parseTokenResponse(
+        response,
+        'clientCredentials'
+      );
+
+      // Handle OAuth error responses
+      if (!response.ok) {
+        const { error, description } =
+          ErrorNormalizer.readErrorResponse(responseData);
+        throw this.createStandardError(
+          error || 'server_error',
+          description ||
+            `Client credentials grant failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'clientCredentials',
+            issuer: this.metadata.issuer,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      // Validate required access_token field
+      if (!responseData.access_token) {
+        throw this.createStandardError(
+          'server_error',
+          'Missing access_token in provider response',
+          {
+            stage: 'clientCredentials',
+            issuer: this.metadata.issuer,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      const tokenResponse = this.buildTokenResponse(
+        responseData,
+        options.scopes ?? []
+      );
+
+      this.logger.info('Client credentials grant completed successfully', {
+        stage: 'clientCredentials',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        expiresIn: tokenResponse.expiresIn,
+      });
+
+      return tokenResponse;
+    } catch (error) {
+      this.logger.error('Client credentials grant failed', {
+        stage: 'clientCredentials',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'token_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Request tokens for a device authorization (RFC 8628 §3.4)
+   *
+   * `authorization_pending` and `slow_down` are thrown like other provider
+   * errors but only logged at debug level, since they are expected while the
+   * user has not yet approved the request.
+   * @param deviceCode - Device code from the device authorization response
+   * @param options - Resource indicators for the issued token and a signal
+   * that aborts the request
+   * @returns Token response
+   */
+  async deviceToken(
+    deviceCode: string,
+    options: DevicePollOptions = {}
+  ): Promise<TokenResponse> {
+    if (!this.metadata.token_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Token endpoint not available',
+        {
+          stage: 'deviceToken',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    const resources = this.resolveResources(options.resource, 'deviceToken');
+
+    try {
+      // Build device token request parameters
+      const tokenParams = new URLSearchParams({
+        grant_type: DEVICE_CODE_GRANT_TYPE,
+        device_code: deviceCode,
+        client_id: this.config.clientId,
+      });
+      appendResources(tokenParams, resources);
+
+      // Resolve the token endpoint (mTLS alias when configured)
+      const endpoint = this.clientAuthenticator.endpoint(
+        'token_endpoint',
+        this.metadata.token_endpoint
+      );
+      const response = await this.sendTokenRequest(
+        endpoint,
+        tokenParams,
+        options.signal
+      );
+
+      const responseData = await this.parseTokenResponse(
+        response,
+        'deviceToken'
+      );
+
+      // Handle OAuth error responses, including pending authorization
+      if (!response.ok) {
+        const { error, description } =
+          ErrorNormalizer.readErrorResponse(responseData);
+        throw this.createStandardError(
+          error || 'server_error',
+          description ||
+            (error && ErrorNormalizer.describeOAuthError(error)) ||
+            `Device token request failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'deviceToken',
+            issuer: this.metadata.issuer,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      // Validate required access_token field
+      if (!responseData.access_token) {
+        throw this.createStandardError(
+          'server_error',
+          'Missing access_token in provider response',
+          {
+            stage: 'deviceToken',
+            issuer: this.metadata.issuer,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      const tokenResponse = await this.attachIdTokenClaims(
+        this.buildTokenResponse(responseData),
+        {}
+      );
+
+      this.logger.info('Device authorization completed successfully', {
+        stage: 'deviceToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        hasRefreshToken: Boolean(tokenResponse.refreshToken),
+        hasIdToken: Boolean(tokenResponse.idToken),
+        idTokenValidated: Boolean(tokenResponse.idTokenClaims),
+        expiresIn: tokenResponse.expiresIn,
+      });
+
+      return tokenResponse;
+    } catch (error) {
+      if (
+        isNormalizedOAuthError(error) &&
+        DEVICE_PENDING_ERRORS.has(error.error)
+      ) {
+        this.logger.debug('Device authorization pending', {
+          stage: 'deviceToken',
+          issuer: this.metadata.issuer,
+          error: error.error,
+        });
+        throw error;
+      }
+
+      this.logger.error('Device token request failed', {
+        stage: 'deviceToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'token_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Exchange a token for one scoped to a downstream service (RFC 8693)
+   * @param options - Subject and actor tokens and the target audience, resources and scopes
+   * @returns Token response including the issued token type
+   */
+  async exchangeToken(
+    options: TokenExchangeOptions
+  ): Promise<TokenExchangeResponse> {
+    if (!this.metadata.token_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Token endpoint not available',
+        {
+          stage: 'exchangeToken',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    const resources = this.resolveResources(options.resource, 'exchangeToken');
+    const audiences =
+      options.audience === undefined ? [] : [options.audience].flat();
+
+    try {
+      this.logger.info('Exchanging token', {
+        stage: 'exchangeToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        subjectTokenType: options.subjectTokenType ?? ACCESS_TOKEN_TYPE,
+        requestedTokenType: options.requestedTokenType,
+        hasActorToken: Boolean(options.actorToken),
+        audiences,
+        resources,
+      });
+
+      // Build token exchange request parameters
+      const tokenParams = new URLSearchParams({
+        grant_type: TOKEN_EXCHANGE_GRANT_TYPE,
+        subject_token: options.subjectToken,
+        subject_token_type: options.subjectTokenType ?? ACCESS_TOKEN_TYPE,
+        client_id: this.config.clientId,
+      });
+      if (options.actorToken) {
+        tokenParams.set('actor_token', options.actorToken);
+        tokenParams.set(
+          'actor_token_type',
+          options.actorTokenType ?? ACCESS_TOKEN_TYPE
+        );
+      }
+      if (options.requestedTokenType) {
+        tokenParams.set('requested_token_type', options.requestedTokenType);
+      }
+      if (options.scopes?.length) {
+        tokenParams.set('scope', options.scopes.join(' '));
+      }
+      for (const audience of audiences) {
+        tokenParams.append('audience', audience);
+      }
+      appendResources(tokenParams, resources);
+
+      // Resolve the token endpoint (mTLS alias when configured)
+      const endpoint = this.clientAuthenticator.endpoint(
+        'token_endpoint',
+        this.metadata.token_endpoint
+      );
+      const response = await this.sendTokenRequest(endpoint, tokenParams);
+
+      const responseData = await this.parseTokenResponse(
+        response,
+        'exchangeToken'
+      );
+
+      // Handle OAuth error responses (e.g. invalid_target for a disallowed audience)
+      if (!response.ok) {
+        const { error, description } =
+          ErrorNormalizer.readErrorResponse(responseData);
+        throw this.createStandardError(
+          error || 'server_error',
+          description ||
+            (error && ErrorNormalizer.describeOAuthError(error)) ||
+            `Token exchange failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'exchangeToken',
+            issuer: this.metadata.issuer,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      // Validate required access_token and issued_token_type fields
+      if (!responseData.access_token || !responseData.issued_token_type) {
+        throw this.createStandardError(
+          'server_error',
+          'Missing access_token or issued_token_type in provider response',
+          {
+            stage: 'exchangeToken',
+            issuer: this.metadata.issuer,
+            endpoint: 'token_endpoint',
+          }
+        );
+      }
+
+      const tokenResponse: TokenExchangeResponse = {
+        ...this.buildTokenResponse(responseData, options.scopes ?? []),
+        issuedTokenType: responseData.issued_token_type,
+      };
+
+      this.logger.info('Token exchange completed successfully', {
+        stage: 'exchangeToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        issuedTokenType: tokenResponse.issuedTokenType,
+        hasRefreshToken: Boolean(tokenResponse.refreshToken),
+        expiresIn: tokenResponse.expiresIn,
+      });
+
+      return tokenResponse;
+    } catch (error) {
+      this.logger.error('Token exchange failed', {
+        stage: 'exchangeToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.token_endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'token_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Revoke an access or refresh token (RFC 7009)
+   * @param token - Token to revoke
+   * @param tokenTypeHint - Optional hint about the type of token
+   */
+  async revokeToken(
+    token: string,
+    tokenTypeHint?: TokenTypeHint
+  ): Promise<void> {
+    if (!this.metadata.revocation_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Token revocation is not supported: revocation endpoint not available',
+        {
+          stage: 'revokeToken',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    try {
+      this.logger.info('Revoking token', {
+        stage: 'revokeToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.revocation_endpoint,
+        tokenTypeHint,
+      });
+
+      const revocationParams = new URLSearchParams({
+        token,
+        client_id: this.config.clientId,
+      });
+      if (tokenTypeHint) {
+        revocationParams.set('token_type_hint', tokenTypeHint);
+      }
+
+      const endpoint = this.clientAuthenticator.endpoint(
+        'revocation_endpoint',
+        this.metadata.revocation_endpoint
+      );
+      const headers = this.clientAuthenticator.authenticate(
+        revocationParams,
+        endpoint
+      );
+
+      const response = await this.clientAuthenticator.fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: revocationParams.toString(),
+      });
+
+      // RFC 7009 §2.2: invalid or already-revoked tokens also yield 200
+      if (!response.ok) {
+        const { error, description } = ErrorNormalizer.readErrorResponse(
+          await response.json().catch(() => ({}))
+        );
+        throw this.createStandardError(
+          error || 'server_error',
+          description ||
+            `Token revocation failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'revokeToken',
+            issuer: this.metadata.issuer,
+            endpoint: 'revocation_endpoint',
+          }
+        );
+      }
+
+      this.logger.info('Token revocation completed successfully', {
+        stage: 'revokeToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.revocation_endpoint,
+      });
+    } catch (error) {
+      this.logger.error('Token revocation failed', {
+        stage: 'revokeToken',
+        issuer: this.metadata.issuer,
+        endpoint: this.metadata.revocation_endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'revocation_endpoint',
+      });
+    }
+  }
+
+  /**
+   * POST a token request, attaching a DPoP proof when enabled and retrying
+   * once with the server's nonce on `use_dpop_nonce` (RFC 9449 §8). Client
+   * authentication is applied per attempt so a retry carries a fresh client
+   * assertion (`jti`) instead of replaying the first one.
+   */
+  private async sendTokenRequest(
+    endpoint: string,
+    params: URLSearchParams,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const send = () => {
+      // Copy so each attempt gets its own client authentication parameters
+      const body = new URLSearchParams(params);
+      const headers = this.clientAuthenticator.authenticate(body, endpoint);
+
+      return this.clientAuthenticator.fetch(endpoint, {
+        method: 'POST',
+        headers: this.dpop
+          ? { ...headers, DPoP: this.dpop.createProof('POST', endpoint) }
+          : headers,
+        body: body.toString(),
+        ...(signal && { signal }),
+      });
+    };
+
+    const response = await send();
+    if (!this.dpop?.rememberNonce(endpoint, response.headers)) {
+      return response;
+    }
+
+    const { error } = (await response
+      .clone()
+      .json()
+      .catch(() => ({}))) as { error?: string };
+    if (response.status !== 400 || error !== 'use_dpop_nonce') {
+      return response;
+    }
+
+    this.logger.debug('Retrying token request with DPoP nonce', {
+      issuer: this.metadata.issuer,
+      endpoint,
+    });
+    const retried = await send();
+    this.dpop.rememberNonce(endpoint, retried.headers);
+    return retried;
+  }
+
+  /**
+   * Resolve per-request or configured RFC 8707 resource indicators
+   */
+  private resolveResources(
+    resource: string | string[] | undefined,
+    stage: string
+  ): string[] {
+    try {
+      return normalizeResourceIndicators(resource ?? this.config.resource);
+    } catch (error) {
+      throw this.createStandardError(
+        'invalid_target',
+        error instanceof Error ? error.message : String(error),
+        { stage, issuer: this.metadata.issuer }
+      );
+    }
+  }
+
   /**
    * Parse JSON response from token endpoint with error handling
    */
@@ -295,15 +891,53 @@ export class TokenExchangeService {
     }
   }
 
+  /**
+   * Validate the ID token (if any) and attach its claims to the token response
+   */
+  private async attachIdTokenClaims(
+    tokenResponse: TokenResponse,
+    expectations: OIDCExchangeCodeOptions
+  ): Promise<TokenResponse> {
+    if (!tokenResponse.idToken) {
+      return tokenResponse;
+    }
+    if (!this.idTokenValidator) {
+      // Only pass ID tokens through unvalidated when validation is turned off
+      if (this.config.idTokenValidation?.enabled === false) {
+        return tokenResponse;
+      }
+      throw this.createStandardError(
+        'invalid_token',
+        'ID token cannot be validated: no ID token validator is configured',
+        { stage: 'validateIdToken', issuer: this.metadata.issuer }
+      );
+    }
+
+    const idTokenClaims = await this.idTokenValidator.validate(
+      tokenResponse.idToken,
+      expectations
+    );
+
+    return { ...tokenResponse, idTokenClaims };
+  }
+
   /**
    * Build normalized token response from provider data
+   * @param requestedScopes - Scopes reported when the provider omits `scope`
    */
-  private buildTokenResponse(responseData: RawTokenResponse): TokenResponse {
+  private buildTokenResponse(
+    responseData: RawTokenResponse,
+    requestedScopes: string[] = this.config.scopes
+  ): TokenResponse {
+    if (this.dpop && responseData.token_type?.toLowerCase() !== 'dpop') {
+      this.logger.warn('Provider did not issue a DPoP-bound token', {
+        issuer: this.metadata.issuer,
+        tokenType: responseData.token_type,
+      });
+    }
+
     // Normalize scope field
-    const normalizedScope = normalizeScope(
-      responseData.scope,
-      this.config.scopes
-    );
+    const normalizedScope = normalizeScope(responseData.scope, requestedScopes);
 
     // Extract additional provider fields for userData
     const userData = extractUserData(responseData);
@@ -315,8 +949,18 @@ export class TokenExchangeService {
       }),
       ...(responseData.id_token && { idToken: responseData.id_token }),
       ...(responseData.expires_in && { expiresIn: responseData.expires_in }),
+      ...(responseData.token_type && { tokenType: responseData.token_type }),
       scope: normalizedScope,
       ...(userData && { userData }),
     };
   }
 }
+
+/**
+ * Append RFC 8707 resource parameters (one per indicator) to a token request
+ */
+function appendResources(params: URLSearchParams, resources: string[]): void {
+  for (const resource of resources) {
+    params.append('resource', resource);
+  }
+}
@@ -2,7 +2,14 @@
  * OIDC Provider Adapter specific types and interfaces
  */
 
-import type { ProviderConfig } from '../../types.js';
+import type {
+  PKCEStorageHook,
+  ProviderConfig,
+  TokenResponse,
+} from '../../types.js';
+import type { JWK } from './jwt.js';
+
+export type { PKCEStorageHook } from '../../types.js';
 
 /**
  * OIDC Provider Metadata from discovery or static configuration
@@ -16,6 +23,8 @@ export interface OIDCProviderMetadata {
   token_endpoint: string;
   /** Userinfo endpoint URL (optional) */
   userinfo_endpoint?: string;
+  /** Supported signing algorithms for JWT UserInfo responses */
+  userinfo_signing_alg_values_supported?: string[];
   /** JWKS URI for token verification (optional - not all providers expose this) */
   jwks_uri?: string;
   /** Supported response types */
@@ -36,44 +45,60 @@ export interface OIDCProviderMetadata {
   response_modes_supported?: string[];
   /** Supported claims */
   claims_supported?: string[];
+  /** Dynamic client registration endpoint URL (RFC 7591) */
+  registration_endpoint?: string;
+  /** Token introspection endpoint URL (RFC 7662) */
+  introspection_endpoint?: string;
+  /** Token revocation endpoint URL (RFC 7009) */
+  revocation_endpoint?: string;
+  /** Endpoints to use instead of the defaults when authenticating with mutual TLS (RFC 8705) */
+  mtls_endpoint_aliases?: MtlsEndpointAliases;
+  /** Whether access tokens are bound to the client certificate (RFC 8705) */
+  tls_client_certificate_bound_access_tokens?: boolean;
+  /** Supported DPoP proof signing algorithms (RFC 9449) */
+  dpop_signing_alg_values_supported?: string[];
+  /** Pushed authorization request endpoint URL (RFC 9126) */
+  pushed_authorization_request_endpoint?: string;
+  /** Whether the provider only accepts pushed authorization requests (RFC 9126) */
+  require_pushed_authorization_requests?: boolean;
+  /** Whether authorization responses carry the `iss` parameter (RFC 9207) */
+  authorization_response_iss_parameter_supported?: boolean;
+  /** Device authorization endpoint URL (RFC 8628) */
+  device_authorization_endpoint?: string;
+  /** RP-initiated logout endpoint URL (OpenID Connect RP-Initiated Logout) */
+  end_session_endpoint?: string;
+  /** Whether the provider sends back-channel logout tokens */
+  backchannel_logout_supported?: boolean;
+  /** Whether back-channel logout tokens carry the `sid` claim */
+  backchannel_logout_session_supported?: boolean;
   /** Additional custom properties */
   [key: string]: unknown;
 }
 
 /**
- * Storage hook interface for persisting PKCE state
+ * Mutual-TLS endpoint aliases (RFC 8705 §5)
  */
-export interface PKCEStorageHook {
-  /**
-   * Store PKCE state for a given interaction
-   * @param interactionId - Unique interaction identifier
-   * @param state - OAuth state parameter
-   * @param codeVerifier - PKCE code verifier
-   * @param expiresAt - Expiration timestamp
-   */
-  storePKCEState(
-    interactionId: string,
-    state: string,
-    codeVerifier: string,
-    expiresAt: number
-  ): Promise<void>;
-
-  /**
-   * Retrieve PKCE state for verification
-   * @param interactionId - Unique interaction identifier
-   * @param state - OAuth state parameter to verify
-   * @returns PKCE code verifier if found and valid
-   */
-  retrievePKCEState(
-    interactionId: string,
-    state: string
-  ): Promise<string | null>;
+export interface MtlsEndpointAliases {
+  /** Token endpoint URL */
+  token_endpoint?: string;
+  /** Token revocation endpoint URL */
+  revocation_endpoint?: string;
+  /** Token introspection endpoint URL */
+  introspection_endpoint?: string;
+  /** Additional endpoint aliases */
+  [key: string]: string | undefined;
+}
 
-  /**
-   * Clean up expired PKCE state
-   * @param beforeTimestamp - Clean up entries before this timestamp
-   */
-  cleanupExpiredState(beforeTimestamp: number): Promise<void>;
+/**
+ * Well-known metadata document used during discovery
+ */
+export interface OIDCDiscoveryDocument {
+  /** URL the metadata was fetched from */
+  url: string;
+  /** RFC 8414 authorization server metadata or OpenID Connect Discovery document */
+  type: 'oauth-authorization-server' | 'openid-configuration';
+  /** Whether the well-known suffix was inserted before or appended after the issuer path */
+  form: 'insertion' | 'append';
 }
 
 /**
@@ -95,10 +120,620 @@ export interface OIDCProviderConfig extends ProviderConfig {
   storageHook?: PKCEStorageHook;
   /** PKCE state expiration time in seconds (default: 600 = 10 minutes) */
   pkceStateExpirationSeconds?: number;
+  /** ID token validation settings (validation is enabled by default) */
+  idTokenValidation?: IdTokenValidationOptions;
+  /** RFC 8707 resource indicator(s) sent on authorize, token and refresh requests */
+  resource?: string | string[];
+  /**
+   * Whether the provider honours RFC 8707 resource indicators (default: false).
+   * No metadata field advertises support, so this is reported as the
+   * `supportsResourceIndicators` quirk only when set
+   */
+  supportsResourceIndicators?: boolean;
+  /** Token introspection settings */
+  introspection?: TokenIntrospectionOptions;
+  /** Client authentication for token, revocation and introspection requests */
+  clientAuthentication?: ClientAuthenticationOptions;
+  /** Sender-constrain tokens with DPoP proofs (RFC 9449); disabled when omitted */
+  dpop?: DPoPOptions;
+  /** When to use pushed authorization requests (RFC 9126, default: 'preferred') */
+  pushedAuthorizationRequests?: PushedAuthorizationMode;
+  /**
+   * Reject callbacks without an `iss` parameter (RFC 9207). Defaults to the
+   * provider's `authorization_response_iss_parameter_supported`
+   */
+  requireIssuerParameter?: boolean;
+  /** Default redirect after RP-initiated logout (must be registered with the provider) */
+  postLogoutRedirectUri?: string;
+  /** Optional logger instance to use for logging */
+  logger?: import('../../logging/types.js').Logger;
+}
+
+/**
+ * ID token validation settings
+ */
+export interface IdTokenValidationOptions {
+  /** Validate ID tokens returned by the token endpoint (default: true) */
+  enabled?: boolean;
+  /** Allowed clock skew in seconds for exp/iat/auth_time checks (default: 30) */
+  clockToleranceSeconds?: number;
+  /** How long the provider JWKS is cached in seconds (default: 600) */
+  jwksCacheTtlSeconds?: number;
+}
+
+/**
+ * Client authentication methods (RFC 6749 §2.3, OIDC Core §9, RFC 7523)
+ */
+export type ClientAuthMethod =
+  | 'none'
+  | 'client_secret_basic'
+  | 'client_secret_post'
+  | 'client_secret_jwt'
+  | 'private_key_jwt'
+  | 'tls_client_auth'
+  | 'self_signed_tls_client_auth';
+
+/**
+ * Client authentication settings
+ */
+export interface ClientAuthenticationOptions {
+  /**
+   * Method to use. When omitted, `private_key_jwt` is used if a private key is
+   * configured; otherwise the first of `client_secret_basic`,
+   * `client_secret_post` and `client_secret_jwt` the provider supports, then
+   * `tls_client_auth` or `self_signed_tls_client_auth` if a client
+   * certificate is configured, or `none` for public clients.
+   */
+  method?: ClientAuthMethod;
+  /** Private key for `private_key_jwt`, as a PEM string or JWK */
+  privateKey?: string | JWK;
+  /** Key identifier for the assertion header (default: the JWK `kid`) */
+  kid?: string;
+  /** Assertion signing algorithm (default: derived from the key, HS256 for `client_secret_jwt`) */
+  alg?: string;
+  /**
+   * Client certificate for mutual TLS (RFC 8705). When set, token, revocation
+   * and introspection requests present the certificate and use the provider's
+   * `mtls_endpoint_aliases`.
+   */
+  mtls?: MutualTlsOptions;
+}
+
+/**
+ * Client certificate settings for mutual TLS
+ */
+export interface MutualTlsOptions {
+  /** PEM-encoded client certificate (chain) */
+  cert: string;
+  /** PEM-encoded private key for the certificate */
+  key: string;
+  /** Passphrase for an encrypted private key */
+  passphrase?: string;
+  /** PEM-encoded CA certificates trusted for the provider (default: system roots) */
+  ca?: string | string[];
+}
+
+/**
+ * Pushed authorization request modes
+ * - `required`: always push; fail if the provider has no PAR endpoint
+ * - `preferred`: push when the provider advertises a PAR endpoint
+ * - `disabled`: never push, even if the provider requires it
+ */
+export type PushedAuthorizationMode = 'required' | 'preferred' | 'disabled';
+
+/**
+ * Pushed authorization request response (RFC 9126 §2.2)
+ */
+export interface PushedAuthorizationResult {
+  /** Reference to the pushed request, used as `request_uri` */
+  requestUri: string;
+  /** Lifetime of the request_uri in seconds */
+  expiresIn: number;
+}
+
+/**
+ * Options for starting a device authorization (RFC 8628 §3.1)
+ */
+export interface DeviceAuthorizationOptions {
+  /** Scopes to request (overrides config scopes if provided) */
+  scopes?: string[];
+  /** RFC 8707 resource indicator(s) (overrides config resource if provided) */
+  resource?: string | string[];
+}
+
+/**
+ * Device authorization response (RFC 8628 §3.2)
+ */
+export interface DeviceAuthorizationResult {
+  /** Device verification code, used to poll for tokens */
+  deviceCode: string;
+  /** Code the user enters at the verification URI */
+  userCode: string;
+  /** URI the user visits to approve the request */
+  verificationUri: string;
+  /** Verification URI that already includes the user code */
+  verificationUriComplete?: string;
+  /** Lifetime of the device and user codes in seconds */
+  expiresIn: number;
+  /** Minimum polling interval in seconds */
+  interval: number;
+}
+
+/**
+ * Options for polling a device authorization
+ */
+export interface DevicePollOptions {
+  /**
+   * Stops polling and cancels the in-flight token request; the pending call
+   * rejects with `invalid_request`
+   */
+  signal?: AbortSignal;
+  /** RFC 8707 resource indicator(s) (overrides config resource if provided) */
+  resource?: string | string[];
+}
+
+/**
+ * Options for UserInfo requests (OpenID Connect Core §5.3)
+ */
+export interface UserInfoOptions {
+  /** HTTP method (default: GET) */
+  method?: 'GET' | 'POST';
+  /** Subject of the ID token; the request fails if UserInfo returns another `sub` */
+  expectedSubject?: string;
+}
+
+/**
+ * Options for RP-initiated logout URLs (OpenID Connect RP-Initiated Logout §2)
+ */
+export interface LogoutUrlOptions {
+  /** Previously issued ID token, identifying the session to end */
+  idTokenHint?: string;
+  /** Where to send the user after logout (overrides config postLogoutRedirectUri) */
+  postLogoutRedirectUri?: string;
+  /** Opaque value returned on the post-logout redirect */
+  state?: string;
+  /** Hint about the user being logged out, e.g. their email */
+  logoutHint?: string;
+}
+
+/**
+ * Verified claims of a back-channel logout token (OpenID Connect Back-Channel Logout §2.4)
+ */
+export interface LogoutTokenClaims {
+  /** Issuer identifier */
+  iss: string;
+  /** Audience(s); includes the client_id */
+  aud: string | string[];
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Expiration time (seconds since epoch), when provided */
+  exp?: number;
+  /** Unique token identifier, for replay detection */
+  jti: string;
+  /** Subject whose sessions should end */
+  sub?: string;
+  /** Provider session to end */
+  sid?: string;
+  /** Event claim containing the back-channel logout event */
+  events: Record<string, unknown>;
+  /** Additional claims */
+  [claim: string]: unknown;
+}
+
+/**
+ * DPoP settings for token requests (RFC 9449)
+ */
+export interface DPoPOptions {
+  /** Private key for signing proofs, as a PEM string or JWK (default: a generated P-256 key) */
+  privateKey?: string | JWK;
+  /** Proof signing algorithm (default: derived from the key) */
+  alg?: string;
+}
+
+/**
+ * Replay store for DPoP proof identifiers
+ */
+export interface DPoPJtiStore {
+  /**
+   * Record a proof `jti`
+   * @param jti - Proof identifier
+   * @param expiresAt - Timestamp (ms) after which the proof is too old to accept and the entry can be dropped
+   * @returns false if the jti was already recorded (a replay)
+   */
+  markUsed(jti: string, expiresAt: number): Promise<boolean>;
+}
+
+/**
+ * Settings for resource-server DPoP proof verification
+ */
+export interface DPoPProofVerifierOptions {
+  /** Accepted proof signing algorithms (default: all supported asymmetric algorithms) */
+  algorithms?: string[];
+  /** Maximum proof age in seconds, measured from `iat` (default: 300) */
+  maxAgeSeconds?: number;
+  /** Allowed clock skew in seconds for `iat` checks (default: 30) */
+  clockToleranceSeconds?: number;
+  /** Store used to reject replayed proofs (default: in-memory, per process) */
+  jtiStore?: DPoPJtiStore;
+}
+
+/**
+ * Request a DPoP proof was presented with
+ */
+export interface DPoPRequest {
+  /** HTTP method of the request */
+  method: string;
+  /** Full request URL; query and fragment are ignored */
+  url: string;
+  /** Access token presented with the proof; checked against `ath` */
+  accessToken?: string;
+  /** Expected key thumbprint, e.g. the access token's `cnf.jkt` */
+  jkt?: string;
+  /** Nonce the server issued, if it requires one */
+  nonce?: string;
+}
+
+/**
+ * Verified DPoP proof
+ */
+export interface DPoPProofResult {
+  /** RFC 7638 thumbprint of the proof key */
+  jkt: string;
+  /** Proof identifier */
+  jti: string;
+  /** Proof creation time (seconds since epoch) */
+  iat: number;
+  /** Public key the proof was signed with */
+  jwk: JWK;
+  /** Full proof claims */
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Token introspection settings
+ */
+export interface TokenIntrospectionOptions {
+  /** How long introspection results are cached in seconds (default: 0 = no caching) */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * Normalized token introspection response (RFC 7662 §2.2)
+ */
+export interface TokenIntrospectionResult {
+  /** Whether the token is currently active; other fields are only set when true */
+  active: boolean;
+  /** Space-delimited scopes granted to the token */
+  scope?: string;
+  /** Client the token was issued to */
+  clientId?: string;
+  /** Subject of the token */
+  sub?: string;
+  /** Intended audiences, normalized to an array */
+  aud?: string[];
+  /** Expiry time (seconds since epoch) */
+  exp?: number;
+  /** Issued-at time (seconds since epoch) */
+  iat?: number;
+  /** Token issuer */
+  iss?: string;
+  /** Human-readable identifier of the resource owner */
+  username?: string;
+  /** Token type, e.g. `Bearer` */
+  tokenType?: string;
+  /** `cnf.x5t#S256` thumbprint of the certificate the token is bound to (RFC 8705) */
+  certificateThumbprint?: string;
+  /** `cnf.jkt` thumbprint of the DPoP key the token is bound to (RFC 9449) */
+  dpopKeyThumbprint?: string;
+  /** Full introspection response */
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Settings for local JWT access token verification (RFC 9068)
+ */
+export interface AccessTokenVerifierOptions {
+  /** Expected audience(s), typically the MCP server's resource identifier (default: config resource) */
+  audience?: string | string[];
+  /** Scopes every token must carry; can be extended per call */
+  requiredScopes?: string[];
+  /** Accepted signing algorithms (default: all supported asymmetric algorithms) */
+  algorithms?: string[];
+  /** Require the `at+jwt` typ header (default: true) */
+  requireTyp?: boolean;
+  /** Allowed clock skew in seconds for exp/nbf/iat checks (default: 30) */
+  clockToleranceSeconds?: number;
+  /**
+   * How long the provider JWKS is cached in seconds. When omitted, verifiers
+   * created by the adapter share its JWKS cache (default: 600)
+   */
+  jwksCacheTtlSeconds?: number;
+}
+
+/**
+ * Normalized claims of a verified JWT access token
+ */
+export interface AccessTokenClaims {
+  /** Token issuer */
+  iss: string;
+  /** Subject of the token */
+  sub: string;
+  /** Intended audiences, normalized to an array */
+  aud: string[];
+  /** Expiry time (seconds since epoch) */
+  exp: number;
+  /** Issued-at time (seconds since epoch) */
+  iat?: number;
+  /** Not-before time (seconds since epoch) */
+  nbf?: number;
+  /** Token identifier */
+  jti?: string;
+  /** Client the token was issued to (`client_id`, falling back to `azp`) */
+  clientId?: string;
+  /** Granted scopes from `scope` or `scp` */
+  scopes: string[];
+  /** `cnf.x5t#S256` thumbprint of the certificate the token is bound to (RFC 8705) */
+  certificateThumbprint?: string;
+  /** `cnf.jkt` thumbprint of the DPoP key the token is bound to (RFC 9449) */
+  dpopKeyThumbprint?: string;
+  /** Full verified claims set */
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Checks the `iss` claim of an ID token or JWT access token, for providers
+ * whose issuer depends on other claims (e.g. a tenant ID)
+ */
+export type IssuerMatcher = (
+  issuer: string,
+  claims: Record<string, unknown>
+) => boolean;
+
+/**
+ * Per-request ID token expectations for authorization code exchange
+ */
+export interface OIDCExchangeCodeOptions {
+  /** Nonce sent in the authorization request; must match the ID token nonce */
+  nonce?: string;
+  /** max_age sent in the authorization request; requires a valid auth_time */
+  maxAge?: number;
+  /** RFC 8707 resource indicator(s) (overrides config resource if provided) */
+  resource?: string | string[];
+}
+
+/**
+ * Per-request options for refresh token grants
+ */
+export interface OIDCRefreshTokenOptions {
+  /** RFC 8707 resource indicator(s) (overrides config resource if provided) */
+  resource?: string | string[];
+  /** Scopes to request; must not exceed the originally granted scopes (RFC 6749 §6) */
+  scopes?: string[];
+}
+
+/**
+ * Options for client credentials grants (RFC 6749 §4.4)
+ */
+export interface ClientCredentialsOptions {
+  /** Scopes to request (the provider's default scopes when omitted) */
+  scopes?: string[];
+  /** RFC 8707 resource indicator(s) (overrides config resource if provided) */
+  resource?: string | string[];
+  /** Provider-specific `audience` parameter (e.g. Auth0) */
+  audience?: string;
+  /** Fetch a new token even if a cached one is still valid */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Options for OAuth 2.0 Token Exchange (RFC 8693 §2.1)
+ */
+export interface TokenExchangeOptions {
+  /** Token representing the party on whose behalf the request is made */
+  subjectToken: string;
+  /** Type of the subject token (default: `urn:ietf:params:oauth:token-type:access_token`) */
+  subjectTokenType?: string;
+  /** Token representing the acting party, for delegation */
+  actorToken?: string;
+  /** Type of the actor token (default: `urn:ietf:params:oauth:token-type:access_token`) */
+  actorTokenType?: string;
+  /** Logical name(s) of the target service */
+  audience?: string | string[];
+  /** RFC 8707 resource indicator(s) (overrides config resource if provided) */
+  resource?: string | string[];
+  /** Scopes to request for the issued token */
+  scopes?: string[];
+  /** Type of token to issue (provider default when omitted) */
+  requestedTokenType?: string;
+}
+
+/**
+ * Token response from a token exchange (RFC 8693 §2.2.1)
+ */
+export interface TokenExchangeResponse extends TokenResponse {
+  /** Type of the issued token, e.g. `urn:ietf:params:oauth:token-type:access_token` */
+  issuedTokenType: string;
+}
+
+/**
+ * Client metadata sent to the registration endpoint (RFC 7591 §2)
+ */
+export interface ClientRegistrationRequest {
+  /** Redirection URIs for the authorization code flow */
+  redirectUris: string[];
+  /** Grant types the client will use (e.g. authorization_code, refresh_token) */
+  grantTypes?: string[];
+  /** Response types the client will use (e.g. code) */
+  responseTypes?: string[];
+  /** Token endpoint authentication method (provider default is client_secret_basic) */
+  tokenEndpointAuthMethod?: string;
+  /** Human-readable client name shown on consent screens */
+  clientName?: string;
+  /** Scopes the client may request */
+  scopes?: string[];
+  /** Additional client metadata fields (e.g. logo_uri, software_statement) */
+  additionalMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Client information returned by the registration endpoint (RFC 7591 §3.2.1)
+ */
+export interface ClientRegistrationResult {
+  /** Issued client identifier */
+  clientId: string;
+  /** Issued client secret (absent for public clients) */
+  clientSecret?: string;
+  /** Time the client_id was issued (seconds since epoch) */
+  clientIdIssuedAt?: number;
+  /** Time the client_secret expires (seconds since epoch, 0 = never) */
+  clientSecretExpiresAt?: number;
+  /** Bearer token for RFC 7592 registration management */
+  registrationAccessToken?: string;
+  /** Client configuration endpoint for RFC 7592 registration management */
+  registrationClientUri?: string;
+  /** Registered redirection URIs */
+  redirectUris: string[];
+  /** Registered grant types */
+  grantTypes?: string[];
+  /** Registered token endpoint authentication method */
+  tokenEndpointAuthMethod?: string;
+  /** Registered scopes */
+  scopes?: string[];
+  /** Remaining client metadata returned by the provider */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Storage hook interface for persisting dynamically registered client credentials
+ */
+export interface ClientRegistrationStore {
+  /**
+   * Store the registration for an issuer, replacing any existing entry
+   * @param issuer - Issuer the client is registered with
+   * @param registration - Registration result including client credentials
+   */
+  saveRegistration(
+    issuer: string,
+    registration: ClientRegistrationResult
+  ): Promise<void>;
+
+  /**
+   * Retrieve the registration for an issuer
+   * @param issuer - Issuer the client is registered with
+   * @returns Stored registration or null if none exists
+   */
+  loadRegistration(issuer: string): Promise<ClientRegistrationResult | null>;
+
+  /**
+   * Remove the registration for an issuer
+   * @param issuer - Issuer the client is registered with
+   */
+  deleteRegistration(issuer: string): Promise<void>;
+}
+
+/**
+ * Dynamic client registration client options
+ */
+export interface ClientRegistrationOptions {
+  /** OIDC issuer URL for discovery (exactly one of issuer or metadata must be provided) */
+  issuer?: string;
+  /** Static OIDC provider metadata (exactly one of issuer or metadata must be provided) */
+  metadata?: OIDCProviderMetadata;
+  /** Store for persisting registered client credentials (optional) */
+  store?: ClientRegistrationStore;
+  /** Initial access token for protected registration endpoints (RFC 7591 §3) */
+  initialAccessToken?: string;
   /** Optional logger instance to use for logging */
   logger?: import('../../logging/types.js').Logger;
 }
 
+/**
+ * Options for creating an adapter from a registration result
+ */
+export interface FromRegistrationOptions extends Omit<
+  OIDCProviderConfig,
+  'clientId' | 'clientSecret' | 'scopes'
+> {
+  /** OAuth scopes (defaults to the registered scopes, then openid profile email) */
+  scopes?: string[];
+}
+
+/**
+ * Options for building protected resource metadata (RFC 9728 §2)
+ */
+export interface ProtectedResourceMetadataOptions {
+  /** Protected resource identifier (the MCP server URL) */
+  resource: string;
+  /** Scopes used to authorize requests to the resource */
+  scopesSupported?: string[];
+  /** Supported bearer token presentation methods (default: ['header']) */
+  bearerMethodsSupported?: string[];
+  /** Human-readable resource name */
+  resourceName?: string;
+  /** URL of developer documentation for the resource */
+  resourceDocumentation?: string;
+  /** Additional metadata fields to publish */
+  additionalMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Protected resource metadata document (RFC 9728 §2)
+ */
+export interface ProtectedResourceMetadata {
+  /** Protected resource identifier */
+  resource: string;
+  /** Issuers of authorization servers that protect the resource */
+  authorization_servers: string[];
+  /** Supported bearer token presentation methods */
+  bearer_methods_supported: string[];
+  /** Scopes used to authorize requests to the resource */
+  scopes_supported?: string[];
+  /** Human-readable resource name */
+  resource_name?: string;
+  /** URL of developer documentation for the resource */
+  resource_documentation?: string;
+  /** Additional metadata fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Options for building a WWW-Authenticate challenge
+ */
+export interface WWWAuthenticateOptions {
+  /** Protected resource metadata URL (RFC 9728 §5.1) */
+  resourceMetadataUrl: string;
+  /** Authentication scheme (default: Bearer) */
+  scheme?: string;
+  /** Protection space */
+  realm?: string;
+  /** RFC 6750 §3.1 error code (e.g. invalid_token, insufficient_scope) */
+  error?: string;
+  /** Human-readable error description */
+  errorDescription?: string;
+  /** Scopes required to access the resource */
+  scope?: string[];
+}
+
+/**
+ * Parsed WWW-Authenticate challenge
+ */
+export interface WWWAuthenticateChallenge {
+  /** Authentication scheme as sent (e.g. Bearer, DPoP) */
+  scheme: string;
+  /** Auth parameters keyed by lower-cased name */
+  params: Record<string, string>;
+  /** token68 credentials, for schemes that use them instead of parameters */
+  token68?: string;
+  /** Protected resource metadata URL from resource_metadata */
+  resourceMetadata?: string;
+  /** Error code from error */
+  error?: string;
+  /** Error description from error_description */
+  errorDescription?: string;
+  /** Scopes from scope */
+  scope?: string[];
+}
+
 /**
  * OIDC Provider Adapter initialization result
  */
@@ -139,8 +774,22 @@ export interface OIDCProviderCapabilities {
 export interface OIDCAuthUrlOptions {
   /** OAuth state parameter for CSRF protection */
   state: string;
+  /** Redirect URL for the OAuth callback (defaults to config.redirectUri) */
+  redirectUrl?: string;
   /** OAuth scopes (overrides config scopes if provided) */
   scopes?: string[];
+  /** OIDC prompt parameter (e.g. 'login', 'consent', 'none') */
+  prompt?: string;
+  /** Hint about the end-user's login identifier */
+  loginHint?: string;
+  /** Maximum authentication age in seconds; pass to exchangeCode as maxAge */
+  maxAge?: number;
+  /** Requested Authentication Context Class Reference values */
+  acrValues?: string[];
+  /** ID token nonce (auto-generated for openid scope if not provided) */
+  nonce?: string;
+  /** RFC 8707 resource indicator(s) (overrides config resource if provided) */
+  resource?: string | string[];
   /** Additional query parameters */
   additionalParams?: Record<string, string>;
   /** PKCE code verifier (auto-generated if not provided) */
@@ -161,6 +810,26 @@ export interface OIDCAuthUrlResult {
   codeChallenge: string;
   /** Challenge method used */
   codeChallengeMethod: 'S256';
+  /** Nonce sent in the request (store and pass to exchangeCode) */
+  nonce?: string;
+  /** request_uri the URL refers to when the request was pushed (RFC 9126) */
+  requestUri?: string;
+}
+
+/**
+ * Authorization response parameters received on the redirect URI
+ */
+export interface OIDCCallbackParams {
+  /** Authorization code (absent on error responses) */
+  code?: string;
+  /** OAuth state parameter (the interactionId passed to generateAuthUrl) */
+  state?: string;
+  /** Issuer identifier of the authorization server (RFC 9207) */
+  iss?: string;
+  /** OAuth error code returned instead of a code */
+  error?: string;
+  /** Human-readable error description */
+  error_description?: string;
 }
 
 /**
@@ -180,6 +849,8 @@ export interface RawTokenResponse {
   id_token?: string;
   /** Granted scopes (may differ from requested) */
   scope?: string;
+  /** Type of the issued token (token exchange responses, RFC 8693) */
+  issued_token_type?: string;
   /** Additional provider-specific fields */
   [key: string]: unknown;
 }
@@ -0,0 +1,332 @@
+/**
+ * UserInfo service unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { UserInfoService } from './userinfo.js';
+import { DPoPProofSigner } from './dpop.js';
+import { ClientAuthenticator } from './client-auth.js';
+import { decodeJwt } from './jwt.js';
+import { createJwksCache, JwsVerifier } from './jws.js';
+import { oidcMetadata } from '../../fixtures/test-data.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import {
+  createTestSigningKey,
+  jwksResponse,
+  signTestJwt,
+} from '../../testUtils/jwt.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+import type { OIDCProviderConfig } from './types.js';
+
+describe('UserInfoService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const userinfoEndpoint = 'https://auth.example.com/userinfo';
+  const metadata = {
+    ...oidcMetadata.minimal,
+    userinfo_endpoint: userinfoEndpoint,
+    userinfo_signing_alg_values_supported: ['RS256', 'HS256'],
+  };
+  const config = {
+    clientId: 'test-client-id',
+    clientSecret: 'test-client-secret',
+    scopes: ['openid', 'email'],
+  } as OIDCProviderConfig;
+  const signingKey = createTestSigningKey('RS256', 'kid-1');
+
+  const jwtResponse = (token: string) =>
+    new Response(token, { headers: { 'Content-Type': 'application/jwt' } });
+
+  const createService = (
+    providerMetadata: Record<string, unknown> = metadata,
+    dpop?: DPoPProofSigner,
+    jws?: JwsVerifier
+  ) => {
+    const {
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+    } = createServiceDependencies(metadata.issuer);
+
+    return new UserInfoService(
+      config,
+      providerMetadata as any,
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+      new ClientAuthenticator(config, providerMetadata as any, logger),
+      dpop,
+      jws
+    );
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  it('should fetch and normalize JSON claims with a bearer token', async function () {
+    fetchStub.resolves(
+      jsonResponse({
+        sub: 'user-123',
+        email: 'ada@example.com',
+        email_verified: 'true',
+        given_name: 'Ada',
+        family_name: 'Lovelace',
+        groups: ['admins'],
+      })
+    );
+
+    const profile = await createService().fetch('access-token', {
+      expectedSubject: 'user-123',
+    });
+
+    expect(profile).to.deep.include({
+      id: 'user-123',
+      email: 'ada@example.com',
+      emailVerified: true,
+      name: 'Ada Lovelace',
+      groups: ['admins'],
+    });
+    const [url, options] = fetchStub.firstCall.args;
+    expect(url).to.equal(userinfoEndpoint);
+    expect(options.method).to.equal('GET');
+    expect(options.headers.Authorization).to.equal('Bearer access-token');
+  });
+
+  it('should support POST requests', async function () {
+    fetchStub.resolves(jsonResponse({ sub: 'user-123' }));
+
+    await createService().fetch('access-token', { method: 'POST' });
+
+    expect(fetchStub.firstCall.args[1].method).to.equal('POST');
+  });
+
+  it('should reject a response for another subject', async function () {
+    fetchStub.resolves(jsonResponse({ sub: 'someone-else' }));
+
+    await expectOAuthError(
+      () =>
+        createService().fetch('access-token', { expectedSubject: 'user-123' }),
+      'invalid_token',
+      'UserInfo sub does not match the ID token subject'
+    );
+  });
+
+  it('should reject responses without a sub claim or JSON object', async function () {
+    fetchStub.resolves(jsonResponse({ email: 'ada@example.com' }));
+    await expectOAuthError(
+      () => createService().fetch('access-token'),
+      'server_error',
+      'missing sub claim'
+    );
+
+    fetchStub.resolves(jsonResponse(['user-123']));
+    await expectOAuthError(
+      () => createService().fetch('access-token'),
+      'server_error',
+      'expected a JSON object'
+    );
+  });
+
+  describe('signed responses', function () {
+    const claims = (overrides: Record<string, unknown> = {}) => ({
+      iss: metadata.issuer,
+      aud: config.clientId,
+      sub: 'user-123',
+      email: 'ada@example.com',
+      ...overrides,
+    });
+
+    it('should verify JWT responses against the provider JWKS', async function () {
+      fetchStub.callsFake(async (url: string) =>
+        url === metadata.jwks_uri
+          ? jwksResponse([signingKey.jwk])
+          : jwtResponse(signTestJwt(claims(), signingKey))
+      );
+
+      const profile = await createService().fetch('access-token');
+
+      expect(profile.email).to.equal('ada@example.com');
+      expect(fetchStub.secondCall.args[0]).to.equal(metadata.jwks_uri);
+    });
+
+    it('should verify HS256 responses with the client secret', async function () {
+      fetchStub.resolves(
+        jwtResponse(
+          signTestJwt(claims(), {
+            alg: 'HS256',
+            secret: config.clientSecret!,
+          })
+        )
+      );
+
+      const profile = await createService().fetch('access-token');
+
+      expect(profile.id).to.equal('user-123');
+    });
+
+    it('should check the issuer of JWT responses with the issuer matcher', async function () {
+      const tenantIssuer = 'https://auth.example.com/tenant-1';
+      fetchStub.callsFake(async (url: string) =>
+        url === metadata.jwks_uri
+          ? jwksResponse([signingKey.jwk])
+          : jwtResponse(signTestJwt(claims({ iss: tenantIssuer }), signingKey))
+      );
+      const jws = new JwsVerifier(
+        metadata,
+        createJwksCache(metadata, undefined, { debug: sinon.stub() } as any),
+        (issuer) => issuer.startsWith(`${metadata.issuer}/`)
+      );
+
+      const profile = await createService(metadata, undefined, jws).fetch(
+        'access-token'
+      );
+
+      expect(profile.id).to.equal('user-123');
+    });
+
+    it('should reject untrusted JWT responses', async function () {
+      const otherKey = createTestSigningKey('RS256', 'kid-1');
+      fetchStub.callsFake(async (url: string) =>
+        url === metadata.jwks_uri
+          ? jwksResponse([signingKey.jwk])
+          : jwtResponse(signTestJwt(claims(), otherKey))
+      );
+      await expectOAuthError(
+        () => createService().fetch('access-token'),
+        'server_error',
+        'UserInfo response signature verification failed'
+      );
+
+      fetchStub.callsFake(async (url: string) =>
+        url === metadata.jwks_uri
+          ? jwksResponse([signingKey.jwk])
+          : jwtResponse(
+              signTestJwt(
+                claims({ iss: 'https://evil.example.com' }),
+                signingKey
+              )
+            )
+      );
+      await expectOAuthError(
+        () => createService().fetch('access-token'),
+        'server_error',
+        'UserInfo response issuer mismatch'
+      );
+
+      fetchStub.callsFake(async () =>
+        jwtResponse(
+          signTestJwt(claims(), signingKey, { alg: 'none' }).replace(
+            /\.[^.]+$/,
+            '.'
+          )
+        )
+      );
+      await expectOAuthError(
+        () => createService().fetch('access-token'),
+        'server_error',
+        'Unexpected UserInfo response signing algorithm: none'
+      );
+    });
+  });
+
+  describe('errors', function () {
+    it('should map WWW-Authenticate errors', async function () {
+      fetchStub.resolves(
+        new Response(null, {
+          status: 401,
+          headers: {
+            'WWW-Authenticate':
+              'Bearer error="invalid_token", error_description="The access token expired"',
+          },
+        })
+      );
+
+      await expectOAuthError(
+        () => createService().fetch('access-token'),
+        'invalid_token',
+        'The access token expired'
+      );
+    });
+
+    it('should fall back to the status code', async function () {
+      fetchStub.resolves(new Response(null, { status: 403 }));
+
+      await expectOAuthError(
+        () => createService().fetch('access-token'),
+        'insufficient_scope',
+        'UserInfo request failed: 403'
+      );
+    });
+
+    it('should retry 5xx responses', async function () {
+      fetchStub.callsFake(
+        async () =>
+          new Response(null, { status: 503, statusText: 'Service Unavailable' })
+      );
+
+      await expectOAuthError(
+        () => createService().fetch('access-token'),
+        'server_error',
+        'UserInfo request failed: 503'
+      );
+      expect(fetchStub.callCount).to.equal(3);
+    });
+
+    it('should fail without a UserInfo endpoint', async function () {
+      await expectOAuthError(
+        () => createService(oidcMetadata.minimal).fetch('access-token'),
+        'invalid_request',
+        'UserInfo endpoint not available'
+      );
+      expect(fetchStub.called).to.be.false;
+    });
+  });
+
+  describe('DPoP', function () {
+    it('should send a DPoP-bound request and retry with the server nonce', async function () {
+      const signer = new DPoPProofSigner({}, metadata as any);
+      fetchStub.onFirstCall().resolves(
+        new Response(null, {
+          status: 401,
+          headers: {
+            'WWW-Authenticate': 'DPoP error="use_dpop_nonce"',
+            'DPoP-Nonce': 'nonce-1',
+          },
+        })
+      );
+      fetchStub.onSecondCall().resolves(jsonResponse({ sub: 'user-123' }));
+
+      const profile = await createService(metadata, signer).fetch(
+        'access-token'
+      );
+
+      expect(profile.id).to.equal('user-123');
+      expect(fetchStub.callCount).to.equal(2);
+      const { headers } = fetchStub.secondCall.args[1];
+      expect(headers.Authorization).to.equal('DPoP access-token');
+      const proof = decodeJwt(headers.DPoP).payload;
+      expect(proof).to.include({
+        htm: 'GET',
+        htu: userinfoEndpoint,
+        nonce: 'nonce-1',
+      });
+      expect(proof.ath).to.be.a('string');
+    });
+  });
+});
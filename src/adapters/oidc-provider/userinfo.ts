@@ -0,0 +1,383 @@
+/**
+ * UserInfo endpoint client for OIDC Provider Adapter
+ * Implements OpenID Connect Core §5.3 with plain JSON and signed JWT responses
+ */
+
+import type { OAuthError, UserProfile } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { ResilienceContext } from '../../utils/resilience-manager.js';
+import { normalizeUserProfile } from '../../utils/user-profile.js';
+import {
+  asObject,
+  readString,
+  throwOnServerError,
+} from '../../utils/json-response.js';
+import type {
+  OIDCProviderConfig,
+  OIDCProviderMetadata,
+  UserInfoOptions,
+} from './types.js';
+import { audienceList, decodeJwt, type DecodedJwt } from './jwt.js';
+import { createJwksCache, JwsVerifier } from './jws.js';
+import { isNormalizedOAuthError } from './utils.js';
+import { ClientAuthenticator } from './client-auth.js';
+import { parseWWWAuthenticateHeader } from './protected-resource.js';
+import type { DPoPProofSigner } from './dpop.js';
+
+/**
+ * Raw UserInfo endpoint response
+ */
+type UserInfoResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  contentType: string;
+  body: string;
+  /** Error code from the `WWW-Authenticate` challenge (RFC 6750 §3) */
+  challengeError?: string;
+  challengeErrorDescription?: string;
+};
+
+/**
+ * UserInfo service
+ *
+ * Calls the provider's `userinfo_endpoint` with the access token (as a DPoP
+ * token when DPoP is enabled), verifies signed JWT responses against the
+ * provider JWKS or the client secret, and maps the claims to a
+ * {@link UserProfile}.
+ */
+export class UserInfoService {
+  constructor(
+    private readonly config: OIDCProviderConfig,
+    private readonly metadata: OIDCProviderMetadata,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context?: any
+    ) => OAuthError,
+    private readonly executeWithResilience: <T>(
+      operation: () => Promise<T>,
+      context: ResilienceContext
+    ) => Promise<T>,
+    private readonly clientAuthenticator = new ClientAuthenticator(
+      config,
+      metadata,
+      logger
+    ),
+    private readonly dpop?: DPoPProofSigner,
+    private readonly jws = new JwsVerifier(
+      metadata,
+      createJwksCache(
+        metadata,
+        config.idTokenValidation?.jwksCacheTtlSeconds,
+        logger
+      )
+    )
+  ) {}
+
+  /**
+   * Fetch the claims of the user an access token was issued to
+   * @param accessToken - Access token with the `openid` scope
+   * @param options - HTTP method and the expected subject
+   * @returns Normalized user profile
+   * @throws {OAuthError} `invalid_token` when the provider rejects the token or
+   * returns another subject, `server_error` for invalid responses
+   */
+  async fetch(
+    accessToken: string,
+    options: UserInfoOptions = {}
+  ): Promise<UserProfile> {
+    if (!this.metadata.userinfo_endpoint) {
+      throw this.createStandardError(
+        'invalid_request',
+        'UserInfo endpoint not available',
+        {
+          stage: 'fetchUserInfo',
+          ...(this.metadata.issuer && {
+            issuer: this.metadata.issuer,
+          }),
+        }
+      );
+    }
+
+    const endpoint = this.clientAuthenticator.endpoint(
+      'userinfo_endpoint',
+      this.metadata.userinfo_endpoint
+    );
+    const method = options.method ?? 'GET';
+
+    try {
+      this.logger.debug('Fetching UserInfo', {
+        stage: 'fetchUserInfo',
+        issuer: this.metadata.issuer,
+        endpoint,
+        method,
+        dpop: Boolean(this.dpop),
+      });
+
+      const response = await this.executeWithResilience(
+        () => this.sendRequest(endpoint, method, accessToken),
+        {
+          endpoint: 'userinfo_endpoint',
+          circuitKey: endpoint,
+        }
+      );
+
+      if (!response.ok) {
+        const body = parseJsonObject(response.body);
+        throw this.createStandardError(
+          response.challengeError ||
+            readString(body, 'error') ||
+            defaultErrorForStatus(response.status),
+          response.challengeErrorDescription ||
+            readString(body, 'error_description') ||
+            `UserInfo request failed: ${response.status} ${response.statusText}`,
+          {
+            stage: 'fetchUserInfo',
+            issuer: this.metadata.issuer,
+            endpoint: 'userinfo_endpoint',
+          }
+        );
+      }
+
+      const claims = /^application\/jwt\b/i.test(response.contentType)
+        ? await this.verifySignedResponse(response.body)
+        : parseJsonObject(response.body);
+      if (!claims) {
+        throw this.invalidResponse(
+          'Invalid UserInfo response: expected a JSON object'
+        );
+      }
+
+      if (typeof claims.sub !== 'string' || !claims.sub) {
+        throw this.invalidResponse(
+          'Invalid UserInfo response: missing sub claim'
+        );
+      }
+
+      // Core §5.3.2: the sub claim MUST match the ID token's sub
+      if (
+        options.expectedSubject !== undefined &&
+        claims.sub !== options.expectedSubject
+      ) {
+        this.logger.warn('UserInfo subject mismatch', {
+          stage: 'fetchUserInfo',
+          issuer: this.metadata.issuer,
+        });
+        throw this.createStandardError(
+          'invalid_token',
+          'UserInfo sub does not match the ID token subject',
+          {
+            stage: 'fetchUserInfo',
+            issuer: this.metadata.issuer,
+            endpoint: 'userinfo_endpoint',
+          }
+        );
+      }
+
+      const profile = normalizeUserProfile(claims);
+
+      this.logger.debug('UserInfo fetched', {
+        stage: 'fetchUserInfo',
+        issuer: this.metadata.issuer,
+        endpoint,
+        signed: /^application\/jwt\b/i.test(response.contentType),
+        claims: Object.keys(claims),
+      });
+
+      return profile;
+    } catch (error) {
+      this.logger.error('UserInfo request failed', {
+        stage: 'fetchUserInfo',
+        issuer: this.metadata.issuer,
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'userinfo_endpoint',
+      });
+    }
+  }
+
+  /**
+   * Send the UserInfo request, attaching a DPoP proof when enabled and
+   * retrying once with the server's nonce on `use_dpop_nonce` (RFC 9449 §9)
+   * @throws Error on 5xx responses so the request is retried
+   */
+  private async sendRequest(
+    endpoint: string,
+    method: 'GET' | 'POST',
+    accessToken: string
+  ): Promise<UserInfoResponse> {
+    const send = () =>
+      this.clientAuthenticator.fetch(endpoint, {
+        method,
+        headers: {
+          Accept: 'application/json, application/jwt',
+          ...(this.dpop
+            ? {
+                Authorization: `DPoP ${accessToken}`,
+                DPoP: this.dpop.createProof(method, endpoint, accessToken),
+              }
+            : { Authorization: `Bearer ${accessToken}` }),
+        },
+      });
+
+    let response = await send();
+    let challenge = readChallenge(response.headers);
+    if (
+      this.dpop?.rememberNonce(endpoint, response.headers) &&
+      response.status === 401 &&
+      challenge.error === 'use_dpop_nonce'
+    ) {
+      this.logger.debug('Retrying UserInfo request with DPoP nonce', {
+        issuer: this.metadata.issuer,
+        endpoint,
+      });
+      response = await send();
+      this.dpop.rememberNonce(endpoint, response.headers);
+      challenge = readChallenge(response.headers);
+    }
+
+    throwOnServerError(response, 'UserInfo request');
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type') ?? '',
+      body: await response.text(),
+      ...(challenge.error && { challengeError: challenge.error }),
+      ...(challenge.description && {
+        challengeErrorDescription: challenge.description,
+      }),
+    };
+  }
+
+  /**
+   * Verify a signed UserInfo response (Core §5.3.2) and return its claims
+   */
+  private async verifySignedResponse(
+    token: string
+  ): Promise<Record<string, unknown>> {
+    let decoded: DecodedJwt;
+    try {
+      decoded = decodeJwt(token.trim());
+    } catch (error) {
+      throw this.invalidResponse(
+        `UserInfo response JWT is malformed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    await this.verifySignature(decoded);
+
+    const { payload } = decoded;
+    if (payload.iss !== undefined) {
+      this.jws.verifyIssuer(payload, {
+        name: 'UserInfo response',
+        invalid: (description) => this.invalidResponse(description),
+      });
+    }
+    if (
+      payload.aud !== undefined &&
+      !audienceList(payload.aud).includes(this.config.clientId)
+    ) {
+      throw this.invalidResponse(
+        'UserInfo response audience does not include client_id'
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Verify the JWS signature using the provider JWKS or the client secret
+   */
+  private async verifySignature(decoded: DecodedJwt): Promise<void> {
+    await this.jws.verifySignature(decoded, {
+      name: 'UserInfo response',
+      algorithms: this.metadata.userinfo_signing_alg_values_supported ??
+        this.metadata.id_token_signing_alg_values_supported ?? ['RS256'],
+      ...(this.config.clientSecret && {
+        clientSecret: this.config.clientSecret,
+      }),
+      invalid: (description) => this.invalidResponse(description),
+    });
+  }
+
+  /**
+   * Build a server_error for UserInfo responses that cannot be trusted
+   */
+  private invalidResponse(description: string): OAuthError {
+    return this.createStandardError('server_error', description, {
+      stage: 'fetchUserInfo',
+      issuer: this.metadata.issuer,
+      endpoint: 'userinfo_endpoint',
+    });
+  }
+}
+
+/**
+ * Read the error from a Bearer or DPoP `WWW-Authenticate` challenge
+ */
+function readChallenge(headers: Headers): {
+  error?: string;
+  description?: string;
+} {
+  const header = headers.get('www-authenticate');
+  if (!header) {
+    return {};
+  }
+
+  try {
+    const challenge = parseWWWAuthenticateHeader(header).find(
+      ({ params }) => params.error
+    );
+    return challenge
+      ? {
+          ...(challenge.params.error && { error: challenge.params.error }),
+          ...(challenge.params.error_description && {
+            description: challenge.params.error_description,
+          }),
+        }
+      : {};
+  } catch {
+    // Malformed challenge; fall back to the response body and status
+    return {};
+  }
+}
+
+/**
+ * Error code for failed responses without an error parameter (RFC 6750 §3.1)
+ */
+function defaultErrorForStatus(status: number): string {
+  if (status === 401) {
+    return 'invalid_token';
+  }
+  if (status === 403) {
+    return 'insufficient_scope';
+  }
+  return 'invalid_request';
+}
+
+/**
+ * Parse a response body as a JSON object
+ */
+function parseJsonObject(body: string): Record<string, unknown> | null {
+  try {
+    return asObject(JSON.parse(body));
+  } catch {
+    return null;
+  }
+}
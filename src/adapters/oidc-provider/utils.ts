@@ -13,6 +13,15 @@ export const OIDC_CONSTANTS = {
   DISCOVERY_BACKOFF_MS: 300, // base backoff
   CIRCUIT_FAILURE_THRESHOLD: 3,
   CIRCUIT_OPEN_MS: 60_000, // 60s
+  JWKS_CACHE_TTL_SECONDS: 600, // 10 minutes
+  JWKS_MIN_REFRESH_INTERVAL_MS: 30_000, // rate limit for unknown-kid refetches
+  ID_TOKEN_CLOCK_TOLERANCE_SECONDS: 30,
+  ACCESS_TOKEN_CLOCK_TOLERANCE_SECONDS: 30,
+  INTROSPECTION_CACHE_MAX_ENTRIES: 1000,
+  DPOP_PROOF_MAX_AGE_SECONDS: 300,
+  DPOP_CLOCK_TOLERANCE_SECONDS: 30,
+  DPOP_JTI_STORE_MAX_ENTRIES: 10_000,
+  CLIENT_CREDENTIALS_EXPIRY_SKEW_SECONDS: 30, // refresh cached tokens early
 } as const;
 
 /**
@@ -91,6 +100,23 @@ export function extractUserData(
   return hasData ? userData : undefined;
 }
 
+/**
+ * Read a confirmation method from the `cnf` claim of a token (RFC 7800)
+ * @param claims - Token claims or introspection response
+ * @param member - Confirmation member, e.g. `x5t#S256` or `jkt`
+ */
+export function readConfirmationClaim(
+  claims: Record<string, unknown>,
+  member: string
+): string | undefined {
+  const cnf = claims.cnf;
+  if (!cnf || typeof cnf !== 'object') {
+    return undefined;
+  }
+  const value = (cnf as Record<string, unknown>)[member];
+  return typeof value === 'string' ? value : undefined;
+}
+
 /**
  * Validate provider metadata has required endpoints
  */
@@ -104,6 +130,31 @@ export function validateProviderMetadata(metadata: OIDCProviderMetadata): void {
   }
 }
 
+/**
+ * Normalize RFC 8707 resource indicator(s) to a list
+ * @throws Error if a value is not an absolute URI or includes a fragment
+ */
+export function normalizeResourceIndicators(
+  resource: string | string[] | undefined
+): string[] {
+  if (resource === undefined) {
+    return [];
+  }
+
+  const resources = Array.isArray(resource) ? resource : [resource];
+  for (const value of resources) {
+    if (!URL.canParse(value)) {
+      throw new Error(`Resource indicator must be an absolute URI: ${value}`);
+    }
+    if (value.includes('#')) {
+      throw new Error(
+        `Resource indicator must not include a fragment: ${value}`
+      );
+    }
+  }
+  return resources;
+}
+
 /**
  * Type guard to check if an error is already a normalized OAuthError
  * Uses the same logic as ErrorNormalizer.tryOAuthErrorShape() to detect
@@ -0,0 +1,62 @@
+/**
+ * Okta config validation unit tests
+ */
+
+import { expect } from 'chai';
+import { validate, safeValidate } from './config.js';
+
+describe('OktaProviderConfig Validation', function () {
+  it('should apply defaults', function () {
+    const result = validate({
+      clientId: '0oa1b2c3d4',
+      domain: 'dev-123456.okta.com',
+    });
+
+    expect(result.scopes).to.deep.equal(['openid', 'profile', 'email']);
+    expect(result.authorizationServerId).to.be.undefined;
+  });
+
+  it('should reject URLs as domain', function () {
+    const result = safeValidate({
+      clientId: '0oa1b2c3d4',
+      domain: 'https://dev-123456.okta.com',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('host name');
+  });
+
+  it('should reject invalid authorization server IDs', function () {
+    expect(
+      safeValidate({
+        clientId: '0oa1b2c3d4',
+        domain: 'dev-123456.okta.com',
+        authorizationServerId: 'default/v1',
+      }).success
+    ).to.be.false;
+  });
+
+  it('should require a custom authorization server for audience', function () {
+    const result = safeValidate({
+      clientId: '0oa1b2c3d4',
+      domain: 'dev-123456.okta.com',
+      audience: 'api://default',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include(
+      'requires authorizationServerId'
+    );
+  });
+
+  it('should reject issuer and metadata', function () {
+    const result = safeValidate({
+      clientId: '0oa1b2c3d4',
+      domain: 'dev-123456.okta.com',
+      issuer: 'https://dev-123456.okta.com',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('derived from domain');
+  });
+});
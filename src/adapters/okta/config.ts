@@ -0,0 +1,78 @@
+/**
+ * Okta Provider Configuration Schema and Validation
+ * Validates the Okta-specific settings; the remaining OIDC settings are
+ * passed through and validated by the OIDC provider schema
+ */
+
+import { z } from 'zod';
+import { OKTA_CONSTANTS } from './utils.js';
+
+/**
+ * Okta Provider Configuration Schema
+ */
+export const OktaProviderConfigSchema = z
+  .object({
+    clientId: z.string().min(1, 'clientId is required'),
+    domain: z
+      .string()
+      .regex(
+        OKTA_CONSTANTS.DOMAIN_PATTERN,
+        'domain must be a host name, e.g. dev-123456.okta.com'
+      ),
+    authorizationServerId: z
+      .string()
+      .regex(
+        OKTA_CONSTANTS.AUTHORIZATION_SERVER_ID_PATTERN,
+        'authorizationServerId must be an authorization server ID, e.g. default'
+      )
+      .optional(),
+    audience: z.string().min(1, 'audience must not be empty').optional(),
+    scopes: z.array(z.string()).default(['openid', 'profile', 'email']),
+  })
+  .passthrough()
+  .refine((v) => !('issuer' in v) && !('metadata' in v), {
+    message:
+      'issuer and metadata are derived from domain and authorizationServerId and cannot be set',
+    path: ['issuer', 'metadata'],
+  })
+  .refine((v) => v.audience === undefined || !!v.authorizationServerId, {
+    message:
+      'audience requires authorizationServerId; the org authorization server only issues tokens for Okta APIs',
+    path: ['audience'],
+  });
+
+export type OktaProviderConfig = z.infer<typeof OktaProviderConfigSchema>;
+
+/**
+ * Validate Okta provider configuration
+ * @param config - Configuration object to validate
+ * @returns Validated configuration
+ * @throws ZodError with detailed validation messages
+ */
+export function validate(config: unknown): OktaProviderConfig {
+  return OktaProviderConfigSchema.parse(config);
+}
+
+/**
+ * Safe validation that returns validation result instead of throwing
+ * @param config - Configuration object to validate
+ * @returns Validation result with success/error information
+ */
+export function safeValidate(config: unknown): {
+  success: boolean;
+  data?: OktaProviderConfig;
+  error?: z.ZodError;
+} {
+  const result = OktaProviderConfigSchema.safeParse(config);
+  if (result.success) {
+    return {
+      success: true,
+      data: result.data,
+    };
+  } else {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+}
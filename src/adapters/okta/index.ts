@@ -0,0 +1,11 @@
+/**
+ * Okta Provider Adapter exports
+ */
+
+export { OktaProviderAdapter } from './okta-adapter.js';
+export {
+  validate as validateOktaConfig,
+  safeValidate as safeValidateOktaConfig,
+  OktaProviderConfigSchema,
+} from './config.js';
+export type { OktaProviderConfig } from './types.js';
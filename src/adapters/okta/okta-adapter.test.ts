@@ -0,0 +1,170 @@
+/**
+ * Okta Provider Adapter unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { OktaProviderAdapter } from './okta-adapter.js';
+import type { OktaProviderConfig } from './types.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse, stubProviderFetch } from '../../testUtils/fetch.js';
+import { createTestSigningKey, signTestJwt } from '../../testUtils/jwt.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('OktaProviderAdapter', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const signingKey = createTestSigningKey('RS256');
+  const redirectUrl = 'https://app.example.com/callback';
+  const domain = 'dev-123456.okta.com';
+
+  const buildMetadata = (issuer: string) => ({
+    issuer,
+    authorization_endpoint: `${issuer}/v1/authorize`,
+    token_endpoint: `${issuer}/v1/token`,
+    jwks_uri: `${issuer}/v1/keys`,
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+  });
+  const customMetadata = buildMetadata(`https://${domain}/oauth2/default`);
+
+  const stubOkta = (tokenResponse?: () => Response) =>
+    stubProviderFetch(fetchStub, {
+      discovery: {
+        [`https://${domain}/.well-known/openid-configuration`]: buildMetadata(
+          `https://${domain}`
+        ),
+        [`${customMetadata.issuer}/.well-known/openid-configuration`]:
+          customMetadata,
+      },
+      keys: [signingKey.jwk],
+      routes: tokenResponse
+        ? { [customMetadata.token_endpoint]: tokenResponse }
+        : {},
+    });
+
+  const createAdapter = async (config: Partial<OktaProviderConfig> = {}) => {
+    const adapter = new OktaProviderAdapter({
+      clientId: '0oa1b2c3d4',
+      clientSecret: 'client-secret',
+      domain,
+      ...config,
+    });
+    await adapter.initialize();
+    return adapter;
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('initialize', function () {
+    it('should discover the custom authorization server', async function () {
+      stubOkta();
+      const adapter = await createAdapter({ authorizationServerId: 'default' });
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(adapter.providerName).to.equal('okta');
+      expect(adapter.getProviderMetadata()?.issuer).to.equal(
+        customMetadata.issuer
+      );
+      expect(`${url.origin}${url.pathname}`).to.equal(
+        customMetadata.authorization_endpoint
+      );
+    });
+
+    it('should discover the org authorization server by default', async function () {
+      stubOkta();
+      const adapter = await createAdapter();
+
+      expect(adapter.getProviderMetadata()?.issuer).to.equal(
+        `https://${domain}`
+      );
+    });
+  });
+
+  describe('error mapping', function () {
+    it('should map Okta API error payloads', async function () {
+      stubOkta(() =>
+        jsonResponse(
+          {
+            errorCode: 'E0000047',
+            errorSummary:
+              'API call exceeded rate limit due to too many requests.',
+            errorCauses: [],
+          },
+          429
+        )
+      );
+      const adapter = await createAdapter({ authorizationServerId: 'default' });
+
+      await expectOAuthError(
+        () => adapter.exchangeCode('code-123', 'verifier-123', redirectUrl),
+        'temporarily_unavailable',
+        'too many requests. (E0000047)'
+      );
+    });
+  });
+
+  describe('createAccessTokenVerifier', function () {
+    it('should verify tokens for the configured audience', async function () {
+      stubOkta();
+      const adapter = await createAdapter({
+        authorizationServerId: 'default',
+        audience: 'api://default',
+      });
+      const now = Math.floor(Date.now() / 1000);
+
+      const claims = await adapter.createAccessTokenVerifier().verify(
+        signTestJwt(
+          {
+            iss: customMetadata.issuer,
+            sub: 'user@example.com',
+            aud: 'api://default',
+            cid: '0oa1b2c3d4',
+            scp: ['files.read'],
+            exp: now + 300,
+            iat: now,
+          },
+          signingKey
+        )
+      );
+
+      expect(claims.sub).to.equal('user@example.com');
+      expect(claims.scopes).to.deep.equal(['files.read']);
+    });
+
+    it('should reject the org authorization server', async function () {
+      stubOkta();
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        async () => adapter.createAccessTokenVerifier({ audience: 'api' }),
+        'invalid_request',
+        'configure authorizationServerId'
+      );
+    });
+  });
+
+  describe('Provider Quirks', function () {
+    it('should not support resource indicators', async function () {
+      stubOkta();
+      const adapter = await createAdapter({ authorizationServerId: 'default' });
+
+      expect(adapter.getProviderQuirks().supportsResourceIndicators).to.be
+        .false;
+    });
+  });
+});
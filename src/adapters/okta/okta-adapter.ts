@@ -0,0 +1,108 @@
+/**
+ * Okta Provider Adapter
+ * Extends the OIDC Provider Adapter with Okta authorization server selection
+ * and Okta API error mapping
+ */
+
+import type { OAuthError, ProviderQuirks } from '../../types.js';
+import { OIDCProviderAdapter } from '../oidc-provider/oidc-adapter.js';
+import type { AccessTokenVerifier } from '../oidc-provider/access-token.js';
+import type {
+  AccessTokenVerifierOptions,
+  OIDCProviderConfig,
+} from '../oidc-provider/types.js';
+import type { OktaProviderConfig } from './types.js';
+import { validate as validateConfig } from './config.js';
+import { buildOktaIssuer, normalizeOktaError } from './utils.js';
+
+/**
+ * Okta Provider Adapter
+ *
+ * Okta has an org authorization server at `https://{domain}` and custom
+ * authorization servers at `https://{domain}/oauth2/{authorizationServerId}`.
+ * Only custom authorization servers issue access tokens for your own APIs,
+ * so access token verification requires one.
+ */
+export class OktaProviderAdapter extends OIDCProviderAdapter {
+  /** Provider name identifier */
+  public readonly providerName: string = 'okta';
+
+  /** Custom authorization server ID (unset for the org authorization server) */
+  private readonly authorizationServerId?: string;
+
+  /** Audience of the custom authorization server */
+  private readonly audience?: string;
+
+  /**
+   * Creates a new Okta Provider Adapter instance
+   * @param config - Okta provider configuration
+   */
+  public constructor(config: OktaProviderConfig) {
+    // Validate the Okta settings; OIDC settings are validated by the base class
+    const { domain, authorizationServerId, audience, ...oidcConfig } =
+      validateConfig(config);
+
+    super({
+      ...oidcConfig,
+      issuer: buildOktaIssuer(domain, authorizationServerId),
+    } as OIDCProviderConfig);
+
+    if (authorizationServerId !== undefined) {
+      this.authorizationServerId = authorizationServerId;
+    }
+    if (audience !== undefined) {
+      this.audience = audience;
+    }
+  }
+
+  /**
+   * Create a verifier for access tokens issued by the custom authorization
+   * server. Okta does not use the `at+jwt` typ header, so it is not required
+   * unless requested, and the audience defaults to the configured audience.
+   * @param options - Expected audience, required scopes and verification settings
+   * @returns Verifier bound to the authorization server issuer and JWKS
+   * @throws {OAuthError} If the org authorization server is configured
+   */
+  public createAccessTokenVerifier(
+    options: AccessTokenVerifierOptions = {}
+  ): AccessTokenVerifier {
+    if (this.authorizationServerId === undefined) {
+      throw this.createStandardError(
+        'invalid_request',
+        'Access tokens from the Okta org authorization server are intended for Okta APIs and cannot be verified; configure authorizationServerId',
+        { stage: 'createAccessTokenVerifier' }
+      );
+    }
+
+    const audience = options.audience ?? this.audience;
+
+    return super.createAccessTokenVerifier({
+      requireTyp: false,
+      ...options,
+      ...(audience && { audience }),
+    });
+  }
+
+  /**
+   * Normalize errors and map Okta API error codes (`E0000047`) to OAuth
+   * error codes
+   */
+  protected normalizeError(
+    e: unknown,
+    context: { endpoint?: string; issuer?: string }
+  ): OAuthError {
+    return normalizeOktaError(super.normalizeError(e, context));
+  }
+
+  /**
+   * Compute provider-specific capabilities and requirements
+   * @returns Provider quirks
+   */
+  protected computeProviderQuirks(): ProviderQuirks {
+    return {
+      ...super.computeProviderQuirks(),
+      // Audiences are configured on the authorization server, not requested
+      supportsResourceIndicators: false,
+    };
+  }
+}
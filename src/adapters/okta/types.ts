@@ -0,0 +1,32 @@
+/**
+ * Okta Provider Adapter types
+ */
+
+import type { OIDCProviderConfig } from '../oidc-provider/types.js';
+
+/**
+ * Okta Provider Adapter configuration
+ *
+ * The issuer is derived from `domain` and `authorizationServerId`, so `issuer`
+ * and `metadata` cannot be set directly.
+ */
+export interface OktaProviderConfig extends Omit<
+  OIDCProviderConfig,
+  'issuer' | 'metadata' | 'scopes'
+> {
+  /** Okta org or custom domain, e.g. `dev-123456.okta.com` */
+  domain: string;
+  /**
+   * Custom authorization server ID, e.g. `default` or `aus1a2b3c4d5e6f7g8h9`.
+   * When unset, the org authorization server is used; it issues ID tokens and
+   * access tokens for Okta APIs only.
+   */
+  authorizationServerId?: string;
+  /**
+   * Audience of the custom authorization server, e.g. `api://default`. Used
+   * as the expected audience when verifying access tokens.
+   */
+  audience?: string;
+  /** Scopes to request (default: openid, profile and email) */
+  scopes?: string[];
+}
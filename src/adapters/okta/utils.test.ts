@@ -0,0 +1,52 @@
+/**
+ * Okta utilities unit tests
+ */
+
+import { expect } from 'chai';
+import { buildOktaIssuer, normalizeOktaError } from './utils.js';
+
+describe('Okta utils', function () {
+  describe('buildOktaIssuer', function () {
+    it('should build custom and org authorization server issuers', function () {
+      expect(buildOktaIssuer('dev-123456.okta.com', 'default')).to.equal(
+        'https://dev-123456.okta.com/oauth2/default'
+      );
+      expect(buildOktaIssuer('dev-123456.okta.com')).to.equal(
+        'https://dev-123456.okta.com'
+      );
+    });
+  });
+
+  describe('normalizeOktaError', function () {
+    it('should map Okta API error codes', function () {
+      expect(
+        normalizeOktaError({
+          statusCode: 400,
+          error: 'E0000047',
+          error_description: 'API call exceeded rate limit',
+        })
+      ).to.deep.equal({
+        statusCode: 400,
+        error: 'temporarily_unavailable',
+        error_description: 'API call exceeded rate limit (E0000047)',
+      });
+    });
+
+    it('should map unknown Okta codes to server_error', function () {
+      const result = normalizeOktaError({ statusCode: 400, error: 'E0000999' });
+
+      expect(result.error).to.equal('server_error');
+      expect(result.error_description).to.equal('E0000999');
+    });
+
+    it('should leave OAuth errors unchanged', function () {
+      const error = {
+        statusCode: 400,
+        error: 'invalid_grant',
+        error_description: 'The authorization code is invalid or has expired.',
+      };
+
+      expect(normalizeOktaError(error)).to.equal(error);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Shared utilities for Okta Provider Adapter
+ */
+
+import type { OAuthError } from '../../types.js';
+
+/**
+ * Constants for Okta domains and authorization servers
+ */
+export const OKTA_CONSTANTS = {
+  DOMAIN_PATTERN: /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/,
+  AUTHORIZATION_SERVER_ID_PATTERN: /^[A-Za-z0-9]+$/,
+  ERROR_CODE_PATTERN: /^E\d{7}$/,
+} as const;
+
+/**
+ * Okta API error codes mapped to OAuth 2.0 error codes
+ * (https://developer.okta.com/docs/reference/error-codes/)
+ */
+const OKTA_ERROR_CODES: Record<string, string> = {
+  E0000001: 'invalid_request', // API validation failed
+  E0000004: 'invalid_grant', // authentication failed
+  E0000006: 'access_denied', // insufficient permissions
+  E0000007: 'invalid_request', // resource not found
+  E0000011: 'invalid_token', // invalid token provided
+  E0000015: 'unauthorized_client', // feature not enabled for the org
+  E0000047: 'temporarily_unavailable', // rate limit exceeded
+};
+
+/**
+ * Build the issuer (and discovery base) of an Okta authorization server
+ * @param domain - Okta org or custom domain
+ * @param authorizationServerId - Custom authorization server ID; the org
+ * authorization server when undefined
+ */
+export function buildOktaIssuer(
+  domain: string,
+  authorizationServerId?: string
+): string {
+  return authorizationServerId === undefined
+    ? `https://${domain}`
+    : `https://${domain}/oauth2/${authorizationServerId}`;
+}
+
+/**
+ * Map an Okta API error code (`E0000047`) to the matching OAuth error code
+ * and keep the Okta code in the description for troubleshooting
+ * @param error - Normalized error from an Okta response
+ * @returns Error with mapped code; OAuth errors are unchanged
+ */
+export function normalizeOktaError(error: OAuthError): OAuthError {
+  const code = error.error;
+  if (!OKTA_CONSTANTS.ERROR_CODE_PATTERN.test(code)) {
+    return error;
+  }
+
+  return {
+    ...error,
+    error: OKTA_ERROR_CODES[code] ?? 'server_error',
+    error_description: error.error_description
+      ? `${error.error_description} (${code})`
+      : code,
+  };
+}
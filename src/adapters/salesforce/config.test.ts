@@ -0,0 +1,50 @@
+/**
+ * Salesforce config validation unit tests
+ */
+
+import { expect } from 'chai';
+import { validate, safeValidate } from './config.js';
+
+describe('SalesforceProviderConfig Validation', function () {
+  it('should apply defaults', function () {
+    const result = validate({ clientId: '3MVG9consumer-key' });
+
+    expect(result.sandbox).to.be.false;
+    expect(result.scopes).to.deep.equal(['openid', 'api', 'refresh_token']);
+  });
+
+  it('should reject URLs as myDomain', function () {
+    const result = safeValidate({
+      clientId: '3MVG9consumer-key',
+      myDomain: 'https://acme.my.salesforce.com',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include('host name');
+  });
+
+  it('should reject sandbox together with myDomain', function () {
+    const result = safeValidate({
+      clientId: '3MVG9consumer-key',
+      myDomain: 'acme.my.salesforce.com',
+      sandbox: true,
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include(
+      'sandbox My Domain host'
+    );
+  });
+
+  it('should reject issuer and metadata', function () {
+    const result = safeValidate({
+      clientId: '3MVG9consumer-key',
+      issuer: 'https://login.salesforce.com',
+    });
+
+    expect(result.success).to.be.false;
+    expect(result.error?.issues[0]?.message).to.include(
+      'derived from myDomain'
+    );
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Salesforce Provider Configuration Schema and Validation
+ * Validates the Salesforce-specific settings; the remaining OIDC settings are
+ * passed through and validated by the OIDC provider schema
+ */
+
+import { z } from 'zod';
+import { SALESFORCE_CONSTANTS } from './utils.js';
+
+/**
+ * Salesforce Provider Configuration Schema
+ */
+export const SalesforceProviderConfigSchema = z
+  .object({
+    clientId: z.string().min(1, 'clientId is required'),
+    myDomain: z
+      .string()
+      .regex(
+        SALESFORCE_CONSTANTS.DOMAIN_PATTERN,
+        'myDomain must be a host name, e.g. acme.my.salesforce.com'
+      )
+      .optional(),
+    sandbox: z.boolean().default(false),
+    scopes: z.array(z.string()).default(['openid', 'api', 'refresh_token']),
+  })
+  .passthrough()
+  .refine((v) => !('issuer' in v) && !('metadata' in v), {
+    message:
+      'issuer and metadata are derived from myDomain and sandbox and cannot be set',
+    path: ['issuer', 'metadata'],
+  })
+  .refine((v) => !(v.myDomain && v.sandbox), {
+    message:
+      'sandbox cannot be combined with myDomain; use the sandbox My Domain host, e.g. acme--uat.sandbox.my.salesforce.com',
+    path: ['sandbox'],
+  });
+
+export type SalesforceProviderConfig = z.infer<
+  typeof SalesforceProviderConfigSchema
+>;
+
+/**
+ * Validate Salesforce provider configuration
+ * @param config - Configuration object to validate
+ * @returns Validated configuration
+ * @throws ZodError with detailed validation messages
+ */
+export function validate(config: unknown): SalesforceProviderConfig {
+  return SalesforceProviderConfigSchema.parse(config);
+}
+
+/**
+ * Safe validation that returns validation result instead of throwing
+ * @param config - Configuration object to validate
+ * @returns Validation result with success/error information
+ */
+export function safeValidate(config: unknown): {
+  success: boolean;
+  data?: SalesforceProviderConfig;
+  error?: z.ZodError;
+} {
+  const result = SalesforceProviderConfigSchema.safeParse(config);
+  if (result.success) {
+    return {
+      success: true,
+      data: result.data,
+    };
+  } else {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Salesforce identity service unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { SalesforceIdentityService } from './identity.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse } from '../../testUtils/fetch.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+import { createServiceDependencies } from '../../testUtils/services.js';
+
+describe('SalesforceIdentityService', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const issuer = 'https://login.salesforce.com';
+  const identityUrl = `${issuer}/id/00Dxx0000001gPLEAY/005xx000001SwiUAAS`;
+  const identity = {
+    id: identityUrl,
+    user_id: '005xx000001SwiUAAS',
+    organization_id: '00Dxx0000001gPLEAY',
+    username: 'admin@acme.example.com',
+    display_name: 'Ada Admin',
+    email: 'ada@acme.example.com',
+    email_verified: true,
+    photos: { picture: 'https://acme.file.force.com/profilephoto/005/F' },
+    urls: {
+      rest: 'https://acme.my.salesforce.com/services/data/v{version}/',
+    },
+  };
+
+  const createService = () => {
+    const {
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience,
+    } = createServiceDependencies(issuer);
+
+    return new SalesforceIdentityService(
+      issuer,
+      logger,
+      createStandardError,
+      normalizeError,
+      executeWithResilience
+    );
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  it('should map the identity response to a user profile', async function () {
+    fetchStub.resolves(jsonResponse(identity));
+
+    const profile = await createService().fetchIdentity(
+      'access-token',
+      identityUrl
+    );
+
+    expect(profile).to.deep.include({
+      id: '005xx000001SwiUAAS',
+      email: 'ada@acme.example.com',
+      emailVerified: true,
+      name: 'Ada Admin',
+      picture: identity.photos.picture,
+    });
+    expect(profile.claims.organization_id).to.equal('00Dxx0000001gPLEAY');
+    expect(profile.claims.urls).to.deep.equal(identity.urls);
+    const [url, options] = fetchStub.firstCall.args;
+    expect(url).to.equal(identityUrl);
+    expect(options.headers.Authorization).to.equal('Bearer access-token');
+  });
+
+  it('should reject tokens Salesforce does not accept', async function () {
+    fetchStub.resolves(
+      new Response('Bad_OAuth_Token', { status: 403, statusText: 'Forbidden' })
+    );
+
+    await expectOAuthError(
+      () => createService().fetchIdentity('expired-token', identityUrl),
+      'invalid_token',
+      '403 Forbidden'
+    );
+  });
+
+  it('should reject responses without a user ID', async function () {
+    fetchStub.resolves(jsonResponse({ organization_id: '00Dxx0000001gPLEAY' }));
+
+    await expectOAuthError(
+      () => createService().fetchIdentity('access-token', identityUrl),
+      'server_error',
+      'missing user_id'
+    );
+  });
+});
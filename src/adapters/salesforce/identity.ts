@@ -0,0 +1,148 @@
+/**
+ * Identity URL lookup for Salesforce Provider Adapter
+ * Reads the identity URL returned in the `id` field of token responses
+ */
+
+import type { OAuthError, UserProfile } from '../../types.js';
+import type { Logger } from '../../logging/types.js';
+import type { ResilienceContext } from '../../utils/resilience-manager.js';
+import { normalizeUserProfile } from '../../utils/user-profile.js';
+import {
+  asObject,
+  readJsonResponse,
+  type JsonResponse,
+} from '../../utils/json-response.js';
+import { isNormalizedOAuthError } from '../oidc-provider/utils.js';
+
+/**
+ * Salesforce identity service
+ *
+ * Builds a {@link UserProfile} from the identity URL response. `id` is the
+ * Salesforce user ID; the organization ID, username and API URLs (`urls`)
+ * are kept in `claims`.
+ */
+export class SalesforceIdentityService {
+  constructor(
+    private readonly issuer: string,
+    private readonly logger: Logger,
+    private readonly createStandardError: (
+      error: string,
+      description: string,
+      context?: any
+    ) => OAuthError,
+    private readonly normalizeError: (
+      error: unknown,
+      context?: any
+    ) => OAuthError,
+    private readonly executeWithResilience: <T>(
+      operation: () => Promise<T>,
+      context: ResilienceContext
+    ) => Promise<T>
+  ) {}
+
+  /**
+   * Fetch the identity of the user an access token belongs to
+   * @param accessToken - User access token
+   * @param identityUrl - Identity URL from the token response
+   * @returns Normalized user profile
+   * @throws {OAuthError} `invalid_token` if Salesforce rejects the token
+   */
+  async fetchIdentity(
+    accessToken: string,
+    identityUrl: string
+  ): Promise<UserProfile> {
+    try {
+      const response = await this.get(identityUrl, accessToken);
+      if (!response.ok) {
+        throw this.identityError(response);
+      }
+
+      const identity = asObject(response.body);
+      if (!identity || typeof identity.user_id !== 'string') {
+        throw this.createStandardError(
+          'server_error',
+          'Invalid Salesforce identity response: missing user_id',
+          {
+            stage: 'fetchIdentity',
+            issuer: this.issuer,
+            endpoint: 'identity_url',
+          }
+        );
+      }
+
+      const photos = asObject(identity.photos);
+      const profile = normalizeUserProfile({
+        ...identity,
+        sub: identity.user_id,
+        name: identity.display_name,
+        preferred_username: identity.username,
+        nickname: identity.nick_name,
+        given_name: identity.first_name,
+        family_name: identity.last_name,
+        picture: photos?.picture,
+      });
+
+      this.logger.debug('Salesforce identity fetched', {
+        stage: 'fetchIdentity',
+        issuer: this.issuer,
+        organizationId: identity.organization_id,
+      });
+
+      return profile;
+    } catch (error) {
+      this.logger.error('Salesforce identity request failed', {
+        stage: 'fetchIdentity',
+        issuer: this.issuer,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw if already normalized OAuthError
+      if (isNormalizedOAuthError(error)) {
+        throw error;
+      }
+
+      throw this.normalizeError(error, {
+        endpoint: 'identity_url',
+      });
+    }
+  }
+
+  /**
+   * GET the identity URL with the user's token
+   * @throws Error on 5xx responses so the request is retried
+   */
+  private get(identityUrl: string, accessToken: string) {
+    return this.executeWithResilience(
+      async () => {
+        const response = await fetch(identityUrl, {
+          method: 'GET',
+          headers: {
+            Accept: 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+        });
+        return readJsonResponse(response, 'Salesforce identity request');
+      },
+      { endpoint: 'identity_url', circuitKey: new URL(identityUrl).origin }
+    );
+  }
+
+  /**
+   * Build an OAuthError for a failed identity response
+   */
+  private identityError(response: JsonResponse): OAuthError {
+    const error =
+      response.status === 401 || response.status === 403
+        ? 'invalid_token'
+        : 'invalid_request';
+    return this.createStandardError(
+      error,
+      `Salesforce identity request failed: ${response.status} ${response.statusText}`,
+      {
+        stage: 'fetchIdentity',
+        issuer: this.issuer,
+        endpoint: 'identity_url',
+      }
+    );
+  }
+}
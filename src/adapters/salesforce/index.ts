@@ -0,0 +1,14 @@
+/**
+ * Salesforce Provider Adapter exports
+ */
+
+export { SalesforceProviderAdapter } from './salesforce-adapter.js';
+export {
+  validate as validateSalesforceConfig,
+  safeValidate as safeValidateSalesforceConfig,
+  SalesforceProviderConfigSchema,
+} from './config.js';
+export type {
+  SalesforceProviderConfig,
+  SalesforceTokenResponse,
+} from './types.js';
@@ -0,0 +1,222 @@
+/**
+ * Salesforce Provider Adapter unit tests
+ */
+
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { SalesforceProviderAdapter } from './salesforce-adapter.js';
+import type { SalesforceProviderConfig } from './types.js';
+import {
+  expectOAuthError,
+  setupSinonStubs,
+} from '../../testUtils/testHelpers.js';
+import { jsonResponse, stubProviderFetch } from '../../testUtils/fetch.js';
+import { ResilienceManager } from '../../utils/resilience-manager.js';
+
+describe('SalesforceProviderAdapter', function () {
+  let restoreStubs: () => void;
+  let fetchStub: sinon.SinonStub;
+
+  const redirectUrl = 'https://app.example.com/callback';
+  const identityUrl =
+    'https://login.salesforce.com/id/00Dxx0000001gPLEAY/005xx000001SwiUAAS';
+
+  const buildMetadata = (issuer: string) => ({
+    issuer,
+    authorization_endpoint: `${issuer}/services/oauth2/authorize`,
+    token_endpoint: `${issuer}/services/oauth2/token`,
+    userinfo_endpoint: `${issuer}/services/oauth2/userinfo`,
+    revocation_endpoint: `${issuer}/services/oauth2/revoke`,
+    grant_types_supported: [
+      'authorization_code',
+      'refresh_token',
+      'client_credentials',
+    ],
+  });
+  const metadata = buildMetadata('https://login.salesforce.com');
+
+  // Signed with HMAC-SHA256 over the identity URL and issued_at using `client-secret`
+  const tokenFields = {
+    access_token: '00Dxx0000001gPL!access-token',
+    instance_url: 'https://acme.my.salesforce.com',
+    id: identityUrl,
+    token_type: 'Bearer',
+    issued_at: '1278448832702',
+    signature: 'Xqv9nbnCozBzyrf6tN8c/2/jMNgLQ8LQXT40lDfGcog=',
+    scope: 'api refresh_token openid',
+  };
+
+  const stubSalesforce = (token: Record<string, unknown> = tokenFields) =>
+    stubProviderFetch(fetchStub, {
+      discovery: Object.fromEntries(
+        [
+          'login.salesforce.com',
+          'test.salesforce.com',
+          'acme.my.salesforce.com',
+        ].map((host) => [
+          `https://${host}/.well-known/openid-configuration`,
+          buildMetadata(`https://${host}`),
+        ])
+      ),
+      routes: {
+        [metadata.token_endpoint]: () => jsonResponse(token),
+        [identityUrl]: () =>
+          jsonResponse({
+            user_id: '005xx000001SwiUAAS',
+            organization_id: '00Dxx0000001gPLEAY',
+            display_name: 'Ada Admin',
+          }),
+      },
+    });
+
+  const createAdapter = async (
+    config: Partial<SalesforceProviderConfig> = {}
+  ) => {
+    const adapter = new SalesforceProviderAdapter({
+      clientId: '3MVG9consumer-key',
+      clientSecret: 'client-secret',
+      ...config,
+    });
+    await adapter.initialize();
+    return adapter;
+  };
+
+  beforeEach(function () {
+    restoreStubs = setupSinonStubs();
+    fetchStub = sinon.stub(global, 'fetch');
+  });
+
+  afterEach(function () {
+    restoreStubs();
+    ResilienceManager.resetAllCircuits();
+  });
+
+  describe('initialize', function () {
+    it('should use the production login host by default', async function () {
+      stubSalesforce();
+      const adapter = await createAdapter();
+
+      const url = new URL(
+        await adapter.generateAuthUrl('state-123', redirectUrl)
+      );
+
+      expect(adapter.providerName).to.equal('salesforce');
+      expect(`${url.origin}${url.pathname}`).to.equal(
+        metadata.authorization_endpoint
+      );
+    });
+
+    it('should use the sandbox and My Domain login hosts', async function () {
+      stubSalesforce();
+      const sandbox = await createAdapter({ sandbox: true });
+      const myDomain = await createAdapter({
+        myDomain: 'acme.my.salesforce.com',
+      });
+
+      expect(sandbox.getProviderMetadata()?.issuer).to.equal(
+        'https://test.salesforce.com'
+      );
+      expect(myDomain.getProviderMetadata()?.issuer).to.equal(
+        'https://acme.my.salesforce.com'
+      );
+    });
+  });
+
+  describe('exchangeCode', function () {
+    it('should return the Salesforce fields as typed fields', async function () {
+      stubSalesforce();
+      const adapter = await createAdapter();
+
+      const tokens = await adapter.exchangeCode(
+        'code-123',
+        'verifier-123',
+        redirectUrl
+      );
+
+      expect(tokens).to.include({
+        accessToken: tokenFields.access_token,
+        instanceUrl: 'https://acme.my.salesforce.com',
+        identityUrl,
+        organizationId: '00Dxx0000001gPLEAY',
+        userId: '005xx000001SwiUAAS',
+        issuedAt: 1278448832702,
+      });
+      expect(tokens.userData).to.deep.equal({ token_type: 'Bearer' });
+    });
+
+    it('should reject responses with a signature that does not match', async function () {
+      stubSalesforce({
+        ...tokenFields,
+        id: identityUrl.replace('005xx000001SwiUAAS', '005xx000001OtherAA'),
+      });
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () => adapter.exchangeCode('code-123', 'verifier-123', redirectUrl),
+        'invalid_token',
+        'signature does not match'
+      );
+    });
+  });
+
+  describe('refreshToken', function () {
+    it('should keep the original refresh token when none is returned', async function () {
+      stubSalesforce();
+      const adapter = await createAdapter();
+
+      const tokens = await adapter.refreshToken('5Aep861refresh-token');
+
+      expect(tokens).to.include({
+        refreshToken: '5Aep861refresh-token',
+        instanceUrl: 'https://acme.my.salesforce.com',
+      });
+    });
+  });
+
+  describe('fetchIdentity', function () {
+    it('should fetch the identity URL', async function () {
+      stubSalesforce();
+      const adapter = await createAdapter();
+
+      const profile = await adapter.fetchIdentity('access-token', identityUrl);
+
+      expect(profile).to.include({
+        id: '005xx000001SwiUAAS',
+        name: 'Ada Admin',
+      });
+    });
+
+    it('should not send the token to other hosts', async function () {
+      stubSalesforce();
+      const adapter = await createAdapter();
+
+      await expectOAuthError(
+        () =>
+          adapter.fetchIdentity(
+            'access-token',
+            'https://attacker.example.com/id/00Dxx0000001gPLEAY/005xx000001SwiUAAS'
+          ),
+        'invalid_request',
+        'Not a Salesforce identity URL'
+      );
+      expect(
+        fetchStub
+          .getCalls()
+          .some(({ args }) => String(args[0]).includes('attacker'))
+      ).to.be.false;
+    });
+  });
+
+  describe('Provider Quirks', function () {
+    it('should not support resource indicators', async function () {
+      stubSalesforce();
+      const adapter = await createAdapter();
+
+      expect(adapter.getProviderQuirks()).to.deep.include({
+        supportsRefreshTokens: true,
+        supportsRevocation: true,
+        supportsResourceIndicators: false,
+      });
+    });
+  });
+});
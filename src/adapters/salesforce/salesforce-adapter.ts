@@ -0,0 +1,218 @@
+/**
+ * Salesforce Provider Adapter
+ * Extends the OIDC Provider Adapter with Salesforce login hosts, token
+ * response fields and identity URL lookup
+ */
+
+import type {
+  ProviderQuirks,
+  TokenResponse,
+  UserProfile,
+} from '../../types.js';
+import { OIDCProviderAdapter } from '../oidc-provider/oidc-adapter.js';
+import type {
+  ClientCredentialsOptions,
+  OIDCExchangeCodeOptions,
+  OIDCProviderConfig,
+  OIDCRefreshTokenOptions,
+} from '../oidc-provider/types.js';
+import type {
+  SalesforceProviderConfig,
+  SalesforceTokenResponse,
+} from './types.js';
+import { validate as validateConfig } from './config.js';
+import { SalesforceIdentityService } from './identity.js';
+import {
+  parseIdentityUrl,
+  resolveSalesforceLoginHost,
+  verifyTokenSignature,
+} from './utils.js';
+
+/**
+ * Salesforce Provider Adapter
+ *
+ * Salesforce token responses carry the instance to call the REST API on
+ * (`instance_url`), the user's identity URL (`id`), `issued_at` and a
+ * `signature` over both. The adapter returns them as typed fields, checks
+ * the signature when a client secret is configured, and keeps the original
+ * refresh token when a refresh response does not include one.
+ */
+export class SalesforceProviderAdapter extends OIDCProviderAdapter {
+  /** Provider name identifier */
+  public readonly providerName: string = 'salesforce';
+
+  /** Host users log in at */
+  private readonly loginHost: string;
+
+  /** Client secret, used to check token response signatures */
+  private readonly clientSecret?: string;
+
+  /** Identity URL service */
+  private readonly identityService: SalesforceIdentityService;
+
+  /**
+   * Creates a new Salesforce Provider Adapter instance
+   * @param config - Salesforce provider configuration
+   */
+  public constructor(config: SalesforceProviderConfig) {
+    // Validate the Salesforce settings; OIDC settings are validated by the base class
+    const { myDomain, sandbox, ...oidcConfig } = validateConfig(config);
+    const loginHost = resolveSalesforceLoginHost({ myDomain, sandbox });
+
+    super({
+      ...oidcConfig,
+      issuer: `https://${loginHost}`,
+    } as OIDCProviderConfig);
+
+    this.loginHost = loginHost;
+    if (config.clientSecret) {
+      this.clientSecret = config.clientSecret;
+    }
+    this.identityService = new SalesforceIdentityService(
+      `https://${loginHost}`,
+      this.logger,
+      this.createStandardError.bind(this),
+      this.normalizeError.bind(this),
+      this.executeWithResilience.bind(this)
+    );
+  }
+
+  /**
+   * Exchange authorization code for tokens
+   * @param code - Authorization code from callback
+   * @param verifier - PKCE code verifier
+   * @param redirectUrl - Redirect URL used in authorization
+   * @param options - ID token expectations (nonce, max_age)
+   * @returns Token response with the instance and identity URLs
+   * @throws {OAuthError} If the exchange fails or the response signature does not match
+   */
+  public async exchangeCode(
+    code: string,
+    verifier: string,
+    redirectUrl: string,
+    options: OIDCExchangeCodeOptions = {}
+  ): Promise<SalesforceTokenResponse> {
+    const tokens = await super.exchangeCode(
+      code,
+      verifier,
+      redirectUrl,
+      options
+    );
+    return this.toSalesforceTokenResponse(tokens, 'exchangeCode');
+  }
+
+  /**
+   * Refresh access token. Salesforce only returns a new refresh token when
+   * refresh token rotation is enabled, so the original one is carried over
+   * otherwise.
+   * @param refreshToken - Refresh token
+   * @param options - Resource indicators and narrowed scopes for the refreshed token
+   * @returns New token response, including the refresh token to use next time
+   */
+  public async refreshToken(
+    refreshToken: string,
+    options: OIDCRefreshTokenOptions = {}
+  ): Promise<SalesforceTokenResponse> {
+    const tokens = await super.refreshToken(refreshToken, options);
+    return this.toSalesforceTokenResponse(
+      tokens.refreshToken ? tokens : { ...tokens, refreshToken },
+      'refreshToken'
+    );
+  }
+
+  /**
+   * Obtain an access token for the connected app's integration user
+   * @param options - Scopes to request
+   * @returns Token response with the instance and identity URLs
+   */
+  public async clientCredentials(
+    options: ClientCredentialsOptions = {}
+  ): Promise<SalesforceTokenResponse> {
+    const tokens = await super.clientCredentials(options);
+    return this.toSalesforceTokenResponse(tokens, 'clientCredentials');
+  }
+
+  /**
+   * Fetch the user's identity from the identity URL of a token response
+   * @param accessToken - Access token issued with the `openid`, `id`,
+   * `profile` or `email` scope
+   * @param identityUrl - `identityUrl` of the token response
+   * @returns Normalized profile; `id` is the Salesforce user ID
+   * @throws {OAuthError} If the URL is not a Salesforce identity URL or the
+   * token is rejected
+   */
+  public async fetchIdentity(
+    accessToken: string,
+    identityUrl: string
+  ): Promise<UserProfile> {
+    if (!parseIdentityUrl(identityUrl, this.loginHost)) {
+      throw this.createStandardError(
+        'invalid_request',
+        `Not a Salesforce identity URL: ${identityUrl}`,
+        { stage: 'fetchIdentity' }
+      );
+    }
+
+    return this.identityService.fetchIdentity(accessToken, identityUrl);
+  }
+
+  /**
+   * Compute provider-specific capabilities and requirements
+   * @returns Provider quirks
+   */
+  protected computeProviderQuirks(): ProviderQuirks {
+    return {
+      ...super.computeProviderQuirks(),
+      supportsResourceIndicators: false,
+    };
+  }
+
+  /**
+   * Move the Salesforce fields out of `userData` and check the response
+   * signature
+   */
+  private toSalesforceTokenResponse(
+    tokens: TokenResponse,
+    stage: string
+  ): SalesforceTokenResponse {
+    const { userData: rawUserData, ...rest } = tokens;
+    const {
+      instance_url: instanceUrl,
+      id,
+      issued_at: issuedAt,
+      signature,
+      ...userData
+    } = rawUserData ?? {};
+
+    if (
+      this.clientSecret &&
+      typeof id === 'string' &&
+      typeof issuedAt === 'string' &&
+      typeof signature === 'string' &&
+      !verifyTokenSignature(
+        { id, issued_at: issuedAt, signature },
+        this.clientSecret
+      )
+    ) {
+      throw this.createStandardError(
+        'invalid_token',
+        'Salesforce token response signature does not match',
+        { stage }
+      );
+    }
+
+    const identity =
+      typeof id === 'string' ? parseIdentityUrl(id, this.loginHost) : undefined;
+    const issuedAtMs = Number(issuedAt);
+
+    return {
+      ...rest,
+      ...(typeof instanceUrl === 'string' && { instanceUrl }),
+      ...(typeof id === 'string' && { identityUrl: id }),
+      ...identity,
+      ...(typeof issuedAt === 'string' &&
+        Number.isFinite(issuedAtMs) && { issuedAt: issuedAtMs }),
+      ...(Object.keys(userData).length > 0 && { userData }),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Salesforce Provider Adapter types
+ */
+
+import type { TokenResponse } from '../../types.js';
+import type { OIDCProviderConfig } from '../oidc-provider/types.js';
+
+/**
+ * Salesforce Provider Adapter configuration
+ *
+ * The issuer is the login host, derived from `myDomain` and `sandbox`, so
+ * `issuer` and `metadata` cannot be set directly.
+ */
+export interface SalesforceProviderConfig extends Omit<
+  OIDCProviderConfig,
+  'issuer' | 'metadata' | 'scopes'
+> {
+  /**
+   * My Domain login host, e.g. `acme.my.salesforce.com` or
+   * `acme--uat.sandbox.my.salesforce.com`. When unset, users log in at
+   * `login.salesforce.com` (or `test.salesforce.com` for sandboxes).
+   */
+  myDomain?: string;
+  /** Log in to sandboxes at `test.salesforce.com` (default: false) */
+  sandbox?: boolean;
+  /** Scopes to request (default: openid, api and refresh_token) */
+  scopes?: string[];
+}
+
+/**
+ * Salesforce token response with the Salesforce-specific fields
+ */
+export interface SalesforceTokenResponse extends TokenResponse {
+  /** Instance to send REST API requests to, e.g. `https://acme.my.salesforce.com` */
+  instanceUrl?: string;
+  /** Identity URL of the user, e.g. `https://login.salesforce.com/id/<orgId>/<userId>` */
+  identityUrl?: string;
+  /** Organization ID, read from the identity URL */
+  organizationId?: string;
+  /** User ID, read from the identity URL */
+  userId?: string;
+  /** Time the token was issued (milliseconds since epoch) */
+  issuedAt?: number;
+}
@@ -0,0 +1,101 @@
+/**
+ * Salesforce utilities unit tests
+ */
+
+import { expect } from 'chai';
+import {
+  parseIdentityUrl,
+  resolveSalesforceLoginHost,
+  verifyTokenSignature,
+} from './utils.js';
+
+describe('Salesforce utils', function () {
+  const identityUrl =
+    'https://login.salesforce.com/id/00Dxx0000001gPLEAY/005xx000001SwiUAAS';
+
+  describe('resolveSalesforceLoginHost', function () {
+    it('should resolve production, sandbox and My Domain hosts', function () {
+      expect(resolveSalesforceLoginHost({})).to.equal('login.salesforce.com');
+      expect(resolveSalesforceLoginHost({ sandbox: true })).to.equal(
+        'test.salesforce.com'
+      );
+      expect(
+        resolveSalesforceLoginHost({ myDomain: 'acme.my.salesforce.com' })
+      ).to.equal('acme.my.salesforce.com');
+    });
+  });
+
+  describe('parseIdentityUrl', function () {
+    it('should read the organization and user IDs', function () {
+      expect(
+        parseIdentityUrl(identityUrl, 'login.salesforce.com')
+      ).to.deep.equal({
+        organizationId: '00Dxx0000001gPLEAY',
+        userId: '005xx000001SwiUAAS',
+      });
+    });
+
+    it('should accept the configured custom login host', function () {
+      expect(
+        parseIdentityUrl(
+          'https://login.acme.com/id/00Dxx0000001gPL/005xx000001SwiU',
+          'login.acme.com'
+        )
+      ).to.deep.equal({
+        organizationId: '00Dxx0000001gPL',
+        userId: '005xx000001SwiU',
+      });
+    });
+
+    it('should reject untrusted hosts, plain HTTP and other paths', function () {
+      expect(
+        parseIdentityUrl(
+          'https://attacker.example.com/id/00Dxx0000001gPLEAY/005xx000001SwiUAAS',
+          'login.salesforce.com'
+        )
+      ).to.be.undefined;
+      expect(
+        parseIdentityUrl(
+          identityUrl.replace('https:', 'http:'),
+          'login.salesforce.com'
+        )
+      ).to.be.undefined;
+      expect(
+        parseIdentityUrl(
+          'https://login.salesforce.com/services/oauth2/userinfo',
+          'login.salesforce.com'
+        )
+      ).to.be.undefined;
+      expect(parseIdentityUrl('not a url', 'login.salesforce.com')).to.be
+        .undefined;
+    });
+  });
+
+  describe('verifyTokenSignature', function () {
+    const response = {
+      id: identityUrl,
+      issued_at: '1278448832702',
+      signature: 'Xqv9nbnCozBzyrf6tN8c/2/jMNgLQ8LQXT40lDfGcog=',
+    };
+
+    it('should accept signatures made with the client secret', function () {
+      expect(verifyTokenSignature(response, 'client-secret')).to.be.true;
+    });
+
+    it('should reject modified responses and other secrets', function () {
+      expect(
+        verifyTokenSignature(
+          { ...response, issued_at: '1278448832703' },
+          'client-secret'
+        )
+      ).to.be.false;
+      expect(verifyTokenSignature(response, 'other-secret')).to.be.false;
+      expect(
+        verifyTokenSignature(
+          { ...response, signature: 'c2hvcnQ=' },
+          'client-secret'
+        )
+      ).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Shared utilities for Salesforce Provider Adapter
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Constants for Salesforce login hosts and identity URLs
+ */
+export const SALESFORCE_CONSTANTS = {
+  PRODUCTION_LOGIN_HOST: 'login.salesforce.com',
+  SANDBOX_LOGIN_HOST: 'test.salesforce.com',
+  HOST_SUFFIX: '.salesforce.com',
+  DOMAIN_PATTERN: /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/,
+  // `/id/<organization ID>/<user ID>`, with 15 or 18 character IDs
+  IDENTITY_PATH_PATTERN:
+    /^\/id\/([A-Za-z0-9]{15}(?:[A-Za-z0-9]{3})?)\/([A-Za-z0-9]{15}(?:[A-Za-z0-9]{3})?)$/,
+} as const;
+
+/**
+ * Resolve the login host users authenticate at
+ * @param options - My Domain host and sandbox flag
+ */
+export function resolveSalesforceLoginHost(options: {
+  myDomain?: string | undefined;
+  sandbox?: boolean | undefined;
+}): string {
+  if (options.myDomain) {
+    return options.myDomain;
+  }
+  return options.sandbox
+    ? SALESFORCE_CONSTANTS.SANDBOX_LOGIN_HOST
+    : SALESFORCE_CONSTANTS.PRODUCTION_LOGIN_HOST;
+}
+
+/**
+ * Read the organization and user IDs from an identity URL. Only HTTPS URLs
+ * on the login host or a Salesforce host are accepted, since the access
+ * token is sent to the identity URL.
+ * @param identityUrl - `id` field of a token response
+ * @param loginHost - Configured login host
+ * @returns The IDs, or undefined when the URL is not a Salesforce identity URL
+ */
+export function parseIdentityUrl(
+  identityUrl: string,
+  loginHost: string
+): { organizationId: string; userId: string } | undefined {
+  if (!URL.canParse(identityUrl)) {
+    return undefined;
+  }
+
+  const url = new URL(identityUrl);
+  const trustedHost =
+    url.host === loginHost ||
+    url.hostname.endsWith(SALESFORCE_CONSTANTS.HOST_SUFFIX);
+  const match = url.pathname.match(SALESFORCE_CONSTANTS.IDENTITY_PATH_PATTERN);
+  if (url.protocol !== 'https:' || !trustedHost || !match) {
+    return undefined;
+  }
+
+  return { organizationId: match[1]!, userId: match[2]! };
+}
+
+/**
+ * Check the `signature` of a token response: a Base64 HMAC-SHA256 of the
+ * identity URL followed by `issued_at`, keyed with the client secret
+ * @param response - Identity URL, issued_at and signature from the response
+ * @param clientSecret - Client secret of the connected app
+ */
+export function verifyTokenSignature(
+  response: { id: string; issued_at: string; signature: string },
+  clientSecret: string
+): boolean {
+  const expected = createHmac('sha256', clientSecret)
+    .update(`${response.id}${response.issued_at}`)
+    .digest();
+  const actual = Buffer.from(response.signature, 'base64');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
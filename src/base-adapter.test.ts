@@ -317,6 +317,22 @@ describe('BaseOAuthAdapter', () => {
     });
   });
 
+  describe('revokeToken', () => {
+    it('throws a normalized error by default', async () => {
+      const adapter = new RefreshTokenTestAdapter(mockConfig, true);
+      try {
+        await adapter.revokeToken('token', 'refresh_token');
+        expect.fail('Expected to throw');
+      } catch (err) {
+        const e = err as OAuthError;
+        expect(e.statusCode).to.equal(400);
+        expect(e.error).to.equal('invalid_request');
+        expect(e.error_description).to.match(/not supported/i);
+        expect(e.issuer).to.equal('https://example.com');
+      }
+    });
+  });
+
   describe('getProviderQuirks', () => {
     it('memoizes computeProviderQuirks across calls', () => {
       const cfg: ProviderConfig = {
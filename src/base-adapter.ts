@@ -1,8 +1,10 @@
 import type {
   OAuthError,
+  PKCEStorageHook,
   ProviderConfig,
   TokenResponse,
   ProviderQuirks,
+  TokenTypeHint,
 } from './types.js';
 import { ErrorNormalizer } from './utils/error-normalizer.js';
 import {
@@ -30,12 +32,18 @@ const MCP_OAUTH_REDACTION_PATHS = [
   // Provider metadata
   'metadata.client_secret',
   'config.clientSecret',
+  'clientAuthentication.privateKey',
+  'config.clientAuthentication.privateKey',
+  'clientAuthentication.mtls.key',
+  'config.clientAuthentication.mtls.key',
+  'dpop.privateKey',
+  'config.dpop.privateKey',
 ];
 
 /**
  * Abstract base class that all OAuth provider adapters must implement.
  * Establishes the core contract for initialization, authorization URL generation,
- * token exchange, and refresh.
+ * token exchange, refresh, and (optionally) revocation.
  */
 export abstract class BaseOAuthAdapter {
   /**
@@ -202,6 +210,27 @@ export abstract class BaseOAuthAdapter {
    */
   public abstract refreshToken(refreshToken: string): Promise<TokenResponse>;
 
+  /**
+   * Revoke an access or refresh token (RFC 7009).
+   * Optional: the default implementation throws a normalized {@link OAuthError}.
+   * Subclasses for providers with a revocation endpoint should override this and
+   * report support via {@link ProviderQuirks.supportsRevocation}.
+   *
+   * @param _token - The token to revoke
+   * @param _tokenTypeHint - Optional hint about the type of token being revoked
+   * @throws OAuthError if revocation is unsupported or the provider rejects the request
+   */
+  public async revokeToken(
+    _token: string,
+    _tokenTypeHint?: TokenTypeHint
+  ): Promise<void> {
+    throw this.createStandardError(
+      'invalid_request',
+      'Token revocation is not supported by this provider',
+      { stage: 'revokeToken', endpoint: '/revoke' }
+    );
+  }
+
   /**
    * Return provider-specific capability flags and quirks. Lazily memoizes
    * the result of {@link computeProviderQuirks}. This method performs no
@@ -276,6 +305,113 @@ export abstract class BaseOAuthAdapter {
     return storageHook;
   }
 
+  /**
+   * Validate the PKCE storage hook contract and perform a lightweight health check
+   *
+   * @param hook - The storage hook to validate
+   * @throws {OAuthError} If a required method is missing or the health check fails
+   */
+  protected async validateStorageHook(hook: PKCEStorageHook): Promise<void> {
+    const hasMethods =
+      hook &&
+      typeof hook.storePKCEState === 'function' &&
+      typeof hook.retrievePKCEState === 'function' &&
+      typeof hook.cleanupExpiredState === 'function';
+    if (!hasMethods) {
+      throw this.createStandardError(
+        'invalid_request',
+        'storageHook must implement storePKCEState, retrievePKCEState, and cleanupExpiredState',
+        { stage: 'initialize' }
+      );
+    }
+
+    for (const method of ['deletePKCEState', 'consumePKCEState'] as const) {
+      if (hook[method] !== undefined && typeof hook[method] !== 'function') {
+        throw this.createStandardError(
+          'invalid_request',
+          `storageHook.${method} must be a function when provided`,
+          { stage: 'initialize' }
+        );
+      }
+    }
+
+    // Lightweight health check: ensure cleanupExpiredState resolves
+    try {
+      await hook.cleanupExpiredState(Date.now());
+    } catch (e) {
+      throw this.normalizeError(e, {
+        endpoint: 'storageHook.cleanupExpiredState',
+      });
+    }
+  }
+
+  /**
+   * Look up the PKCE verifier stored for a callback state and delete it so it
+   * cannot be reused. Uses the hook's atomic consumePKCEState when available;
+   * otherwise the state is deleted with deletePKCEState before the verifier
+   * is returned.
+   *
+   * @param hook - The storage hook the state was stored in
+   * @param state - OAuth state parameter from the callback
+   * @returns The stored PKCE code verifier
+   * @throws {OAuthError} If the hook can delete state with neither method,
+   *   the state is unknown or expired, or storage fails
+   */
+  protected async consumePKCEState(
+    hook: PKCEStorageHook,
+    state: string
+  ): Promise<string> {
+    let codeVerifier: string | null;
+    // Adapters store the state under its own value as interactionId
+    if (hook.consumePKCEState) {
+      try {
+        codeVerifier = await hook.consumePKCEState(state, state);
+      } catch (error) {
+        throw this.normalizeError(error, {
+          endpoint: 'storageHook.consumePKCEState',
+        });
+      }
+    } else if (hook.deletePKCEState) {
+      try {
+        codeVerifier = await hook.retrievePKCEState(state, state);
+      } catch (error) {
+        throw this.normalizeError(error, {
+          endpoint: 'storageHook.retrievePKCEState',
+        });
+      }
+
+      if (codeVerifier) {
+        try {
+          await hook.deletePKCEState(state);
+        } catch (error) {
+          throw this.normalizeError(error, {
+            endpoint: 'storageHook.deletePKCEState',
+          });
+        }
+      }
+    } else {
+      throw this.createStandardError(
+        'invalid_request',
+        'storageHook must implement consumePKCEState or deletePKCEState to handle callbacks',
+        { stage: 'handleCallback' }
+      );
+    }
+
+    if (!codeVerifier) {
+      this.logger.warn('Authorization callback state is unknown or expired', {
+        stage: 'handleCallback',
+        state,
+      });
+      throw this.createStandardError(
+        'invalid_request',
+        'Unknown or expired authorization state',
+        { stage: 'handleCallback' }
+      );
+    }
+
+    return codeVerifier;
+  }
+
   /**
    * Create a standardized OAuth error with consistent structure.
    * Helper method for subclasses to create well-formed errors.
@@ -146,12 +146,26 @@ export const moduleData = {
     'version',
     'BaseOAuthAdapter',
     'OIDCProviderAdapter',
+    'GitHubProviderAdapter',
+    'EntraProviderAdapter',
+    'GoogleProviderAdapter',
+    'OktaProviderAdapter',
+    'Auth0ProviderAdapter',
+    'SalesforceProviderAdapter',
+    'HerokuProviderAdapter',
     'default',
   ],
   expectedTypes: {
     version: 'string',
     BaseOAuthAdapter: 'function',
     OIDCProviderAdapter: 'function',
+    GitHubProviderAdapter: 'function',
+    EntraProviderAdapter: 'function',
+    GoogleProviderAdapter: 'function',
+    OktaProviderAdapter: 'function',
+    Auth0ProviderAdapter: 'function',
+    SalesforceProviderAdapter: 'function',
+    HerokuProviderAdapter: 'function',
     default: 'object',
   },
 };
@@ -13,12 +13,16 @@ export { BaseOAuthAdapter } from './base-adapter.js';
 export type {
   ProviderConfig,
   TokenResponse,
+  IdTokenClaims,
+  UserProfile,
   OAuthError,
   ProviderQuirks,
+  TokenTypeHint,
 } from './types.js';
 
 // Export utilities
 export { ErrorNormalizer } from './utils/error-normalizer.js';
+export { normalizeUserProfile } from './utils/user-profile.js';
 
 // Export logging utilities
 export type { Logger, LogMeta, LogTransport } from './logging/types.js';
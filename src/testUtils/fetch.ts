@@ -0,0 +1,65 @@
+/**
+ * Fetch test utilities
+ * Builds JSON responses and routes stubbed fetch calls to provider fixtures
+ */
+
+import type sinon from 'sinon';
+import type { JWK } from '../adapters/oidc-provider/jwt.js';
+import { jwksResponse } from './jwt.js';
+
+/**
+ * Provider fixtures served by {@link stubProviderFetch}
+ */
+export interface ProviderFetchFixtures {
+  /** Provider metadata by discovery URL */
+  discovery: Record<string, Record<string, unknown>>;
+  /** Signing keys served at the `jwks_uri` of every discovered document */
+  keys?: JWK[];
+  /** Other responses by URL, e.g. the token endpoint */
+  routes?: Record<string, () => Response | Promise<Response>>;
+}
+
+/**
+ * Build a JSON response
+ * @param body - Value to serialize
+ * @param status - HTTP status (default: 200)
+ * @param headers - Additional response headers
+ */
+export function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Route a stubbed global fetch to provider discovery, JWKS and endpoint
+ * fixtures. Other URLs get a 404 so discovery falls through to the next
+ * well-known document.
+ * @param fetchStub - Stub of the global fetch
+ * @param fixtures - Metadata, signing keys and extra routes
+ */
+export function stubProviderFetch(
+  fetchStub: sinon.SinonStub,
+  fixtures: ProviderFetchFixtures
+): void {
+  const jwksUris = new Set(
+    Object.values(fixtures.discovery).map((metadata) => metadata.jwks_uri)
+  );
+
+  fetchStub.callsFake(async (url: string) => {
+    const metadata = fixtures.discovery[url];
+    if (metadata) {
+      return jsonResponse(metadata);
+    }
+    if (fixtures.keys && jwksUris.has(url)) {
+      return jwksResponse(fixtures.keys);
+    }
+    const route = fixtures.routes?.[url];
+    return route ? route() : new Response(null, { status: 404 });
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * JWT test utilities
+ * Generates throwaway signing keys and signs compact JWTs for verification tests
+ */
+
+import {
+  constants,
+  createHmac,
+  generateKeyPairSync,
+  sign,
+  type KeyObject,
+} from 'node:crypto';
+import type { JWK } from '../adapters/oidc-provider/jwt.js';
+
+/**
+ * Asymmetric test signing key with its public JWK
+ */
+export interface TestSigningKey {
+  /** JWS algorithm the key signs with */
+  alg: string;
+  /** Private key used for signing */
+  privateKey: KeyObject;
+  /** Public JWK as it would appear in a provider JWKS */
+  jwk: JWK;
+}
+
+/**
+ * Generate an asymmetric signing key for a JWS algorithm
+ * @param alg - RS256, PS256, ES256 or EdDSA
+ * @param kid - Key identifier to publish in the JWK
+ */
+export function createTestSigningKey(
+  alg: 'RS256' | 'PS256' | 'ES256' | 'EdDSA' = 'RS256',
+  kid = 'test-key-1'
+): TestSigningKey {
+  const { privateKey, publicKey } =
+    alg === 'ES256'
+      ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : alg === 'EdDSA'
+        ? generateKeyPairSync('ed25519')
+        : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    alg,
+    privateKey,
+    jwk: {
+      ...publicKey.export({ format: 'jwk' }),
+      kid,
+      alg,
+      use: 'sig',
+    } as JWK,
+  };
+}
+
+/**
+ * Sign a compact JWT with a test key or HMAC secret
+ * @param payload - Claims set
+ * @param key - Test signing key, or `{ alg, secret }` for HMAC
+ * @param header - Additional/overriding header parameters
+ */
+export function signTestJwt(
+  payload: Record<string, unknown>,
+  key: TestSigningKey | { alg: 'HS256'; secret: string },
+  header: Record<string, unknown> = {}
+): string {
+  const fullHeader = {
+    alg: key.alg,
+    typ: 'JWT',
+    ...('jwk' in key && { kid: key.jwk.kid }),
+    ...header,
+  };
+  const signingInput = `${encodeSegment(fullHeader)}.${encodeSegment(payload)}`;
+  const data = Buffer.from(signingInput);
+
+  let signature: Buffer;
+  if ('secret' in key) {
+    signature = createHmac('sha256', key.secret).update(data).digest();
+  } else if (key.alg === 'EdDSA') {
+    signature = sign(null, data, key.privateKey);
+  } else if (key.alg === 'ES256') {
+    signature = sign('sha256', data, {
+      key: key.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    });
+  } else if (key.alg === 'PS256') {
+    signature = sign('sha256', data, {
+      key: key.privateKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    });
+  } else {
+    signature = sign('sha256', data, key.privateKey);
+  }
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Build a fetch-compatible JSON response stub for JWKS requests
+ */
+export function jwksResponse(keys: JWK[]): {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  json: () => Promise<unknown>;
+} {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => ({ keys }),
+  };
+}
+
+function encodeSegment(value: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
@@ -0,0 +1,65 @@
+/**
+ * Service test utilities
+ * Builds the logger, error and resilience dependencies adapters pass to their
+ * provider services
+ */
+
+import sinon from 'sinon';
+import type { OAuthError } from '../types.js';
+import type { Logger } from '../logging/types.js';
+import { ErrorNormalizer } from '../utils/error-normalizer.js';
+import {
+  ResilienceManager,
+  type ResilienceContext,
+} from '../utils/resilience-manager.js';
+
+/**
+ * Dependencies shared by the provider services
+ */
+export interface ServiceDependencies {
+  /** Logger with stubbed methods */
+  logger: Logger & Record<'info' | 'debug' | 'warn' | 'error', sinon.SinonStub>;
+  /** Builds a normalized 400 error, like BaseOAuthAdapter.createStandardError */
+  createStandardError: (
+    error: string,
+    description: string,
+    context?: any
+  ) => OAuthError;
+  /** Normalizes errors for the issuer, like BaseOAuthAdapter.normalizeError */
+  normalizeError: (error: unknown, context?: any) => OAuthError;
+  /** Runs operations through ResilienceManager with normalized errors */
+  executeWithResilience: <T>(
+    operation: () => Promise<T>,
+    context: ResilienceContext
+  ) => Promise<T>;
+}
+
+/**
+ * Build the dependencies an adapter passes to its services
+ * @param issuer - Default issuer of normalized errors
+ */
+export function createServiceDependencies(
+  issuer?: string
+): ServiceDependencies {
+  const normalizeError = (error: unknown, context?: any) =>
+    ErrorNormalizer.normalizeError(error, context, issuer);
+
+  return {
+    logger: {
+      info: sinon.stub(),
+      debug: sinon.stub(),
+      warn: sinon.stub(),
+      error: sinon.stub(),
+    } as unknown as ServiceDependencies['logger'],
+    createStandardError: (error, description, context) =>
+      normalizeError(
+        { error, error_description: description, statusCode: 400 },
+        context
+      ),
+    normalizeError,
+    executeWithResilience: (operation, context) =>
+      ResilienceManager.executeWithResilience(operation, context, (e, c) =>
+        normalizeError(e, c)
+      ),
+  };
+}
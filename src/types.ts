@@ -30,10 +30,58 @@ export type TokenResponse = {
   idToken?: string;
   /** Token expiration time in seconds */
   expiresIn?: number;
+  /** Token type as issued, e.g. `Bearer` or `DPoP` */
+  tokenType?: string;
   /** Granted scopes (may differ from requested) */
   scope?: string;
   /** Additional user data from provider */
   userData?: Record<string, unknown>;
+  /** Verified ID token claims (present when the ID token was validated) */
+  idTokenClaims?: IdTokenClaims;
+};
+
+/**
+ * Provider-independent identity profile built from UserInfo claims
+ */
+export type UserProfile = {
+  /** Stable subject identifier (`sub`) */
+  id: string;
+  /** Email address */
+  email?: string;
+  /** Whether the provider has verified the email address */
+  emailVerified?: boolean;
+  /** Display name */
+  name?: string;
+  /** Profile picture URL */
+  picture?: string;
+  /** Group memberships (empty when the provider returns none) */
+  groups: string[];
+  /** All claims returned by the provider */
+  claims: Record<string, unknown>;
+};
+
+/**
+ * Claims of a validated OpenID Connect ID token
+ */
+export type IdTokenClaims = {
+  /** Issuer identifier */
+  iss: string;
+  /** Subject identifier */
+  sub: string;
+  /** Audience(s) the ID token is intended for */
+  aud: string | string[];
+  /** Expiration time (seconds since epoch) */
+  exp: number;
+  /** Issued-at time (seconds since epoch) */
+  iat: number;
+  /** Time of end-user authentication (seconds since epoch) */
+  auth_time?: number;
+  /** Nonce from the authorization request */
+  nonce?: string;
+  /** Authorized party */
+  azp?: string;
+  /** Additional claims */
+  [claim: string]: unknown;
 };
 
 /**
@@ -48,7 +96,27 @@ export type ProviderQuirks = {
   supportsRefreshTokens: boolean;
   /** List of custom parameter keys supported by the provider */
   customParameters: string[];
+  /** Whether the provider honours RFC 8707 resource indicators */
+  supportsResourceIndicators?: boolean;
+  /** Whether the provider exposes an RFC 7009 revocation endpoint */
+  supportsRevocation?: boolean;
+  /** Whether the provider accepts RFC 9126 pushed authorization requests */
+  supportsPushedAuthorization?: boolean;
+  /** Whether the provider supports the RFC 8628 device authorization grant */
+  supportsDeviceAuthorization?: boolean;
+  /** Whether the provider exposes an RP-initiated logout `end_session_endpoint` */
+  supportsLogout?: boolean;
+  /** Authorization parameters the provider requires before it issues refresh tokens */
+  refreshTokenParameters?: Record<string, string>;
+  /** Whether authorization requests can add scopes to an existing grant */
+  supportsIncrementalAuthorization?: boolean;
+  /** Whether refresh responses carry a new refresh token; when false the original one stays valid */
+  rotatesRefreshTokens?: boolean;
 };
+/**
+ * Token type hint for revocation requests (RFC 7009 §2.1)
+ */
+export type TokenTypeHint = 'access_token' | 'refresh_token';
 /**
  * Standardized OAuth error shape for consistent error handling
  */
@@ -64,3 +132,61 @@ export type OAuthError = {
   /** Provider issuer identifier */
   issuer?: string;
 };
+/**
+ * Storage hook interface for persisting PKCE state
+ */
+export interface PKCEStorageHook {
+  /**
+   * Store PKCE state for a given interaction
+   * @param interactionId - Unique interaction identifier
+   * @param state - OAuth state parameter
+   * @param codeVerifier - PKCE code verifier
+   * @param expiresAt - Expiration timestamp
+   */
+  storePKCEState(
+    interactionId: string,
+    state: string,
+    codeVerifier: string,
+    expiresAt: number
+  ): Promise<void>;
+
+  /**
+   * Retrieve PKCE state for verification
+   * @param interactionId - Unique interaction identifier
+   * @param state - OAuth state parameter to verify
+   * @returns PKCE code verifier if found and valid
+   */
+  retrievePKCEState(
+    interactionId: string,
+    state: string
+  ): Promise<string | null>;
+
+  /**
+   * Clean up expired PKCE state
+   * @param beforeTimestamp - Clean up entries before this timestamp
+   */
+  cleanupExpiredState(beforeTimestamp: number): Promise<void>;
+
+  /**
+   * Delete PKCE state once it has been used (optional)
+   * Called by handleCallback after retrievePKCEState so a code verifier can
+   * only be redeemed once. handleCallback requires either this method or
+   * consumePKCEState.
+   * @param interactionId - Unique interaction identifier
+   */
+  deletePKCEState?(interactionId: string): Promise<void>;
+
+  /**
+   * Retrieve and delete PKCE state in one atomic step (optional)
+   * Used by handleCallback instead of retrievePKCEState and deletePKCEState
+   * when present. Implement it for stores shared between processes (e.g. with
+   * Redis `GETDEL`) so concurrent callbacks cannot both redeem the verifier.
+   * @param interactionId - Unique interaction identifier
+   * @param state - OAuth state parameter to verify
+   * @returns PKCE code verifier if found and valid
+   */
+  consumePKCEState?(
+    interactionId: string,
+    state: string
+  ): Promise<string | null>;
+}
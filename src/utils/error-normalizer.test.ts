@@ -120,6 +120,80 @@ describe('ErrorNormalizer', () => {
     expect(normalized.error_description).to.equal('HTTP 418');
   });
 
+  describe('describeOAuthError', () => {
+    it('describes standard and token exchange error codes', () => {
+      expect(ErrorNormalizer.describeOAuthError('invalid_target')).to.equal(
+        'The requested audience or resource is invalid, unknown or not allowed'
+      );
+      expect(ErrorNormalizer.describeOAuthError('invalid_client')).to.equal(
+        'Client authentication failed'
+      );
+      expect(ErrorNormalizer.describeOAuthError('custom_error')).to.be
+        .undefined;
+      expect(ErrorNormalizer.describeOAuthError('toString')).to.be.undefined;
+    });
+
+    it('fills in missing descriptions on OAuth-shaped and Axios-style errors', () => {
+      const oauth = ErrorNormalizer.normalizeError(
+        { statusCode: 400, error: 'invalid_target' },
+        {}
+      );
+      const axios = ErrorNormalizer.normalizeError(
+        {
+          response: {
+            status: 400,
+            statusText: 'Bad Request',
+            data: { error: 'unsupported_token_type' },
+          },
+        },
+        {}
+      );
+
+      expect(oauth.error_description).to.equal(
+        'The requested audience or resource is invalid, unknown or not allowed'
+      );
+      expect(axios.error_description).to.equal(
+        'The authorization server does not support this token type'
+      );
+    });
+  });
+
+  describe('readErrorResponse', () => {
+    it('reads RFC 6749 error responses', () => {
+      expect(
+        ErrorNormalizer.readErrorResponse({
+          error: 'invalid_grant',
+          error_description: 'Code expired',
+        })
+      ).to.deep.equal({ error: 'invalid_grant', description: 'Code expired' });
+    });
+
+    it('reads Okta and Auth0 error payloads', () => {
+      expect(
+        ErrorNormalizer.readErrorResponse({
+          errorCode: 'E0000047',
+          errorSummary: 'API call exceeded rate limit',
+          errorLink: 'E0000047',
+        })
+      ).to.deep.equal({
+        error: 'E0000047',
+        description: 'API call exceeded rate limit',
+      });
+      expect(
+        ErrorNormalizer.readErrorResponse({
+          statusCode: 401,
+          error: 'Unauthorized',
+          message: 'Invalid token',
+        })
+      ).to.deep.equal({ error: 'Unauthorized', description: 'Invalid token' });
+    });
+
+    it('returns no members for bodies without an error', () => {
+      expect(ErrorNormalizer.readErrorResponse({})).to.deep.equal({});
+      expect(ErrorNormalizer.readErrorResponse(null)).to.deep.equal({});
+    });
+  });
+
   describe('mapStatusToOAuthError coverage', () => {
     const ctx = {};
 
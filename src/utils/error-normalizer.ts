@@ -2,6 +2,30 @@ import type { OAuthError } from '../types.js';
 import createError from 'http-errors';
 import { StatusCodes, ReasonPhrases } from 'http-status-codes';
 
+/**
+ * Default descriptions for OAuth error codes returned by authorization servers
+ * without an `error_description` (RFC 6749 §5.2, RFC 7009 §2.2.1, RFC 8693 §2.2.2)
+ */
+const OAUTH_ERROR_DESCRIPTIONS: Record<string, string> = {
+  invalid_request:
+    'The request is missing a required parameter or is otherwise malformed',
+  invalid_client: 'Client authentication failed',
+  invalid_grant:
+    'The provided grant or token is invalid, expired or revoked, or was issued to another client',
+  unauthorized_client: 'The client is not authorized to use this grant type',
+  unsupported_grant_type:
+    'The grant type is not supported by the authorization server',
+  invalid_scope: 'The requested scope is invalid, unknown or malformed',
+  invalid_target:
+    'The requested audience or resource is invalid, unknown or not allowed',
+  unsupported_token_type:
+    'The authorization server does not support this token type',
+  access_denied:
+    'The resource owner or authorization server denied the request',
+  temporarily_unavailable:
+    'The authorization server is temporarily unable to handle the request',
+};
+
 /**
  * Error creation using http-errors for standardized error objects
  */
@@ -80,6 +104,44 @@ export class ErrorNormalizer {
     ).withContext(errorContext);
   }
 
+  /**
+   * Describe a standard OAuth error code, for provider error responses that
+   * omit `error_description`
+   * @param error - OAuth error code, e.g. `invalid_target`
+   * @returns Default description, or undefined for unknown codes
+   */
+  static describeOAuthError(error: string): string | undefined {
+    return Object.hasOwn(OAUTH_ERROR_DESCRIPTIONS, error)
+      ? OAUTH_ERROR_DESCRIPTIONS[error]
+      : undefined;
+  }
+
+  /**
+   * Read the error code and description from a provider error response body.
+   * Besides the RFC 6749 §5.2 `error` and `error_description` members, reads
+   * the `errorCode`/`errorSummary` payloads Okta returns from some endpoints
+   * (e.g. `E0000047` when rate limited) and the `message` of Auth0 API errors.
+   * @param body - Parsed JSON response body
+   * @returns Error code and description, each undefined when absent
+   */
+  static readErrorResponse(body: unknown): {
+    error?: string;
+    description?: string;
+  } {
+    const obj = this.asObject(body);
+    const error =
+      this.readString(obj, 'error') || this.readString(obj, 'errorCode');
+    const description =
+      this.readString(obj, 'error_description') ||
+      this.readString(obj, 'errorSummary') ||
+      this.readString(obj, 'message');
+
+    return {
+      ...(error && { error }),
+      ...(description && { description }),
+    };
+  }
+
   /**
    * Try parsing as existing OAuth error shape
    */
@@ -94,7 +156,8 @@ export class ErrorNormalizer {
     if (error && typeof statusCode === 'number') {
       const description =
         this.readString(obj, 'error_description') ??
-        this.readString(obj, 'message');
+        this.readString(obj, 'message') ??
+        this.describeOAuthError(error);
       return buildError(statusCode, error, description);
     }
     return null;
@@ -119,6 +182,7 @@ export class ErrorNormalizer {
     let error = data ? this.readString(data, 'error') : undefined;
     const description =
       (data && this.readString(data, 'error_description')) ||
+      (error && this.describeOAuthError(error)) ||
       this.readString(response, 'statusText') ||
       this.getReasonPhrase(statusCode);
 
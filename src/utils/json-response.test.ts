@@ -0,0 +1,121 @@
+/**
+ * JSON response helper unit tests
+ */
+
+import { expect } from 'chai';
+import {
+  asObject,
+  readJsonObjectResponse,
+  readJsonResponse,
+  readNumber,
+  readString,
+  throwOnServerError,
+} from './json-response.js';
+import { jsonResponse } from '../testUtils/fetch.js';
+
+describe('JSON response helpers', () => {
+  describe('readJsonResponse', () => {
+    it('returns the status and parsed body', async () => {
+      const response = await readJsonResponse(
+        jsonResponse(['a', 'b'], 201),
+        'Test request'
+      );
+
+      expect(response).to.deep.equal({
+        ok: true,
+        status: 201,
+        statusText: '',
+        body: ['a', 'b'],
+      });
+    });
+
+    it('returns 4xx responses with a null body when it is not JSON', async () => {
+      const response = await readJsonResponse(
+        new Response('Not Found', { status: 404, statusText: 'Not Found' }),
+        'Test request'
+      );
+
+      expect(response).to.deep.equal({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        body: null,
+      });
+    });
+
+    it('throws on 5xx responses', async () => {
+      try {
+        await readJsonResponse(
+          new Response(null, {
+            status: 503,
+            statusText: 'Service Unavailable',
+          }),
+          'Test request'
+        );
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal(
+          'Test request failed: 503 Service Unavailable'
+        );
+      }
+    });
+  });
+
+  describe('readJsonObjectResponse', () => {
+    it('keeps JSON object bodies', async () => {
+      const response = await readJsonObjectResponse(
+        jsonResponse({ error: 'invalid_grant' }, 400),
+        'Test request'
+      );
+
+      expect(response.ok).to.be.false;
+      expect(response.body).to.deep.equal({ error: 'invalid_grant' });
+    });
+
+    it('drops bodies that are not JSON objects', async () => {
+      const response = await readJsonObjectResponse(
+        jsonResponse(['a']),
+        'Test request'
+      );
+
+      expect(response.body).to.be.null;
+    });
+  });
+
+  describe('throwOnServerError', () => {
+    it('accepts responses below 500', () => {
+      expect(() =>
+        throwOnServerError(new Response(null, { status: 401 }), 'Test')
+      ).to.not.throw();
+    });
+
+    it('throws with the request description and status', () => {
+      expect(() =>
+        throwOnServerError(
+          new Response(null, { status: 502, statusText: 'Bad Gateway' }),
+          'UserInfo request'
+        )
+      ).to.throw('UserInfo request failed: 502 Bad Gateway');
+    });
+  });
+
+  describe('field readers', () => {
+    const body = { name: 'ada', count: 3, nested: { a: 1 }, list: [1] };
+
+    it('narrows JSON objects', () => {
+      expect(asObject(body.nested)).to.equal(body.nested);
+      expect(asObject(body.list)).to.be.null;
+      expect(asObject(null)).to.be.null;
+      expect(asObject('text')).to.be.null;
+    });
+
+    it('reads typed fields', () => {
+      expect(readString(body, 'name')).to.equal('ada');
+      expect(readString(body, 'count')).to.be.undefined;
+      expect(readString(null, 'name')).to.be.undefined;
+      expect(readNumber(body, 'count')).to.equal(3);
+      expect(readNumber(body, 'name')).to.be.undefined;
+      expect(readNumber(null, 'count')).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * JSON response helpers shared by the provider adapters
+ * Reads provider responses and narrows fields of their JSON bodies
+ */
+
+/**
+ * Status and parsed JSON body of a provider response
+ */
+export interface JsonResponse<TBody = unknown> {
+  /** Whether the status is 2xx */
+  ok: boolean;
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText: string;
+  /** Parsed body; null when the body is empty or not JSON */
+  body: TBody | null;
+}
+
+/**
+ * Throw on 5xx responses so the request is retried
+ * @param response - Provider response
+ * @param description - Request name for the error, e.g. `UserInfo request`
+ */
+export function throwOnServerError(
+  response: Response,
+  description: string
+): void {
+  if (response.status >= 500) {
+    throw new Error(
+      `${description} failed: ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * Read the status and JSON body of a provider response
+ * @param response - Provider response
+ * @param description - Request name for errors, e.g. `GitHub API request`
+ * @returns Status and parsed body; 4xx responses are returned, not thrown
+ * @throws Error on 5xx responses so the request is retried
+ */
+export async function readJsonResponse(
+  response: Response,
+  description: string
+): Promise<JsonResponse> {
+  throwOnServerError(response, description);
+
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Empty (e.g. 204) or non-JSON body; handled by the caller
+  }
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    statusText: response.statusText,
+    body,
+  };
+}
+
+/**
+ * Read a provider response whose body is a JSON object
+ * @param response - Provider response
+ * @param description - Request name for errors, e.g. `Token introspection request`
+ * @returns Status and body; the body is null unless it is a JSON object
+ * @throws Error on 5xx responses so the request is retried
+ */
+export async function readJsonObjectResponse(
+  response: Response,
+  description: string
+): Promise<JsonResponse<Record<string, unknown>>> {
+  const result = await readJsonResponse(response, description);
+  return { ...result, body: asObject(result.body) };
+}
+
+/**
+ * Narrow a JSON value to an object
+ */
+export function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Read a string field from a response body
+ */
+export function readString(
+  body: Record<string, unknown> | null,
+  key: string
+): string | undefined {
+  const value = body?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read a numeric field from a response body
+ */
+export function readNumber(
+  body: Record<string, unknown> | null,
+  key: string
+): number | undefined {
+  const value = body?.[key];
+  return typeof value === 'number' ? value : undefined;
+}
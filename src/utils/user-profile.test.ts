@@ -0,0 +1,79 @@
+/**
+ * User profile normalization unit tests
+ */
+
+import { expect } from 'chai';
+import { normalizeUserProfile } from './user-profile.js';
+
+describe('normalizeUserProfile', () => {
+  it('maps standard claims', () => {
+    const claims = {
+      sub: 'user-123',
+      email: 'ada@example.com',
+      email_verified: true,
+      name: 'Ada Lovelace',
+      picture: 'https://example.com/ada.png',
+      locale: 'en-GB',
+    };
+
+    expect(normalizeUserProfile(claims)).to.deep.equal({
+      id: 'user-123',
+      email: 'ada@example.com',
+      emailVerified: true,
+      name: 'Ada Lovelace',
+      picture: 'https://example.com/ada.png',
+      groups: [],
+      claims,
+    });
+  });
+
+  it('accepts string email_verified values', () => {
+    expect(
+      normalizeUserProfile({ sub: 'u', email_verified: 'false' }).emailVerified
+    ).to.equal(false);
+    expect(
+      normalizeUserProfile({ sub: 'u', email_verified: 'true' }).emailVerified
+    ).to.equal(true);
+    expect(
+      normalizeUserProfile({ sub: 'u', email_verified: 'yes' })
+    ).to.not.have.property('emailVerified');
+  });
+
+  it('falls back to other name claims', () => {
+    expect(
+      normalizeUserProfile({ sub: 'u', given_name: 'Ada', family_name: 'King' })
+        .name
+    ).to.equal('Ada King');
+    expect(
+      normalizeUserProfile({ sub: 'u', family_name: 'King', nickname: 'ada' })
+        .name
+    ).to.equal('King');
+    expect(
+      normalizeUserProfile({ sub: 'u', preferred_username: 'ada@corp' }).name
+    ).to.equal('ada@corp');
+    expect(normalizeUserProfile({ sub: 'u', nickname: 'ada' }).name).to.equal(
+      'ada'
+    );
+    expect(normalizeUserProfile({ sub: 'u', name: ' ' })).to.not.have.property(
+      'name'
+    );
+  });
+
+  it('merges and deduplicates group claims', () => {
+    const profile = normalizeUserProfile({
+      sub: 'u',
+      groups: ['admins', 'devs'],
+      'cognito:groups': ['devs', 'ops'],
+      'https://example.com/groups': 'auditors',
+      'https://example.com/roles': ['not-a-group'],
+    });
+
+    expect(profile.groups).to.deep.equal(['admins', 'devs', 'ops', 'auditors']);
+  });
+
+  it('requires a sub claim', () => {
+    expect(() => normalizeUserProfile({ email: 'ada@example.com' })).to.throw(
+      'Claims do not include a sub claim'
+    );
+  });
+});
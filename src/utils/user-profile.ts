@@ -0,0 +1,113 @@
+import type { UserProfile } from '../types.js';
+import { readString } from './json-response.js';
+
+/**
+ * Claims carrying group memberships across providers: the de facto `groups`
+ * claim (Okta, Entra ID, Keycloak) and Cognito's `cognito:groups`.
+ * Auth0-style namespaced claims ending in `/groups` are matched separately.
+ */
+const GROUP_CLAIMS = ['groups', 'cognito:groups'];
+
+/**
+ * Map OpenID Connect claims (UserInfo response or ID token) to a
+ * provider-independent {@link UserProfile}
+ *
+ * - `emailVerified` accepts booleans and the string values some providers send
+ * - `name` falls back to `given_name`/`family_name`, `preferred_username`
+ *   and `nickname`
+ * - `groups` merges the known group claims, deduplicated
+ *
+ * @param claims - Claims including `sub`
+ * @returns Normalized profile; the original claims are kept in `claims`
+ * @throws {Error} If `sub` is missing
+ */
+export function normalizeUserProfile(
+  claims: Record<string, unknown>
+): UserProfile {
+  const id = readClaim(claims, 'sub');
+  if (!id) {
+    throw new Error('Claims do not include a sub claim');
+  }
+
+  const email = readClaim(claims, 'email');
+  const emailVerified = readBoolean(claims.email_verified);
+  const name = displayName(claims);
+  const picture = readClaim(claims, 'picture');
+
+  return {
+    id,
+    ...(email && { email }),
+    ...(emailVerified !== undefined && { emailVerified }),
+    ...(name && { name }),
+    ...(picture && { picture }),
+    groups: readGroups(claims),
+    claims,
+  };
+}
+
+/**
+ * Resolve the display name from the standard name claims
+ */
+function displayName(claims: Record<string, unknown>): string | undefined {
+  const name = readClaim(claims, 'name');
+  if (name) {
+    return name;
+  }
+
+  const parts = [
+    readClaim(claims, 'given_name'),
+    readClaim(claims, 'family_name'),
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return (
+    parts ||
+    readClaim(claims, 'preferred_username') ||
+    readClaim(claims, 'nickname')
+  );
+}
+
+/**
+ * Collect group names from the known group claims
+ */
+function readGroups(claims: Record<string, unknown>): string[] {
+  const groups = new Set<string>();
+
+  for (const [key, value] of Object.entries(claims)) {
+    if (!GROUP_CLAIMS.includes(key) && !/^https?:\/\/.+\/groups$/.test(key)) {
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    for (const group of values) {
+      if (typeof group === 'string' && group.length > 0) {
+        groups.add(group);
+      }
+    }
+  }
+
+  return [...groups];
+}
+
+/**
+ * Read a non-empty string claim
+ */
+function readClaim(
+  claims: Record<string, unknown>,
+  key: string
+): string | undefined {
+  const value = readString(claims, key);
+  return value && value.trim().length > 0 ? value : undefined;
+}
+
+/**
+ * Read a boolean claim, accepting `"true"`/`"false"` strings
+ */
+function readBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return undefined;
+}